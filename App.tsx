@@ -1,57 +1,183 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { Button } from './components/Button';
-import { TryOnState } from './types';
-import { processFile } from './utils';
-import { generateTryOn } from './services/geminiService';
+import { DrapeStyleSelector } from './components/DrapeStyleSelector';
+import { VariationControls } from './components/VariationControls';
+import { ResultGallery } from './components/ResultGallery';
+import { HistorySidebar } from './components/HistorySidebar';
+import { SareeCatalog } from './components/SareeCatalog';
+import { BatchResultsGrid } from './components/BatchResultsGrid';
+import { ErrorBanner } from './components/ErrorBanner';
+import { SettingsPanel } from './components/SettingsPanel';
+import { RefinementPanel } from './components/RefinementPanel';
+import { OutfitAccessoriesPanel } from './components/OutfitAccessoriesPanel';
+import { ComparisonViewer } from './components/ComparisonViewer';
+import { ExportDialog } from './components/ExportDialog';
+import { UsageDashboard } from './components/UsageDashboard';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { SareeAttributeTags } from './components/SareeAttributeTags';
+import { GroupTryOnPanel } from './components/GroupTryOnPanel';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { OfflineQueuePanel } from './components/OfflineQueuePanel';
+import {
+  AccessorySlot,
+  CatalogItem,
+  ExportSettings,
+  FaceCheck,
+  GenerationOptions,
+  GroupPerson,
+  HistoryEntry,
+  ImageFile,
+  LookVersion,
+  OutfitAccessories,
+  PromptSettings,
+  QueuedGeneration,
+  SareeAttributes,
+  StoredAccessories,
+  StoredGeneration,
+  StoredGroup,
+  TryOnResult,
+  TryOnState
+} from './types';
+import {
+  DEFAULT_BLOUSE_STYLE,
+  DEFAULT_DRAPE_STYLE,
+  EMPTY_ACCESSORIES,
+  getDrapeStyle,
+  MAX_JEWELLERY_IMAGES
+} from './constants';
+import { processFile, storedImageToImageFile, toStoredImage } from './utils';
+import { getTryOnProvider } from './services/tryOnProvider';
+import { DEFAULT_VARIATIONS, generateVariations, VariationRunOptions } from './services/variations';
+import {
+  deleteHistoryEntry,
+  exportHistoryEntries,
+  listHistoryEntries,
+  saveHistoryEntry
+} from './services/historyStore';
+import { DEFAULT_PREPROCESS_OPTIONS, ImagePipelineError } from './services/imagePipeline';
+import { extractGuidanceImages } from './services/imageEdits';
+import { classifyError, toAppError } from './services/errors';
+import { runWithLifecycle } from './services/requestLifecycle';
+import { BatchItemRunner } from './services/batchRunner';
+import {
+  loadExportSettings,
+  loadGenerationOptions,
+  loadPromptSettings,
+  normalizeGenerationOptions,
+  saveExportSettings,
+  saveGenerationOptions,
+  savePromptSettings
+} from './services/settingsStore';
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  promptTemplateRotation,
+  selectPromptTemplate,
+  selectPromptTemplateForTag
+} from './services/promptTemplates';
+import { generateWithFaceCheck } from './services/faceVerification';
+import { isOffline } from './services/offlineQueue';
+import { formatUsd } from './services/usageTracker';
+import {
+  createRootVersions,
+  createVersion,
+  findVersionForImage,
+  getVersionLabel,
+  getVersionPath
+} from './services/versionTree';
+import { useWardrobe } from './hooks/useWardrobe';
+import { useUsage } from './hooks/useUsage';
+import { useSareeAttributes } from './hooks/useSareeAttributes';
+import { useGroupTryOn } from './hooks/useGroupTryOn';
+import { useOfflineQueue } from './hooks/useOfflineQueue';
+import { useI18n } from './i18n/I18nProvider';
+import { createTranslator, Translator } from './i18n/translator';
+
+// "single" tries one saree; "wardrobe" runs one person against a saree catalog
+type TryOnMode = 'single' | 'wardrobe';
+
+// Settings that shape a generation and are stored with each history entry
+type GenerationSettings = Pick<TryOnState, 'drapeStyle' | 'blouseStyle' | 'variations' | 'generationOptions'> & {
+  sareeAttributes?: SareeAttributes | null;
+  group?: GroupPerson[] | null;
+};
+
+const provider = getTryOnProvider();
+
+// Prompt template panel and template ids on looks (see vite.config.ts)
+const DEV_TOOLS = process.env.TRYON_DEV_TOOLS === 'true';
+
+// Template ids that produced a set of looks, in first-use order
+const usedPromptTemplates = (results: { promptTemplateId?: string }[]) =>
+  Array.from(new Set(results.flatMap(result => result.promptTemplateId ?? [])));
+
+// Face verification compares a single face, so group try-ons skip it
+const withoutFaceCheck = (options: GenerationOptions): GenerationOptions => ({
+  ...options,
+  faceCheck: { ...options.faceCheck, enabled: false },
+});
+
+// Export filenames use the English look name so {look} stays a readable slug
+const filenameTranslator = createTranslator('en');
+
+const faceRerollNotice = ({ t }: Translator, attempt: number, check: FaceCheck, options: GenerationOptions) =>
+  t('notice.faceReroll', {
+    score: Math.round(check.score * 100),
+    threshold: Math.round(options.faceCheck.threshold * 100),
+    attempt: attempt + 1,
+    total: options.faceCheck.maxRerolls + 1,
+  });
 
 const App: React.FC = () => {
-  const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
+  const i18n = useI18n();
+  const { t, plural, errorMessage } = i18n;
   const [state, setState] = useState<TryOnState>({
     humanImage: null,
     sareeImage: null,
-    generatedImage: null,
+    accessories: EMPTY_ACCESSORIES,
+    blouseStyle: DEFAULT_BLOUSE_STYLE,
+    drapeStyle: DEFAULT_DRAPE_STYLE,
+    variations: DEFAULT_VARIATIONS,
+    generationOptions: loadGenerationOptions(),
+    generatedImages: [],
+    faceChecks: [],
+    favoriteIndex: null,
+    versions: [],
+    modelNotes: [],
+    historyId: null,
     isGenerating: false,
     error: null,
   });
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const usage = useUsage();
+  const sareeAnalysis = useSareeAttributes(state.sareeImage, provider.analyzeSaree);
+  const [mode, setMode] = useState<TryOnMode>('single');
+  const group = useGroupTryOn(mode === 'single' ? state.humanImage : null, provider.detectPeople);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const [isRefining, setIsRefining] = useState(false);
+  const [inspectIndex, setInspectIndex] = useState<number | null>(null);
+  const [exportIndex, setExportIndex] = useState<number | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [promptSettings, setPromptSettings] = useState<PromptSettings>(loadPromptSettings);
+  // Without the developer tools, stored edits are ignored and the default template runs
+  const activePromptSettings = DEV_TOOLS ? promptSettings : DEFAULT_PROMPT_SETTINGS;
+  const generationAbortRef = useRef<AbortController | null>(null);
 
-  // Check for API Key on mount
-  useEffect(() => {
-    const checkKey = async () => {
-      // Support for shared/deployed apps:
-      // If the API key is injected at build time or via environment variables, 
-      // we consider the app "connected" automatically.
-      if (process.env.API_KEY) {
-        setApiKeySelected(true);
-        return;
-      }
-
-      // Otherwise, check for dynamic selection via AI Studio extension
-      if (window.aistudio?.hasSelectedApiKey) {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        setApiKeySelected(hasKey);
-      } else {
-        setApiKeySelected(false);
-      }
-    };
-    checkKey();
-  }, []);
-
-  const handleConnect = async () => {
-    if (window.aistudio?.openSelectKey) {
-      try {
-        await window.aistudio.openSelectKey();
-        // Assume success if no error thrown, as per race condition mitigation instruction
-        setApiKeySelected(true);
-      } catch (e) {
-        console.error("Failed to select key", e);
-        setState(s => ({ ...s, error: "Failed to connect to Google Cloud. Please try again." }));
-      }
-    } else {
-      setState(s => ({ ...s, error: "AI Studio environment not detected. If you are running this locally, please set the API_KEY environment variable." }));
+  const refreshHistory = async () => {
+    try {
+      setHistory(await listHistoryEntries());
+    } catch (e) {
+      console.error("Failed to load history", e);
     }
   };
 
+  useEffect(() => {
+    refreshHistory();
+  }, []);
+
   const handleImageSelect = async (type: 'human' | 'saree', file: File) => {
     try {
       const processed = await processFile(file);
@@ -61,43 +187,591 @@ const App: React.FC = () => {
         error: null // clear errors on new upload
       }));
     } catch (e) {
-      setState(prev => ({ ...prev, error: "Failed to process image file." }));
+      // Validation errors from the preprocessing pipeline carry user-facing guidance
+      const message = e instanceof ImagePipelineError ? errorMessage(e) : t('error.imageFile');
+      setState(prev => ({ ...prev, error: { message } }));
     }
   };
 
-  const handleGenerate = async () => {
-    if (!state.humanImage || !state.sareeImage) return;
-    
-    // Safety check for API key
-    // We check both the process.env and the state flag
-    if (!process.env.API_KEY && !apiKeySelected) {
-        await handleConnect();
-        return; 
+  const handleAddAccessoryImages = async (slot: AccessorySlot, files: File[]) => {
+    try {
+      const processed = await Promise.all(files.map(file => processFile(file)));
+      setState(prev => ({
+        ...prev,
+        accessories: {
+          ...prev.accessories,
+          ...(slot === 'jewellery'
+            ? { jewellery: [...prev.accessories.jewellery, ...processed].slice(0, MAX_JEWELLERY_IMAGES) }
+            : { [slot]: processed[0] }),
+        },
+        error: null,
+      }));
+    } catch (e) {
+      const message = e instanceof ImagePipelineError ? errorMessage(e) : t('error.imageFile');
+      setState(prev => ({ ...prev, error: { message } }));
     }
+  };
+
+  const handleRemoveAccessoryImage = (slot: AccessorySlot, index: number) => {
+    setState(prev => ({
+      ...prev,
+      accessories: {
+        ...prev.accessories,
+        ...(slot === 'jewellery'
+          ? { jewellery: prev.accessories.jewellery.filter((_, i) => i !== index) }
+          : { [slot]: null }),
+      },
+    }));
+  };
 
-    setState(prev => ({ ...prev, isGenerating: true, error: null, generatedImage: null }));
+  // Runs every variation for the given inputs with the active prompt templates
+  const generateLooks = async (
+    human: ImageFile,
+    saree: ImageFile,
+    accessories: OutfitAccessories,
+    options: GenerationSettings,
+    runOptions: Omit<VariationRunOptions, 'promptTemplates'>
+  ): Promise<TryOnResult[]> => {
+    const isGroup = !!options.group?.length;
+    // The group prompt does not use marked saree details
+    const sareeGuidance = isGroup ? [] : await extractGuidanceImages(saree);
+    const promptTemplates = promptTemplateRotation(activePromptSettings);
+    return generateVariations(
+      provider,
+      {
+        human,
+        saree,
+        drapeStyle: options.drapeStyle,
+        options: isGroup ? withoutFaceCheck(options.generationOptions) : options.generationOptions,
+        sareeGuidance,
+        accessories,
+        blouseStyle: options.blouseStyle,
+        promptTemplate: promptTemplates[0],
+        sareeAttributes: options.sareeAttributes,
+        group: options.group,
+      },
+      options.variations,
+      { ...runOptions, promptTemplates }
+    );
+  };
+
+  const historyDetails = (results: TryOnResult[]) => ({
+    versions: results.map((result, index) => createVersion(index, null, null, result)),
+    faceChecks: results.map(result => result.faceCheck ?? null),
+    promptTemplateIds: usedPromptTemplates(results),
+  });
+
+  // Generates looks for the given inputs and records the outcome in history.
+  // Inputs are passed explicitly so history re-runs don't depend on pending state updates.
+  // Offline, the generation is queued instead and sent when the connection returns.
+  const runGeneration = async (
+    human: ImageFile,
+    saree: ImageFile,
+    accessories: OutfitAccessories,
+    options: GenerationSettings
+  ) => {
+    if (isOffline()) {
+      await queueGeneration(human, saree, accessories, options);
+      return;
+    }
+    setState(prev => ({ ...prev, isGenerating: true, error: null, generatedImages: [], faceChecks: [], favoriteIndex: null, versions: [], modelNotes: [], historyId: null }));
+    setActiveImageIndex(0);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
     try {
-      const resultImage = await generateTryOn(state.humanImage, state.sareeImage);
-      setState(prev => ({ ...prev, generatedImage: resultImage, isGenerating: false }));
-    } catch (error: any) {
-        // If error suggests auth issue, reset key state (unless it's hardcoded in env)
-        if ((error.message?.includes("Requested entity was not found") || error.message?.includes("API Key")) && !process.env.API_KEY) {
-            setApiKeySelected(false);
-            await handleConnect(); // Prompt again
+      const results = await generateLooks(
+        human,
+        saree,
+        accessories,
+        options,
+        {
+          signal: controller.signal,
+          lifecycle: {
+            onRetry: (attempt, error, delayMs) =>
+              setRetryNotice(t('notice.retrying', {
+                message: errorMessage(error),
+                seconds: Math.ceil(delayMs / 1000),
+                attempt: attempt + 1,
+              })),
+          },
+          onFaceReroll: (attempt, check) => setRetryNotice(faceRerollNotice(i18n, attempt, check, options.generationOptions)),
+          onResult: ({ image, report, faceCheck }) => {
+            setRetryNotice(null);
+            setState(prev => ({
+              ...prev,
+              generatedImages: [...prev.generatedImages, image],
+              faceChecks: [...prev.faceChecks, faceCheck ?? null],
+              modelNotes: Array.from(new Set([...prev.modelNotes, ...report.notes])),
+            }));
+          },
         }
-        setState(prev => ({ ...prev, isGenerating: false, error: error.message }));
+      );
+      const details = historyDetails(results);
+      setState(prev => ({ ...prev, isGenerating: false, versions: details.versions }));
+      const historyId = await recordHistory(human, saree, accessories, options, results.map(result => result.image), details);
+      setState(prev => ({ ...prev, historyId }));
+    } catch (e) {
+        const error = classifyError(e);
+        setState(prev => ({
+            ...prev,
+            isGenerating: false,
+            // Candidates that arrived before a cancel stay viewable and refinable
+            versions: createRootVersions(prev.generatedImages.length),
+            error: toAppError(error),
+        }));
+    } finally {
+        generationAbortRef.current = null;
+        setRetryNotice(null);
+    }
+  };
+
+  // Applies a follow-up instruction on top of the version shown in the gallery.
+  // The new image branches from that version, so earlier versions stay revertible.
+  const handleRefine = async (instruction: string) => {
+    const { humanImage, generatedImages, faceChecks, versions } = state;
+    const parent = findVersionForImage(versions, activeImageIndex);
+    const sareeImage = group.isActive ? group.firstSaree : state.sareeImage;
+    if (!humanImage || !sareeImage || !parent) return;
+    const generationOptions = group.isActive ? withoutFaceCheck(state.generationOptions) : state.generationOptions;
+
+    const path = getVersionPath(versions, parent.id);
+    const turns = path.map(version => ({
+      instruction: version.instruction,
+      image: generatedImages[version.imageIndex],
+      thoughtSignature: version.thoughtSignature,
+    }));
+
+    setIsRefining(true);
+    setState(prev => ({ ...prev, error: null }));
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
+    try {
+      const base = {
+        human: humanImage,
+        saree: sareeImage,
+        drapeStyle: state.drapeStyle,
+        options: generationOptions,
+        sareeGuidance: group.isActive ? [] : await extractGuidanceImages(sareeImage),
+        accessories: state.accessories,
+        blouseStyle: state.blouseStyle,
+        promptTemplate: selectPromptTemplateForTag(activePromptSettings, path[0]?.promptTemplateId),
+        sareeAttributes: group.isActive ? null : sareeAnalysis.attributes,
+        group: group.isActive ? group.people : null,
+      };
+      const result = await generateWithFaceCheck(
+        () => runWithLifecycle(
+          attemptSignal => provider.refineTryOn({ base, turns, instruction }, attemptSignal),
+          { signal: controller.signal }
+        ),
+        humanImage.previewUrl,
+        generationOptions.faceCheck,
+        (attempt, check) => setRetryNotice(faceRerollNotice(i18n, attempt, check, generationOptions))
+      );
+      const version = createVersion(generatedImages.length, parent.id, instruction, result);
+      const nextImages = [...generatedImages, result.image];
+      const nextFaceChecks = [...faceChecks, result.faceCheck ?? null];
+      const nextVersions = [...versions, version];
+      setState(prev => ({
+        ...prev,
+        generatedImages: nextImages,
+        faceChecks: nextFaceChecks,
+        versions: nextVersions,
+        modelNotes: Array.from(new Set([...prev.modelNotes, ...result.report.notes])),
+      }));
+      setActiveImageIndex(version.imageIndex);
+      await updateHistoryEntry(state.historyId, { outputs: nextImages, faceChecks: nextFaceChecks, versions: nextVersions });
+    } catch (e) {
+      const error = classifyError(e);
+      setState(prev => ({ ...prev, error: toAppError(error) }));
+    } finally {
+      generationAbortRef.current = null;
+      setIsRefining(false);
+      setRetryNotice(null);
+    }
+  };
+
+  const lookLabel = (index: number, translate = t) => {
+    const version = findVersionForImage(state.versions, index);
+    return version ? getVersionLabel(state.versions, version, translate) : translate('results.look', { look: index + 1 });
+  };
+
+  // On screen, developer builds also show which prompt template made each look
+  const galleryLabel = (index: number) => {
+    const templateId = findVersionForImage(state.versions, index)?.promptTemplateId;
+    return DEV_TOOLS && templateId ? `${lookLabel(index)} · ${templateId}` : lookLabel(index);
+  };
+
+  const handleSelectVersion = (version: LookVersion) => {
+    setActiveImageIndex(version.imageIndex);
+  };
+
+  const handleGenerationOptionsChange = (generationOptions: GenerationOptions) => {
+    setState(s => ({ ...s, generationOptions }));
+    saveGenerationOptions(generationOptions);
+  };
+
+  const handlePromptSettingsChange = (settings: PromptSettings) => {
+    setPromptSettings(settings);
+    savePromptSettings(settings);
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  // What the export metadata records about how a look was made
+  const exportDetails = (index: number) => {
+    const { generationOptions, faceChecks } = state;
+    const version = findVersionForImage(state.versions, index);
+    return {
+      provider: provider.id,
+      drapeStyle: state.drapeStyle,
+      blouseStyle: state.blouseStyle,
+      aspectRatio: generationOptions.aspectRatio,
+      imageSize: generationOptions.imageSize,
+      background: generationOptions.background.mode,
+      refinement: version?.instruction ?? null,
+      faceMatch: faceChecks[index] ? Math.round(faceChecks[index]!.score * 100) / 100 : null,
+    };
+  };
+
+  const handleCancel = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleAddGroupSaree = async (file: File) => {
+    try {
+      await group.addSaree(file);
+    } catch (e) {
+      const message = e instanceof ImagePipelineError ? errorMessage(e) : t('error.sareeFile');
+      setState(prev => ({ ...prev, error: { message } }));
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!state.humanImage) return;
+    if (group.isActive) {
+      if (!group.firstSaree) return;
+      await runGeneration(state.humanImage, group.firstSaree, state.accessories, { ...state, group: group.people });
+      return;
+    }
+    if (!state.sareeImage) return;
+    await runGeneration(state.humanImage, state.sareeImage, state.accessories, {
+      ...state,
+      sareeAttributes: sareeAnalysis.attributes,
+    });
+  };
+
+  const storeAccessories = async (
+    { blouse, jewellery, footwear }: OutfitAccessories,
+    maxDimension?: number
+  ): Promise<StoredAccessories> => ({
+    blouse: blouse ? await toStoredImage(blouse, maxDimension) : undefined,
+    jewellery: await Promise.all(jewellery.map(piece => toStoredImage(piece, maxDimension))),
+    footwear: footwear ? await toStoredImage(footwear, maxDimension) : undefined,
+  });
+
+  const storeGroup = async (people: GroupPerson[], maxDimension?: number): Promise<StoredGroup> => {
+    const sarees = Array.from(new Set(people.flatMap(person => person.saree ?? [])));
+    return {
+      people: people.map(({ box, saree }) => ({ box, saree: saree ? sarees.indexOf(saree) : null })),
+      sarees: await Promise.all(sarees.map(saree => toStoredImage(saree, maxDimension))),
+    };
+  };
+
+  // History keeps downscaled copies; queued generations keep full-size inputs
+  const storeGeneration = async (
+    human: ImageFile,
+    saree: ImageFile,
+    accessories: OutfitAccessories,
+    options: GenerationSettings,
+    maxDimension?: number
+  ): Promise<StoredGeneration> => ({
+    human: await toStoredImage(human, maxDimension),
+    saree: await toStoredImage(saree, maxDimension),
+    accessories: await storeAccessories(accessories, maxDimension),
+    drapeStyle: options.drapeStyle,
+    blouseStyle: options.blouseStyle,
+    variations: options.variations,
+    options: options.generationOptions,
+    sareeAttributes: options.sareeAttributes ?? undefined,
+    group: options.group?.length ? await storeGroup(options.group, maxDimension) : undefined,
+  });
+
+  const recordHistory = async (
+    human: ImageFile,
+    saree: ImageFile,
+    accessories: OutfitAccessories,
+    options: GenerationSettings,
+    outputs: string[],
+    details: Pick<HistoryEntry, 'versions' | 'faceChecks' | 'promptTemplateIds'> = {}
+  ): Promise<string | null> => {
+    try {
+      const entry: HistoryEntry = {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        ...await storeGeneration(human, saree, accessories, options),
+        outputs,
+        favoriteIndex: null,
+        ...details,
+        providerId: provider.id,
+      };
+      await saveHistoryEntry(entry);
+      await refreshHistory();
+      return entry.id;
+    } catch (e) {
+      // History is a convenience; never fail the try-on because of it
+      console.error("Failed to save history entry", e);
+      return null;
+    }
+  };
+
+  const queueGeneration = async (
+    human: ImageFile,
+    saree: ImageFile,
+    accessories: OutfitAccessories,
+    options: GenerationSettings
+  ) => {
+    try {
+      await offlineQueue.enqueue({
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        ...await storeGeneration(human, saree, accessories, options, DEFAULT_PREPROCESS_OPTIONS.maxDimension),
+        status: 'queued',
+        error: null,
+        historyId: null,
+      });
+      setState(prev => ({ ...prev, error: null }));
+    } catch (e) {
+      console.error("Failed to queue generation", e);
+      setState(prev => ({ ...prev, error: { message: t('error.queueFailed') } }));
+    }
+  };
+
+  // Sends a generation queued while offline; the looks go to history
+  const sendQueuedGeneration = async (item: QueuedGeneration, signal: AbortSignal): Promise<string | null> => {
+    const { human, saree, accessories, people } = await loadHistoryInputs(item);
+    const options: GenerationSettings = {
+      drapeStyle: item.drapeStyle,
+      blouseStyle: item.blouseStyle ?? DEFAULT_BLOUSE_STYLE,
+      variations: item.variations,
+      generationOptions: normalizeGenerationOptions(item.options ?? null),
+      sareeAttributes: item.sareeAttributes,
+      group: people,
+    };
+    const results = await generateLooks(human, saree, accessories, options, { signal });
+    return recordHistory(human, saree, accessories, options, results.map(result => result.image), historyDetails(results));
+  };
+
+  const offlineQueue = useOfflineQueue(sendQueuedGeneration);
+
+  const runWardrobeItem: BatchItemRunner = async (item, signal, onRetry) => {
+    if (!state.humanImage) throw new Error(t('error.personPhotoMissing'));
+    const human = state.humanImage;
+    const { accessories } = state;
+    const options: GenerationSettings = {
+      drapeStyle: state.drapeStyle,
+      blouseStyle: state.blouseStyle,
+      variations: { count: 1, mode: 'parallel' },
+      generationOptions: state.generationOptions,
+      sareeAttributes: item.attributes,
+    };
+    const request = {
+      human,
+      saree: item.image,
+      drapeStyle: options.drapeStyle,
+      options: options.generationOptions,
+      accessories,
+      blouseStyle: options.blouseStyle,
+      promptTemplate: selectPromptTemplate(activePromptSettings, activePromptSettings.templateId),
+      sareeAttributes: options.sareeAttributes,
+    };
+    const result = await runWithLifecycle(
+      attemptSignal => provider.generateTryOn(request, attemptSignal),
+      { signal, onRetry }
+    );
+    const { image } = result;
+    await recordHistory(human, item.image, accessories, options, [image], {
+      promptTemplateIds: usedPromptTemplates([result]),
+    });
+    return image;
+  };
+
+  const analyzeWardrobeItem = async (item: CatalogItem, signal?: AbortSignal): Promise<SareeAttributes> => {
+    const { attributes } = await runWithLifecycle(
+      attemptSignal => provider.analyzeSaree(item.image, attemptSignal),
+      { signal }
+    );
+    return attributes;
+  };
+
+  const wardrobe = useWardrobe(runWardrobeItem, analyzeWardrobeItem);
+
+  const handleAddCatalogFiles = async (files: File[]) => {
+    const failed = await wardrobe.addFiles(files);
+    if (failed > 0) {
+      setState(prev => ({ ...prev, error: { message: plural('error.catalogAdd', failed) } }));
+    }
+  };
+
+  const handleAnalyzeCatalog = async () => {
+    const failed = await wardrobe.analyzeMissing();
+    if (failed > 0) {
+      setState(prev => ({ ...prev, error: { message: plural('error.catalogAnalyse', failed) } }));
+    }
+  };
+
+  const handleRunWardrobe = async () => {
+    if (!state.humanImage) return;
+    setState(prev => ({ ...prev, error: null }));
+    await wardrobe.runAll();
+  };
+
+  const updateHistoryEntry = async (id: string | null, patch: Partial<HistoryEntry>) => {
+    const entry = history.find(h => h.id === id);
+    if (!entry) return;
+    try {
+      await saveHistoryEntry({ ...entry, ...patch });
+      await refreshHistory();
+    } catch (e) {
+      console.error("Failed to update history entry", e);
+    }
+  };
+
+  const handleFavoriteChange = async (favoriteIndex: number | null) => {
+    setState(s => ({ ...s, favoriteIndex }));
+    await updateHistoryEntry(state.historyId, { favoriteIndex });
+  };
+
+  const loadHistoryInputs = async (entry: StoredGeneration) => {
+    const stored = entry.accessories;
+    const [human, saree, blouse, footwear, jewellery] = await Promise.all([
+      storedImageToImageFile(entry.human),
+      storedImageToImageFile(entry.saree),
+      stored?.blouse ? storedImageToImageFile(stored.blouse) : null,
+      stored?.footwear ? storedImageToImageFile(stored.footwear) : null,
+      Promise.all((stored?.jewellery ?? []).map(piece => storedImageToImageFile(piece))),
+    ]);
+    const accessories: OutfitAccessories = { blouse, jewellery, footwear };
+    return { human, saree, accessories, ...await loadHistoryGroup(entry.group, saree) };
+  };
+
+  // Group sarees come back as new images; the one matching the entry's saree is
+  // mapped onto it so it is not offered twice
+  const loadHistoryGroup = async (stored: StoredGroup | undefined, saree: ImageFile) => {
+    if (!stored) return { people: [] as GroupPerson[], groupSarees: [] as ImageFile[] };
+    const loaded = (await Promise.all(stored.sarees.map(image => storedImageToImageFile(image))))
+      .map(image => image.base64 === saree.base64 ? saree : image);
+    const people: GroupPerson[] = stored.people.map(({ box, saree: index }) => ({
+      id: crypto.randomUUID(),
+      box,
+      saree: index === null ? null : loaded[index] ?? null,
+    }));
+    return { people, groupSarees: loaded.filter(image => image !== saree) };
+  };
+
+  // Brings back the saree tags and group assignment of an entry without new calls
+  const restoreHistoryAnalysis = (entry: HistoryEntry, inputs: Awaited<ReturnType<typeof loadHistoryInputs>>) => {
+    sareeAnalysis.restore(inputs.saree, entry.sareeAttributes ?? null);
+    group.restore(inputs.human, inputs.people, inputs.groupSarees);
+  };
+
+  const handleOpenHistory = async (entry: HistoryEntry) => {
+    try {
+      const inputs = await loadHistoryInputs(entry);
+      const { human, saree, accessories } = inputs;
+      restoreHistoryAnalysis(entry, inputs);
+      setState(prev => ({
+        ...prev,
+        humanImage: human,
+        sareeImage: saree,
+        accessories,
+        blouseStyle: entry.blouseStyle ?? DEFAULT_BLOUSE_STYLE,
+        drapeStyle: entry.drapeStyle,
+        variations: entry.variations,
+        generationOptions: normalizeGenerationOptions(entry.options ?? null),
+        generatedImages: entry.outputs,
+        faceChecks: entry.faceChecks ?? entry.outputs.map(() => null),
+        favoriteIndex: entry.favoriteIndex,
+        versions: entry.versions ?? createRootVersions(entry.outputs.length),
+        modelNotes: [],
+        historyId: entry.id,
+        error: null,
+      }));
+      setActiveImageIndex(entry.favoriteIndex ?? 0);
+      setIsHistoryOpen(false);
+    } catch (e) {
+      setState(prev => ({ ...prev, error: { message: t('error.historyOpen') } }));
+    }
+  };
+
+  const handleOpenQueued = async (historyId: string) => {
+    const entry = history.find(h => h.id === historyId);
+    if (entry && !state.isGenerating && !isRefining) await handleOpenHistory(entry);
+  };
+
+  const handleRerunHistory = async (entry: HistoryEntry) => {
+    try {
+      const inputs = await loadHistoryInputs(entry);
+      const { human, saree, accessories } = inputs;
+      const blouseStyle = entry.blouseStyle ?? DEFAULT_BLOUSE_STYLE;
+      const generationOptions = normalizeGenerationOptions(entry.options ?? null);
+      restoreHistoryAnalysis(entry, inputs);
+      setState(prev => ({
+        ...prev,
+        humanImage: human,
+        sareeImage: saree,
+        accessories,
+        blouseStyle,
+        drapeStyle: entry.drapeStyle,
+        variations: entry.variations,
+        generationOptions,
+      }));
+      setIsHistoryOpen(false);
+      await runGeneration(human, saree, accessories, {
+        drapeStyle: entry.drapeStyle,
+        blouseStyle,
+        variations: entry.variations,
+        generationOptions,
+        sareeAttributes: entry.sareeAttributes,
+        group: inputs.people,
+      });
+    } catch (e) {
+      setState(prev => ({ ...prev, error: { message: t('error.historyRerun') } }));
+    }
+  };
+
+  const handleDeleteHistory = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      if (state.historyId === entry.id) setState(prev => ({ ...prev, historyId: null }));
+      await refreshHistory();
+    } catch (e) {
+      setState(prev => ({ ...prev, error: { message: t('error.historyDelete') } }));
     }
   };
 
   const handleReset = () => {
-    setState({
+    setState(prev => ({
         humanImage: null,
         sareeImage: null,
-        generatedImage: null,
+        accessories: EMPTY_ACCESSORIES,
+        blouseStyle: prev.blouseStyle,
+        drapeStyle: prev.drapeStyle, // keep the preferred drape between looks
+        variations: prev.variations,
+        generationOptions: prev.generationOptions,
+        generatedImages: [],
+        faceChecks: [],
+        favoriteIndex: null,
+        versions: [],
+        modelNotes: [],
+        historyId: null,
         isGenerating: false,
         error: null
-    });
+    }));
   };
 
   return (
@@ -107,23 +781,43 @@ const App: React.FC = () => {
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-2xl font-serif font-bold text-stone-900">Saree<span className="text-rose-600">.AI</span></span>
-            <span className="hidden md:inline-block px-2 py-1 bg-stone-100 text-stone-500 text-xs tracking-widest uppercase rounded ml-2">Beta</span>
+            <span className="hidden md:inline-block px-2 py-1 bg-stone-100 text-stone-500 text-xs tracking-widest uppercase rounded ml-2">{t('app.beta')}</span>
           </div>
           
           <div className="flex items-center gap-4">
-             <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="text-xs text-stone-500 hover:text-rose-600 transition-colors hidden sm:block">
-                Pricing & Billing
-             </a>
-             {!apiKeySelected && (
-                 <Button variant="secondary" onClick={handleConnect} className="text-xs px-4 py-2">
-                    Connect Google Cloud
-                 </Button>
-             )}
-             {apiKeySelected && (
-                 <div className="flex items-center text-green-600 text-xs font-medium bg-green-50 px-3 py-1 rounded-full border border-green-200">
+             <LanguageSwitcher />
+             <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="flex items-center text-xs text-stone-600 hover:text-rose-600 transition-colors"
+             >
+                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                {t('header.history')}{history.length > 0 && ` (${i18n.formatNumber(history.length)})`}
+             </button>
+             <button
+                onClick={() => setIsUsageOpen(true)}
+                className={`text-xs transition-colors hidden sm:block ${
+                  usage.settings.dailyBudget !== null && (usage.today?.cost ?? 0) >= usage.settings.dailyBudget
+                    ? 'text-rose-600 font-medium'
+                    : 'text-stone-500 hover:text-rose-600'
+                }`}
+                title={t('header.usageTitle')}
+             >
+                {t('header.usage', { cost: formatUsd(usage.today?.cost ?? 0) })}
+             </button>
+             {offlineQueue.isOnline ? (
+                <div className="flex items-center text-green-600 text-xs font-medium bg-green-50 px-3 py-1 rounded-full border border-green-200">
                     <span className="w-2 h-2 rounded-full bg-green-500 mr-2 animate-pulse"></span>
-                    Gemini Pro Connected
-                 </div>
+                    {provider.label}
+                </div>
+             ) : (
+                <div className="flex items-center text-amber-700 text-xs font-medium bg-amber-50 px-3 py-1 rounded-full border border-amber-200">
+                    <span className="w-2 h-2 rounded-full bg-amber-500 mr-2"></span>
+                    {offlineQueue.pendingCount > 0
+                        ? plural('header.offlineQueued', offlineQueue.pendingCount)
+                        : t('header.offline')}
+                </div>
              )}
           </div>
         </div>
@@ -135,18 +829,16 @@ const App: React.FC = () => {
         {/* Intro */}
         <div className="text-center mb-12 max-w-2xl mx-auto">
           <h1 className="text-4xl md:text-5xl font-serif text-stone-900 mb-4 leading-tight">
-            Virtual Saree Try-On
+            {t('intro.title')}
           </h1>
           <p className="text-stone-600 text-lg">
-            Experience the elegance of any saree on you. Upload your photo and a saree image to see a photorealistic try-on powered by Gemini 3.
+            {t('intro.body')}
           </p>
         </div>
 
         {/* Error Message */}
         {state.error && (
-            <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-center max-w-2xl mx-auto animate-fade-in">
-                {state.error}
-            </div>
+            <ErrorBanner error={state.error} onDismiss={() => setState(s => ({ ...s, error: null }))} />
         )}
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 lg:gap-12 items-start">
@@ -156,54 +848,221 @@ const App: React.FC = () => {
                 <div className="bg-white p-6 rounded-2xl shadow-xl shadow-stone-200/50 border border-stone-100">
                     <h2 className="text-xl font-serif font-semibold text-stone-800 mb-6 flex items-center">
                         <span className="flex items-center justify-center w-8 h-8 rounded-full bg-stone-900 text-white text-sm mr-3">1</span>
-                        Upload Images
+                        {t('inputs.title')}
                     </h2>
+
+                    <div className="flex mb-6 p-1 bg-stone-100 rounded-lg">
+                        {([['single', t('mode.single')], ['wardrobe', t('mode.wardrobe')]] as const).map(([id, label]) => (
+                            <button
+                                key={id}
+                                onClick={() => setMode(id)}
+                                disabled={state.isGenerating || wardrobe.isRunning}
+                                className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-50 ${
+                                    mode === id ? 'bg-white text-stone-900 shadow-sm' : 'text-stone-500 hover:text-stone-700'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
                     
                     <div className="space-y-6">
                         <ImageUploader 
-                            label="Your Photo" 
+                            label={t('inputs.photo')}
                             image={state.humanImage}
                             onImageSelected={(f) => handleImageSelect('human', f)}
                             onClear={() => setState(s => ({ ...s, humanImage: null }))}
-                            placeholderText="Full body shot works best"
+                            onImageEdited={(humanImage) => setState(s => ({ ...s, humanImage }))}
+                            enableCamera
+                            placeholderText={t('inputs.photoHint')}
                             icon={(
                                 <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                                 </svg>
                             )}
                         />
+                        {mode === 'single' && state.humanImage && (
+                            <GroupTryOnPanel
+                                photo={state.humanImage}
+                                people={group.people}
+                                mainSaree={state.sareeImage}
+                                sarees={group.sarees}
+                                canAddSaree={group.canAddSaree}
+                                selectedId={group.selectedId}
+                                status={group.status}
+                                error={group.error}
+                                onDetect={group.detectPeople}
+                                onSelect={group.setSelectedId}
+                                onAddPerson={group.addPerson}
+                                onRemovePerson={group.removePerson}
+                                onAssign={group.assignSaree}
+                                onAddSaree={handleAddGroupSaree}
+                                onRemoveSaree={group.removeSaree}
+                                onExit={group.clear}
+                                disabled={state.isGenerating || isRefining}
+                            />
+                        )}
                         
                         <div className="flex items-center justify-center">
                             <div className="h-8 w-[1px] bg-stone-200"></div>
                         </div>
 
-                        <ImageUploader 
-                            label="Saree Image" 
-                            image={state.sareeImage}
-                            onImageSelected={(f) => handleImageSelect('saree', f)}
-                            onClear={() => setState(s => ({ ...s, sareeImage: null }))}
-                            placeholderText="Image of the saree (flat or worn)"
-                            icon={(
-                                <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                                </svg>
-                            )}
+                        {mode === 'single' ? (
+                            <div className="flex flex-col gap-3">
+                                <ImageUploader 
+                                    label={t('inputs.saree')}
+                                    image={state.sareeImage}
+                                    onImageSelected={(f) => handleImageSelect('saree', f)}
+                                    onClear={() => setState(s => ({ ...s, sareeImage: null }))}
+                                    onImageEdited={(sareeImage) => setState(s => ({ ...s, sareeImage }))}
+                                    regionKinds={['pallu', 'border']}
+                                    placeholderText={t('inputs.sareeHint')}
+                                    icon={(
+                                        <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                        </svg>
+                                    )}
+                                />
+                                {state.sareeImage && !group.isActive && (
+                                    <SareeAttributeTags
+                                        attributes={sareeAnalysis.attributes}
+                                        status={sareeAnalysis.status}
+                                        error={sareeAnalysis.error}
+                                        onChange={sareeAnalysis.setAttributes}
+                                        onAnalyze={sareeAnalysis.reanalyze}
+                                        disabled={state.isGenerating || isRefining}
+                                    />
+                                )}
+                            </div>
+                        ) : (
+                            <SareeCatalog
+                                items={wardrobe.visibleItems}
+                                totalCount={wardrobe.catalog.length}
+                                allTags={wardrobe.allTags}
+                                tagFilter={wardrobe.tagFilter}
+                                onTagFilterChange={wardrobe.setTagFilter}
+                                searchQuery={wardrobe.searchQuery}
+                                onSearchQueryChange={wardrobe.setSearchQuery}
+                                analyzingIds={wardrobe.analyzingIds}
+                                onAnalyze={handleAnalyzeCatalog}
+                                onAddFiles={handleAddCatalogFiles}
+                                onUpdateItem={wardrobe.updateItem}
+                                onRemoveItem={wardrobe.removeItem}
+                                onClear={wardrobe.clearCatalog}
+                                disabled={wardrobe.isRunning}
+                            />
+                        )}
+                    </div>
+
+                    <div className="mt-8 pt-6 border-t border-stone-100">
+                        <DrapeStyleSelector
+                            value={state.drapeStyle}
+                            onChange={(drapeStyle) => setState(s => ({ ...s, drapeStyle }))}
+                            disabled={state.isGenerating}
                         />
+                        {mode === 'single' ? (
+                            <div className="mt-6">
+                                <VariationControls
+                                    value={state.variations}
+                                    onChange={(variations) => setState(s => ({ ...s, variations }))}
+                                    disabled={state.isGenerating}
+                                />
+                            </div>
+                        ) : (
+                            <div className="mt-6">
+                                <label className="mb-2 block text-sm font-bold text-stone-700 tracking-wider uppercase">{t('wardrobe.parallelRequests')}</label>
+                                <select
+                                    value={wardrobe.concurrency}
+                                    onChange={(e) => wardrobe.setConcurrency(Number(e.target.value))}
+                                    disabled={wardrobe.isRunning}
+                                    className="px-3 py-2 text-sm border border-stone-200 rounded-lg bg-white"
+                                >
+                                    {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                        )}
                     </div>
 
                     <div className="mt-8 pt-6 border-t border-stone-100">
-                         <Button 
-                            className="w-full py-4 text-lg" 
-                            disabled={!state.humanImage || !state.sareeImage}
-                            onClick={handleGenerate}
-                            isLoading={state.isGenerating}
-                         >
-                            {state.isGenerating ? 'Designing Look...' : 'Generate Try-On'}
-                         </Button>
-                         {!apiKeySelected && (
-                             <p className="text-center text-xs text-stone-400 mt-2">Requires valid API Key selection</p>
+                        <OutfitAccessoriesPanel
+                            accessories={state.accessories}
+                            blouseStyle={state.blouseStyle}
+                            onAddImages={handleAddAccessoryImages}
+                            onRemoveImage={handleRemoveAccessoryImage}
+                            onBlouseStyleChange={(blouseStyle) => setState(s => ({ ...s, blouseStyle }))}
+                            disabled={state.isGenerating || wardrobe.isRunning}
+                        />
+                    </div>
+
+                    <div className="mt-8 pt-6 border-t border-stone-100">
+                        <SettingsPanel
+                            value={state.generationOptions}
+                            onChange={handleGenerationOptionsChange}
+                            disabled={state.isGenerating || wardrobe.isRunning}
+                        />
+                    </div>
+
+                    {DEV_TOOLS && (
+                        <div className="mt-8 pt-6 border-t border-stone-100">
+                            <PromptTemplatePanel
+                                value={promptSettings}
+                                onChange={handlePromptSettingsChange}
+                                disabled={state.isGenerating || wardrobe.isRunning || isRefining}
+                            />
+                        </div>
+                    )}
+
+                    <div className="mt-8 pt-6 border-t border-stone-100">
+                         {mode === 'single' ? (
+                             <div className="flex gap-3">
+                                 <Button 
+                                    className="flex-grow py-4 text-lg" 
+                                    disabled={!state.humanImage || !(group.isActive ? group.firstSaree : state.sareeImage) || isRefining}
+                                    onClick={handleGenerate}
+                                    isLoading={state.isGenerating}
+                                 >
+                                    {state.isGenerating ? t('generate.running') : offlineQueue.isOnline ? t('generate.run') : t('generate.queue')}
+                                 </Button>
+                                 {state.isGenerating && (
+                                     <Button variant="outline" className="py-4" onClick={handleCancel}>
+                                        {t('generate.cancel')}
+                                     </Button>
+                                 )}
+                             </div>
+                         ) : wardrobe.isRunning ? (
+                             <Button variant="secondary" className="w-full py-4 text-lg" onClick={wardrobe.cancel}>
+                                {t('wardrobe.cancel', { done: wardrobe.progress.done, total: wardrobe.progress.total })}
+                             </Button>
+                         ) : (
+                             <div className="space-y-3">
+                                 <Button
+                                    className="w-full py-4 text-lg"
+                                    disabled={!state.humanImage || wardrobe.visibleItems.length === 0}
+                                    onClick={handleRunWardrobe}
+                                 >
+                                    {plural('wardrobe.run', wardrobe.visibleItems.length)}
+                                 </Button>
+                                 {wardrobe.progress.total - wardrobe.progress.succeeded > 0 && wardrobe.progress.done === wardrobe.progress.total && (
+                                     <Button variant="outline" className="w-full" onClick={wardrobe.retryFailed}>
+                                        {t('wardrobe.retryFailed', { count: wardrobe.progress.total - wardrobe.progress.succeeded })}
+                                     </Button>
+                                 )}
+                             </div>
                          )}
                     </div>
+
+                    {offlineQueue.items.length > 0 && (
+                        <div className="mt-6 pt-6 border-t border-stone-100">
+                            <OfflineQueuePanel
+                                items={offlineQueue.items}
+                                isOnline={offlineQueue.isOnline}
+                                onRetry={offlineQueue.retry}
+                                onRemove={offlineQueue.remove}
+                                onOpen={handleOpenQueued}
+                                onClearDone={offlineQueue.clearDone}
+                            />
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -212,51 +1071,92 @@ const App: React.FC = () => {
                 <div className="bg-white p-6 rounded-2xl shadow-xl shadow-stone-200/50 border border-stone-100 min-h-[600px] flex flex-col">
                     <h2 className="text-xl font-serif font-semibold text-stone-800 mb-6 flex items-center">
                         <span className="flex items-center justify-center w-8 h-8 rounded-full bg-rose-600 text-white text-sm mr-3">2</span>
-                        Your Look
+                        {mode === 'single' ? t('results.single') : t('results.wardrobe')}
                     </h2>
 
+                    {mode === 'wardrobe' && wardrobe.progress.total > 0 && (
+                        <div className="mb-4">
+                            <div className="flex justify-between text-xs text-stone-500 mb-1">
+                                <span>{t('wardrobe.progress', { done: wardrobe.progress.done, total: wardrobe.progress.total })}</span>
+                                <span>{t('wardrobe.outcome', { succeeded: wardrobe.progress.succeeded, failed: wardrobe.progress.failed })}</span>
+                            </div>
+                            <div className="h-2 bg-stone-100 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-rose-600 transition-all duration-300"
+                                    style={{ width: `${(wardrobe.progress.done / wardrobe.progress.total) * 100}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     <div className="flex-grow flex items-center justify-center bg-stone-50 rounded-xl overflow-hidden border border-stone-100 relative">
-                        {state.isGenerating ? (
+                        {mode === 'wardrobe' ? (
+                            <BatchResultsGrid
+                                items={wardrobe.catalog}
+                                batch={wardrobe.batch}
+                                onRetryItem={(id) => wardrobe.retryItems([id])}
+                                disabled={wardrobe.isRunning}
+                            />
+                        ) : state.isGenerating && state.generatedImages.length === 0 ? (
                             <div className="text-center p-8">
                                 <div className="inline-block w-16 h-16 border-4 border-stone-200 border-t-rose-600 rounded-full animate-spin mb-4"></div>
-                                <h3 className="text-lg font-medium text-stone-800 animate-pulse">Weaving the magic...</h3>
-                                <p className="text-stone-500 mt-2 max-w-xs mx-auto">Gemini Pro is analyzing the fabric drape and lighting. This may take a few seconds.</p>
+                                <h3 className="text-lg font-medium text-stone-800 animate-pulse">{t('results.loadingTitle')}</h3>
+                                <p className="text-stone-500 mt-2 max-w-xs mx-auto">{t('results.loadingBody', { provider: provider.label })}</p>
+                                {retryNotice && (
+                                    <p className="text-amber-600 text-xs mt-4 max-w-xs mx-auto">{retryNotice}</p>
+                                )}
                             </div>
-                        ) : state.generatedImage ? (
-                            <div className="relative w-full h-full group">
-                                <img 
-                                    src={state.generatedImage} 
-                                    alt="Generated Try-On" 
-                                    className="w-full h-full object-contain max-h-[800px]"
+                        ) : state.generatedImages.length > 0 ? (
+                            <div className="relative w-full h-full">
+                                <ResultGallery
+                                    images={state.generatedImages}
+                                    faceChecks={state.faceChecks}
+                                    labels={state.generatedImages.map((_, index) => galleryLabel(index))}
+                                    activeIndex={activeImageIndex}
+                                    onActiveIndexChange={setActiveImageIndex}
+                                    favoriteIndex={state.favoriteIndex}
+                                    onFavoriteChange={handleFavoriteChange}
+                                    onReset={handleReset}
+                                    onInspect={setInspectIndex}
+                                    onExport={setExportIndex}
                                 />
-                                <div className="absolute bottom-6 right-6 flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                                    <a 
-                                        href={state.generatedImage} 
-                                        download="saree-try-on.png"
-                                        className="bg-white text-stone-800 px-4 py-2 rounded-lg shadow-lg hover:bg-stone-50 text-sm font-medium flex items-center"
-                                    >
-                                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                                        </svg>
-                                        Download
-                                    </a>
-                                    <button 
-                                        onClick={handleReset}
-                                        className="bg-stone-900 text-white px-4 py-2 rounded-lg shadow-lg hover:bg-stone-800 text-sm font-medium"
-                                    >
-                                        New Try-On
-                                    </button>
-                                </div>
+                                {state.isGenerating && (
+                                    <div className="absolute top-3 right-3 flex items-center px-3 py-1 bg-white/90 rounded-full shadow-sm text-xs text-stone-600">
+                                        <span className="w-3 h-3 border-2 border-stone-200 border-t-rose-600 rounded-full animate-spin mr-2"></span>
+                                        {t('results.progress', { current: state.generatedImages.length + 1, total: state.variations.count })}
+                                    </div>
+                                )}
                             </div>
                         ) : (
                             <div className="text-center p-12 opacity-40">
                                 <svg className="w-24 h-24 mx-auto text-stone-300 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                                 </svg>
-                                <p className="text-lg font-serif text-stone-500">Result will appear here</p>
+                                <p className="text-lg font-serif text-stone-500">{t('results.empty')}</p>
                             </div>
                         )}
                     </div>
+
+                    {mode === 'single' && state.versions.length > 0 && !state.isGenerating && (
+                        <RefinementPanel
+                            versions={state.versions}
+                            activeVersionId={findVersionForImage(state.versions, activeImageIndex)?.id ?? null}
+                            isRefining={isRefining}
+                            notice={retryNotice}
+                            onSelectVersion={handleSelectVersion}
+                            onRefine={handleRefine}
+                            onCancel={handleCancel}
+                        />
+                    )}
+
+                    {mode === 'single' && state.modelNotes.length > 0 && (
+                        <div className="mt-4 p-4 bg-stone-50 rounded-xl border border-stone-100">
+                            <h3 className="text-xs font-bold text-stone-500 tracking-wider uppercase mb-2">{t('results.modelNotes')}</h3>
+                            <ul className="space-y-1 text-sm text-stone-600">
+                                {state.modelNotes.map((note, i) => <li key={i}>{note}</li>)}
+                            </ul>
+                        </div>
+                    )}
                 </div>
                 
                 {/* Tips */}
@@ -265,27 +1165,83 @@ const App: React.FC = () => {
                         <div className="w-8 h-8 bg-rose-100 text-rose-600 rounded-lg flex items-center justify-center mb-3">
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                         </div>
-                        <h3 className="font-bold text-stone-800 text-sm mb-1">Lighting Matters</h3>
-                        <p className="text-xs text-stone-500">Ensure both photos have good, natural lighting for the most realistic blend.</p>
+                        <h3 className="font-bold text-stone-800 text-sm mb-1">{t('tips.lighting.title')}</h3>
+                        <p className="text-xs text-stone-500">{t('tips.lighting.body')}</p>
                     </div>
                     <div className="bg-white p-4 rounded-xl border border-stone-100 shadow-sm">
                          <div className="w-8 h-8 bg-rose-100 text-rose-600 rounded-lg flex items-center justify-center mb-3">
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
                         </div>
-                        <h3 className="font-bold text-stone-800 text-sm mb-1">Clear View</h3>
-                        <p className="text-xs text-stone-500">Use a full-body photo where the person is clearly visible without obstructions.</p>
+                        <h3 className="font-bold text-stone-800 text-sm mb-1">{t('tips.clearView.title')}</h3>
+                        <p className="text-xs text-stone-500">{t('tips.clearView.body')}</p>
                     </div>
                     <div className="bg-white p-4 rounded-xl border border-stone-100 shadow-sm">
                          <div className="w-8 h-8 bg-rose-100 text-rose-600 rounded-lg flex items-center justify-center mb-3">
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                         </div>
-                        <h3 className="font-bold text-stone-800 text-sm mb-1">High Quality</h3>
-                        <p className="text-xs text-stone-500">Higher resolution uploads lead to better texture preservation in the saree.</p>
+                        <h3 className="font-bold text-stone-800 text-sm mb-1">{t('tips.quality.title')}</h3>
+                        <p className="text-xs text-stone-500">{t('tips.quality.body')}</p>
                     </div>
                 </div>
             </div>
         </div>
       </main>
+
+      {inspectIndex !== null && state.generatedImages[inspectIndex] && (
+        <ComparisonViewer
+          label={galleryLabel(inspectIndex)}
+          result={state.generatedImages[inspectIndex]}
+          before={state.humanImage?.previewUrl ?? null}
+          saree={state.sareeImage?.previewUrl ?? null}
+          onClose={() => setInspectIndex(null)}
+        />
+      )}
+
+      {exportIndex !== null && state.generatedImages[exportIndex] && (
+        <ExportDialog
+          sources={{
+            result: state.generatedImages[exportIndex],
+            human: state.humanImage?.previewUrl ?? null,
+            saree: state.sareeImage?.previewUrl ?? null,
+          }}
+          context={{
+            label: lookLabel(exportIndex),
+            filenameLabel: lookLabel(exportIndex, filenameTranslator.t),
+            captions: [t('export.captionPerson'), t('export.captionSaree'), t('export.captionResult')],
+            drapeStyle: getDrapeStyle(state.drapeStyle).name,
+            createdAt: new Date(history.find(h => h.id === state.historyId)?.createdAt ?? Date.now()),
+            details: exportDetails(exportIndex),
+          }}
+          settings={exportSettings}
+          onSettingsChange={handleExportSettingsChange}
+          onClose={() => setExportIndex(null)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard
+          records={usage.records}
+          days={usage.days}
+          today={usage.today}
+          settings={usage.settings}
+          onSettingsChange={usage.updateSettings}
+          onClear={usage.clear}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        entries={history}
+        activeId={state.historyId}
+        disabled={state.isGenerating}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpenEntry={handleOpenHistory}
+        onRerunEntry={handleRerunHistory}
+        onDeleteEntry={handleDeleteHistory}
+        onExportEntry={(entry) => exportHistoryEntries([entry], `saree-try-on-${entry.id}.json`)}
+        onExportAll={() => exportHistoryEntries(history, 'saree-try-on-history.json')}
+      />
     </div>
   );
 };
@@ -0,0 +1,97 @@
+import React from 'react';
+import { BatchItemState, BatchItemStatus, CatalogItem } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface BatchResultsGridProps {
+  items: CatalogItem[];
+  batch: Record<string, BatchItemState>;
+  onRetryItem: (id: string) => void;
+  disabled?: boolean;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'Queued',
+  running: 'Generating',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'bg-stone-100 text-stone-500',
+  running: 'bg-amber-50 text-amber-700',
+  succeeded: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+  cancelled: 'bg-stone-100 text-stone-500',
+};
+
+const downloadName = (item: CatalogItem) =>
+  `saree-try-on-${item.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || item.id}.png`;
+
+export const BatchResultsGrid: React.FC<BatchResultsGridProps> = ({
+  items,
+  batch,
+  onRetryItem,
+  disabled = false
+}) => {
+  const { errorMessage } = useI18n();
+  const scheduled = items.filter(item => batch[item.id]);
+
+  if (scheduled.length === 0) {
+    return (
+      <div className="text-center p-12 opacity-40">
+        <p className="text-lg font-serif text-stone-500">Batch results will appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4 w-full p-4 self-start">
+      {scheduled.map(item => {
+        const itemState = batch[item.id];
+        return (
+          <div key={item.id} className="flex flex-col rounded-xl overflow-hidden border border-stone-100 bg-white shadow-sm">
+            <div className="relative aspect-[3/4] bg-stone-50 flex items-center justify-center group">
+              {itemState.result ? (
+                <img src={itemState.result} alt={`${item.name} try-on`} className="w-full h-full object-cover" />
+              ) : itemState.status === 'running' ? (
+                <div className="w-10 h-10 border-4 border-stone-200 border-t-rose-600 rounded-full animate-spin" />
+              ) : (
+                <img src={item.image.previewUrl} alt={item.name} className="w-full h-full object-cover opacity-30" />
+              )}
+              {itemState.result && (
+                <a
+                  href={itemState.result}
+                  download={downloadName(item)}
+                  className="absolute bottom-2 right-2 px-3 py-1 bg-white/90 rounded-lg shadow text-xs font-medium text-stone-800 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  Download
+                </a>
+              )}
+            </div>
+            <div className="p-2">
+              <p className="text-sm font-medium text-stone-800 truncate" title={item.name}>{item.name}</p>
+              <div className="flex items-center justify-between mt-1">
+                <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${STATUS_STYLES[itemState.status]}`}>
+                  {STATUS_LABELS[itemState.status]}{itemState.attempts > 1 ? ` · try ${itemState.attempts}` : ''}
+                </span>
+                {(itemState.status === 'failed' || itemState.status === 'cancelled') && (
+                  <button
+                    onClick={() => onRetryItem(item.id)}
+                    disabled={disabled}
+                    className="text-xs font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
+              {itemState.error && itemState.status === 'failed' && (
+                <p className="mt-1 text-[11px] text-red-600 line-clamp-2" title={errorMessage(itemState.error)}>{errorMessage(itemState.error)}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { checkFraming, FramingFeedback } from '../services/poseCheck';
+import { Button } from './Button';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n/en';
+
+interface CameraCaptureProps {
+  label: string;
+  // Receives the captured frame as a JPEG file, ready for processFile
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+}
+
+type CameraStatus = 'starting' | 'live' | 'review' | 'error';
+type FacingMode = 'user' | 'environment';
+
+const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+const FRAMING_INTERVAL_MS = 600;
+// Frames are downscaled to this width for the framing check
+const ANALYSIS_WIDTH = 320;
+
+const cameraErrorKey = (error: unknown): MessageKey => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError') return 'camera.error.denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'camera.error.notFound';
+  if (name === 'NotReadableError') return 'camera.error.inUse';
+  return 'camera.error.failed';
+};
+
+const drawFrame = (video: HTMLVideoElement, width: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round((width * video.videoHeight) / video.videoWidth);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Full-body outline the person lines up with; proportions match the framing check
+const Silhouette: React.FC = () => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet">
+    <g fill="none" stroke="white" strokeOpacity="0.7" strokeWidth="0.6" strokeDasharray="2 1.5">
+      <ellipse cx="50" cy="12" rx="4.5" ry="5.5" />
+      <path d="M44 19 Q50 22 56 19 L63 23 Q66 25 66 30 L66 52 M56 19 L58 52 L61 95 L54 95 L51 60 L49 60 L46 95 L39 95 L42 52 L44 19 M37 23 L44 19 M37 23 Q34 25 34 30 L34 52" />
+    </g>
+  </svg>
+);
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({
+  label,
+  onCapture,
+  onCancel
+}) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<CameraStatus>('starting');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('user');
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<FramingFeedback | null>(null);
+  const [captured, setCaptured] = useState<{ url: string; blob: Blob } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  // (Re)start the camera whenever the facing mode changes or a retake begins
+  useEffect(() => {
+    if (status !== 'starting') return;
+    let cancelled = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(window.isSecureContext
+        ? 'camera.error.unsupported'
+        : 'camera.error.insecure');
+      setStatus('error');
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1920 } },
+      audio: false,
+    }).then(stream => {
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      if (videoRef.current) videoRef.current.srcObject = stream;
+      setStatus('live');
+    }).catch(e => {
+      if (cancelled) return;
+      setError(cameraErrorKey(e));
+      setStatus('error');
+    });
+
+    return () => { cancelled = true; };
+  }, [status, facingMode]);
+
+  useEffect(() => stopStream, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onCancel]);
+
+  // Live framing feedback; checks are sequential so slow devices don't pile up work
+  useEffect(() => {
+    if (status !== 'live') return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (video && video.videoWidth > 0) {
+        try {
+          const frame = drawFrame(video, ANALYSIS_WIDTH);
+          const result = await checkFraming({ source: frame, width: frame.width, height: frame.height });
+          if (!cancelled) setFeedback(result);
+        } catch (e) {
+          console.error('Framing check failed', e);
+        }
+      }
+      if (!cancelled) timer = setTimeout(tick, FRAMING_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [status]);
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    // The preview is mirrored for the front camera; the photo itself is not
+    const canvas = drawFrame(video, video.videoWidth);
+    canvas.toBlob(blob => {
+      if (!blob) {
+        setError('camera.error.capture');
+        return;
+      }
+      stopStream();
+      setCaptured({ url: URL.createObjectURL(blob), blob });
+      setStatus('review');
+    }, 'image/jpeg', 0.92);
+  };
+
+  useEffect(() => {
+    if (remaining === null) return;
+    if (remaining === 0) {
+      setRemaining(null);
+      takePhoto();
+      return;
+    }
+    const timer = setTimeout(() => setRemaining(r => (r === null ? null : r - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining]);
+
+  useEffect(() => () => {
+    if (captured) URL.revokeObjectURL(captured.url);
+  }, [captured]);
+
+  const handleShutter = () => {
+    if (countdownSeconds === 0) takePhoto();
+    else setRemaining(countdownSeconds);
+  };
+
+  const handleRetake = () => {
+    setCaptured(null);
+    setFeedback(null);
+    setStatus('starting');
+  };
+
+  const handleSwitchCamera = () => {
+    stopStream();
+    setRemaining(null);
+    setFacingMode(mode => (mode === 'user' ? 'environment' : 'user'));
+    setStatus('starting');
+  };
+
+  const handleUsePhoto = () => {
+    if (!captured) return;
+    const file = new File([captured.blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' });
+    onCapture(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-stone-900/80 backdrop-blur-sm" role="dialog" aria-modal="true" aria-label={t('uploader.cameraTitle', { label })}>
+      <div className="w-full max-w-lg bg-white rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-full">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-stone-100">
+          <h3 className="font-serif text-lg text-stone-900">{t('uploader.cameraTitle', { label })}</h3>
+          <button onClick={onCancel} className="p-1 text-stone-400 hover:text-stone-700" title={t('camera.close')}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="relative bg-stone-950 aspect-[3/4] max-h-[70vh]">
+          {status === 'error' ? (
+            <div className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-stone-200">{error && t(error)}</div>
+          ) : status === 'review' && captured ? (
+            <img src={captured.url} alt={t('camera.captured')} className="absolute inset-0 w-full h-full object-contain" />
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className={`absolute inset-0 w-full h-full object-cover ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+              />
+              <Silhouette />
+              {status === 'starting' && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-stone-300">{t('camera.starting')}</div>
+              )}
+              {feedback && status === 'live' && (
+                <div
+                  className={`absolute top-3 inset-x-3 px-3 py-2 rounded-lg text-sm font-medium text-center ${
+                    feedback.issue ? 'bg-amber-500/90 text-white' : 'bg-green-600/90 text-white'
+                  }`}
+                  aria-live="polite"
+                >
+                  {t(`camera.framing.${feedback.issue ?? 'ok'}`)}
+                </div>
+              )}
+              {remaining !== null && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <span className="text-8xl font-serif text-white drop-shadow-lg">{remaining}</span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          {status === 'review' ? (
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={handleRetake}>{t('camera.retake')}</Button>
+              <Button className="flex-1" onClick={handleUsePhoto}>{t('camera.usePhoto')}</Button>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-xs text-stone-600">
+                <label className="flex items-center gap-2">
+                  {t('camera.timer')}
+                  <select
+                    value={countdownSeconds}
+                    onChange={(e) => setCountdownSeconds(Number(e.target.value))}
+                    disabled={remaining !== null}
+                    className="px-2 py-1 border border-stone-200 rounded bg-white"
+                  >
+                    {COUNTDOWN_OPTIONS.map(seconds => (
+                      <option key={seconds} value={seconds}>{seconds === 0 ? t('camera.timerOff') : t('camera.timerSeconds', { seconds })}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  onClick={handleSwitchCamera}
+                  disabled={status !== 'live' || remaining !== null}
+                  className="underline hover:text-rose-600 disabled:opacity-50"
+                >
+                  {t('camera.switch')}
+                </button>
+              </div>
+              <div className="flex gap-3">
+                {remaining !== null ? (
+                  <Button variant="outline" className="flex-1" onClick={() => setRemaining(null)}>{t('camera.stopTimer')}</Button>
+                ) : (
+                  <Button className="flex-1" onClick={handleShutter} disabled={status !== 'live'}>
+                    {countdownSeconds === 0 ? t('camera.takePhoto') : t('camera.startTimer', { seconds: countdownSeconds })}
+                  </Button>
+                )}
+              </div>
+              {feedback?.method === 'heuristic' && (
+                <p className="text-xs text-stone-400">{t('camera.framing.approximate')}</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MAX_ZOOM, MIN_ZOOM, useZoomPan } from '../hooks/useZoomPan';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ComparisonViewerProps {
+  label: string;
+  result: string;
+  // Person photo for the before/after slider
+  before: string | null;
+  // Source saree for the side-by-side view
+  saree: string | null;
+  onClose: () => void;
+}
+
+type ViewerMode = 'slider' | 'sideBySide';
+
+interface LoupeState {
+  // Pointer position relative to the viewport
+  left: number;
+  top: number;
+  src: string;
+  backgroundSize: string;
+  backgroundPosition: string;
+}
+
+const LOUPE_SIZE = 180;
+// Magnification of the loupe relative to the current zoom
+const LOUPE_FACTOR = 3;
+const ZOOM_STEP = 1.25;
+const PAN_STEP = 48;
+
+const toolButtonClass = (isActive: boolean) =>
+  `px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors disabled:opacity-40 ${
+    isActive ? 'bg-white text-stone-900 border-white' : 'bg-transparent text-white border-white/30 hover:border-white'
+  }`;
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({
+  label,
+  result,
+  before,
+  saree,
+  onClose
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<ViewerMode>(before ? 'slider' : 'sideBySide');
+  const [split, setSplit] = useState(50);
+  const [isLoupeOn, setIsLoupeOn] = useState(false);
+  const [loupe, setLoupe] = useState<LoupeState | null>(null);
+  const [naturalSizes, setNaturalSizes] = useState<Record<string, { width: number; height: number }>>({});
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const isDraggingSplit = useRef(false);
+  const zoom = useZoomPan(viewportRef);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === '+' || e.key === '=') zoom.zoomBy(ZOOM_STEP);
+      else if (e.key === '-') zoom.zoomBy(1 / ZOOM_STEP);
+      else if (e.key === '0') zoom.reset();
+      else if (e.key === 'l' || e.key === 'L') setIsLoupeOn(on => !on);
+      else if (e.key === 'ArrowLeft') zoom.panBy(PAN_STEP, 0);
+      else if (e.key === 'ArrowRight') zoom.panBy(-PAN_STEP, 0);
+      else if (e.key === 'ArrowUp') zoom.panBy(0, PAN_STEP);
+      else if (e.key === 'ArrowDown') zoom.panBy(0, -PAN_STEP);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const handleWheel = (e: WheelEvent) => {
+      const viewport = (e.target as Element).closest('[data-zoom-viewport]');
+      if (viewport) zoom.handleWheel(e, viewport);
+    };
+    body.addEventListener('wheel', handleWheel, { passive: false });
+    return () => body.removeEventListener('wheel', handleWheel);
+  });
+
+  useEffect(() => {
+    if (!isLoupeOn) setLoupe(null);
+  }, [isLoupeOn]);
+
+  const recordSize = (src: string) => (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    setNaturalSizes(prev => ({ ...prev, [src]: { width, height } }));
+  };
+
+  // Magnifies whatever image is under the pointer. The image is drawn with
+  // object-contain inside the transformed layer, so its on-screen box is the
+  // contain-fit scaled by the zoom and shifted by the pan.
+  const updateLoupe = (e: React.PointerEvent, src: string) => {
+    const size = naturalSizes[src];
+    if (!size) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const fit = Math.min(bounds.width / size.width, bounds.height / size.height) * zoom.transform.scale;
+    const contentWidth = size.width * fit;
+    const contentHeight = size.height * fit;
+    const left = e.clientX - bounds.left;
+    const top = e.clientY - bounds.top;
+    const u = (left - (bounds.width - contentWidth) / 2 - zoom.transform.x) / contentWidth;
+    const v = (top - (bounds.height - contentHeight) / 2 - zoom.transform.y) / contentHeight;
+    if (u < 0 || u > 1 || v < 0 || v > 1) {
+      setLoupe(null);
+      return;
+    }
+    const radius = LOUPE_SIZE / 2;
+    setLoupe({
+      left,
+      top,
+      src,
+      backgroundSize: `${contentWidth * LOUPE_FACTOR}px ${contentHeight * LOUPE_FACTOR}px`,
+      backgroundPosition: `${radius - u * contentWidth * LOUPE_FACTOR}px ${radius - v * contentHeight * LOUPE_FACTOR}px`,
+    });
+  };
+
+  const moveSplit = (clientX: number) => {
+    const bounds = viewportRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    setSplit(Math.min(Math.max(((clientX - bounds.left) / bounds.width) * 100, 0), 100));
+  };
+
+  const handleSplitKey = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 2;
+    const next: Record<string, number> = {
+      ArrowLeft: split - step,
+      ArrowRight: split + step,
+      Home: 0,
+      End: 100,
+    };
+    if (!(e.key in next)) return;
+    e.preventDefault();
+    // Keep the arrows from also panning the image
+    e.stopPropagation();
+    setSplit(Math.min(Math.max(next[e.key], 0), 100));
+  };
+
+  const renderImage = (src: string, alt: string) => (
+    <img
+      src={src}
+      alt={alt}
+      draggable={false}
+      onLoad={recordSize(src)}
+      style={zoom.style}
+      className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none"
+    />
+  );
+
+  const renderLoupe = () => loupe && (
+    <div
+      className="absolute rounded-full border-4 border-white shadow-2xl pointer-events-none bg-stone-900 bg-no-repeat"
+      style={{
+        width: LOUPE_SIZE,
+        height: LOUPE_SIZE,
+        left: loupe.left - LOUPE_SIZE / 2,
+        top: loupe.top - LOUPE_SIZE / 2,
+        backgroundImage: `url(${loupe.src})`,
+        backgroundSize: loupe.backgroundSize,
+        backgroundPosition: loupe.backgroundPosition,
+      }}
+    />
+  );
+
+  const viewportHandlers = (srcAt: (e: React.PointerEvent) => string) => {
+    const handlers = zoom.pointerHandlers(!isLoupeOn);
+    return {
+      ...handlers,
+      onPointerDown: (e: React.PointerEvent) => {
+        handlers.onPointerDown(e);
+        if (isLoupeOn) updateLoupe(e, srcAt(e));
+      },
+      onPointerMove: (e: React.PointerEvent) => {
+        handlers.onPointerMove(e);
+        if (isLoupeOn && !isDraggingSplit.current) updateLoupe(e, srcAt(e));
+      },
+      onPointerLeave: () => setLoupe(null),
+    };
+  };
+
+  const viewportClass = `relative w-full h-full overflow-hidden touch-none ${
+    isLoupeOn ? 'cursor-crosshair' : zoom.transform.scale > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+  }`;
+
+  const renderSlider = (beforeSrc: string) => (
+    <div
+      ref={viewportRef}
+      data-zoom-viewport
+      className={viewportClass}
+      {...viewportHandlers(e => {
+        const bounds = e.currentTarget.getBoundingClientRect();
+        return ((e.clientX - bounds.left) / bounds.width) * 100 < split ? beforeSrc : result;
+      })}
+    >
+      {renderImage(beforeSrc, t('viewer.original'))}
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+        {renderImage(result, label)}
+      </div>
+
+      <span className="absolute top-3 left-3 px-2 py-1 bg-black/60 text-white text-xs rounded pointer-events-none">{t('viewer.before')}</span>
+      <span className="absolute top-3 right-3 px-2 py-1 bg-black/60 text-white text-xs rounded pointer-events-none">{t('viewer.after')}</span>
+
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${split}%` }} />
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={t('viewer.split')}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(split)}
+        onKeyDown={handleSplitKey}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          e.currentTarget.setPointerCapture(e.pointerId);
+          isDraggingSplit.current = true;
+          setLoupe(null);
+        }}
+        onPointerMove={(e) => {
+          e.stopPropagation();
+          if (isDraggingSplit.current) moveSplit(e.clientX);
+        }}
+        onPointerUp={(e) => {
+          e.stopPropagation();
+          isDraggingSplit.current = false;
+        }}
+        className="absolute top-1/2 w-10 h-10 -ml-5 -mt-5 flex items-center justify-center rounded-full bg-white text-stone-700 shadow-lg cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-rose-400"
+        style={{ left: `${split}%` }}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 9l-4 3 4 3m8-6l4 3-4 3" />
+        </svg>
+      </div>
+      {renderLoupe()}
+    </div>
+  );
+
+  // Both panes share one transform, so zooming or panning either keeps the
+  // same area of the look and the saree in view
+  const renderSideBySide = (sareeSrc: string) => (
+    <div className="grid grid-cols-2 gap-2 w-full h-full">
+      {[{ src: result, alt: label, caption: t('viewer.result') }, { src: sareeSrc, alt: t('viewer.sareeAlt'), caption: t('viewer.saree') }].map((pane, index) => (
+        <div
+          key={index}
+          ref={index === 0 ? viewportRef : undefined}
+          data-zoom-viewport
+          className={viewportClass}
+          {...viewportHandlers(() => pane.src)}
+        >
+          {renderImage(pane.src, pane.alt)}
+          <span className="absolute top-3 left-3 px-2 py-1 bg-black/60 text-white text-xs rounded pointer-events-none">{pane.caption}</span>
+          {loupe?.src === pane.src && renderLoupe()}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-stone-950/95" role="dialog" aria-modal="true" aria-label={t('viewer.title', { label })}>
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-white/10">
+        <h3 className="text-white font-serif text-lg mr-auto">{label}</h3>
+        <div className="flex gap-2">
+          <button type="button" disabled={!before} onClick={() => setMode('slider')} className={toolButtonClass(mode === 'slider')}>
+            {t('viewer.beforeAfter')}
+          </button>
+          <button type="button" disabled={!saree} onClick={() => setMode('sideBySide')} className={toolButtonClass(mode === 'sideBySide')}>
+            {t('viewer.sideBySide')}
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => zoom.zoomBy(1 / ZOOM_STEP)} disabled={zoom.transform.scale <= MIN_ZOOM} className={toolButtonClass(false)} aria-label={t('viewer.zoomOut')}>−</button>
+          <span className="w-12 text-center text-xs text-white/80">{Math.round(zoom.transform.scale * 100)}%</span>
+          <button type="button" onClick={() => zoom.zoomBy(ZOOM_STEP)} disabled={zoom.transform.scale >= MAX_ZOOM} className={toolButtonClass(false)} aria-label={t('viewer.zoomIn')}>+</button>
+          <button type="button" onClick={zoom.reset} className={toolButtonClass(false)}>{t('viewer.fit')}</button>
+          <button type="button" onClick={() => setIsLoupeOn(on => !on)} aria-pressed={isLoupeOn} className={toolButtonClass(isLoupeOn)}>
+            {t('viewer.loupe')}
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-full text-white/80 hover:text-white hover:bg-white/10"
+          title={t('viewer.close')}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div ref={bodyRef} className="flex-grow min-h-0 p-4">
+        {mode === 'slider' && before
+          ? renderSlider(before)
+          : saree
+            ? renderSideBySide(saree)
+            : (
+              <div ref={viewportRef} data-zoom-viewport className={viewportClass} {...viewportHandlers(() => result)}>
+                {renderImage(result, label)}
+                {renderLoupe()}
+              </div>
+            )}
+      </div>
+
+      <p className="px-4 pb-3 text-center text-xs text-white/50">
+        {t('viewer.help')}
+      </p>
+    </div>
+  );
+};
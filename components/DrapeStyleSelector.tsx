@@ -0,0 +1,44 @@
+import React from 'react';
+import { DrapeStyleId } from '../types';
+import { DRAPE_STYLES } from '../constants';
+
+interface DrapeStyleSelectorProps {
+  value: DrapeStyleId;
+  onChange: (style: DrapeStyleId) => void;
+  disabled?: boolean;
+}
+
+export const DrapeStyleSelector: React.FC<DrapeStyleSelectorProps> = ({
+  value,
+  onChange,
+  disabled = false
+}) => {
+  return (
+    <div className="flex flex-col w-full">
+      <label className="mb-2 text-sm font-bold text-stone-700 tracking-wider uppercase">Drape Style</label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {Object.values(DRAPE_STYLES).map((style) => {
+          const isSelected = style.id === value;
+          return (
+            <button
+              key={style.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(style.id)}
+              aria-pressed={isSelected}
+              className={`text-left p-3 rounded-xl border-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                isSelected
+                  ? 'border-rose-500 bg-rose-50 shadow-sm'
+                  : 'border-stone-200 bg-white hover:border-rose-300 hover:bg-rose-50/50'
+              }`}
+            >
+              <span className={`block text-sm font-semibold ${isSelected ? 'text-rose-700' : 'text-stone-800'}`}>{style.name}</span>
+              <span className="block text-[11px] uppercase tracking-wider text-stone-400 mt-0.5">{style.region}</span>
+              <span className="block text-xs text-stone-500 mt-1">{style.description}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useRef, useState } from 'react';
+import { AppError, EmbedHostMessage, EmbedSaree, ImageFile } from '../types';
+import { DEFAULT_BLOUSE_STYLE, DEFAULT_DRAPE_STYLE } from '../constants';
+import { processFile } from '../utils';
+import { getTryOnProvider } from '../services/tryOnProvider';
+import { DEFAULT_VARIATIONS, generateVariations } from '../services/variations';
+import { loadGenerationOptions } from '../services/settingsStore';
+import { classifyError, toAppError } from '../services/errors';
+import { ImagePipelineError } from '../services/imagePipeline';
+import { parseOriginList } from '../services/embedProtocol';
+import { dataUrlExtension } from '../services/exportImage';
+import { useEmbedHost } from '../hooks/useEmbedHost';
+import { useI18n } from '../i18n/I18nProvider';
+import { ImageUploader } from './ImageUploader';
+import { Button } from './Button';
+import { ErrorBanner } from './ErrorBanner';
+
+const provider = getTryOnProvider();
+
+// Storefront origins allowed to frame the widget (see vite.config.ts)
+const ALLOWED_ORIGINS = parseOriginList(process.env.TRYON_EMBED_ORIGINS);
+
+const loadSareeImage = async ({ imageUrl, name }: EmbedSaree): Promise<ImageFile> => {
+  const response = await fetch(imageUrl);
+  if (!response.ok) throw new Error(`Saree image request failed with ${response.status}`);
+  const blob = await response.blob();
+  return processFile(new File([blob], name || 'saree', { type: blob.type }));
+};
+
+// Compact try-on for a single product, framed by a partner's product page
+// (embed.html). The host passes the saree; the shopper adds their photo.
+export const EmbedWidget: React.FC = () => {
+  const { t, errorMessage, setLocale } = useI18n();
+  const [saree, setSaree] = useState<EmbedSaree | null>(null);
+  const [sareeImage, setSareeImage] = useState<ImageFile | null>(null);
+  const [isLoadingSaree, setIsLoadingSaree] = useState(false);
+  const [humanImage, setHumanImage] = useState<ImageFile | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Ignores a slow saree load that a newer `init` has replaced
+  const sareeRequestRef = useRef(0);
+
+  const resetLook = () => {
+    abortRef.current?.abort();
+    setResult(null);
+    setError(null);
+  };
+
+  const handleHostMessage = async (message: EmbedHostMessage) => {
+    resetLook();
+    if (message.type === 'reset') {
+      setHumanImage(null);
+      return;
+    }
+    if (message.locale) setLocale(message.locale);
+    const request = ++sareeRequestRef.current;
+    setSaree(message.saree);
+    setSareeImage(null);
+    setIsLoadingSaree(true);
+    try {
+      const image = await loadSareeImage(message.saree);
+      if (request === sareeRequestRef.current) setSareeImage(image);
+    } catch (e) {
+      if (request !== sareeRequestRef.current) return;
+      console.error('Failed to load the saree image', e);
+      setError({ message: t('embed.sareeLoadFailed') });
+      post({ type: 'error', code: 'saree-load-failed', message: e instanceof Error ? e.message : String(e) });
+    } finally {
+      if (request === sareeRequestRef.current) setIsLoadingSaree(false);
+    }
+  };
+
+  const { post, isFramed } = useEmbedHost(ALLOWED_ORIGINS, handleHostMessage);
+  const sareeId = saree?.id ?? null;
+
+  const handlePhotoSelect = async (file: File) => {
+    try {
+      setHumanImage(await processFile(file));
+      resetLook();
+    } catch (e) {
+      setError({ message: e instanceof ImagePipelineError ? errorMessage(e) : t('error.imageFile') });
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!humanImage || !sareeImage) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setResult(null);
+    setError(null);
+    post({ type: 'started', sareeId });
+    try {
+      const [look] = await generateVariations(
+        provider,
+        {
+          human: humanImage,
+          saree: sareeImage,
+          drapeStyle: DEFAULT_DRAPE_STYLE,
+          blouseStyle: DEFAULT_BLOUSE_STYLE,
+          options: loadGenerationOptions(),
+        },
+        DEFAULT_VARIATIONS,
+        { signal: controller.signal }
+      );
+      setResult(look.image);
+      post({ type: 'completed', sareeId, images: [look.image] });
+    } catch (e) {
+      const appError = toAppError(classifyError(e));
+      setError(appError);
+      post({ type: 'failed', sareeId, code: appError.code ?? 'unknown', message: errorMessage(appError) });
+    } finally {
+      abortRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  if (!isFramed || ALLOWED_ORIGINS.length === 0) {
+    return <p className="p-6 text-sm text-stone-500 text-center">{t('embed.notEmbedded')}</p>;
+  }
+
+  if (!saree) {
+    return <p className="p-6 text-sm text-stone-500 text-center">{t('embed.waiting')}</p>;
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <h2 className="text-xl font-serif font-bold text-stone-900">
+        {t('embed.title')}{saree.name && <span className="block text-sm font-sans font-normal text-stone-500">{saree.name}</span>}
+      </h2>
+
+      {error && <ErrorBanner error={error} onDismiss={() => setError(null)} />}
+
+      {result ? (
+        <div className="space-y-3">
+          <img src={result} alt={t('history.result')} className="w-full rounded-xl border border-stone-200" />
+          <div className="flex gap-3">
+            <a
+              href={result}
+              download={`saree-try-on-${sareeId ?? 'look'}.${dataUrlExtension(result)}`}
+              onClick={() => post({ type: 'downloaded', sareeId, index: 0 })}
+              className="flex-1 text-center bg-rose-600 text-white px-4 py-3 rounded-lg text-sm font-medium hover:bg-rose-700"
+            >
+              {t('embed.download')}
+            </a>
+            <Button variant="outline" className="flex-1" onClick={() => { setHumanImage(null); resetLook(); }}>
+              {t('embed.startOver')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 items-start">
+            <div className="col-span-1">
+              <span className="mb-2 block text-sm font-bold text-stone-700 tracking-wider uppercase">{t('inputs.saree')}</span>
+              <div className="aspect-[3/4] rounded-xl border border-stone-200 bg-stone-50 overflow-hidden flex items-center justify-center">
+                {sareeImage
+                  ? <img src={sareeImage.previewUrl} alt={saree.name ?? t('history.saree')} className="w-full h-full object-cover" />
+                  : <span className="p-2 text-xs text-stone-400 text-center">{isLoadingSaree ? t('embed.loadingSaree') : t('embed.sareeLoadFailed')}</span>}
+              </div>
+            </div>
+            <div className="col-span-2">
+              <ImageUploader
+                label={t('inputs.photo')}
+                image={humanImage}
+                onImageSelected={handlePhotoSelect}
+                onClear={() => setHumanImage(null)}
+                placeholderText={t('inputs.photoHint')}
+                enableCamera
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <Button
+              className="flex-1"
+              onClick={handleGenerate}
+              disabled={!humanImage || !sareeImage}
+              isLoading={isGenerating}
+            >
+              {isGenerating ? t('generate.running') : t('generate.run')}
+            </Button>
+            {isGenerating && (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                {t('generate.cancel')}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AppError } from '../types';
+import { formatSafetyCategory, getReportAdvice, isFlaggedRating } from '../services/errors';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ErrorBannerProps {
+  error: AppError;
+  onDismiss: () => void;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss }) => {
+  const { t, errorMessage, isMessageKey } = useI18n();
+  const guidance = error.kind
+    ? { title: t(`errorGuidance.${error.kind}.title`), advice: t(`errorGuidance.${error.kind}.advice`) }
+    : null;
+  const message = errorMessage(error);
+  const isSoft = error.kind === 'cancelled';
+  const report = error.report;
+  // Report-specific advice replaces the generic advice for the error kind
+  const reportAdvice = report ? getReportAdvice(report) : [];
+  const flaggedRatings = report?.safetyRatings.filter(isFlaggedRating) ?? [];
+  // Categories the catalogs don't know yet fall back to the English name
+  const categoryLabel = (category: string) => {
+    const key = `safety.${category}`;
+    return isMessageKey(key) ? t(key) : formatSafetyCategory(category);
+  };
+  const probabilityLabel = (probability: string) => {
+    const key = `safety.${probability}`;
+    return isMessageKey(key) ? t(key) : probability.toLowerCase();
+  };
+
+  return (
+    <div
+      role="alert"
+      className={`relative mb-8 p-4 pr-10 border rounded-lg text-center max-w-2xl mx-auto animate-fade-in ${
+        isSoft ? 'bg-stone-50 border-stone-200 text-stone-700' : 'bg-red-50 border-red-200 text-red-700'
+      }`}
+    >
+      {guidance ? (
+        <>
+          <p className="font-semibold">{guidance.title}</p>
+          {reportAdvice.length > 0 ? (
+            <ul className="text-sm mt-1 space-y-1">
+              {reportAdvice.map(key => <li key={key}>{t(key)}</li>)}
+            </ul>
+          ) : (
+            <p className="text-sm mt-1">{guidance.advice}</p>
+          )}
+          {message !== guidance.title && !isSoft && (
+            <p className="text-xs mt-2 opacity-70">{message}</p>
+          )}
+          {flaggedRatings.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mt-3">
+              {flaggedRatings.map((rating, i) => (
+                <span key={i} className="px-2 py-0.5 bg-white/70 border border-red-200 rounded-full text-[11px]">
+                  {categoryLabel(rating.category)}: {rating.blocked ? t('safety.blocked') : probabilityLabel(rating.probability)}
+                </span>
+              ))}
+            </div>
+          )}
+          {report && report.notes.length > 0 && (
+            <div className="mt-3 text-xs text-left bg-white/60 rounded p-2">
+              <span className="font-semibold">{t('error.modelNotes')} </span>
+              {report.notes.join(' ')}
+            </div>
+          )}
+        </>
+      ) : (
+        message
+      )}
+      <button
+        onClick={onDismiss}
+        className="absolute top-3 right-3 p-1 opacity-60 hover:opacity-100"
+        title={t('error.dismiss')}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat, ExportLayout, ExportSettings, WatermarkPosition, WatermarkSettings } from '../types';
+import { EXPORT_FORMATS, FILENAME_TOKENS } from '../constants';
+import { downloadBlob, exportLook, ExportContext, ExportSources, prepareLogo } from '../services/exportImage';
+import { Button } from './Button';
+
+interface ExportDialogProps {
+  sources: ExportSources;
+  context: ExportContext;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+const LAYOUTS: { id: ExportLayout; label: string }[] = [
+  { id: 'single', label: 'Look only' },
+  { id: 'collage', label: 'Collage (you | saree | look)' },
+];
+
+const POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: 'top-left', label: '↖' },
+  { id: 'top-right', label: '↗' },
+  { id: 'bottom-left', label: '↙' },
+  { id: 'bottom-right', label: '↘' },
+];
+
+const PREVIEW_DELAY_MS = 250;
+
+const optionButtonClass = (isSelected: boolean) =>
+  `px-3 py-2 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50 ${
+    isSelected ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-600 border-stone-200 hover:border-stone-400'
+  }`;
+
+const formatSize = (bytes: number) =>
+  bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  sources,
+  context,
+  settings,
+  onSettingsChange,
+  onClose
+}) => {
+  const [exported, setExported] = useState<{ blob: Blob; filename: string; url: string } | null>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  const update = (patch: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...patch });
+  const updateWatermark = (patch: Partial<WatermarkSettings>) =>
+    update({ watermark: { ...settings.watermark, ...patch } });
+
+  // Re-render the export whenever a setting changes, so the preview, size and
+  // filename shown are exactly what will be downloaded
+  useEffect(() => {
+    let cancelled = false;
+    setIsRendering(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await exportLook(sources, settings, context);
+        if (cancelled) return;
+        if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+        previewUrlRef.current = URL.createObjectURL(result.blob);
+        setExported({ ...result, url: previewUrlRef.current });
+        setError(null);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Failed to render the export.');
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sources.result, sources.human, sources.saree, settings]);
+
+  useEffect(() => () => {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateWatermark({ logoDataUrl: await prepareLogo(file), enabled: true });
+    } catch {
+      setError('That logo image could not be read.');
+    }
+  };
+
+  const exportedFile = exported && new File([exported.blob], exported.filename, { type: exported.blob.type });
+  const canShare = !!exportedFile && !!navigator.canShare?.({ files: [exportedFile] });
+
+  const handleShare = async () => {
+    if (!exportedFile) return;
+    try {
+      await navigator.share({ files: [exportedFile], title: context.label });
+    } catch (e) {
+      // Dismissing the share sheet rejects with AbortError; nothing to report
+      if (!(e instanceof DOMException && e.name === 'AbortError')) setError('Sharing failed. Try downloading instead.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-stone-900/70 backdrop-blur-sm" role="dialog" aria-modal="true" aria-label={`Export ${context.label}`}>
+      <div className="w-full max-w-4xl max-h-full overflow-y-auto bg-white rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-100">
+          <h3 className="font-serif text-lg text-stone-900">Export {context.label}</h3>
+          <button onClick={onClose} className="p-1 text-stone-400 hover:text-stone-700" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6 p-6">
+          <div className="flex flex-col">
+            <div className="relative flex-grow min-h-[280px] flex items-center justify-center bg-stone-50 rounded-xl border border-stone-100 overflow-hidden">
+              {exported && <img src={exported.url} alt="Export preview" className={`max-w-full max-h-[60vh] object-contain transition-opacity ${isRendering ? 'opacity-50' : ''}`} />}
+              {isRendering && !exported && (
+                <div className="w-10 h-10 border-4 border-stone-200 border-t-rose-600 rounded-full animate-spin"></div>
+              )}
+            </div>
+            {exported && (
+              <p className="mt-2 text-xs text-stone-500 break-all">
+                {exported.filename} · {formatSize(exported.blob.size)}
+              </p>
+            )}
+            {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <p className="mb-2 text-xs font-semibold text-stone-500">Layout</p>
+              <div className="flex flex-wrap gap-2">
+                {LAYOUTS.map(layout => (
+                  <button
+                    key={layout.id}
+                    type="button"
+                    disabled={layout.id === 'collage' && !sources.human && !sources.saree}
+                    onClick={() => update({ layout: layout.id })}
+                    className={optionButtonClass(settings.layout === layout.id)}
+                  >
+                    {layout.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="mb-2 text-xs font-semibold text-stone-500">Format</p>
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => update({ format })}
+                    className={optionButtonClass(settings.format === format)}
+                  >
+                    {EXPORT_FORMATS[format].label}
+                  </button>
+                ))}
+                {settings.format !== 'png' && (
+                  <label className="flex items-center gap-2 ml-2 text-xs text-stone-600">
+                    Quality
+                    <input
+                      type="range"
+                      min={0.5}
+                      max={1}
+                      step={0.02}
+                      value={settings.quality}
+                      onChange={(e) => update({ quality: Number(e.target.value) })}
+                      className="accent-rose-600"
+                    />
+                    {Math.round(settings.quality * 100)}
+                  </label>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-xs font-semibold text-stone-500">
+                <input
+                  type="checkbox"
+                  checked={settings.watermark.enabled}
+                  onChange={(e) => updateWatermark({ enabled: e.target.checked })}
+                  className="accent-rose-600"
+                />
+                Watermark
+              </label>
+              {settings.watermark.enabled && (
+                <div className="mt-2 space-y-2">
+                  <input
+                    type="text"
+                    value={settings.watermark.text}
+                    onChange={(e) => updateWatermark({ text: e.target.value })}
+                    placeholder="Boutique name or handle"
+                    className="w-full px-3 py-2 text-sm border border-stone-200 rounded-lg focus:outline-none focus:border-rose-300"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {settings.watermark.logoDataUrl ? (
+                      <>
+                        <img src={settings.watermark.logoDataUrl} alt="Logo" className="h-8 w-auto rounded border border-stone-200 bg-stone-100" />
+                        <button type="button" onClick={() => updateWatermark({ logoDataUrl: null })} className="text-xs text-stone-500 underline hover:text-rose-600">
+                          Remove logo
+                        </button>
+                      </>
+                    ) : (
+                      <button type="button" onClick={() => logoInputRef.current?.click()} className={optionButtonClass(false)}>
+                        Add logo
+                      </button>
+                    )}
+                    <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+                    <div className="flex gap-1 ml-auto">
+                      {POSITIONS.map(position => (
+                        <button
+                          key={position.id}
+                          type="button"
+                          onClick={() => updateWatermark({ position: position.id })}
+                          className={optionButtonClass(settings.watermark.position === position.id)}
+                          title={position.id.replace('-', ' ')}
+                        >
+                          {position.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-stone-600">
+                    Opacity
+                    <input
+                      type="range"
+                      min={0.2}
+                      max={1}
+                      step={0.05}
+                      value={settings.watermark.opacity}
+                      onChange={(e) => updateWatermark({ opacity: Number(e.target.value) })}
+                      className="flex-grow accent-rose-600"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <p className="mb-2 text-xs font-semibold text-stone-500">File Name</p>
+              <input
+                type="text"
+                value={settings.filenamePattern}
+                onChange={(e) => update({ filenamePattern: e.target.value })}
+                className="w-full px-3 py-2 text-sm font-mono border border-stone-200 rounded-lg focus:outline-none focus:border-rose-300"
+              />
+              <div className="mt-2 flex flex-wrap gap-1">
+                {FILENAME_TOKENS.map(({ token, description }) => (
+                  <button
+                    key={token}
+                    type="button"
+                    onClick={() => update({ filenamePattern: `${settings.filenamePattern}-${token}` })}
+                    className="px-2 py-0.5 text-[11px] font-mono rounded bg-stone-100 text-stone-600 hover:bg-rose-50 hover:text-rose-700"
+                    title={description}
+                  >
+                    {token}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-start gap-2 text-xs text-stone-600">
+              <input
+                type="checkbox"
+                checked={settings.includeMetadata}
+                onChange={(e) => update({ includeMetadata: e.target.checked })}
+                className="mt-0.5 accent-rose-600"
+              />
+              <span>
+                Embed metadata
+                <span className="block text-stone-400">Marks the file as AI-generated (XMP, plus PNG text fields) with the date and generation settings.</span>
+              </span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-stone-100">
+          {canShare && (
+            <Button variant="outline" onClick={handleShare} disabled={isRendering}>Share</Button>
+          )}
+          <Button onClick={() => exported && downloadBlob(exported.blob, exported.filename)} disabled={!exported || isRendering}>
+            Download
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
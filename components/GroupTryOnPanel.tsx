@@ -0,0 +1,204 @@
+import React, { useRef } from 'react';
+import { AppError, GroupPerson, ImageFile } from '../types';
+import { PeopleDetectionStatus } from '../hooks/useGroupTryOn';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface GroupTryOnPanelProps {
+  photo: ImageFile;
+  people: GroupPerson[];
+  // Main saree image, offered first
+  mainSaree: ImageFile | null;
+  sarees: ImageFile[];
+  canAddSaree: boolean;
+  selectedId: string | null;
+  status: PeopleDetectionStatus;
+  error: AppError | null;
+  onDetect: () => void;
+  onSelect: (id: string | null) => void;
+  onAddPerson: (x: number, y: number) => void;
+  onRemovePerson: (id: string) => void;
+  onAssign: (id: string, saree: ImageFile | null) => void;
+  onAddSaree: (file: File) => void;
+  onRemoveSaree: (saree: ImageFile) => void;
+  onExit: () => void;
+  disabled?: boolean;
+}
+
+const swatchClass = (isSelected: boolean) =>
+  `relative w-12 h-14 flex-shrink-0 rounded-lg overflow-hidden border-2 transition-colors disabled:opacity-50 ${
+    isSelected ? 'border-rose-600' : 'border-stone-200 hover:border-stone-400'
+  }`;
+
+// Group photos: find the people, then click a person and a saree to dress
+// them. People without a saree are left exactly as they are.
+export const GroupTryOnPanel: React.FC<GroupTryOnPanelProps> = ({
+  photo,
+  people,
+  mainSaree,
+  sarees,
+  canAddSaree,
+  selectedId,
+  status,
+  error,
+  onDetect,
+  onSelect,
+  onAddPerson,
+  onRemovePerson,
+  onAssign,
+  onAddSaree,
+  onRemoveSaree,
+  onExit,
+  disabled = false
+}) => {
+  const { t, errorMessage } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = people.find(person => person.id === selectedId) ?? null;
+  const choices = mainSaree ? [mainSaree, ...sarees] : sarees;
+
+  if (status === 'detecting') {
+    return (
+      <div className="flex items-center gap-2 text-xs text-stone-500">
+        <span className="inline-block w-3 h-3 border-2 border-stone-200 border-t-rose-600 rounded-full animate-spin" />
+        Finding the people in this photo...
+      </div>
+    );
+  }
+
+  if (status !== 'ready') {
+    return (
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className={status === 'failed' ? 'text-rose-600' : 'text-stone-400'}>
+          {status === 'failed' ? `${t('error.peopleDetection')} ${error ? errorMessage(error) : ''}` : 'Group photo? Dress each person in their own saree.'}
+        </span>
+        <button
+          type="button"
+          onClick={onDetect}
+          disabled={disabled}
+          className="flex-shrink-0 font-medium text-stone-600 underline hover:text-rose-600 disabled:opacity-50"
+        >
+          {status === 'failed' ? 'Retry' : 'Find people'}
+        </button>
+      </div>
+    );
+  }
+
+  const handlePhotoClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onAddPerson((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onAddSaree(file);
+    e.target.value = '';
+  };
+
+  const sareeLetter = (saree: ImageFile) => String.fromCharCode(65 + choices.indexOf(saree));
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-stone-600">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-stone-500">Group · {people.length} {people.length === 1 ? 'person' : 'people'}</span>
+        <div className="flex gap-3">
+          <button type="button" onClick={onDetect} disabled={disabled} className="text-stone-400 underline hover:text-rose-600 disabled:opacity-50">
+            Find again
+          </button>
+          <button type="button" onClick={onExit} disabled={disabled} className="text-stone-400 underline hover:text-rose-600 disabled:opacity-50">
+            Single person
+          </button>
+        </div>
+      </div>
+
+      <div className="relative w-full rounded-xl overflow-hidden cursor-crosshair select-none" onClick={handlePhotoClick}>
+        <img src={photo.previewUrl} alt="Group" className="w-full h-auto block" draggable={false} />
+        {people.map((person, index) => (
+          <button
+            key={person.id}
+            type="button"
+            disabled={disabled}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(person.id === selectedId ? null : person.id);
+            }}
+            className={`absolute border-2 rounded-md transition-colors ${
+              person.id === selectedId ? 'border-rose-500 bg-rose-500/20' : 'border-white/80 hover:bg-white/10'
+            }`}
+            style={{
+              left: `${person.box.x * 100}%`,
+              top: `${person.box.y * 100}%`,
+              width: `${person.box.width * 100}%`,
+              height: `${person.box.height * 100}%`,
+            }}
+            title={`Person ${index + 1}`}
+          >
+            <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-stone-900/75 text-white text-[11px] font-medium">
+              {index + 1}{person.saree && choices.includes(person.saree) ? ` · ${sareeLetter(person.saree)}` : ''}
+            </span>
+          </button>
+        ))}
+      </div>
+      <p className="text-stone-400">
+        {people.length === 0 ? 'Nobody was found. ' : ''}Click a person to choose their saree, or click anyone who was missed to add them.
+      </p>
+
+      {selected && (
+        <div className="p-3 rounded-xl border border-stone-200 bg-stone-50">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold text-stone-700">Person {people.indexOf(selected) + 1} wears</span>
+            <button type="button" onClick={() => onRemovePerson(selected.id)} disabled={disabled} className="text-red-500 hover:text-red-700 disabled:opacity-50">
+              Remove person
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onAssign(selected.id, null)}
+              className={`${swatchClass(selected.saree === null)} flex items-center justify-center bg-white text-[11px] text-stone-500`}
+              title="Leave this person unchanged"
+            >
+              None
+            </button>
+            {choices.map(saree => (
+              <div key={saree.previewUrl} className="relative">
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onAssign(selected.id, saree)}
+                  className={swatchClass(selected.saree === saree)}
+                  title={`Saree ${sareeLetter(saree)}`}
+                >
+                  <img src={saree.previewUrl} alt={`Saree ${sareeLetter(saree)}`} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 inset-x-0 bg-stone-900/60 text-white text-[10px]">{sareeLetter(saree)}</span>
+                </button>
+                {saree !== mainSaree && !disabled && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveSaree(saree)}
+                    className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-white border border-stone-200 text-[10px] leading-none text-stone-400 hover:text-rose-600"
+                    title="Remove saree"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            ))}
+            {canAddSaree && (
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => fileInputRef.current?.click()}
+                className={`${swatchClass(false)} flex items-center justify-center bg-white text-lg text-stone-400 border-dashed`}
+                title="Add another saree"
+              >
+                +
+              </button>
+            )}
+          </div>
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { getDrapeStyle } from '../constants';
+import { Button } from './Button';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  entries: HistoryEntry[];
+  activeId: string | null;
+  disabled?: boolean;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+  onRerunEntry: (entry: HistoryEntry) => void;
+  onDeleteEntry: (entry: HistoryEntry) => void;
+  onExportEntry: (entry: HistoryEntry) => void;
+  onExportAll: () => void;
+}
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  entries,
+  activeId,
+  disabled = false,
+  onClose,
+  onOpenEntry,
+  onRerunEntry,
+  onDeleteEntry,
+  onExportEntry,
+  onExportAll
+}) => {
+  const { t, plural, formatDateTime } = useI18n();
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-stone-900/30 backdrop-blur-sm" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between px-6 py-5 border-b border-stone-100">
+          <h2 className="text-xl font-serif font-semibold text-stone-800">{t('history.title')}</h2>
+          <div className="flex items-center gap-2">
+            {entries.length > 0 && (
+              <Button variant="outline" className="text-xs px-3 py-1.5" onClick={onExportAll}>
+                {t('history.exportAll')}
+              </Button>
+            )}
+            <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-700" title={t('history.close')}>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-3">
+          {entries.length === 0 ? (
+            <p className="text-center text-sm text-stone-400 mt-12">{t('history.empty')}</p>
+          ) : (
+            entries.map((entry) => {
+              const cover = entry.outputs[entry.favoriteIndex ?? 0] ?? entry.outputs[0];
+              return (
+                <div
+                  key={entry.id}
+                  className={`flex gap-3 p-3 rounded-xl border transition-colors ${
+                    entry.id === activeId ? 'border-rose-300 bg-rose-50/50' : 'border-stone-100 hover:border-stone-200'
+                  }`}
+                >
+                  <button
+                    onClick={() => onOpenEntry(entry)}
+                    disabled={disabled}
+                    className="flex-shrink-0 w-20 h-24 rounded-lg overflow-hidden bg-stone-100 disabled:opacity-50"
+                    title={t('history.open')}
+                  >
+                    {cover && <img src={cover} alt={t('history.result')} className="w-full h-full object-cover" />}
+                  </button>
+                  <div className="flex-grow min-w-0 flex flex-col">
+                    <div className="flex items-center gap-1 mb-1">
+                      <img src={entry.human.dataUrl} alt={t('history.person')} className="w-6 h-6 rounded object-cover" />
+                      <img src={entry.saree.dataUrl} alt={t('history.saree')} className="w-6 h-6 rounded object-cover" />
+                      <span className="ml-1 text-xs text-stone-400 truncate">{formatDateTime(entry.createdAt)}</span>
+                    </div>
+                    <p className="text-sm font-medium text-stone-800 truncate">{getDrapeStyle(entry.drapeStyle).name}</p>
+                    <p className="text-xs text-stone-500">
+                      {plural('history.looks', entry.outputs.length)}
+                      {entry.group && ` · ${t('history.group', { count: entry.group.people.length })}`}
+                    </p>
+                    {entry.promptTemplateIds && entry.promptTemplateIds.length > 0 && (
+                      <p className="text-[11px] font-mono text-stone-400 truncate" title={t('history.promptTemplates')}>
+                        {entry.promptTemplateIds.join(' · ')}
+                      </p>
+                    )}
+                    <div className="mt-auto flex flex-wrap gap-x-3 gap-y-1 pt-2 text-xs font-medium">
+                      <button onClick={() => onOpenEntry(entry)} disabled={disabled} className="text-stone-700 hover:text-rose-600 disabled:opacity-50">{t('history.open')}</button>
+                      <button onClick={() => onRerunEntry(entry)} disabled={disabled} className="text-stone-700 hover:text-rose-600 disabled:opacity-50">{t('history.rerun')}</button>
+                      <button onClick={() => onExportEntry(entry)} className="text-stone-700 hover:text-rose-600">{t('history.export')}</button>
+                      <button onClick={() => onDeleteEntry(entry)} disabled={disabled} className="text-red-500 hover:text-red-700 disabled:opacity-50">{t('history.delete')}</button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GuidanceRegion, GuidanceRegionKind, ImageFile, NormalizedRect } from '../types';
+import { applyImageEdits, clampRect, QuarterTurns, renderRotated, rotateRect } from '../services/imageEdits';
+import { Button } from './Button';
+
+interface ImageEditorProps {
+  label: string;
+  image: ImageFile;
+  // Region kinds the user may mark; omit for crop/rotate only
+  regionKinds?: GuidanceRegionKind[];
+  onApply: (image: ImageFile) => void;
+  onCancel: () => void;
+}
+
+type EditorTool = 'crop' | GuidanceRegionKind;
+
+export const REGION_LABELS: Record<GuidanceRegionKind, string> = {
+  pallu: 'Pallu',
+  border: 'Border',
+};
+
+const REGION_STYLES: Record<GuidanceRegionKind, string> = {
+  pallu: 'border-rose-500 bg-rose-500/15',
+  border: 'border-amber-400 bg-amber-400/15',
+};
+
+const MIN_DRAG_SIZE = 0.02;
+
+const rectStyle = (rect: NormalizedRect): React.CSSProperties => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({
+  label,
+  image,
+  regionKinds = [],
+  onApply,
+  onCancel
+}) => {
+  const [rotation, setRotation] = useState<QuarterTurns>(0);
+  const [crop, setCrop] = useState<NormalizedRect | null>(null);
+  const [regions, setRegions] = useState<GuidanceRegion[]>(image.regions ?? []);
+  const [tool, setTool] = useState<EditorTool>('crop');
+  const [draft, setDraft] = useState<NormalizedRect | null>(null);
+  const [previewUrl, setPreviewUrl] = useState(image.previewUrl);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderRotated(image.previewUrl, rotation)
+      .then(canvas => { if (!cancelled) setPreviewUrl(canvas.toDataURL('image/jpeg', 0.9)); })
+      .catch(() => { if (!cancelled) setError('Failed to render the rotated image.'); });
+    return () => { cancelled = true; };
+  }, [image.previewUrl, rotation]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onCancel]);
+
+  const rotate = (direction: 1 | -1) => {
+    const turns = direction === 1 ? 1 : 3;
+    setRotation(r => ((r + turns) % 4) as QuarterTurns);
+    setRegions(prev => prev.map(region => ({ ...region, rect: rotateRect(region.rect, turns) })));
+    setCrop(c => c ? rotateRect(c, turns) : null);
+  };
+
+  const toNormalized = (e: React.PointerEvent) => {
+    const bounds = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - bounds.top) / bounds.height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toNormalized(e);
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const point = toNormalized(e);
+    setDraft({
+      x: Math.min(dragStart.current.x, point.x),
+      y: Math.min(dragStart.current.y, point.y),
+      width: Math.abs(point.x - dragStart.current.x),
+      height: Math.abs(point.y - dragStart.current.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    if (!draft || draft.width < MIN_DRAG_SIZE || draft.height < MIN_DRAG_SIZE) {
+      setDraft(null);
+      return;
+    }
+    const rect = clampRect(draft);
+    if (tool === 'crop') {
+      setCrop(rect);
+    } else {
+      setRegions(prev => [...prev, { id: crypto.randomUUID(), kind: tool, rect }]);
+    }
+    setDraft(null);
+  };
+
+  const handleReset = () => {
+    // Rotating back to 0 keeps region coordinates consistent with the source image
+    setRegions(prev => prev.map(region => ({ ...region, rect: rotateRect(region.rect, 4 - rotation) })));
+    setRotation(0);
+    setCrop(null);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await applyImageEdits(image, { rotation, crop }, regions));
+    } catch (e: any) {
+      setError(e.message || 'Failed to apply edits.');
+      setIsApplying(false);
+    }
+  };
+
+  const tools: { id: EditorTool; label: string }[] = [
+    { id: 'crop', label: 'Crop' },
+    ...regionKinds.map(kind => ({ id: kind as EditorTool, label: `Mark ${REGION_LABELS[kind]}` })),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-stone-900/70 backdrop-blur-sm" role="dialog" aria-modal="true" aria-label={`Edit ${label}`}>
+      <div className="w-full max-w-3xl max-h-full flex flex-col bg-white rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-100">
+          <h2 className="text-lg font-serif font-semibold text-stone-800">Edit {label}</h2>
+          <div className="flex gap-2">
+            <Button variant="outline" className="px-4 py-2" onClick={onCancel} disabled={isApplying}>Cancel</Button>
+            <Button className="px-4 py-2" onClick={handleApply} isLoading={isApplying}>Apply</Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-stone-100 bg-stone-50">
+          <button onClick={() => rotate(-1)} className="px-3 py-1.5 text-xs font-medium bg-white border border-stone-200 rounded-lg hover:border-stone-400" title="Rotate left">⟲ Rotate</button>
+          <button onClick={() => rotate(1)} className="px-3 py-1.5 text-xs font-medium bg-white border border-stone-200 rounded-lg hover:border-stone-400" title="Rotate right">⟳ Rotate</button>
+          <div className="w-px h-6 bg-stone-200 mx-1" />
+          {tools.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              aria-pressed={tool === t.id}
+              className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                tool === t.id ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-700 border-stone-200 hover:border-stone-400'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+          <button onClick={handleReset} className="ml-auto text-xs text-stone-500 hover:text-rose-600">Reset</button>
+        </div>
+
+        <div className="flex-grow overflow-auto p-6 flex items-center justify-center bg-stone-100">
+          <div
+            ref={surfaceRef}
+            className="relative inline-block select-none touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={previewUrl} alt={label} className="block max-h-[60vh] max-w-full" draggable={false} />
+
+            {crop && (
+              <div className="absolute border-2 border-dashed border-white pointer-events-none" style={{ ...rectStyle(crop), boxShadow: '0 0 0 9999px rgba(0,0,0,0.45)' }} />
+            )}
+
+            {regions.map(region => (
+              <div key={region.id} className={`absolute border-2 ${REGION_STYLES[region.kind]}`} style={rectStyle(region.rect)}>
+                <span className="absolute -top-5 left-0 px-1.5 py-0.5 bg-white rounded text-[10px] font-semibold text-stone-700 shadow">
+                  {REGION_LABELS[region.kind]}
+                </span>
+                <button
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => setRegions(prev => prev.filter(r => r.id !== region.id))}
+                  className="absolute -top-2 -right-2 w-5 h-5 flex items-center justify-center bg-white rounded-full shadow text-xs text-stone-600 hover:text-rose-600"
+                  title={`Remove ${REGION_LABELS[region.kind]} region`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+
+            {draft && (
+              <div
+                className={`absolute border-2 pointer-events-none ${tool === 'crop' ? 'border-dashed border-white' : REGION_STYLES[tool]}`}
+                style={rectStyle(draft)}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-3 text-xs text-stone-500 border-t border-stone-100">
+          {error ? (
+            <span className="text-red-600">{error}</span>
+          ) : tool === 'crop' ? (
+            'Drag on the image to select the area to keep.'
+          ) : (
+            `Drag over the ${REGION_LABELS[tool].toLowerCase()} detail that must be preserved exactly.`
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
-import React, { useRef } from 'react';
-import { ImageFile } from '../types';
+import React, { useRef, useState } from 'react';
+import { GuidanceRegionKind, ImageFile } from '../types';
+import { ImageEditor } from './ImageEditor';
+import { CameraCapture } from './CameraCapture';
+import { useI18n } from '../i18n/I18nProvider';
 
 interface ImageUploaderProps {
   label: string;
@@ -8,6 +11,11 @@ interface ImageUploaderProps {
   onClear: () => void;
   placeholderText?: string;
   icon?: React.ReactNode;
+  // Enables the crop/rotate editor; edited images are reported here
+  onImageEdited?: (image: ImageFile) => void;
+  regionKinds?: GuidanceRegionKind[];
+  // Offers a "Take photo" option next to the file picker
+  enableCamera?: boolean;
 }
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({
@@ -15,10 +23,16 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
   image,
   onImageSelected,
   onClear,
-  placeholderText = "Upload an image",
-  icon
+  placeholderText,
+  icon,
+  onImageEdited,
+  regionKinds,
+  enableCamera = false
 }) => {
+  const { t, plural } = useI18n();
   const inputRef = useRef<HTMLInputElement>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -47,8 +61,21 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
                  </svg>
                )}
             </div>
-            <p className="text-sm font-medium text-stone-600 group-hover:text-rose-700">{placeholderText}</p>
-            <p className="mt-1 text-xs text-stone-400">JPG, PNG up to 10MB</p>
+            <p className="text-sm font-medium text-stone-600 group-hover:text-rose-700">{placeholderText ?? t('uploader.placeholder')}</p>
+            <p className="mt-1 text-xs text-stone-400">{t('uploader.formats')}</p>
+            {enableCamera && (
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); setIsCapturing(true); }}
+                className="mt-4 inline-flex items-center px-4 py-2 text-xs font-medium rounded-full bg-white border border-stone-200 text-stone-700 shadow-sm hover:border-rose-300 hover:text-rose-700 transition-colors"
+              >
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+                {t('uploader.takePhoto')}
+              </button>
+            )}
           </div>
           <input 
             ref={inputRef}
@@ -66,10 +93,26 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
             className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
           />
           <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors duration-300" />
+          {onImageEdited && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="absolute top-3 right-14 p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-sm text-stone-700 hover:bg-stone-900 hover:text-white transition-all duration-200 opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0"
+              title={t('uploader.edit')}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+              </svg>
+            </button>
+          )}
+          {image.regions && image.regions.length > 0 && (
+            <span className="absolute bottom-3 left-3 px-2 py-1 bg-white/90 rounded text-xs font-medium text-stone-700 shadow-sm">
+              {plural('uploader.regions', image.regions.length)}
+            </span>
+          )}
           <button
             onClick={onClear}
             className="absolute top-3 right-3 p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-sm text-rose-600 hover:bg-rose-600 hover:text-white transition-all duration-200 opacity-0 group-hover:opacity-100 transform translate-y-2 group-hover:translate-y-0"
-            title="Remove image"
+            title={t('uploader.remove')}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
@@ -77,6 +120,30 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
           </button>
         </div>
       )}
+
+      {isCapturing && (
+        <CameraCapture
+          label={label}
+          onCancel={() => setIsCapturing(false)}
+          onCapture={(file) => {
+            setIsCapturing(false);
+            onImageSelected(file);
+          }}
+        />
+      )}
+
+      {isEditing && image && onImageEdited && (
+        <ImageEditor
+          label={label}
+          image={image}
+          regionKinds={regionKinds}
+          onCancel={() => setIsEditing(false)}
+          onApply={(edited) => {
+            setIsEditing(false);
+            onImageEdited(edited);
+          }}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
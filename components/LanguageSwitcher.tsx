@@ -0,0 +1,23 @@
+import React from 'react';
+import { Locale } from '../types';
+import { LOCALES } from '../constants';
+import { useI18n } from '../i18n/I18nProvider';
+
+// UI language picker; the choice is remembered on this device
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      className="text-xs text-stone-600 bg-transparent border border-stone-200 rounded-full px-2 py-1 hover:border-rose-300 focus:outline-none focus:border-rose-300"
+      title={t('app.language')}
+      aria-label={t('app.language')}
+    >
+      {(Object.keys(LOCALES) as Locale[]).map(id => (
+        <option key={id} value={id} lang={id}>{LOCALES[id].label}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { QueuedGeneration, QueuedGenerationStatus } from '../types';
+import { getDrapeStyle } from '../constants';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface OfflineQueuePanelProps {
+  items: QueuedGeneration[];
+  isOnline: boolean;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpen: (historyId: string) => void;
+  onClearDone: () => void;
+}
+
+const STATUS_STYLES: Record<QueuedGenerationStatus, string> = {
+  queued: 'bg-amber-50 text-amber-700',
+  sending: 'bg-sky-50 text-sky-700',
+  done: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+// Generations requested while offline, with the state of each one
+export const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({
+  items,
+  isOnline,
+  onRetry,
+  onRemove,
+  onOpen,
+  onClearDone
+}) => {
+  const { errorMessage } = useI18n();
+
+  // Items queued before errors carried a code hold the message as a string
+  const errorText = (error: QueuedGeneration['error']) =>
+    typeof error === 'string' ? error : error ? errorMessage(error) : null;
+
+  const statusLabel = (status: QueuedGenerationStatus) => {
+    switch (status) {
+      case 'queued': return isOnline ? 'Waiting to send' : 'Waiting for connection';
+      case 'sending': return 'Sending...';
+      case 'done': return 'Done';
+      case 'failed': return 'Failed';
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-stone-600">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-stone-500">Queued Try-Ons</span>
+        {items.some(item => item.status === 'done') && (
+          <button type="button" onClick={onClearDone} className="text-stone-400 underline hover:text-rose-600">
+            Clear done
+          </button>
+        )}
+      </div>
+      {!isOnline && (
+        <p className="text-stone-400">You are offline. Queued try-ons are sent automatically when the connection returns.</p>
+      )}
+      {items.map(item => (
+        <div key={item.id} className="flex items-center gap-3 p-2 rounded-xl border border-stone-100">
+          <div className="flex flex-shrink-0 gap-1">
+            <img src={item.human.dataUrl} alt="Person" className="w-8 h-10 rounded object-cover" />
+            <img src={item.saree.dataUrl} alt="Saree" className="w-8 h-10 rounded object-cover" />
+          </div>
+          <div className="flex-grow min-w-0">
+            <p className="font-medium text-stone-700 truncate">
+              {getDrapeStyle(item.drapeStyle).name}
+              {item.group && ` · group of ${item.group.people.length}`}
+              {' · '}{item.variations.count} {item.variations.count === 1 ? 'look' : 'looks'}
+            </p>
+            <p className="text-stone-400 truncate" title={errorText(item.error) ?? undefined}>
+              {formatTime(item.createdAt)}{item.error ? ` · ${errorText(item.error)}` : ''}
+            </p>
+          </div>
+          <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-[11px] font-medium ${STATUS_STYLES[item.status]}`}>
+            {statusLabel(item.status)}
+          </span>
+          <div className="flex flex-shrink-0 gap-2 font-medium">
+            {item.status === 'done' && item.historyId && (
+              <button type="button" onClick={() => onOpen(item.historyId!)} className="text-stone-700 hover:text-rose-600">Open</button>
+            )}
+            {(item.status === 'failed' || (item.status === 'queued' && isOnline)) && (
+              <button type="button" onClick={() => onRetry(item.id)} className="text-stone-700 hover:text-rose-600">
+                {item.status === 'failed' ? 'Retry' : 'Send now'}
+              </button>
+            )}
+            {item.status !== 'sending' && (
+              <button type="button" onClick={() => onRemove(item.id)} className="text-red-500 hover:text-red-700">Remove</button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
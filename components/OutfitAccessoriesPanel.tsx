@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import { AccessorySlot, BlouseStyle, ImageFile, Neckline, OutfitAccessories, SleeveLength } from '../types';
+import { MAX_JEWELLERY_IMAGES, NECKLINES, SLEEVE_LENGTHS } from '../constants';
+
+interface OutfitAccessoriesPanelProps {
+  accessories: OutfitAccessories;
+  blouseStyle: BlouseStyle;
+  onAddImages: (slot: AccessorySlot, files: File[]) => void;
+  onRemoveImage: (slot: AccessorySlot, index: number) => void;
+  onBlouseStyleChange: (style: BlouseStyle) => void;
+  disabled?: boolean;
+}
+
+const SLOTS: { id: AccessorySlot; label: string; hint: string }[] = [
+  { id: 'blouse', label: 'Blouse', hint: 'Add blouse' },
+  { id: 'jewellery', label: 'Jewellery', hint: 'Add pieces' },
+  { id: 'footwear', label: 'Footwear', hint: 'Add footwear' },
+];
+
+const optionButtonClass = (isSelected: boolean) =>
+  `px-3 py-2 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50 ${
+    isSelected ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-600 border-stone-200 hover:border-stone-400'
+  }`;
+
+const slotImages = (accessories: OutfitAccessories, slot: AccessorySlot): ImageFile[] => {
+  if (slot === 'jewellery') return accessories.jewellery;
+  const image = accessories[slot];
+  return image ? [image] : [];
+};
+
+export const OutfitAccessoriesPanel: React.FC<OutfitAccessoriesPanelProps> = ({
+  accessories,
+  blouseStyle,
+  onAddImages,
+  onRemoveImage,
+  onBlouseStyleChange,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRefs = useRef<Partial<Record<AccessorySlot, HTMLInputElement | null>>>({});
+
+  const pieceCount = SLOTS.reduce((count, slot) => count + slotImages(accessories, slot.id).length, 0);
+  const summary = [
+    pieceCount > 0 ? `${pieceCount} ${pieceCount === 1 ? 'piece' : 'pieces'}` : 'None',
+    blouseStyle.sleeve !== 'auto' ? SLEEVE_LENGTHS[blouseStyle.sleeve].label : null,
+    blouseStyle.neckline !== 'auto' ? NECKLINES[blouseStyle.neckline].label : null,
+  ].filter(Boolean).join(' · ');
+
+  const handleFileChange = (slot: AccessorySlot, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    if (files.length > 0) onAddImages(slot, files);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col w-full">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center justify-between w-full text-left"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm font-bold text-stone-700 tracking-wider uppercase">Blouse & Accessories</span>
+        <span className="flex items-center text-xs text-stone-500">
+          {summary}
+          <svg className={`w-4 h-4 ml-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <p className="text-xs text-stone-400">Optional. Anything left empty is chosen by the model to suit the saree.</p>
+
+          {SLOTS.map(slot => {
+            const images = slotImages(accessories, slot.id);
+            const capacity = slot.id === 'jewellery' ? MAX_JEWELLERY_IMAGES : 1;
+            return (
+              <div key={slot.id}>
+                <p className="mb-2 text-xs font-semibold text-stone-500">
+                  {slot.label}
+                  {slot.id === 'jewellery' && <span className="font-normal text-stone-400"> (up to {MAX_JEWELLERY_IMAGES})</span>}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {images.map((image, index) => (
+                    <div key={image.previewUrl} className="relative w-20 h-20 rounded-lg overflow-hidden border border-stone-200 group">
+                      <img src={image.previewUrl} alt={`${slot.label} ${index + 1}`} className="w-full h-full object-cover" />
+                      <button
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => onRemoveImage(slot.id, index)}
+                        className="absolute top-1 right-1 p-1 bg-white/90 rounded-full text-rose-600 hover:bg-rose-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Remove image"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                  {images.length < capacity && (
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => inputRefs.current[slot.id]?.click()}
+                      className="flex flex-col items-center justify-center w-20 h-20 border-2 border-dashed border-stone-300 rounded-lg bg-stone-50 text-stone-400 hover:bg-rose-50 hover:border-rose-300 hover:text-rose-500 transition-colors disabled:opacity-50"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
+                      </svg>
+                      <span className="mt-1 text-[10px] font-medium">{slot.hint}</span>
+                    </button>
+                  )}
+                  <input
+                    ref={(el) => { inputRefs.current[slot.id] = el; }}
+                    type="file"
+                    className="hidden"
+                    accept="image/*"
+                    multiple={slot.id === 'jewellery'}
+                    onChange={(e) => handleFileChange(slot.id, e)}
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">Blouse Sleeves</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SLEEVE_LENGTHS) as SleeveLength[]).map(sleeve => (
+                <button
+                  key={sleeve}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onBlouseStyleChange({ ...blouseStyle, sleeve })}
+                  className={optionButtonClass(blouseStyle.sleeve === sleeve)}
+                >
+                  {SLEEVE_LENGTHS[sleeve].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">Blouse Neckline</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(NECKLINES) as Neckline[]).map(neckline => (
+                <button
+                  key={neckline}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onBlouseStyleChange({ ...blouseStyle, neckline })}
+                  className={optionButtonClass(blouseStyle.neckline === neckline)}
+                >
+                  {NECKLINES[neckline].label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
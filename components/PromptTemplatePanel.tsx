@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { PromptSettings } from '../types';
+import { findUnknownVariables, getPromptTemplate, PROMPT_TEMPLATES, PROMPT_VARIABLES } from '../services/promptTemplates';
+
+interface PromptTemplatePanelProps {
+  value: PromptSettings;
+  onChange: (settings: PromptSettings) => void;
+  disabled?: boolean;
+}
+
+const optionButtonClass = (isSelected: boolean) =>
+  `px-3 py-2 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50 ${
+    isSelected ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-600 border-stone-200 hover:border-stone-400'
+  }`;
+
+// Developer tool: choose the VTO prompt template, A/B it against another one and
+// edit template text at runtime. Edits are kept on this device only.
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({
+  value,
+  onChange,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const template = getPromptTemplate(value.templateId);
+  const edited = value.edits[value.templateId];
+  const body = edited ?? template?.body ?? '';
+  const unknownVariables = findUnknownVariables(body);
+
+  const setBody = (text: string) => {
+    const { [value.templateId]: _previous, ...edits } = value.edits;
+    onChange({ ...value, edits: text === template?.body ? edits : { ...edits, [value.templateId]: text } });
+  };
+
+  const insertVariable = (name: string) => setBody(`${body}{{${name}}}`);
+
+  return (
+    <div className="flex flex-col w-full">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center justify-between w-full text-left"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm font-bold text-stone-700 tracking-wider uppercase">Prompt Template</span>
+        <span className="flex items-center text-xs text-stone-500 font-mono">
+          {value.templateId}{edited !== undefined && '+edited'}
+          {value.compareTemplateId && ` vs ${value.compareTemplateId}`}
+          <svg className={`w-4 h-4 ml-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">Template</p>
+            <div className="flex flex-wrap gap-2">
+              {PROMPT_TEMPLATES.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onChange({ ...value, templateId: option.id })}
+                  className={optionButtonClass(value.templateId === option.id)}
+                  title={option.description}
+                >
+                  v{option.version} {option.name}
+                  {value.edits[option.id] !== undefined && <span className="opacity-60"> (edited)</span>}
+                </button>
+              ))}
+            </div>
+            {template && <p className="mt-2 text-xs text-stone-400">{template.description}</p>}
+          </div>
+
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">A/B Compare</p>
+            <select
+              value={value.compareTemplateId ?? ''}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...value, compareTemplateId: e.target.value || null })}
+              className="w-full px-3 py-2 text-xs border border-stone-200 rounded-lg bg-white"
+            >
+              <option value="">Off</option>
+              {PROMPT_TEMPLATES.filter(option => option.id !== value.templateId).map(option => (
+                <option key={option.id} value={option.id}>v{option.version} {option.name} ({option.id})</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-stone-400">
+              Variations alternate between the two templates. Use 2 or 4 variations for an even split.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-semibold text-stone-500">Template Text</p>
+              {edited !== undefined && (
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => template && setBody(template.body)}
+                  className="text-xs text-stone-500 underline hover:text-rose-600 disabled:opacity-50"
+                >
+                  Revert to v{template?.version}
+                </button>
+              )}
+            </div>
+            <textarea
+              value={body}
+              disabled={disabled}
+              onChange={(e) => setBody(e.target.value)}
+              rows={12}
+              spellCheck={false}
+              className="w-full px-3 py-2 text-[11px] leading-relaxed font-mono border border-stone-200 rounded-lg focus:outline-none focus:border-rose-300"
+            />
+            {unknownVariables.length > 0 && (
+              <p className="mt-1 text-xs text-rose-600">
+                Unknown variables: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+              </p>
+            )}
+            <div className="mt-2 flex flex-wrap gap-1">
+              {PROMPT_VARIABLES.map(({ name, description }) => (
+                <button
+                  key={name}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => insertVariable(name)}
+                  className="px-2 py-0.5 text-[11px] font-mono rounded bg-stone-100 text-stone-600 hover:bg-rose-50 hover:text-rose-700"
+                  title={description}
+                >
+                  {`{{${name}}}`}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-stone-400">
+              Edited text is sent with each request and recorded as <span className="font-mono">{value.templateId}+edited</span>. The server only accepts it when edited templates are enabled.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { LookVersion } from '../types';
+import { flattenVersionTree, getVersionLabel, getVersionPath } from '../services/versionTree';
+import { Button } from './Button';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n/en';
+
+interface RefinementPanelProps {
+  versions: LookVersion[];
+  activeVersionId: string | null;
+  isRefining: boolean;
+  // Progress note while refining, e.g. a face-check re-roll
+  notice?: string | null;
+  disabled?: boolean;
+  onSelectVersion: (version: LookVersion) => void;
+  onRefine: (instruction: string) => void;
+  onCancel: () => void;
+}
+
+// Sent as the instruction in the user's language, like typed text
+const SUGGESTIONS: MessageKey[] = [
+  'refine.suggestion.pleats',
+  'refine.suggestion.palluLeft',
+  'refine.suggestion.blouse',
+  'refine.suggestion.border',
+];
+
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({
+  versions,
+  activeVersionId,
+  isRefining,
+  notice,
+  disabled = false,
+  onSelectVersion,
+  onRefine,
+  onCancel
+}) => {
+  const { t } = useI18n();
+  const [instruction, setInstruction] = useState('');
+  const nodes = flattenVersionTree(versions);
+  const path = activeVersionId ? getVersionPath(versions, activeVersionId) : [];
+  const hasRefinements = versions.some(version => version.parentId !== null);
+
+  const submit = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isRefining || disabled) return;
+    onRefine(trimmed);
+    setInstruction('');
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-stone-50 rounded-xl border border-stone-100">
+      <h3 className="text-xs font-bold text-stone-500 tracking-wider uppercase mb-3">{t('refine.title')}</h3>
+
+      <div className="space-y-2 mb-3 max-h-48 overflow-y-auto">
+        {path.filter(version => version.instruction).map(version => (
+          <div key={version.id} className="flex justify-end">
+            <button
+              onClick={() => onSelectVersion(version)}
+              className={`max-w-[80%] px-3 py-2 rounded-2xl rounded-br-sm text-sm text-left ${
+                version.id === activeVersionId ? 'bg-rose-600 text-white' : 'bg-white text-stone-700 border border-stone-200'
+              }`}
+              title={t('refine.showVersion')}
+            >
+              {version.instruction}
+              <span className="block text-[10px] opacity-70 mt-0.5">{getVersionLabel(versions, version, t)}</span>
+            </button>
+          </div>
+        ))}
+        {isRefining && (
+          <div className="flex items-center text-xs text-stone-500">
+            <span className="w-3 h-3 border-2 border-stone-200 border-t-rose-600 rounded-full animate-spin mr-2"></span>
+            {notice || t('refine.applying')}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {SUGGESTIONS.map(key => (
+          <button
+            key={key}
+            onClick={() => submit(t(key))}
+            disabled={isRefining || disabled}
+            className="px-3 py-1 bg-white border border-stone-200 rounded-full text-xs text-stone-600 hover:border-rose-300 hover:text-rose-700 disabled:opacity-50"
+          >
+            {t(key)}
+          </button>
+        ))}
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(instruction);
+        }}
+      >
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={isRefining || disabled}
+          placeholder={t('refine.placeholder')}
+          className="flex-grow px-3 py-2 text-sm border border-stone-200 rounded-lg bg-white focus:outline-none focus:border-rose-300"
+        />
+        {isRefining ? (
+          <Button type="button" variant="outline" className="px-4 py-2" onClick={onCancel}>{t('refine.cancel')}</Button>
+        ) : (
+          <Button type="submit" className="px-4 py-2" disabled={!instruction.trim() || disabled}>{t('refine.submit')}</Button>
+        )}
+      </form>
+
+      {hasRefinements && (
+        <div className="mt-4 pt-3 border-t border-stone-200">
+          <p className="text-xs font-semibold text-stone-500 mb-2">{t('refine.versions')}</p>
+          <ul className="space-y-1">
+            {nodes.map(({ version, depth }) => (
+              <li key={version.id} style={{ paddingLeft: `${depth * 16}px` }}>
+                <button
+                  onClick={() => onSelectVersion(version)}
+                  disabled={isRefining}
+                  className={`text-left text-xs truncate max-w-full ${
+                    version.id === activeVersionId ? 'font-semibold text-rose-700' : 'text-stone-600 hover:text-rose-600'
+                  }`}
+                >
+                  {depth > 0 ? '↳ ' : ''}{getVersionLabel(versions, version, t)}{version.instruction ? ` — ${version.instruction}` : ''}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-[11px] text-stone-400">{t('refine.versionsHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
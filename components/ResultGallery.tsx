@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { FaceCheck } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { dataUrlExtension } from '../services/exportImage';
+
+interface ResultGalleryProps {
+  images: string[];
+  // Optional display names per image (e.g. "Look 1 · v2"); defaults to "Look N"
+  labels?: string[];
+  // Face verification per image, shown as a match score badge
+  faceChecks?: (FaceCheck | null)[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  favoriteIndex: number | null;
+  onFavoriteChange: (index: number | null) => void;
+  onReset: () => void;
+  // Opens the zoomable comparison viewer for an image
+  onInspect?: (index: number) => void;
+  // Opens export options; without it Download saves the raw image
+  onExport?: (index: number) => void;
+}
+
+const downloadName = (image: string, index: number) => `saree-try-on-${index + 1}.${dataUrlExtension(image)}`;
+
+const DownloadIcon: React.FC<{ className?: string }> = ({ className = 'w-4 h-4' }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+  </svg>
+);
+
+const FaceCheckBadge: React.FC<{ check: FaceCheck }> = ({ check }) => {
+  const { t } = useI18n();
+  const rerolls = check.attempts > 1 ? ` · ${t('gallery.faceBestOf', { count: check.attempts })}` : '';
+  return (
+    <span
+      className={`px-2 py-1 rounded text-xs font-medium shadow-sm ${
+        check.passed ? 'bg-green-50/95 text-green-700' : 'bg-amber-50/95 text-amber-700'
+      }`}
+      title={`${t(`gallery.faceMethod.${check.method}`)}${rerolls}`}
+    >
+      {t('gallery.faceMatch', { score: Math.round(check.score * 100) })}{check.passed ? '' : ` · ${t('gallery.faceBelow')}`}
+    </span>
+  );
+};
+
+const StarIcon: React.FC<{ filled: boolean; className?: string }> = ({ filled, className = 'w-4 h-4' }) => (
+  <svg className={className} fill={filled ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+  </svg>
+);
+
+export const ResultGallery: React.FC<ResultGalleryProps> = ({
+  images,
+  labels,
+  faceChecks,
+  activeIndex,
+  onActiveIndexChange: setActiveIndex,
+  favoriteIndex,
+  onFavoriteChange,
+  onReset,
+  onInspect,
+  onExport
+}) => {
+  const { t } = useI18n();
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
+
+  // Keep selections valid while candidates stream in or the set is replaced
+  useEffect(() => {
+    if (activeIndex >= images.length) setActiveIndex(0);
+    if (compareIndex !== null && compareIndex >= images.length) setCompareIndex(null);
+  }, [images.length, activeIndex, compareIndex]);
+
+  const isComparing = compareIndex !== null;
+  const labelFor = (index: number) => labels?.[index] ?? t('results.look', { look: index + 1 });
+
+  const toggleCompare = () => {
+    if (isComparing) {
+      setCompareIndex(null);
+    } else {
+      setCompareIndex(activeIndex === 0 ? 1 : 0);
+    }
+  };
+
+  const handleThumbnailClick = (index: number) => {
+    // In compare mode the thumbnail strip drives the right-hand pane
+    if (isComparing && index !== activeIndex) {
+      setCompareIndex(index);
+    } else {
+      setActiveIndex(index);
+    }
+  };
+
+  const toggleFavorite = (index: number) => {
+    onFavoriteChange(favoriteIndex === index ? null : index);
+  };
+
+  const renderPane = (index: number, showActions: boolean) => (
+    <div className="relative w-full h-full group">
+      <img
+        src={images[index]}
+        alt={t('gallery.alt', { index: index + 1 })}
+        onDoubleClick={() => onInspect?.(index)}
+        className="w-full h-full object-contain max-h-[800px]"
+      />
+      <div className="absolute top-3 left-3 flex flex-wrap gap-2">
+        {images.length > 1 && (
+          <span className="px-2 py-1 bg-white/90 rounded text-xs font-medium text-stone-700 shadow-sm">
+            {labelFor(index)}{favoriteIndex === index ? ` · ${t('gallery.favourite')}` : ''}
+          </span>
+        )}
+        {faceChecks?.[index] && <FaceCheckBadge check={faceChecks[index]!} />}
+      </div>
+      <div className="absolute bottom-6 right-6 flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+        {onInspect && (
+          <button
+            onClick={() => onInspect(index)}
+            className="bg-white text-stone-800 px-4 py-2 rounded-lg shadow-lg hover:bg-stone-50 text-sm font-medium flex items-center"
+            title={t('gallery.inspectTitle')}
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+            </svg>
+            {t('gallery.inspect')}
+          </button>
+        )}
+        <a
+          href={images[index]}
+          download={downloadName(images[index], index)}
+          onClick={(e) => {
+            if (!onExport) return;
+            e.preventDefault();
+            onExport(index);
+          }}
+          className="bg-white text-stone-800 px-4 py-2 rounded-lg shadow-lg hover:bg-stone-50 text-sm font-medium flex items-center"
+        >
+          <DownloadIcon className="w-4 h-4 mr-2" />
+          {t('gallery.download')}
+        </a>
+        {showActions && (
+          <button
+            onClick={onReset}
+            className="bg-stone-900 text-white px-4 py-2 rounded-lg shadow-lg hover:bg-stone-800 text-sm font-medium"
+          >
+            {t('gallery.newTryOn')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {isComparing ? (
+        <div className="grid grid-cols-2 gap-2 flex-grow">
+          {renderPane(activeIndex, false)}
+          {renderPane(compareIndex, true)}
+        </div>
+      ) : (
+        <div className="flex-grow">{renderPane(activeIndex, true)}</div>
+      )}
+
+      {images.length > 1 && (
+        <div className="flex items-center gap-3 p-3 border-t border-stone-100 bg-white">
+          <div className="flex gap-2 overflow-x-auto flex-grow">
+            {images.map((image, index) => {
+              const isActive = index === activeIndex;
+              const isCompared = index === compareIndex;
+              return (
+                <div
+                  key={index}
+                  className={`relative flex-shrink-0 w-20 h-24 rounded-lg overflow-hidden border-2 cursor-pointer transition-colors ${
+                    isActive ? 'border-rose-500' : isCompared ? 'border-stone-800' : 'border-stone-200 hover:border-rose-300'
+                  }`}
+                  onClick={() => handleThumbnailClick(index)}
+                >
+                  <img src={image} alt={labelFor(index)} className="w-full h-full object-cover" />
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleFavorite(index); }}
+                    className={`absolute top-1 right-1 p-1 rounded-full bg-white/90 shadow-sm ${favoriteIndex === index ? 'text-amber-500' : 'text-stone-400 hover:text-amber-500'}`}
+                    title={t(favoriteIndex === index ? 'gallery.removeFavourite' : 'gallery.markFavourite')}
+                  >
+                    <StarIcon filled={favoriteIndex === index} className="w-3 h-3" />
+                  </button>
+                  <a
+                    href={image}
+                    download={downloadName(image, index)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (!onExport) return;
+                      e.preventDefault();
+                      onExport(index);
+                    }}
+                    className="absolute bottom-1 right-1 p-1 rounded-full bg-white/90 shadow-sm text-stone-500 hover:text-rose-600"
+                    title={t('gallery.downloadLook', { label: labelFor(index) })}
+                  >
+                    <DownloadIcon className="w-3 h-3" />
+                  </a>
+                </div>
+              );
+            })}
+          </div>
+          <button
+            onClick={toggleCompare}
+            className={`flex-shrink-0 px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${
+              isComparing ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-700 border-stone-200 hover:border-stone-400'
+            }`}
+          >
+            {t(isComparing ? 'gallery.exitCompare' : 'gallery.compare')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
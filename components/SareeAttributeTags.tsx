@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { AppError, SareeAttributes, SareeFabric, SareePresentation } from '../types';
+import { MAX_SAREE_COLOURS, SAREE_FABRICS, SAREE_PRESENTATIONS } from '../constants';
+import { SareeAnalysisStatus } from '../hooks/useSareeAttributes';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SareeAttributeTagsProps {
+  attributes: SareeAttributes | null;
+  status: SareeAnalysisStatus;
+  error: AppError | null;
+  onChange: (attributes: SareeAttributes) => void;
+  onAnalyze: () => void;
+  disabled?: boolean;
+}
+
+const fieldClass = 'w-full px-2 py-1 text-xs border border-stone-200 rounded-lg bg-white focus:outline-none focus:border-rose-300 disabled:opacity-50';
+
+// Attributes read from the saree photo. Everything is editable; the edited
+// values are what the try-on prompt receives.
+export const SareeAttributeTags: React.FC<SareeAttributeTagsProps> = ({
+  attributes,
+  status,
+  error,
+  onChange,
+  onAnalyze,
+  disabled = false
+}) => {
+  const { t, errorMessage } = useI18n();
+  const [colourDraft, setColourDraft] = useState('');
+
+  if (status === 'analyzing') {
+    return (
+      <div className="flex items-center gap-2 text-xs text-stone-500">
+        <span className="inline-block w-3 h-3 border-2 border-stone-200 border-t-rose-600 rounded-full animate-spin" />
+        {t('sareeTags.analysing')}
+      </div>
+    );
+  }
+
+  if (!attributes) {
+    return (
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className={status === 'failed' ? 'text-rose-600' : 'text-stone-400'}>
+          {status === 'failed' ? `${t('error.sareeAnalysis')} ${error ? errorMessage(error) : ''}` : t('sareeTags.empty')}
+        </span>
+        <button
+          type="button"
+          onClick={onAnalyze}
+          disabled={disabled}
+          className="flex-shrink-0 font-medium text-stone-600 underline hover:text-rose-600 disabled:opacity-50"
+        >
+          {t(status === 'failed' ? 'sareeTags.retry' : 'sareeTags.analyse')}
+        </button>
+      </div>
+    );
+  }
+
+  const update = (patch: Partial<SareeAttributes>) => onChange({ ...attributes, ...patch });
+
+  const addColours = () => {
+    const added = colourDraft.split(',').map(colour => colour.trim().toLowerCase()).filter(Boolean);
+    if (added.length > 0) {
+      update({ colours: Array.from(new Set([...attributes.colours, ...added])).slice(0, MAX_SAREE_COLOURS) });
+    }
+    setColourDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-stone-600">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-stone-500">{t('sareeTags.title')}</span>
+        <button
+          type="button"
+          onClick={onAnalyze}
+          disabled={disabled}
+          className="text-stone-400 underline hover:text-rose-600 disabled:opacity-50"
+          title={t('sareeTags.reanalyseTitle')}
+        >
+          {t('sareeTags.reanalyse')}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {attributes.colours.map(colour => (
+          <span key={colour} className="inline-flex items-center px-2 py-0.5 bg-rose-50 text-rose-800 rounded-full text-[11px]">
+            {colour}
+            {!disabled && (
+              <button
+                onClick={() => update({ colours: attributes.colours.filter(c => c !== colour) })}
+                className="ml-1 text-rose-300 hover:text-rose-600"
+                title={t('sareeTags.removeColour', { colour })}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {!disabled && attributes.colours.length < MAX_SAREE_COLOURS && (
+          <input
+            value={colourDraft}
+            onChange={(e) => setColourDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addColours();
+              }
+            }}
+            onBlur={addColours}
+            placeholder={t('sareeTags.addColour')}
+            className="w-16 px-1 text-[11px] bg-transparent border-b border-transparent focus:border-stone-300 focus:outline-none"
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          {t('sareeTags.border')}
+          <input
+            value={attributes.border}
+            disabled={disabled}
+            onChange={(e) => update({ border: e.target.value })}
+            placeholder={t('sareeTags.borderPlaceholder')}
+            className={fieldClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          {t('sareeTags.pattern')}
+          <input
+            value={attributes.pattern}
+            disabled={disabled}
+            onChange={(e) => update({ pattern: e.target.value })}
+            placeholder={t('sareeTags.patternPlaceholder')}
+            className={fieldClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          {t('sareeTags.fabric')}
+          <select
+            value={attributes.fabric}
+            disabled={disabled}
+            onChange={(e) => update({ fabric: e.target.value as SareeFabric })}
+            className={fieldClass}
+          >
+            {(Object.keys(SAREE_FABRICS) as SareeFabric[]).map(id => (
+              <option key={id} value={id}>{t(`fabric.${id}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          {t('sareeTags.presentation')}
+          <select
+            value={attributes.presentation}
+            disabled={disabled}
+            onChange={(e) => update({ presentation: e.target.value as SareePresentation })}
+            className={fieldClass}
+          >
+            {(Object.keys(SAREE_PRESENTATIONS) as SareePresentation[]).map(id => (
+              <option key={id} value={id}>{t(`presentation.${id}`)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
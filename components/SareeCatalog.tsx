@@ -0,0 +1,222 @@
+import React, { useRef, useState } from 'react';
+import { CatalogItem, SareeAttributes } from '../types';
+import { SAREE_FABRICS } from '../constants';
+import { collectDroppedImageFiles } from '../utils';
+
+interface SareeCatalogProps {
+  items: CatalogItem[];
+  totalCount: number;
+  allTags: string[];
+  tagFilter: string | null;
+  onTagFilterChange: (tag: string | null) => void;
+  searchQuery: string;
+  onSearchQueryChange: (query: string) => void;
+  // Items whose saree analysis is in flight
+  analyzingIds: string[];
+  // Analyses items that have no attributes yet
+  onAnalyze: () => void;
+  onAddFiles: (files: File[]) => void;
+  onUpdateItem: (id: string, patch: Partial<Omit<CatalogItem, 'id'>>) => void;
+  onRemoveItem: (id: string) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+// Non-standard attribute for picking a whole folder; not in React's typings
+const folderInputProps = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+// "Silk · broad gold zari border · paisley buttas"
+const describeAttributes = ({ fabric, border, pattern }: SareeAttributes) =>
+  [fabric === 'unknown' ? '' : SAREE_FABRICS[fabric].label, border, pattern].filter(Boolean).join(' · ');
+
+const TagEditor: React.FC<{ tags: string[]; onChange: (tags: string[]) => void; disabled: boolean }> = ({
+  tags,
+  onChange,
+  disabled
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const newTags = draft.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+    if (newTags.length > 0) onChange(Array.from(new Set([...tags, ...newTags])));
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {tags.map(tag => (
+        <span key={tag} className="inline-flex items-center px-2 py-0.5 bg-stone-100 text-stone-600 rounded-full text-[11px]">
+          {tag}
+          {!disabled && (
+            <button onClick={() => onChange(tags.filter(t => t !== tag))} className="ml-1 text-stone-400 hover:text-rose-600" title={`Remove ${tag}`}>×</button>
+          )}
+        </span>
+      ))}
+      {!disabled && (
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              commit();
+            }
+          }}
+          onBlur={commit}
+          placeholder="+ tag"
+          className="w-16 px-1 text-[11px] bg-transparent border-b border-transparent focus:border-stone-300 focus:outline-none"
+        />
+      )}
+    </div>
+  );
+};
+
+export const SareeCatalog: React.FC<SareeCatalogProps> = ({
+  items,
+  totalCount,
+  allTags,
+  tagFilter,
+  onTagFilterChange,
+  searchQuery,
+  onSearchQueryChange,
+  analyzingIds,
+  onAnalyze,
+  onAddFiles,
+  onUpdateItem,
+  onRemoveItem,
+  onClear,
+  disabled = false
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const unanalyzedCount = items.filter(item => !item.attributes).length;
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) onAddFiles(files);
+    e.target.value = ''; // allow re-selecting the same files
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    const files = await collectDroppedImageFiles(e.dataTransfer);
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  return (
+    <div className="flex flex-col w-full">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-bold text-stone-700 tracking-wider uppercase">Saree Catalog</label>
+        {totalCount > 0 && !disabled && (
+          <button onClick={onClear} className="text-xs text-stone-400 hover:text-rose-600">Clear all</button>
+        )}
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center w-full p-6 border-2 border-dashed rounded-xl text-center transition-all duration-300 ${
+          isDragging ? 'border-rose-400 bg-rose-50' : 'border-stone-300 bg-stone-50'
+        }`}
+      >
+        <p className="text-sm font-medium text-stone-600">Drop saree images or a whole folder here</p>
+        <div className="flex gap-3 mt-3">
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-xs font-medium bg-white border border-stone-200 rounded-lg hover:border-rose-300 disabled:opacity-50"
+          >
+            Choose Images
+          </button>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => folderInputRef.current?.click()}
+            className="px-3 py-1.5 text-xs font-medium bg-white border border-stone-200 rounded-lg hover:border-rose-300 disabled:opacity-50"
+          >
+            Choose Folder
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleInputChange} />
+        <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleInputChange} {...folderInputProps} />
+      </div>
+
+      {totalCount > 0 && (
+        <div className="flex items-center gap-2 mt-4">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => onSearchQueryChange(e.target.value)}
+            placeholder="Search colour, border, fabric..."
+            className="flex-grow min-w-0 px-3 py-1.5 text-xs border border-stone-200 rounded-lg focus:outline-none focus:border-rose-300"
+          />
+          <button
+            type="button"
+            disabled={disabled || analyzingIds.length > 0 || unanalyzedCount === 0}
+            onClick={onAnalyze}
+            className="flex-shrink-0 px-3 py-1.5 text-xs font-medium bg-white border border-stone-200 rounded-lg hover:border-rose-300 disabled:opacity-50"
+            title="Read colours, border, pattern and fabric from each saree image and add them as tags"
+          >
+            {analyzingIds.length > 0 ? `Analysing (${analyzingIds.length})...` : `Analyse${unanalyzedCount > 0 ? ` (${unanalyzedCount})` : ''}`}
+          </button>
+        </div>
+      )}
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button
+            onClick={() => onTagFilterChange(null)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border ${tagFilter === null ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-600 border-stone-200'}`}
+          >
+            All ({totalCount})
+          </button>
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onTagFilterChange(tagFilter === tag ? null : tag)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border ${tagFilter === tag ? 'bg-rose-600 text-white border-rose-600' : 'bg-white text-stone-600 border-stone-200'}`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <ul className="mt-4 space-y-2 max-h-96 overflow-y-auto pr-1">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center gap-3 p-2 rounded-lg border border-stone-100 bg-white">
+              <img src={item.image.previewUrl} alt={item.name} className="w-12 h-14 rounded object-cover flex-shrink-0" />
+              <div className="flex-grow min-w-0">
+                <input
+                  value={item.name}
+                  disabled={disabled}
+                  onChange={(e) => onUpdateItem(item.id, { name: e.target.value })}
+                  className="w-full text-sm font-medium text-stone-800 bg-transparent border-b border-transparent focus:border-stone-300 focus:outline-none"
+                />
+                {analyzingIds.includes(item.id) ? (
+                  <p className="text-[11px] text-stone-400">Analysing...</p>
+                ) : item.attributes && describeAttributes(item.attributes) && (
+                  <p className="text-[11px] text-stone-400 truncate">{describeAttributes(item.attributes)}</p>
+                )}
+                <TagEditor tags={item.tags} onChange={(tags) => onUpdateItem(item.id, { tags })} disabled={disabled} />
+              </div>
+              {!disabled && (
+                <button onClick={() => onRemoveItem(item.id)} className="p-1 text-stone-300 hover:text-rose-600" title="Remove from catalog">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { BackgroundMode, FaceCheckSettings, GenerationOptions } from '../types';
+import { ASPECT_RATIOS, BACKGROUND_MODES, IMAGE_SIZES, MAX_FACE_REROLLS } from '../constants';
+
+interface SettingsPanelProps {
+  value: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  disabled?: boolean;
+}
+
+const optionButtonClass = (isSelected: boolean) =>
+  `px-3 py-2 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50 ${
+    isSelected ? 'bg-stone-900 text-white border-stone-900' : 'bg-white text-stone-600 border-stone-200 hover:border-stone-400'
+  }`;
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  value,
+  onChange,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const sizeInfo = IMAGE_SIZES.find(size => size.id === value.imageSize);
+
+  const setBackground = (mode: BackgroundMode) => {
+    onChange({ ...value, background: { ...value.background, mode } });
+  };
+
+  const setFaceCheck = (patch: Partial<FaceCheckSettings>) => {
+    onChange({ ...value, faceCheck: { ...value.faceCheck, ...patch } });
+  };
+
+  return (
+    <div className="flex flex-col w-full">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center justify-between w-full text-left"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm font-bold text-stone-700 tracking-wider uppercase">Output Settings</span>
+        <span className="flex items-center text-xs text-stone-500">
+          {value.aspectRatio} · {value.imageSize} · {BACKGROUND_MODES[value.background.mode].label}
+          <svg className={`w-4 h-4 ml-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5">
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">Aspect Ratio</p>
+            <div className="flex flex-wrap gap-2">
+              {ASPECT_RATIOS.map(ratio => (
+                <button
+                  key={ratio.id}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onChange({ ...value, aspectRatio: ratio.id })}
+                  className={optionButtonClass(value.aspectRatio === ratio.id)}
+                >
+                  {ratio.label} <span className="opacity-60">{ratio.usage}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">Resolution</p>
+            <div className="flex flex-wrap gap-2">
+              {IMAGE_SIZES.map(size => (
+                <button
+                  key={size.id}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onChange({ ...value, imageSize: size.id })}
+                  className={optionButtonClass(value.imageSize === size.id)}
+                >
+                  {size.label}
+                </button>
+              ))}
+            </div>
+            {sizeInfo && <p className="mt-1 text-xs text-stone-400">{sizeInfo.description}</p>}
+          </div>
+
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">Background</p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(BACKGROUND_MODES) as BackgroundMode[]).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => setBackground(mode)}
+                  className={optionButtonClass(value.background.mode === mode)}
+                >
+                  {BACKGROUND_MODES[mode].label}
+                </button>
+              ))}
+            </div>
+            {value.background.mode === 'scene' && (
+              <textarea
+                value={value.background.sceneDescription}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...value, background: { ...value.background, sceneDescription: e.target.value } })}
+                placeholder="e.g. a temple courtyard at golden hour, marigold decorations"
+                rows={2}
+                className="mt-2 w-full px-3 py-2 text-sm border border-stone-200 rounded-lg focus:outline-none focus:border-rose-300"
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-xs font-semibold text-stone-500">
+              <input
+                type="checkbox"
+                checked={value.faceCheck.enabled}
+                disabled={disabled}
+                onChange={(e) => setFaceCheck({ enabled: e.target.checked })}
+                className="accent-rose-600"
+              />
+              Verify face preservation
+            </label>
+            {value.faceCheck.enabled && (
+              <div className="mt-2 space-y-2">
+                <div className="flex items-center gap-3 text-xs text-stone-600">
+                  <span className="w-24">Min. match {Math.round(value.faceCheck.threshold * 100)}%</span>
+                  <input
+                    type="range"
+                    min={0.3}
+                    max={0.95}
+                    step={0.05}
+                    value={value.faceCheck.threshold}
+                    disabled={disabled}
+                    onChange={(e) => setFaceCheck({ threshold: Number(e.target.value) })}
+                    className="flex-grow accent-rose-600"
+                  />
+                </div>
+                <div className="flex items-center gap-3 text-xs text-stone-600">
+                  <span className="w-24">Auto re-rolls</span>
+                  <select
+                    value={value.faceCheck.maxRerolls}
+                    disabled={disabled}
+                    onChange={(e) => setFaceCheck({ maxRerolls: Number(e.target.value) })}
+                    className="px-2 py-1 border border-stone-200 rounded bg-white"
+                  >
+                    {Array.from({ length: MAX_FACE_REROLLS + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+                <p className="text-xs text-stone-400">Checked on this device. With auto re-rolls, looks below the threshold are regenerated, which uses extra requests.</p>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-stone-400">These settings are remembered on this device.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { ModelPrice, UsageCallType, UsageRecord, UsageSettings } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { DailyUsage, estimateCost, formatUsd } from '../services/usageTracker';
+import { Button } from './Button';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  days: DailyUsage[];
+  today: DailyUsage | null;
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const VISIBLE_DAYS = 14;
+const VISIBLE_CALLS = 20;
+
+const PRICE_FIELDS: { id: keyof ModelPrice; label: string }[] = [
+  { id: 'input', label: 'Input' },
+  { id: 'outputText', label: 'Text & thinking' },
+  { id: 'outputImage', label: 'Image output' },
+];
+
+const CALL_TYPE_LABELS: Record<UsageCallType, string> = {
+  generate: 'Generate',
+  refine: 'Refine',
+  analyze: 'Analyse',
+  detect: 'Detect',
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const formatLatency = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({
+  records,
+  days,
+  today,
+  settings,
+  onSettingsChange,
+  onClear,
+  onClose
+}) => {
+  // Kept as text so the field can be cleared and typed into freely
+  const [budgetText, setBudgetText] = useState(settings.dailyBudget === null ? '' : String(settings.dailyBudget));
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const handleBudgetChange = (value: string) => {
+    setBudgetText(value);
+    const budget = Number(value);
+    if (value.trim() === '') onSettingsChange({ ...settings, dailyBudget: null });
+    else if (Number.isFinite(budget) && budget >= 0) onSettingsChange({ ...settings, dailyBudget: budget });
+  };
+
+  const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate < 0) return;
+    onSettingsChange({
+      ...settings,
+      prices: { ...settings.prices, [model]: { ...settings.prices[model], [field]: rate } },
+    });
+  };
+
+  const todayCost = today?.cost ?? 0;
+  const budget = settings.dailyBudget;
+  const budgetShare = budget ? Math.min(1, todayCost / budget) : 0;
+  const monthCost = days.slice(0, 30).reduce((sum, day) => sum + day.cost, 0);
+  const recentCalls = records.slice(-VISIBLE_CALLS).reverse();
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-stone-900/70 backdrop-blur-sm" role="dialog" aria-modal="true" aria-label="Usage and cost">
+      <div className="w-full max-w-3xl max-h-full overflow-y-auto bg-white rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-100">
+          <h3 className="font-serif text-lg text-stone-900">Usage & Cost</h3>
+          <button onClick={onClose} className="p-1 text-stone-400 hover:text-stone-700" title="Close">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-4 rounded-xl bg-stone-50 border border-stone-100">
+              <p className="text-xs text-stone-500">Today</p>
+              <p className="text-2xl font-serif text-stone-900">{formatUsd(todayCost)}</p>
+              <p className="text-xs text-stone-400">{today?.calls ?? 0} calls · {formatTokens(today?.tokens ?? 0)} tokens</p>
+            </div>
+            <div className="p-4 rounded-xl bg-stone-50 border border-stone-100">
+              <p className="text-xs text-stone-500">Last 30 days</p>
+              <p className="text-2xl font-serif text-stone-900">{formatUsd(monthCost)}</p>
+              <p className="text-xs text-stone-400">{days.slice(0, 30).reduce((sum, day) => sum + day.calls, 0)} calls</p>
+            </div>
+            <div className="p-4 rounded-xl bg-stone-50 border border-stone-100">
+              <label className="text-xs text-stone-500" htmlFor="usage-budget">Daily budget (USD)</label>
+              <input
+                id="usage-budget"
+                type="number"
+                min={0}
+                step={0.5}
+                value={budgetText}
+                onChange={(e) => handleBudgetChange(e.target.value)}
+                placeholder="No limit"
+                className="w-full mt-1 px-2 py-1 text-sm border border-stone-200 rounded-lg focus:outline-none focus:border-rose-300"
+              />
+              {budget !== null && (
+                <div className="mt-2 h-1.5 rounded-full bg-stone-200 overflow-hidden">
+                  <div
+                    className={`h-full ${budgetShare >= 1 ? 'bg-rose-600' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-green-500'}`}
+                    style={{ width: `${budgetShare * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+          {budget !== null && todayCost >= budget && (
+            <p className="text-xs text-rose-600">Today's budget is used up. Generation is blocked until tomorrow, or until you raise the budget.</p>
+          )}
+
+          <div>
+            <p className="mb-2 text-xs font-semibold text-stone-500">By Day</p>
+            {days.length === 0 ? (
+              <p className="text-sm text-stone-400">No calls recorded yet.</p>
+            ) : (
+              <table className="w-full text-xs text-stone-600">
+                <thead>
+                  <tr className="text-left text-stone-400">
+                    <th className="py-1 font-medium">Date</th>
+                    <th className="py-1 font-medium text-right">Calls</th>
+                    <th className="py-1 font-medium text-right">Failed</th>
+                    <th className="py-1 font-medium text-right">Tokens</th>
+                    <th className="py-1 font-medium text-right">Avg. latency</th>
+                    <th className="py-1 font-medium text-right">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.slice(0, VISIBLE_DAYS).map(day => (
+                    <tr key={day.day} className="border-t border-stone-100">
+                      <td className="py-1.5">{day.day}</td>
+                      <td className="py-1.5 text-right">{day.calls}</td>
+                      <td className="py-1.5 text-right">{day.calls - day.succeeded || ''}</td>
+                      <td className="py-1.5 text-right">{formatTokens(day.tokens)}</td>
+                      <td className="py-1.5 text-right">{formatLatency(day.averageLatencyMs)}</td>
+                      <td className="py-1.5 text-right font-medium text-stone-800">{formatUsd(day.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {recentCalls.length > 0 && (
+            <div>
+              <p className="mb-2 text-xs font-semibold text-stone-500">Recent Calls</p>
+              <ul className="space-y-1 text-xs text-stone-600">
+                {recentCalls.map(record => (
+                  <li key={record.id} className="flex items-center gap-3">
+                    <span className="w-12 text-stone-400">{formatTime(record.timestamp)}</span>
+                    <span className="w-14">{CALL_TYPE_LABELS[record.callType] ?? record.callType}</span>
+                    <span className="w-8">{record.imageSize ?? '–'}</span>
+                    <span className={`flex-grow truncate ${record.outcome === 'success' ? 'text-green-700' : 'text-rose-600'}`}>
+                      {record.outcome}
+                      {record.model && <span className="text-stone-400"> · {record.model}</span>}
+                    </span>
+                    <span className="w-12 text-right">{formatLatency(record.latencyMs)}</span>
+                    <span className="w-14 text-right">{record.tokens ? formatTokens(record.tokens.total) : '–'}</span>
+                    <span className="w-14 text-right">{formatUsd(estimateCost(record, settings.prices))}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-semibold text-stone-500">Prices (USD per million tokens)</p>
+              <button
+                type="button"
+                onClick={() => onSettingsChange({ ...settings, prices: DEFAULT_MODEL_PRICES })}
+                className="text-xs text-stone-500 underline hover:text-rose-600"
+              >
+                Reset to list prices
+              </button>
+            </div>
+            {Object.entries(settings.prices).map(([model, price]) => (
+              <div key={model} className="flex flex-wrap items-center gap-3 text-xs text-stone-600">
+                <span className="font-mono text-stone-800">{model}</span>
+                {PRICE_FIELDS.map(field => (
+                  <label key={field.id} className="flex items-center gap-1">
+                    {field.label}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={price[field.id]}
+                      onChange={(e) => handlePriceChange(model, field.id, e.target.value)}
+                      className="w-20 px-2 py-1 border border-stone-200 rounded focus:outline-none focus:border-rose-300"
+                    />
+                  </label>
+                ))}
+              </div>
+            ))}
+            <p className="mt-2 text-xs text-stone-400">
+              Estimates from the token counts the model reports. Check{' '}
+              <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="underline hover:text-rose-600">Gemini billing</a>{' '}
+              for actual charges.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-3 px-6 py-4 border-t border-stone-100">
+          <Button variant="outline" onClick={onClear} disabled={records.length === 0}>Clear Log</Button>
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { VariationMode, VariationSettings } from '../types';
+import { MAX_VARIATIONS } from '../services/variations';
+
+interface VariationControlsProps {
+  value: VariationSettings;
+  onChange: (settings: VariationSettings) => void;
+  disabled?: boolean;
+}
+
+const MODES: { id: VariationMode; label: string }[] = [
+  { id: 'parallel', label: 'Parallel' },
+  { id: 'sequential', label: 'One by one' },
+];
+
+export const VariationControls: React.FC<VariationControlsProps> = ({
+  value,
+  onChange,
+  disabled = false
+}) => {
+  return (
+    <div className="flex flex-col w-full">
+      <label className="mb-2 text-sm font-bold text-stone-700 tracking-wider uppercase">Variations</label>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+          {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map((count) => (
+            <button
+              key={count}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange({ ...value, count })}
+              className={`w-10 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+                value.count === count ? 'bg-rose-600 text-white' : 'bg-white text-stone-600 hover:bg-rose-50'
+              }`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+        {value.count > 1 && (
+          <div className="flex rounded-lg border border-stone-200 overflow-hidden">
+            {MODES.map((mode) => (
+              <button
+                key={mode.id}
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange({ ...value, mode: mode.id })}
+                className={`px-3 py-2 text-xs font-medium transition-colors disabled:opacity-50 ${
+                  value.mode === mode.id ? 'bg-stone-900 text-white' : 'bg-white text-stone-600 hover:bg-stone-50'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {value.count > 1 && (
+        <p className="mt-2 text-xs text-stone-400">Each variation is a separate generation request.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import {
+  AspectRatio,
+  BackgroundMode,
+  BlouseStyle,
+  DrapeStyle,
+  DrapeStyleId,
+  ExportFormat,
+  ExportSettings,
+  GenerationOptions,
+  ImageSize,
+  Locale,
+  ModelPrice,
+  Neckline,
+  OutfitAccessories,
+  SareeFabric,
+  SareePresentation,
+  SleeveLength,
+  UsageSettings
+} from './types';
+
+// Catalog of supported drape styles. Each entry carries the prompt fragment that
+// is spliced into the VTO prompt, so the wording can be tuned per style without
+// touching the service.
+export const DRAPE_STYLES: Record<DrapeStyleId, DrapeStyle> = {
+  nivi: {
+    id: 'nivi',
+    name: 'Nivi',
+    region: 'Andhra Pradesh',
+    description: 'Classic pleated front with the pallu over the left shoulder.',
+    promptFragment:
+      'Drape it in the Nivi style: tuck the saree at the waist, form neat front pleats, and take the pallu diagonally across the chest over the LEFT shoulder so it falls down the back.',
+  },
+  bengali: {
+    id: 'bengali',
+    name: 'Bengali',
+    region: 'West Bengal',
+    description: 'Wide box pleats; the pallu goes over the left shoulder and comes back under the right arm to rest on the right shoulder.',
+    promptFragment:
+      'Drape it in the traditional Bengali (Aatpoure) style: wide box pleats at the front without a separate pleated fan, the pallu taken over the LEFT shoulder and brought back around under the RIGHT arm to rest over the right shoulder.',
+  },
+  gujarati: {
+    id: 'gujarati',
+    name: 'Gujarati (Seedha Pallu)',
+    region: 'Gujarat',
+    description: 'Pallu brought over the right shoulder and spread across the front.',
+    promptFragment:
+      'Drape it in the Gujarati seedha pallu style: front pleats tucked at the waist, the pallu taken from the back over the RIGHT shoulder and spread flat across the FRONT of the body so its design is fully displayed, with one end tucked at the left waist.',
+  },
+  nauvari: {
+    id: 'nauvari',
+    name: 'Maharashtrian Nauvari',
+    region: 'Maharashtra',
+    description: 'Nine-yard dhoti-style drape tucked at the back.',
+    promptFragment:
+      'Drape it in the Maharashtrian Nauvari (nine-yard, kashta) style: the lower part wrapped dhoti-style between the legs and tucked at the back so each leg is separately covered, with the pallu over the LEFT shoulder.',
+  },
+  halfSaree: {
+    id: 'halfSaree',
+    name: 'Half Saree (Langa Voni)',
+    region: 'South India',
+    description: 'Flared skirt with a dupatta-style voni draped across.',
+    promptFragment:
+      'Style it as a half saree (langa voni): use the saree fabric for a long flared pleated skirt (langa) and a shorter voni draped diagonally from the right waist across the chest over the LEFT shoulder, keeping the border visible on both.',
+  },
+};
+
+export const DEFAULT_DRAPE_STYLE: DrapeStyleId = 'nivi';
+
+export const getDrapeStyle = (id: DrapeStyleId): DrapeStyle => {
+  return DRAPE_STYLES[id] ?? DRAPE_STYLES[DEFAULT_DRAPE_STYLE];
+};
+
+export const ASPECT_RATIOS: { id: AspectRatio; label: string; usage: string }[] = [
+  { id: '3:4', label: '3:4', usage: 'Portrait' },
+  { id: '4:5', label: '4:5', usage: 'Feed post' },
+  { id: '1:1', label: '1:1', usage: 'Marketplace' },
+  { id: '9:16', label: '9:16', usage: 'Stories' },
+];
+
+export const IMAGE_SIZES: { id: ImageSize; label: string; description: string }[] = [
+  { id: '1K', label: '1K Draft', description: 'Cheaper and faster, good for previews' },
+  { id: '2K', label: '2K', description: 'High resolution for fabric detail' },
+  { id: '4K', label: '4K', description: 'Maximum detail, slowest and most expensive' },
+];
+
+// Prompt fragments per background mode; 'scene' embeds the user's description
+export const BACKGROUND_MODES: Record<BackgroundMode, { label: string; describe: (scene: string) => string }> = {
+  original: {
+    label: 'Original',
+    describe: () => 'Keep the original background of Image 1 exactly as it is.',
+  },
+  studio: {
+    label: 'Studio',
+    describe: () =>
+      'Replace the background with a plain, seamless light-grey studio backdrop with soft, even lighting and a subtle floor shadow, as in professional catalogue photography.',
+  },
+  scene: {
+    label: 'Scene',
+    describe: (scene) =>
+      `Replace the background with the following scene: ${scene.trim() || 'an elegant, softly lit indoor setting'}. Relight the person and saree so they match the scene naturally.`,
+  },
+};
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  aspectRatio: '3:4',
+  imageSize: '2K',
+  background: { mode: 'original', sceneDescription: '' },
+  // Scored by default; re-rolls are opt-in because each is another paid generation
+  faceCheck: { enabled: true, threshold: 0.6, maxRerolls: 0 },
+};
+
+export const MAX_FACE_REROLLS = 4;
+
+// Blouse style options. 'auto' entries have no fragment: the model follows the
+// blouse image if one is given, otherwise picks a blouse that suits the saree.
+export const SLEEVE_LENGTHS: Record<SleeveLength, { label: string; promptFragment: string | null }> = {
+  auto: { label: 'Any', promptFragment: null },
+  sleeveless: { label: 'Sleeveless', promptFragment: 'sleeveless' },
+  cap: { label: 'Cap sleeves', promptFragment: 'short cap sleeves' },
+  elbow: { label: 'Elbow length', promptFragment: 'elbow-length sleeves' },
+  full: { label: 'Full sleeves', promptFragment: 'full-length sleeves reaching the wrists' },
+};
+
+export const NECKLINES: Record<Neckline, { label: string; promptFragment: string | null }> = {
+  auto: { label: 'Any', promptFragment: null },
+  round: { label: 'Round', promptFragment: 'a round neckline' },
+  sweetheart: { label: 'Sweetheart', promptFragment: 'a sweetheart neckline' },
+  boat: { label: 'Boat neck', promptFragment: 'a wide boat neckline' },
+  vNeck: { label: 'V-neck', promptFragment: 'a V neckline' },
+  highNeck: { label: 'High neck', promptFragment: 'a high, closed collar neckline' },
+};
+
+export const DEFAULT_BLOUSE_STYLE: BlouseStyle = { sleeve: 'auto', neckline: 'auto' };
+
+// Upload types the app takes and the try-on server allows. HEIC/HEIF is left
+// out: browsers other than Safari can't decode it for preprocessing.
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Each jewellery image is another input image, so keep the request bounded
+export const MAX_JEWELLERY_IMAGES = 4;
+
+// Group photos: people a single request can dress, and distinct sarees among them
+export const MAX_GROUP_PEOPLE = 12;
+export const MAX_GROUP_SAREES = 6;
+
+export const EMPTY_ACCESSORIES: OutfitAccessories = { blouse: null, jewellery: [], footwear: null };
+
+// Saree attribute vocabularies. The model must answer with one of these ids;
+// anything else is read as 'unknown'.
+export const SAREE_FABRICS: Record<SareeFabric, { label: string }> = {
+  silk: { label: 'Silk' },
+  cotton: { label: 'Cotton' },
+  chiffon: { label: 'Chiffon' },
+  georgette: { label: 'Georgette' },
+  crepe: { label: 'Crepe' },
+  organza: { label: 'Organza' },
+  linen: { label: 'Linen' },
+  net: { label: 'Net' },
+  synthetic: { label: 'Synthetic' },
+  unknown: { label: 'Unknown' },
+};
+
+// How the saree appears in its photo changes what the model has to infer
+export const SAREE_PRESENTATIONS: Record<SareePresentation, { label: string; promptFragment: string | null }> = {
+  'flat-lay': {
+    label: 'Flat lay',
+    promptFragment: 'Image 2 shows the saree laid flat; infer how its body, border and pallu fall once draped.',
+  },
+  hanger: {
+    label: 'On hanger',
+    promptFragment: 'Image 2 shows the saree folded on a hanger; only part of it is visible, so continue the visible pattern across the rest.',
+  },
+  worn: {
+    label: 'Worn',
+    promptFragment: 'Image 2 shows the saree worn by someone else; take only the garment from it, never that person\'s face, body or pose.',
+  },
+  unknown: { label: 'Unknown', promptFragment: null },
+};
+
+// Saree colours kept per analysis; the first few carry the look
+export const MAX_SAREE_COLOURS = 5;
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; extension: string }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+};
+
+export const FILENAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{date}', description: 'Export date, e.g. 2024-05-31' },
+  { token: '{time}', description: 'Export time, e.g. 142501' },
+  { token: '{look}', description: 'Look name, e.g. look-2-v3' },
+  { token: '{drape}', description: 'Drape style' },
+  { token: '{layout}', description: 'single or collage' },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 0.92,
+  layout: 'single',
+  watermark: { enabled: false, text: '', logoDataUrl: null, position: 'bottom-right', opacity: 0.8 },
+  filenamePattern: 'saree-try-on-{date}-{look}',
+  includeMetadata: true,
+};
+
+// List prices for the try-on and saree analysis models; editable in the usage
+// dashboard when they change. Thinking tokens are billed as text output.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-image-preview': { input: 2, outputText: 12, outputImage: 120 },
+  'gemini-2.5-flash': { input: 0.3, outputText: 2.5, outputImage: 30 },
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_MODEL_PRICES,
+  dailyBudget: null,
+};
+
+// Usage records older than this are dropped from local storage
+export const USAGE_RETENTION_DAYS = 90;
+
+// UI languages, labelled in their own script. `intl` is the locale used for
+// number and date formatting.
+export const LOCALES: Record<Locale, { label: string; intl: string }> = {
+  en: { label: 'English', intl: 'en-IN' },
+  hi: { label: 'हिन्दी', intl: 'hi-IN' },
+  ta: { label: 'தமிழ்', intl: 'ta-IN' },
+  te: { label: 'తెలుగు', intl: 'te-IN' },
+  bn: { label: 'বাংলা', intl: 'bn-IN' },
+  mr: { label: 'मराठी', intl: 'mr-IN' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
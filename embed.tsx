@@ -0,0 +1,20 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { EmbedWidget } from './components/EmbedWidget';
+import { I18nProvider } from './i18n/I18nProvider';
+
+// Entry point of embed.html, the try-on widget storefronts load in an iframe.
+// It does not register the service worker: the widget always needs the API.
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+const root = ReactDOM.createRoot(rootElement);
+root.render(
+  <React.StrictMode>
+    <I18nProvider>
+      <EmbedWidget />
+    </I18nProvider>
+  </React.StrictMode>
+);
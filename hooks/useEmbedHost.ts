@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { EmbedHostMessage, EmbedWidgetEvent } from '../types';
+import { isAllowedOrigin, parseHostMessage, toEnvelope } from '../services/embedProtocol';
+
+const isFramed = () => window.parent !== window;
+
+const documentHeight = () => Math.ceil(document.documentElement.scrollHeight);
+
+// Connects the widget to the page framing it. Messages are accepted only from
+// the parent window on an allow-listed origin, and events are only posted back
+// to the origin of the last message received, so nothing leaks to other pages.
+// `allowedOrigins` must be stable (e.g. a module constant).
+export const useEmbedHost = (
+  allowedOrigins: string[],
+  onMessage: (message: EmbedHostMessage) => void
+) => {
+  const hostOriginRef = useRef<string | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  const post = (event: EmbedWidgetEvent) => {
+    const origin = hostOriginRef.current;
+    if (origin) window.parent.postMessage(toEnvelope(event), origin);
+  };
+
+  useEffect(() => {
+    if (!isFramed()) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || !isAllowedOrigin(event.origin, allowedOrigins)) return;
+      const parsed = parseHostMessage(event.data);
+      if (!parsed) return;
+      hostOriginRef.current = event.origin;
+      if ('error' in parsed) {
+        post({ type: 'error', code: parsed.error, message: parsed.detail });
+        return;
+      }
+      onMessageRef.current(parsed.message);
+      post({ type: 'resize', height: documentHeight() });
+    };
+    window.addEventListener('message', handleMessage);
+    // The host's origin is unknown until it writes, so `ready` is addressed to
+    // every allowed origin; the browser only delivers it to the matching one
+    allowedOrigins.forEach(origin => window.parent.postMessage(toEnvelope({ type: 'ready' }), origin));
+    return () => window.removeEventListener('message', handleMessage);
+  }, [allowedOrigins]);
+
+  // Lets the host size the iframe to the widget instead of scrolling inside it
+  useEffect(() => {
+    if (!isFramed()) return;
+    const observer = new ResizeObserver(() => post({ type: 'resize', height: documentHeight() }));
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  return { post, isFramed: isFramed() };
+};
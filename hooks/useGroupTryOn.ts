@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppError, GroupPerson, ImageFile, NormalizedRect, PeopleDetection } from '../types';
+import { MAX_GROUP_PEOPLE, MAX_GROUP_SAREES } from '../constants';
+import { processFile } from '../utils';
+import { classifyError, toAppError } from '../services/errors';
+import { runWithLifecycle } from '../services/requestLifecycle';
+
+export type PeopleDetectionStatus = 'idle' | 'detecting' | 'ready' | 'failed';
+
+// Size of a box placed by clicking on a person the detector missed
+const MARKED_PERSON_SIZE = { width: 0.16, height: 0.7 };
+
+const clampBox = ({ x, y, width, height }: NormalizedRect): NormalizedRect => ({
+  x: Math.min(Math.max(0, x), 1 - width),
+  y: Math.min(Math.max(0, y), 1 - height),
+  width,
+  height,
+});
+
+// Group try-on for the person photo: detected (or hand-marked) people and the
+// saree each one wears. Group mode is on while the list has people; a new
+// photo starts over in single-person mode.
+export const useGroupTryOn = (
+  photo: ImageFile | null,
+  detect: (photo: ImageFile, signal?: AbortSignal) => Promise<PeopleDetection>
+) => {
+  const [people, setPeople] = useState<GroupPerson[]>([]);
+  // Sarees added for the group, on top of the main saree image
+  const [sarees, setSarees] = useState<ImageFile[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [status, setStatus] = useState<PeopleDetectionStatus>('idle');
+  const [error, setError] = useState<AppError | null>(null);
+  const photoRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const reset = () => {
+    abortRef.current?.abort();
+    setPeople([]);
+    setSelectedId(null);
+    setStatus('idle');
+    setError(null);
+  };
+
+  useEffect(() => {
+    const key = photo?.base64 ?? null;
+    if (key === photoRef.current) return;
+    photoRef.current = key;
+    reset();
+  }, [photo]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const detectPeople = async () => {
+    if (!photo) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('detecting');
+    setError(null);
+    try {
+      const result = await runWithLifecycle(signal => detect(photo, signal), { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setPeople(result.people.map(box => ({ id: crypto.randomUUID(), box, saree: null })));
+      setSelectedId(null);
+      setStatus('ready');
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setError(toAppError(classifyError(e)));
+      setStatus('failed');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  // Marks a person the detector missed, centred on the clicked point
+  const addPerson = (x: number, y: number) => {
+    if (people.length >= MAX_GROUP_PEOPLE) return;
+    const person: GroupPerson = {
+      id: crypto.randomUUID(),
+      box: clampBox({ ...MARKED_PERSON_SIZE, x: x - MARKED_PERSON_SIZE.width / 2, y: y - MARKED_PERSON_SIZE.height * 0.15 }),
+      saree: null,
+    };
+    // Keep people numbered left to right
+    setPeople(prev => [...prev, person].sort((a, b) => a.box.x - b.box.x));
+    setSelectedId(person.id);
+    setStatus('ready');
+  };
+
+  const removePerson = (id: string) => {
+    setPeople(prev => prev.filter(person => person.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const assignSaree = (id: string, saree: ImageFile | null) => {
+    setPeople(prev => prev.map(person => person.id === id ? { ...person, saree } : person));
+  };
+
+  // The main saree image counts towards MAX_GROUP_SAREES
+  const canAddSaree = sarees.length < MAX_GROUP_SAREES - 1;
+
+  const addSaree = async (file: File) => {
+    if (!canAddSaree) return;
+    const saree = await processFile(file);
+    setSarees(prev => [...prev, saree]);
+    if (selectedId) assignSaree(selectedId, saree);
+  };
+
+  const removeSaree = (saree: ImageFile) => {
+    setSarees(prev => prev.filter(item => item !== saree));
+    setPeople(prev => prev.map(person => person.saree === saree ? { ...person, saree: null } : person));
+  };
+
+  // Puts back the group of a history entry without detecting again
+  const restore = (image: ImageFile, restored: GroupPerson[], extraSarees: ImageFile[]) => {
+    abortRef.current?.abort();
+    photoRef.current = image.base64;
+    setPeople(restored);
+    setSarees(extraSarees);
+    setSelectedId(null);
+    setError(null);
+    setStatus(restored.length > 0 ? 'ready' : 'idle');
+  };
+
+  const isActive = people.length > 0;
+  const firstSaree = people.find(person => person.saree)?.saree ?? null;
+
+  return {
+    people,
+    sarees,
+    canAddSaree,
+    selectedId,
+    setSelectedId,
+    status,
+    error,
+    isActive,
+    firstSaree,
+    detectPeople,
+    addPerson,
+    removePerson,
+    assignSaree,
+    addSaree,
+    removeSaree,
+    restore,
+    clear: reset,
+  };
+};
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { QueuedGeneration } from '../types';
+import {
+  deleteQueuedGeneration,
+  isOffline,
+  listQueuedGenerations,
+  saveQueuedGeneration
+} from '../services/offlineQueue';
+import { classifyError, toAppError } from '../services/errors';
+
+// Failures that mean "not reachable right now": the item waits for the next
+// time the browser comes back online instead of being marked failed
+const CONNECTIVITY_ERRORS = ['network', 'timeout', 'cancelled'];
+
+// Persistent queue of generations requested while offline. Items are sent one
+// at a time, oldest first, whenever the browser reports it is back online.
+// `send` returns the id of the history entry that holds the new looks.
+export const useOfflineQueue = (
+  send: (item: QueuedGeneration, signal: AbortSignal) => Promise<string | null>
+) => {
+  const [items, setItems] = useState<QueuedGeneration[]>([]);
+  const [isOnline, setIsOnline] = useState(() => !isOffline());
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const flushingRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const update = async (item: QueuedGeneration) => {
+    setItems(prev => prev.map(existing => existing.id === item.id ? item : existing));
+    try {
+      await saveQueuedGeneration(item);
+    } catch (e) {
+      console.error("Failed to update queued generation", e);
+    }
+  };
+
+  const flush = async () => {
+    if (flushingRef.current || isOffline()) return;
+    flushingRef.current = true;
+    try {
+      let next = (await listQueuedGenerations()).find(item => item.status === 'queued');
+      while (next && !isOffline()) {
+        const item = next;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        await update({ ...item, status: 'sending', error: null });
+        try {
+          const historyId = await sendRef.current(item, controller.signal);
+          await update({ ...item, status: 'done', error: null, historyId });
+        } catch (e) {
+          const error = classifyError(e);
+          if (CONNECTIVITY_ERRORS.includes(error.kind) || isOffline()) {
+            await update({ ...item, status: 'queued', error: toAppError(error) });
+            break;
+          }
+          await update({ ...item, status: 'failed', error: toAppError(error) });
+        } finally {
+          abortRef.current = null;
+        }
+        next = (await listQueuedGenerations()).find(queued => queued.status === 'queued');
+      }
+    } catch (e) {
+      console.error("Failed to send queued generations", e);
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const stored = await listQueuedGenerations();
+        // A reload in the middle of a send leaves it marked as sending
+        const interrupted = stored.filter(item => item.status === 'sending');
+        await Promise.all(interrupted.map(item => saveQueuedGeneration({ ...item, status: 'queued' })));
+        setItems(stored.map(item => item.status === 'sending' ? { ...item, status: 'queued' } : item));
+        flush();
+      } catch (e) {
+        console.error("Failed to load the offline queue", e);
+      }
+    };
+    load();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const enqueue = async (item: QueuedGeneration) => {
+    await saveQueuedGeneration(item);
+    setItems(prev => [...prev, item]);
+    flush();
+  };
+
+  // Sends a waiting or failed item now, without waiting for an `online` event
+  const retry = async (id: string) => {
+    const item = items.find(existing => existing.id === id);
+    if (!item || item.status === 'sending') return;
+    await update({ ...item, status: 'queued', error: null });
+    flush();
+  };
+
+  const remove = async (id: string) => {
+    if (items.find(item => item.id === id)?.status === 'sending') return;
+    setItems(prev => prev.filter(item => item.id !== id));
+    try {
+      await deleteQueuedGeneration(id);
+    } catch (e) {
+      console.error("Failed to remove queued generation", e);
+    }
+  };
+
+  const clearDone = async () => {
+    const done = items.filter(item => item.status === 'done');
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+    try {
+      await Promise.all(done.map(item => deleteQueuedGeneration(item.id)));
+    } catch (e) {
+      console.error("Failed to clear sent generations", e);
+    }
+  };
+
+  return {
+    items,
+    isOnline,
+    pendingCount: items.filter(item => item.status === 'queued' || item.status === 'sending').length,
+    enqueue,
+    retry,
+    remove,
+    clearDone,
+  };
+};
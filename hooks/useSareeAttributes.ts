@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppError, ImageFile, SareeAnalysis, SareeAttributes } from '../types';
+import { classifyError, toAppError } from '../services/errors';
+import { runWithLifecycle } from '../services/requestLifecycle';
+
+export type SareeAnalysisStatus = 'idle' | 'analyzing' | 'ready' | 'failed';
+
+// Analyses each new saree image once and keeps the user's edits to the result.
+// Images are keyed by their bytes, so marking pallu/border regions does not
+// trigger another call.
+export const useSareeAttributes = (
+  saree: ImageFile | null,
+  analyze: (saree: ImageFile, signal?: AbortSignal) => Promise<SareeAnalysis>
+) => {
+  const [attributes, setAttributes] = useState<SareeAttributes | null>(null);
+  const [status, setStatus] = useState<SareeAnalysisStatus>('idle');
+  const [error, setError] = useState<AppError | null>(null);
+  const analyzedRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const run = async (image: ImageFile) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    analyzedRef.current = image.base64;
+    setAttributes(null);
+    setError(null);
+    setStatus('analyzing');
+
+    try {
+      const result = await runWithLifecycle(signal => analyze(image, signal), { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setAttributes(result.attributes);
+      setStatus('ready');
+    } catch (e) {
+      // A newer image took over; its own run reports the outcome
+      if (controller.signal.aborted) return;
+      setError(toAppError(classifyError(e)));
+      setStatus('failed');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    if ((saree?.base64 ?? null) === analyzedRef.current) return;
+    if (saree) {
+      run(saree);
+      return;
+    }
+    abortRef.current?.abort();
+    analyzedRef.current = null;
+    setAttributes(null);
+    setError(null);
+    setStatus('idle');
+  }, [saree]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Reuses attributes saved with a history entry instead of analysing again.
+  // Entries saved before analysis existed leave the tags empty until requested.
+  const restore = (image: ImageFile, saved: SareeAttributes | null) => {
+    abortRef.current?.abort();
+    analyzedRef.current = image.base64;
+    setAttributes(saved);
+    setError(null);
+    setStatus(saved ? 'ready' : 'idle');
+  };
+
+  const reanalyze = () => {
+    if (saree) run(saree);
+  };
+
+  return {
+    attributes,
+    status,
+    error,
+    setAttributes,
+    restore,
+    reanalyze,
+  };
+};
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { UsageSettings } from '../types';
+import { loadUsageSettings, saveUsageSettings } from '../services/settingsStore';
+import { clearUsageRecords, dayKey, loadUsageRecords, subscribeUsage, summarizeByDay } from '../services/usageTracker';
+
+// Usage log, per-day totals and the price/budget settings, kept in sync with
+// calls recorded by the provider.
+export const useUsage = () => {
+  const [records, setRecords] = useState(loadUsageRecords);
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+
+  useEffect(() => subscribeUsage(setRecords), []);
+
+  const updateSettings = (next: UsageSettings) => {
+    setSettings(next);
+    saveUsageSettings(next);
+  };
+
+  const days = summarizeByDay(records, settings.prices);
+  const today = days.find(summary => summary.day === dayKey(Date.now())) ?? null;
+
+  return {
+    records,
+    settings,
+    updateSettings,
+    days,
+    today,
+    clear: clearUsageRecords,
+  };
+};
@@ -0,0 +1,156 @@
+import { useRef, useState } from 'react';
+import { BatchItemState, CatalogItem, SareeAttributes } from '../types';
+import { fileNameToLabel, processFile } from '../utils';
+import { matchesCatalogSearch, sareeAttributeTags } from '../services/sareeAttributes';
+import {
+  BatchItemRunner,
+  createPendingState,
+  DEFAULT_BATCH_CONCURRENCY,
+  runBatch
+} from '../services/batchRunner';
+
+// Catalog + batch state for wardrobe mode: one person tried against many sarees.
+export const useWardrobe = (
+  runItem: BatchItemRunner,
+  analyzeItem: (item: CatalogItem, signal?: AbortSignal) => Promise<SareeAttributes>
+) => {
+  const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+  const [batch, setBatch] = useState<Record<string, BatchItemState>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [analyzingIds, setAnalyzingIds] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const allTags = Array.from(new Set(catalog.flatMap(item => item.tags))).sort();
+  const visibleItems = catalog.filter(item =>
+    (!tagFilter || item.tags.includes(tagFilter)) && matchesCatalogSearch(item, searchQuery));
+
+  const addFiles = async (files: File[]) => {
+    const results = await Promise.allSettled(files.map(file => processFile(file)));
+    const added: CatalogItem[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        added.push({
+          id: crypto.randomUUID(),
+          name: fileNameToLabel(files[index].name),
+          tags: [],
+          image: result.value,
+        });
+      }
+    });
+    setCatalog(prev => [...prev, ...added]);
+    return results.length - added.length; // number of files that could not be read
+  };
+
+  const updateItem = (id: string, patch: Partial<Omit<CatalogItem, 'id'>>) => {
+    setCatalog(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const removeItem = (id: string) => {
+    setCatalog(prev => prev.filter(item => item.id !== id));
+    setBatch(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const clearCatalog = () => {
+    setCatalog([]);
+    setBatch({});
+    setTagFilter(null);
+    setSearchQuery('');
+  };
+
+  // Reads attributes for visible items that have none, one at a time, and adds
+  // their colours and fabric as tags. Returns the number of items that failed.
+  const analyzeMissing = async () => {
+    const pending = visibleItems.filter(item => !item.attributes && !analyzingIds.includes(item.id));
+    let failed = 0;
+    for (const item of pending) {
+      setAnalyzingIds(prev => [...prev, item.id]);
+      try {
+        const attributes = await analyzeItem(item);
+        setCatalog(prev => prev.map(current => current.id === item.id
+          ? { ...current, attributes, tags: Array.from(new Set([...current.tags, ...sareeAttributeTags(attributes)])) }
+          : current));
+      } catch (e) {
+        console.error("Saree analysis failed", e);
+        failed += 1;
+      } finally {
+        setAnalyzingIds(prev => prev.filter(id => id !== item.id));
+      }
+    }
+    return failed;
+  };
+
+  const run = async (items: CatalogItem[]) => {
+    if (items.length === 0 || isRunning) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setBatch(prev => {
+      const next = { ...prev };
+      items.forEach(item => { next[item.id] = createPendingState(item.id); });
+      return next;
+    });
+
+    try {
+      await runBatch(items, runItem, {
+        concurrency,
+        signal: controller.signal,
+        onUpdate: (itemState) => setBatch(prev => ({ ...prev, [itemState.itemId]: itemState })),
+      });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const runAll = () => run(visibleItems);
+
+  const retryItems = (ids: string[]) => run(catalog.filter(item => ids.includes(item.id)));
+
+  const retryFailed = () => {
+    const failedIds = Object.values<BatchItemState>(batch)
+      .filter(itemState => itemState.status === 'failed' || itemState.status === 'cancelled')
+      .map(itemState => itemState.itemId);
+    return retryItems(failedIds);
+  };
+
+  const cancel = () => abortRef.current?.abort();
+
+  const states = Object.values<BatchItemState>(batch);
+  const progress = {
+    total: states.length,
+    done: states.filter(s => s.status === 'succeeded' || s.status === 'failed' || s.status === 'cancelled').length,
+    succeeded: states.filter(s => s.status === 'succeeded').length,
+    failed: states.filter(s => s.status === 'failed').length,
+  };
+
+  return {
+    catalog,
+    visibleItems,
+    allTags,
+    tagFilter,
+    setTagFilter,
+    searchQuery,
+    setSearchQuery,
+    analyzingIds,
+    analyzeMissing,
+    batch,
+    progress,
+    isRunning,
+    concurrency,
+    setConcurrency,
+    addFiles,
+    updateItem,
+    removeItem,
+    clearCatalog,
+    runAll,
+    retryItems,
+    retryFailed,
+    cancel,
+  };
+};
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+
+// Zoom/pan state for image viewports. The content fills its viewport at scale 1
+// and is transformed around the viewport centre; `x`/`y` are pixel offsets.
+export interface ZoomPanTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+const IDENTITY: ZoomPanTransform = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Keeps the content covering the viewport so it can't be dragged out of view
+const clampTransform = ({ scale, x, y }: ZoomPanTransform, width: number, height: number): ZoomPanTransform => {
+  const s = clamp(scale, MIN_ZOOM, MAX_ZOOM);
+  const maxX = (width * (s - 1)) / 2;
+  const maxY = (height * (s - 1)) / 2;
+  return { scale: s, x: clamp(x, -maxX, maxX), y: clamp(y, -maxY, maxY) };
+};
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Wheel, drag and pinch handling shared by every viewport that passes the
+// returned handlers, so several viewports stay in sync. `viewportRef` supplies
+// the size used for clamping and keyboard zoom.
+export const useZoomPan = (viewportRef: React.RefObject<HTMLElement>) => {
+  const [transform, setTransform] = useState<ZoomPanTransform>(IDENTITY);
+  const pointers = useRef(new Map<number, Point>());
+  const pinchDistance = useRef<number | null>(null);
+
+  const update = (next: (current: ZoomPanTransform) => ZoomPanTransform) => {
+    const bounds = viewportRef.current?.getBoundingClientRect();
+    setTransform(current => bounds ? clampTransform(next(current), bounds.width, bounds.height) : next(current));
+  };
+
+  // Zooms by `factor` keeping `origin` (relative to the viewport centre) fixed
+  const zoomBy = (factor: number, origin: Point = { x: 0, y: 0 }) => {
+    update(current => {
+      const scale = clamp(current.scale * factor, MIN_ZOOM, MAX_ZOOM);
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: origin.x - (origin.x - current.x) * ratio,
+        y: origin.y - (origin.y - current.y) * ratio,
+      };
+    });
+  };
+
+  const panBy = (dx: number, dy: number) => {
+    update(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+  };
+
+  const reset = () => setTransform(IDENTITY);
+
+  const originOf = (clientX: number, clientY: number, viewport: Element): Point => {
+    const bounds = viewport.getBoundingClientRect();
+    return {
+      x: clientX - bounds.left - bounds.width / 2,
+      y: clientY - bounds.top - bounds.height / 2,
+    };
+  };
+
+  // Native listener so the page doesn't scroll while zooming (React's wheel
+  // handlers are passive)
+  const handleWheel = (e: WheelEvent, viewport: Element) => {
+    e.preventDefault();
+    zoomBy(Math.exp(-e.deltaY * 0.0015), originOf(e.clientX, e.clientY, viewport));
+  };
+
+  const distance = () => {
+    const [a, b] = Array.from<Point>(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  // With `panEnabled` off, one pointer is left to the caller (e.g. the loupe);
+  // two-finger pinch still zooms
+  const pointerHandlers = (panEnabled: boolean) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.current.size === 2) pinchDistance.current = distance();
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const previous = pointers.current.get(e.pointerId);
+      if (!previous) return;
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pointers.current.size === 2 && pinchDistance.current) {
+        const next = distance();
+        const [a, b] = Array.from<Point>(pointers.current.values());
+        zoomBy(next / pinchDistance.current, originOf((a.x + b.x) / 2, (a.y + b.y) / 2, e.currentTarget));
+        pinchDistance.current = next;
+      } else if (pointers.current.size === 1 && panEnabled) {
+        panBy(e.clientX - previous.x, e.clientY - previous.y);
+      }
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      pointers.current.delete(e.pointerId);
+      if (pointers.current.size < 2) pinchDistance.current = null;
+    },
+    onPointerCancel: (e: React.PointerEvent) => {
+      pointers.current.delete(e.pointerId);
+      if (pointers.current.size < 2) pinchDistance.current = null;
+    },
+    onDoubleClick: (e: React.MouseEvent) => {
+      if (transform.scale > MIN_ZOOM) {
+        reset();
+      } else {
+        zoomBy(2.5, originOf(e.clientX, e.clientY, e.currentTarget));
+      }
+    },
+  });
+
+  const style: React.CSSProperties = {
+    transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+    transformOrigin: 'center',
+  };
+
+  return { transform, style, zoomBy, panBy, reset, handleWheel, pointerHandlers };
+};
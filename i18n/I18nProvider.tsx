@@ -0,0 +1,36 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+import { loadLocale, saveLocale } from '../services/settingsStore';
+import { createTranslator, Translator } from './translator';
+
+interface I18nContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  ...createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {},
+});
+
+// Holds the UI language. The choice is remembered on the device and mirrored
+// on <html lang> so screen readers and fonts pick the right script.
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    ...createTranslator(locale),
+    setLocale: (next: Locale) => {
+      setLocaleState(next);
+      saveLocale(next);
+    },
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,296 @@
+import { Messages } from './en';
+
+// Bengali
+export const bn: Messages = {
+  'app.beta': 'বিটা',
+  'app.language': 'ভাষা',
+
+  'header.history': 'ইতিহাস',
+  'header.usage': 'ব্যবহার · আজ {cost}',
+  'header.usageTitle': 'ব্যবহার ও আনুমানিক খরচ',
+  'header.offline': 'অফলাইন',
+  'header.offlineQueued.one': 'অফলাইন · {count}টি সারিতে',
+  'header.offlineQueued.other': 'অফলাইন · {count}টি সারিতে',
+
+  'intro.title': 'ভার্চুয়াল শাড়ি ট্রাই-অন',
+  'intro.body': 'যেকোনো শাড়ির সৌন্দর্য নিজের গায়ে দেখুন। আপনার ছবি আর একটি শাড়ির ছবি আপলোড করুন, Gemini 3-এর তৈরি বাস্তবসম্মত ট্রাই-অন দেখুন।',
+
+  'inputs.title': 'ছবি আপলোড করুন',
+  'inputs.photo': 'আপনার ছবি',
+  'inputs.photoHint': 'পুরো শরীরের ছবি সবচেয়ে ভালো কাজ করে',
+  'inputs.saree': 'শাড়ির ছবি',
+  'inputs.sareeHint': 'শাড়ির ছবি (বিছানো বা পরা)',
+  'mode.single': 'একটি শাড়ি',
+  'mode.wardrobe': 'ওয়ারড্রোব ব্যাচ',
+
+  'generate.run': 'ট্রাই-অন তৈরি করুন',
+  'generate.queue': 'ট্রাই-অন সারিতে রাখুন',
+  'generate.running': 'লুক তৈরি হচ্ছে...',
+  'generate.cancel': 'বাতিল',
+
+  'wardrobe.parallelRequests': 'একসাথে অনুরোধ',
+  'wardrobe.run.one': '{count}টি শাড়ি পরে দেখুন',
+  'wardrobe.run.other': '{count}টি শাড়ি পরে দেখুন',
+  'wardrobe.cancel': 'ব্যাচ বাতিল ({done}/{total})',
+  'wardrobe.retryFailed': 'ব্যর্থগুলো আবার চেষ্টা ({count})',
+  'wardrobe.progress': '{total}টির মধ্যে {done}টি সম্পূর্ণ',
+  'wardrobe.outcome': '{succeeded}টি সফল · {failed}টি ব্যর্থ',
+
+  'results.single': 'আপনার লুক',
+  'results.wardrobe': 'ওয়ারড্রোবের ফলাফল',
+  'results.loadingTitle': 'জাদু বোনা হচ্ছে...',
+  'results.loadingBody': '{provider} কাপড়ের ভাঁজ আর আলো বিশ্লেষণ করছে। এতে কয়েক সেকেন্ড লাগতে পারে।',
+  'results.progress': '{total}টির মধ্যে লুক {current} তৈরি হচ্ছে...',
+  'results.empty': 'ফলাফল এখানে দেখা যাবে',
+  'results.modelNotes': 'মডেলের নোট',
+  'results.look': 'লুক {look}',
+  'results.lookVersion': 'লুক {look} · v{version}',
+
+  'export.captionPerson': 'আপনি',
+  'export.captionSaree': 'শাড়ি',
+  'export.captionResult': 'ট্রাই-অন',
+
+  'tips.lighting.title': 'আলো গুরুত্বপূর্ণ',
+  'tips.lighting.body': 'সবচেয়ে বাস্তব মিশ্রণের জন্য দুটি ছবিতেই ভালো প্রাকৃতিক আলো রাখুন।',
+  'tips.clearView.title': 'পরিষ্কার দৃশ্য',
+  'tips.clearView.body': 'পুরো শরীরের এমন ছবি ব্যবহার করুন যেখানে মানুষটিকে কোনো বাধা ছাড়া পরিষ্কার দেখা যায়।',
+  'tips.quality.title': 'উচ্চ মান',
+  'tips.quality.body': 'বেশি রেজোলিউশনের ছবিতে শাড়ির বুনন আরও ভালোভাবে বজায় থাকে।',
+
+  'notice.retrying': '{message} {seconds} সেকেন্ডে আবার চেষ্টা করা হচ্ছে (চেষ্টা {attempt})...',
+  'notice.faceReroll': 'মুখের মিল {score}%, যা {threshold}%-এর কম। আবার তৈরি করা হচ্ছে ({attempt}/{total})...',
+
+  'uploader.placeholder': 'একটি ছবি আপলোড করুন',
+  'uploader.formats': 'JPG, PNG, WebP, 10MB পর্যন্ত',
+  'uploader.takePhoto': 'ছবি তুলুন',
+  'uploader.cameraTitle': '{label} — ছবি তুলুন',
+  'uploader.edit': 'ক্রপ করুন, ঘোরান বা খুঁটিনাটি চিহ্নিত করুন',
+  'uploader.remove': 'ছবি সরান',
+  'uploader.regions.one': '{count}টি খুঁটিনাটি অংশ চিহ্নিত',
+  'uploader.regions.other': '{count}টি খুঁটিনাটি অংশ চিহ্নিত',
+
+  'history.title': 'ইতিহাস',
+  'history.exportAll': 'সব এক্সপোর্ট করুন',
+  'history.close': 'ইতিহাস বন্ধ করুন',
+  'history.empty': 'আপনার আগের ট্রাই-অনগুলো এখানে দেখা যাবে।',
+  'history.looks.one': '{count}টি লুক',
+  'history.looks.other': '{count}টি লুক',
+  'history.group': '{count} জনের দল',
+  'history.promptTemplates': 'প্রম্পট টেমপ্লেট',
+  'history.person': 'ব্যক্তি',
+  'history.saree': 'শাড়ি',
+  'history.result': 'ট্রাই-অনের ফলাফল',
+  'history.open': 'খুলুন',
+  'history.rerun': 'আবার চালান',
+  'history.export': 'এক্সপোর্ট',
+  'history.delete': 'মুছুন',
+
+  'camera.close': 'বন্ধ করুন',
+  'camera.captured': 'তোলা ছবি',
+  'camera.starting': 'ক্যামেরা চালু হচ্ছে...',
+  'camera.error.denied': 'ক্যামেরার অনুমতি দেওয়া হয়নি। ব্রাউজারের সেটিংসে ক্যামেরার অনুমতি দিন, অথবা এর বদলে একটি ছবি আপলোড করুন।',
+  'camera.error.notFound': 'এই ডিভাইসে কোনো ক্যামেরা পাওয়া যায়নি।',
+  'camera.error.inUse': 'ক্যামেরাটি অন্য একটি অ্যাপ ব্যবহার করছে।',
+  'camera.error.failed': 'ক্যামেরা চালু করা যায়নি।',
+  'camera.error.unsupported': 'এই ব্রাউজার ক্যামেরা দিয়ে ছবি তোলা সমর্থন করে না।',
+  'camera.error.insecure': 'ক্যামেরা দিয়ে ছবি তুলতে নিরাপদ (https) সংযোগ প্রয়োজন।',
+  'camera.error.capture': 'ছবি তোলা যায়নি।',
+  'camera.framing.no-person': 'মুখ দেখা যাচ্ছে না। ভালো আলোয় ক্যামেরার দিকে তাকান।',
+  'camera.framing.head-cut': 'মাথার ওপরে একটু জায়গা রাখুন।',
+  'camera.framing.feet-cut': 'একটু পিছিয়ে যান, আপনার পা দেখা যাচ্ছে না।',
+  'camera.framing.too-far': 'কাছে আসুন, আপনি অনেক দূরে আছেন।',
+  'camera.framing.off-centre': 'ফ্রেমের মাঝখানে আসুন।',
+  'camera.framing.ok': 'ভালো দেখাচ্ছে। স্থির থাকুন।',
+  'camera.framing.approximate': 'এই ব্রাউজারে ফ্রেমিংয়ের পরামর্শ আনুমানিক।',
+  'camera.retake': 'আবার তুলুন',
+  'camera.usePhoto': 'এই ছবি ব্যবহার করুন',
+  'camera.timer': 'টাইমার',
+  'camera.timerOff': 'বন্ধ',
+  'camera.timerSeconds': '{seconds} সে.',
+  'camera.switch': 'ক্যামেরা বদলান',
+  'camera.stopTimer': 'টাইমার থামান',
+  'camera.takePhoto': 'ছবি তুলুন',
+  'camera.startTimer': '{seconds} সে. টাইমার শুরু করুন',
+
+  'gallery.alt': 'তৈরি ট্রাই-অন {index}',
+  'gallery.favourite': 'প্রিয়',
+  'gallery.faceMatch': 'মুখের মিল {score}%',
+  'gallery.faceBelow': 'সীমার নিচে',
+  'gallery.faceMethod.face-detector': 'ব্রাউজারের মুখ শনাক্তকরণ দিয়ে আপনার ছবির সঙ্গে মিল',
+  'gallery.faceMethod.heuristic': 'আনুমানিক মুখের অংশ দিয়ে আপনার ছবির সঙ্গে মিল',
+  'gallery.faceBestOf': '{count}টি তৈরির মধ্যে সেরা',
+  'gallery.inspect': 'খুঁটিয়ে দেখুন',
+  'gallery.inspectTitle': 'জুম করে আপনার ছবি ও শাড়ির সঙ্গে তুলনা করুন',
+  'gallery.download': 'ডাউনলোড',
+  'gallery.downloadLook': '{label} ডাউনলোড করুন',
+  'gallery.newTryOn': 'নতুন ট্রাই-অন',
+  'gallery.markFavourite': 'প্রিয় হিসেবে চিহ্নিত করুন',
+  'gallery.removeFavourite': 'প্রিয় থেকে সরান',
+  'gallery.compare': 'তুলনা করুন',
+  'gallery.exitCompare': 'তুলনা বন্ধ করুন',
+
+  'viewer.title': '{label} খুঁটিয়ে দেখুন',
+  'viewer.beforeAfter': 'আগে / পরে',
+  'viewer.sideBySide': 'পাশাপাশি',
+  'viewer.before': 'আগে',
+  'viewer.after': 'পরে',
+  'viewer.split': 'আগে/পরে বিভাজন',
+  'viewer.original': 'আসল ছবি',
+  'viewer.result': 'ফলাফল',
+  'viewer.saree': 'শাড়ি',
+  'viewer.sareeAlt': 'মূল শাড়ি',
+  'viewer.zoomOut': 'জুম আউট',
+  'viewer.zoomIn': 'জুম ইন',
+  'viewer.fit': 'মানানসই',
+  'viewer.loupe': 'আতশকাচ',
+  'viewer.close': 'বন্ধ করুন (Esc)',
+  'viewer.help': 'জুম করতে স্ক্রোল বা পিঞ্চ করুন · সরাতে টানুন · জুম ইন বা মানানসই করতে ডাবল-ক্লিক করুন · তীর কী দিয়ে সরান · +/− জুম · 0 মানানসই · L আতশকাচ · Esc বন্ধ',
+
+  'refine.title': 'এই লুকটি আরও সুন্দর করুন',
+  'refine.showVersion': 'এই সংস্করণ দেখান',
+  'refine.applying': 'আপনার পরিবর্তন প্রয়োগ করা হচ্ছে...',
+  'refine.placeholder': 'পরিবর্তন লিখুন, যেমন আঁচল আরও লম্বা করুন',
+  'refine.submit': 'পরিমার্জন',
+  'refine.cancel': 'বাতিল',
+  'refine.versions': 'সংস্করণ',
+  'refine.versionsHint': 'আগের কোনো সংস্করণে ফিরতে সেটি বেছে নিন; নতুন পরিবর্তন বেছে নেওয়া সংস্করণ থেকে শাখা হিসেবে শুরু হয়।',
+  'refine.suggestion.pleats': 'কুঁচি আরও আঁটসাঁট',
+  'refine.suggestion.palluLeft': 'আঁচল বাঁ হাতের ওপর',
+  'refine.suggestion.blouse': 'মেরুন রঙের মানানসই ব্লাউজ যোগ করুন',
+  'refine.suggestion.border': 'পাড় আরও স্পষ্ট করে দেখান',
+
+  'sareeTags.title': 'শাড়ির বিবরণ',
+  'sareeTags.analysing': 'শাড়ির রং, পাড় আর কাপড় পড়া হচ্ছে...',
+  'sareeTags.empty': 'এখনও শাড়ির কোনো বিবরণ নেই।',
+  'sareeTags.analyse': 'শাড়ি বিশ্লেষণ করুন',
+  'sareeTags.retry': 'আবার চেষ্টা করুন',
+  'sareeTags.reanalyse': 'আবার বিশ্লেষণ',
+  'sareeTags.reanalyseTitle': 'শাড়ির ছবি আবার বিশ্লেষণ করুন',
+  'sareeTags.removeColour': '{colour} সরান',
+  'sareeTags.addColour': '+ রং',
+  'sareeTags.border': 'পাড় / জরি',
+  'sareeTags.borderPlaceholder': 'নেই',
+  'sareeTags.pattern': 'নকশা',
+  'sareeTags.patternPlaceholder': 'সাদামাটা',
+  'sareeTags.fabric': 'কাপড়',
+  'sareeTags.presentation': 'ছবিতে',
+
+  'fabric.silk': 'সিল্ক',
+  'fabric.cotton': 'সুতি',
+  'fabric.chiffon': 'শিফন',
+  'fabric.georgette': 'জর্জেট',
+  'fabric.crepe': 'ক্রেপ',
+  'fabric.organza': 'অর্গাঞ্জা',
+  'fabric.linen': 'লিনেন',
+  'fabric.net': 'নেট',
+  'fabric.synthetic': 'সিন্থেটিক',
+  'fabric.unknown': 'অজানা',
+  'presentation.flat-lay': 'বিছিয়ে রাখা',
+  'presentation.hanger': 'হ্যাঙ্গারে',
+  'presentation.worn': 'পরা অবস্থায়',
+  'presentation.unknown': 'অজানা',
+
+  'embed.title': 'এই শাড়িটি পরে দেখুন',
+  'embed.notEmbedded': 'এই ট্রাই-অন উইজেট কোনো দোকানের পণ্যের পাতার ভেতরে চলে।',
+  'embed.waiting': 'পণ্যের জন্য অপেক্ষা করা হচ্ছে...',
+  'embed.loadingSaree': 'শাড়ি লোড হচ্ছে...',
+  'embed.sareeLoadFailed': 'শাড়ির ছবি লোড করা যায়নি।',
+  'embed.download': 'ডাউনলোড',
+  'embed.startOver': 'অন্য ছবি চেষ্টা করুন',
+
+  'error.imageFile': 'ছবির ফাইল প্রসেস করা যায়নি।',
+  'error.sareeFile': 'শাড়ির ছবি প্রসেস করা যায়নি।',
+  'error.queueFailed': 'আপনি অফলাইনে আছেন এবং এই ডিভাইসে ট্রাই-অন সারিতে রাখা যায়নি।',
+  'error.catalogAdd.one': '{count}টি ছবি ক্যাটালগে যোগ করা যায়নি।',
+  'error.catalogAdd.other': '{count}টি ছবি ক্যাটালগে যোগ করা যায়নি।',
+  'error.catalogAnalyse.one': '{count}টি শাড়ি বিশ্লেষণ করা যায়নি।',
+  'error.catalogAnalyse.other': '{count}টি শাড়ি বিশ্লেষণ করা যায়নি।',
+  'error.sareeAnalysis': 'শাড়ি বিশ্লেষণ করা যায়নি।',
+  'error.peopleDetection': 'ছবিতে কাউকে খুঁজে পাওয়া যায়নি।',
+  'error.historyOpen': 'ইতিহাসের এন্ট্রি খোলা যায়নি।',
+  'error.historyRerun': 'ইতিহাসের এন্ট্রি আবার চালানো যায়নি।',
+  'error.historyDelete': 'ইতিহাসের এন্ট্রি মোছা যায়নি।',
+  'error.personPhotoMissing': 'আগে মানুষের ছবি আপলোড করুন।',
+  'error.dismiss': 'বন্ধ করুন',
+  'error.modelNotes': 'মডেলের নোট:',
+
+  'imageError.heic-unsupported': 'HEIC/HEIF ছবি সমর্থিত নয়। অনুগ্রহ করে ছবিটি JPG বা PNG হিসেবে এক্সপোর্ট করুন (iPhone-এ: Settings › Camera › Formats › Most Compatible)।',
+  'imageError.unsupported-type': 'অসমর্থিত ফাইলের ধরন ({type})। অনুগ্রহ করে JPG, PNG বা WebP ছবি আপলোড করুন।',
+  'imageError.file-too-large': 'এই ছবিটি {size}। অনুগ্রহ করে {limit}-এর চেয়ে ছোট ছবি আপলোড করুন।',
+  'imageError.decode-failed': 'এই ছবিটি পড়া যায়নি। এটি নষ্ট হয়ে থাকতে পারে।',
+  'imageError.encode-failed': 'এই ব্রাউজারে ছবিটি প্রসেস করা যায়নি।',
+
+  'errorCode.auth': 'ট্রাই-অন সার্ভারের Gemini API key নেই বা অবৈধ।',
+  'errorCode.quota': 'মডেলটি এখন অনেক বেশি অনুরোধ পাচ্ছে।',
+  'errorCode.safety-blocked': 'মডেলের নিরাপত্তা ফিল্টার অনুরোধটি আটকে দিয়েছে।',
+  'errorCode.no-image': 'উত্তরে কোনো ছবি তৈরি হয়নি।',
+  'errorCode.network': 'ট্রাই-অন পরিষেবায় পৌঁছানো যায়নি। আপনার সংযোগ দেখুন।',
+  'errorCode.server': 'ট্রাই-অন পরিষেবায় সাময়িক সমস্যা হয়েছে।',
+  'errorCode.timeout': 'অনুরোধে খুব বেশি সময় লাগায় তা থামানো হয়েছে।',
+  'errorCode.cancelled': 'তৈরি করা বাতিল হয়েছে।',
+  'errorCode.invalid-request': 'ট্রাই-অন সার্ভার অনুরোধটি প্রত্যাখ্যান করেছে।',
+  'errorCode.budget-exceeded': 'আজকের আনুমানিক খরচ আপনার দৈনিক বাজেটে পৌঁছে গেছে।',
+  'errorCode.unknown': 'ছবি তৈরি করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'errorCode.http-status': 'ট্রাই-অন সার্ভার {status} দিয়ে উত্তর দিয়েছে।',
+  'errorCode.api-key-missing': 'ট্রাই-অন সার্ভারে GEMINI_API_KEY সেট করা নেই।',
+  'errorCode.rate-limited': 'অনেক বেশি ট্রাই-অন অনুরোধ। অনুগ্রহ করে {seconds} সেকেন্ড পরে আবার চেষ্টা করুন।',
+  'errorCode.request-too-large': 'অনুরোধটি {mb} MB সীমার চেয়ে বড়।',
+  'errorCode.image-too-large': 'একটি ছবি {mb} MB-এর চেয়ে বড়।',
+  'errorCode.image-unsupported': 'একটি ছবির ফাইলের ধরন সমর্থিত নয়।',
+  'errorCode.too-many-images': 'একটি অনুরোধে সর্বোচ্চ {count}টি ছবি থাকতে পারে।',
+  'errorCode.too-many-jewellery': 'সর্বোচ্চ {count}টি গয়নার ছবি দেওয়া যায়।',
+  'errorCode.custom-prompts-disabled': 'এই সার্ভারে সম্পাদিত প্রম্পট টেমপ্লেট বন্ধ আছে।',
+  'errorCode.unexpected-answer': 'মডেল অপ্রত্যাশিত ফরম্যাটে উত্তর দিয়েছে।',
+  'errorCode.request-timeout': '{seconds} সেকেন্ড পরে অনুরোধের সময় শেষ হয়েছে।',
+  'errorCode.group-too-large': 'একটি দলে 1 থেকে {count} জন থাকতে পারে।',
+  'errorCode.group-too-many-sarees': 'একটি দল সর্বোচ্চ {count}টি আলাদা শাড়ি পরতে পারে।',
+  'errorCode.group-unassigned': 'অন্তত একজনকে একটি শাড়ি দিন।',
+  'errorCode.instruction-too-long': 'নির্দেশটি {count} অক্ষরের চেয়ে লম্বা।',
+  'errorCode.scene-too-long': 'দৃশ্যের বর্ণনা {count} অক্ষরের চেয়ে লম্বা।',
+
+  'errorGuidance.auth.title': 'API key-র সমস্যা',
+  'errorGuidance.auth.advice': 'দেখুন সার্ভারের environment-এ GEMINI_API_KEY সেট করা আছে কি না এবং Gemini image মডেলে তার অ্যাক্সেস আছে কি না।',
+  'errorGuidance.quota.title': 'অনুরোধের সীমা পূর্ণ',
+  'errorGuidance.quota.advice': 'অল্প সময়ে অনেক বেশি অনুরোধ। আবার চেষ্টার আগে এক মিনিট অপেক্ষা করুন, অথবা একবারে কম ভ্যারিয়েশন তৈরি করুন।',
+  'errorGuidance.safety-blocked.title': 'নিরাপত্তা ফিল্টারে আটকানো',
+  'errorGuidance.safety-blocked.advice': 'অন্য ছবি চেষ্টা করুন: একজন প্রাপ্তবয়স্কের পুরো পোশাকে, ভালো আলোয় তোলা পুরো শরীরের ছবি সাধারণত সবচেয়ে ভালো।',
+  'errorGuidance.no-image.title': 'কোনো ছবি আসেনি',
+  'errorGuidance.no-image.advice': 'মডেল ছবি ছাড়াই উত্তর দিয়েছে। আবার চেষ্টা করুন, অথবা মানুষ ও শাড়ির আরও পরিষ্কার ছবি ব্যবহার করুন।',
+  'errorGuidance.network.title': 'সংযোগের সমস্যা',
+  'errorGuidance.network.advice': 'আপনার ইন্টারনেট সংযোগ দেখে আবার চেষ্টা করুন।',
+  'errorGuidance.server.title': 'পরিষেবা পাওয়া যাচ্ছে না',
+  'errorGuidance.server.advice': 'মডেল পরিষেবায় সমস্যা হচ্ছে। অনুগ্রহ করে কিছুক্ষণ পরে আবার চেষ্টা করুন।',
+  'errorGuidance.timeout.title': 'অনুরোধের সময় শেষ',
+  'errorGuidance.timeout.advice': 'মডেল উত্তর দিতে খুব বেশি সময় নিয়েছে। আবার চেষ্টা করুন, অথবা কম ভ্যারিয়েশন বেছে নিন।',
+  'errorGuidance.cancelled.title': 'বাতিল হয়েছে',
+  'errorGuidance.cancelled.advice': 'তৈরি করা বাতিল হয়েছে। কিছুই সেভ হয়নি।',
+  'errorGuidance.invalid-request.title': 'অনুরোধ প্রত্যাখ্যাত',
+  'errorGuidance.invalid-request.advice': 'ছবিগুলো খুব বড় বা খুব বেশি হতে পারে। কিছু গয়নার ছবি সরান, অথবা আরও পরিমার্জনের বদলে নতুন লুক শুরু করুন।',
+  'errorGuidance.budget-exceeded.title': 'দৈনিক বাজেট পূর্ণ',
+  'errorGuidance.budget-exceeded.advice': 'আগামীকাল পর্যন্ত তৈরি করা থেমে আছে। আজ চালিয়ে যেতে Usage-এ দৈনিক বাজেট বাড়ান বা সরিয়ে দিন।',
+  'errorGuidance.unknown.title': 'কিছু ভুল হয়েছে',
+  'errorGuidance.unknown.advice': 'অনুগ্রহ করে আবার চেষ্টা করুন। সমস্যা থেকে গেলে অন্য ছবি চেষ্টা করুন।',
+
+  'advice.sexuallyExplicit': 'ছবিটি খোলামেলা বলে মনে হতে পারে। এমন ছবি ব্যবহার করুন যেখানে মানুষটি পুরো পোশাকে আছেন, যেমন টি-শার্ট ও প্যান্ট বা কুর্তা।',
+  'advice.harassment': 'কাউকে লক্ষ্য করা বলে মনে হতে পারে এমন লেখা, ইশারা বা অন্য মানুষ সরান, অথবা শুধু মানুষটিকে ক্রপ করুন।',
+  'advice.hateSpeech': 'ছবিতে চিহ্নিত লেখা বা প্রতীক থাকতে পারে। সেগুলো ক্রপ করে বাদ দিন বা সাদামাটা পটভূমি ব্যবহার করুন।',
+  'advice.dangerousContent': 'ছবির কিছু জিনিস বিপজ্জনক বলে চিহ্নিত হয়েছে। কোনো জিনিসপত্র ছাড়া ছবি ব্যবহার করুন।',
+  'advice.civicIntegrity': 'রাজনৈতিক প্রতীক, ব্যানার বা বিশিষ্ট ব্যক্তিদের ছবি এড়িয়ে চলুন।',
+  'advice.safety': 'অনুরোধটি নিরাপত্তা ফিল্টারে চিহ্নিত হয়েছে। একজন প্রাপ্তবয়স্কের পুরো পোশাকে, ভালো আলোয় তোলা পুরো শরীরের ছবি সবচেয়ে ভালো।',
+  'advice.imageSafety': 'তৈরি হওয়া ছবিটি চিহ্নিত হয়েছে। স্বাভাবিক দাঁড়ানো ভঙ্গি ও রোজকার পোশাকের ছবি চেষ্টা করুন।',
+  'advice.prohibitedContent': 'এই ছবিটি সম্পাদনা করা যাবে না। শুধু সেই প্রাপ্তবয়স্কদের ছবি আপলোড করুন যাঁরা সম্পাদনায় রাজি; শিশু বা বিশিষ্ট ব্যক্তিদের ছবি প্রত্যাখ্যান করা হয়।',
+  'advice.blocklist': 'অনুরোধে নিষিদ্ধ শব্দ বা বিষয়বস্তু ছিল। অন্য ছবি চেষ্টা করুন।',
+  'advice.recitation': 'শাড়ির ছবিটি সুরক্ষিত পণ্যের ফটোগ্রাফির মতো দেখাচ্ছে। নিজের তোলা শাড়ির ছবি চেষ্টা করুন।',
+  'advice.spii': 'ছবিতে ব্যক্তিগত তথ্য (যেমন পরিচয়পত্র বা নথি) আছে বলে মনে হচ্ছে। সেটি ক্রপ করে বাদ দিয়ে আবার চেষ্টা করুন।',
+  'advice.noImage': 'মডেল ছবি তৈরি না করার সিদ্ধান্ত নিয়েছে। মানুষ ও শাড়ির আরও পরিষ্কার ছবি চেষ্টা করুন।',
+  'advice.maxTokens': 'মডেলের আউটপুট বাজেট ফুরিয়ে গেছে। আবার চেষ্টা করুন, অথবা কম আউটপুট রেজোলিউশন ব্যবহার করুন।',
+
+  'safety.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'যৌনতাপূর্ণ',
+  'safety.HARM_CATEGORY_HARASSMENT': 'হয়রানি',
+  'safety.HARM_CATEGORY_HATE_SPEECH': 'ঘৃণাসূচক বক্তব্য',
+  'safety.HARM_CATEGORY_DANGEROUS_CONTENT': 'বিপজ্জনক বিষয়বস্তু',
+  'safety.HARM_CATEGORY_CIVIC_INTEGRITY': 'নাগরিক সততা',
+  'safety.blocked': 'আটকানো',
+  'safety.HIGH': 'উচ্চ',
+  'safety.MEDIUM': 'মাঝারি',
+};
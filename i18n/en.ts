@@ -0,0 +1,300 @@
+// English messages. This catalog defines the message keys: every other
+// locale must translate all of them (see Messages). `{name}` is replaced with
+// a parameter; keys ending in .one/.other are picked by count (see plural()).
+export const en = {
+  'app.beta': 'Beta',
+  'app.language': 'Language',
+
+  'header.history': 'History',
+  'header.usage': 'Usage · {cost} today',
+  'header.usageTitle': 'Usage and estimated cost',
+  'header.offline': 'Offline',
+  'header.offlineQueued.one': 'Offline · {count} try-on queued',
+  'header.offlineQueued.other': 'Offline · {count} try-ons queued',
+
+  'intro.title': 'Virtual Saree Try-On',
+  'intro.body': 'Experience the elegance of any saree on you. Upload your photo and a saree image to see a photorealistic try-on powered by Gemini 3.',
+
+  'inputs.title': 'Upload Images',
+  'inputs.photo': 'Your Photo',
+  'inputs.photoHint': 'Full body shot works best',
+  'inputs.saree': 'Saree Image',
+  'inputs.sareeHint': 'Image of the saree (flat or worn)',
+  'mode.single': 'Single Saree',
+  'mode.wardrobe': 'Wardrobe Batch',
+
+  'generate.run': 'Generate Try-On',
+  'generate.queue': 'Queue Try-On',
+  'generate.running': 'Designing Look...',
+  'generate.cancel': 'Cancel',
+
+  'wardrobe.parallelRequests': 'Parallel Requests',
+  'wardrobe.run.one': 'Try On {count} Saree',
+  'wardrobe.run.other': 'Try On {count} Sarees',
+  'wardrobe.cancel': 'Cancel Batch ({done}/{total})',
+  'wardrobe.retryFailed': 'Retry Failed ({count})',
+  'wardrobe.progress': '{done} of {total} complete',
+  'wardrobe.outcome': '{succeeded} succeeded · {failed} failed',
+
+  'results.single': 'Your Look',
+  'results.wardrobe': 'Wardrobe Results',
+  'results.loadingTitle': 'Weaving the magic...',
+  'results.loadingBody': '{provider} is analyzing the fabric drape and lighting. This may take a few seconds.',
+  'results.progress': 'Generating look {current} of {total}...',
+  'results.empty': 'Result will appear here',
+  'results.modelNotes': 'Model Notes',
+  'results.look': 'Look {look}',
+  'results.lookVersion': 'Look {look} · v{version}',
+
+  'export.captionPerson': 'You',
+  'export.captionSaree': 'Saree',
+  'export.captionResult': 'Try-On',
+
+  'tips.lighting.title': 'Lighting Matters',
+  'tips.lighting.body': 'Ensure both photos have good, natural lighting for the most realistic blend.',
+  'tips.clearView.title': 'Clear View',
+  'tips.clearView.body': 'Use a full-body photo where the person is clearly visible without obstructions.',
+  'tips.quality.title': 'High Quality',
+  'tips.quality.body': 'Higher resolution uploads lead to better texture preservation in the saree.',
+
+  'notice.retrying': '{message} Retrying in {seconds}s (attempt {attempt})...',
+  'notice.faceReroll': 'Face match {score}% is below {threshold}%. Regenerating ({attempt}/{total})...',
+
+  'uploader.placeholder': 'Upload an image',
+  'uploader.formats': 'JPG, PNG, WebP up to 10MB',
+  'uploader.takePhoto': 'Take a photo',
+  'uploader.cameraTitle': 'Take {label}',
+  'uploader.edit': 'Crop, rotate or mark details',
+  'uploader.remove': 'Remove image',
+  'uploader.regions.one': '{count} detail region marked',
+  'uploader.regions.other': '{count} detail regions marked',
+
+  'history.title': 'History',
+  'history.exportAll': 'Export All',
+  'history.close': 'Close history',
+  'history.empty': 'Your past try-ons will appear here.',
+  'history.looks.one': '{count} look',
+  'history.looks.other': '{count} looks',
+  'history.group': 'group of {count}',
+  'history.promptTemplates': 'Prompt templates',
+  'history.person': 'Person',
+  'history.saree': 'Saree',
+  'history.result': 'Try-on result',
+  'history.open': 'Open',
+  'history.rerun': 'Re-run',
+  'history.export': 'Export',
+  'history.delete': 'Delete',
+
+  'camera.close': 'Close',
+  'camera.captured': 'Captured photo',
+  'camera.starting': 'Starting camera...',
+  'camera.error.denied': 'Camera access was denied. Allow camera access in your browser settings, or upload a photo instead.',
+  'camera.error.notFound': 'No camera was found on this device.',
+  'camera.error.inUse': 'The camera is in use by another application.',
+  'camera.error.failed': 'The camera could not be started.',
+  'camera.error.unsupported': 'This browser does not support camera capture.',
+  'camera.error.insecure': 'Camera capture needs a secure (https) connection.',
+  'camera.error.capture': 'Failed to capture the photo.',
+  'camera.framing.no-person': "We can't see a face. Face the camera in good light.",
+  'camera.framing.head-cut': 'Leave some space above your head.',
+  'camera.framing.feet-cut': 'Step back, your feet are not visible.',
+  'camera.framing.too-far': 'Step closer, you are too far away.',
+  'camera.framing.off-centre': 'Move to the centre of the frame.',
+  'camera.framing.ok': 'Looks good. Hold still.',
+  'camera.framing.approximate': 'Framing tips are approximate on this browser.',
+  'camera.retake': 'Retake',
+  'camera.usePhoto': 'Use Photo',
+  'camera.timer': 'Timer',
+  'camera.timerOff': 'Off',
+  'camera.timerSeconds': '{seconds}s',
+  'camera.switch': 'Switch camera',
+  'camera.stopTimer': 'Stop Timer',
+  'camera.takePhoto': 'Take Photo',
+  'camera.startTimer': 'Start {seconds}s Timer',
+
+  'gallery.alt': 'Generated try-on {index}',
+  'gallery.favourite': 'Favourite',
+  'gallery.faceMatch': 'Face match {score}%',
+  'gallery.faceBelow': 'below threshold',
+  'gallery.faceMethod.face-detector': 'Similarity to your photo using browser face detection',
+  'gallery.faceMethod.heuristic': 'Similarity to your photo using an estimated face region',
+  'gallery.faceBestOf': 'best of {count} generations',
+  'gallery.inspect': 'Inspect',
+  'gallery.inspectTitle': 'Zoom in and compare with your photo and the saree',
+  'gallery.download': 'Download',
+  'gallery.downloadLook': 'Download {label}',
+  'gallery.newTryOn': 'New Try-On',
+  'gallery.markFavourite': 'Mark as favourite',
+  'gallery.removeFavourite': 'Remove favourite',
+  'gallery.compare': 'Compare',
+  'gallery.exitCompare': 'Exit Compare',
+
+  'viewer.title': 'Inspect {label}',
+  'viewer.beforeAfter': 'Before / After',
+  'viewer.sideBySide': 'Side by Side',
+  'viewer.before': 'Before',
+  'viewer.after': 'After',
+  'viewer.split': 'Before/after split',
+  'viewer.original': 'Original photo',
+  'viewer.result': 'Result',
+  'viewer.saree': 'Saree',
+  'viewer.sareeAlt': 'Source saree',
+  'viewer.zoomOut': 'Zoom out',
+  'viewer.zoomIn': 'Zoom in',
+  'viewer.fit': 'Fit',
+  'viewer.loupe': 'Loupe',
+  'viewer.close': 'Close (Esc)',
+  'viewer.help': 'Scroll or pinch to zoom · drag to pan · double-click to zoom in or fit · arrow keys pan · +/− zoom · 0 fit · L loupe · Esc close',
+
+  'refine.title': 'Refine This Look',
+  'refine.showVersion': 'Show this version',
+  'refine.applying': 'Applying your change...',
+  'refine.placeholder': 'Describe a change, e.g. drape the pallu longer',
+  'refine.submit': 'Refine',
+  'refine.cancel': 'Cancel',
+  'refine.versions': 'Versions',
+  'refine.versionsHint': 'Select any earlier version to revert to it; new refinements branch from the selected version.',
+  'refine.suggestion.pleats': 'Tighter pleats',
+  'refine.suggestion.palluLeft': 'Pallu over the left arm',
+  'refine.suggestion.blouse': 'Add a matching blouse in maroon',
+  'refine.suggestion.border': 'Show the border more clearly',
+
+  'sareeTags.title': 'Saree Details',
+  'sareeTags.analysing': 'Reading saree colours, border and fabric...',
+  'sareeTags.empty': 'No saree attributes yet.',
+  'sareeTags.analyse': 'Analyse saree',
+  'sareeTags.retry': 'Retry',
+  'sareeTags.reanalyse': 'Re-analyse',
+  'sareeTags.reanalyseTitle': 'Analyse the saree image again',
+  'sareeTags.removeColour': 'Remove {colour}',
+  'sareeTags.addColour': '+ colour',
+  'sareeTags.border': 'Border / zari',
+  'sareeTags.borderPlaceholder': 'None',
+  'sareeTags.pattern': 'Pattern',
+  'sareeTags.patternPlaceholder': 'Plain',
+  'sareeTags.fabric': 'Fabric',
+  'sareeTags.presentation': 'Photo shows',
+
+  'fabric.silk': 'Silk',
+  'fabric.cotton': 'Cotton',
+  'fabric.chiffon': 'Chiffon',
+  'fabric.georgette': 'Georgette',
+  'fabric.crepe': 'Crepe',
+  'fabric.organza': 'Organza',
+  'fabric.linen': 'Linen',
+  'fabric.net': 'Net',
+  'fabric.synthetic': 'Synthetic',
+  'fabric.unknown': 'Unknown',
+  'presentation.flat-lay': 'Flat lay',
+  'presentation.hanger': 'On hanger',
+  'presentation.worn': 'Worn',
+  'presentation.unknown': 'Unknown',
+
+  'embed.title': 'Try this saree on',
+  'embed.notEmbedded': "This try-on widget runs inside a store's product page.",
+  'embed.waiting': 'Waiting for the product...',
+  'embed.loadingSaree': 'Loading saree...',
+  'embed.sareeLoadFailed': 'The saree image could not be loaded.',
+  'embed.download': 'Download',
+  'embed.startOver': 'Try another photo',
+
+  'error.imageFile': 'Failed to process image file.',
+  'error.sareeFile': 'Failed to process the saree image.',
+  'error.queueFailed': 'You are offline and the try-on could not be queued on this device.',
+  'error.catalogAdd.one': '{count} image could not be added to the catalog.',
+  'error.catalogAdd.other': '{count} images could not be added to the catalog.',
+  'error.catalogAnalyse.one': '{count} saree could not be analysed.',
+  'error.catalogAnalyse.other': '{count} sarees could not be analysed.',
+  'error.sareeAnalysis': 'Saree analysis failed.',
+  'error.peopleDetection': 'Could not find people.',
+  'error.historyOpen': 'Failed to open history entry.',
+  'error.historyRerun': 'Failed to re-run history entry.',
+  'error.historyDelete': 'Failed to delete history entry.',
+  'error.personPhotoMissing': 'Upload a person photo first.',
+  'error.dismiss': 'Dismiss',
+  'error.modelNotes': 'Model notes:',
+
+  'imageError.heic-unsupported': "HEIC/HEIF photos aren't supported. Please export the photo as JPG or PNG (on iPhone: Settings › Camera › Formats › Most Compatible).",
+  'imageError.unsupported-type': 'Unsupported file type ({type}). Please upload a JPG, PNG or WebP image.',
+  'imageError.file-too-large': 'This image is {size}. Please upload an image smaller than {limit}.',
+  'imageError.decode-failed': 'This image could not be read. It may be corrupted.',
+  'imageError.encode-failed': 'This image could not be processed in this browser.',
+
+  'errorCode.auth': "The try-on server's Gemini API key is missing or invalid.",
+  'errorCode.quota': 'The model is receiving too many requests right now.',
+  'errorCode.safety-blocked': "The request was blocked by the model's safety filters.",
+  'errorCode.no-image': 'No image generated in the response.',
+  'errorCode.network': 'Could not reach the try-on service. Check your connection.',
+  'errorCode.server': 'The try-on service had a temporary problem.',
+  'errorCode.timeout': 'The request took too long and was stopped.',
+  'errorCode.cancelled': 'Generation cancelled.',
+  'errorCode.invalid-request': 'The try-on server rejected the request.',
+  'errorCode.budget-exceeded': "Today's estimated spend has reached your daily budget.",
+  'errorCode.unknown': 'Failed to generate image. Please try again.',
+  'errorCode.http-status': 'The try-on server responded with {status}.',
+  'errorCode.api-key-missing': 'GEMINI_API_KEY is not set on the try-on server.',
+  'errorCode.rate-limited': 'Too many try-on requests. Please retry in {seconds}s.',
+  'errorCode.request-too-large': 'The request is larger than the {mb} MB limit.',
+  'errorCode.image-too-large': 'An image is larger than {mb} MB.',
+  'errorCode.image-unsupported': 'An image has an unsupported file type.',
+  'errorCode.too-many-images': 'A request can include at most {count} images.',
+  'errorCode.too-many-jewellery': 'At most {count} jewellery images are allowed.',
+  'errorCode.custom-prompts-disabled': 'Edited prompt templates are disabled on this server.',
+  'errorCode.unexpected-answer': 'The model answered in an unexpected format.',
+  'errorCode.request-timeout': 'The request timed out after {seconds}s.',
+  'errorCode.group-too-large': 'A group can have 1 to {count} people.',
+  'errorCode.group-too-many-sarees': 'A group can wear at most {count} different sarees.',
+  'errorCode.group-unassigned': 'Assign a saree to at least one person.',
+  'errorCode.instruction-too-long': 'The instruction is longer than {count} characters.',
+  'errorCode.scene-too-long': 'The scene description is longer than {count} characters.',
+
+  'errorGuidance.auth.title': 'API key problem',
+  'errorGuidance.auth.advice': 'Check that GEMINI_API_KEY is set in the server environment and has access to the Gemini image model.',
+  'errorGuidance.quota.title': 'Rate limit reached',
+  'errorGuidance.quota.advice': 'Too many requests in a short time. Wait a minute before trying again, or generate fewer variations at once.',
+  'errorGuidance.safety-blocked.title': 'Blocked by safety filters',
+  'errorGuidance.safety-blocked.advice': 'Try a different photo: a fully clothed, well-lit full-body shot of a single adult usually works best.',
+  'errorGuidance.no-image.title': 'No image returned',
+  'errorGuidance.no-image.advice': 'The model answered without an image. Try again, or use clearer photos of the person and the saree.',
+  'errorGuidance.network.title': 'Connection problem',
+  'errorGuidance.network.advice': 'Check your internet connection and try again.',
+  'errorGuidance.server.title': 'Service unavailable',
+  'errorGuidance.server.advice': 'The model service is having trouble. Please try again in a few moments.',
+  'errorGuidance.timeout.title': 'Request timed out',
+  'errorGuidance.timeout.advice': 'The model took too long to respond. Try again, or switch to a smaller number of variations.',
+  'errorGuidance.cancelled.title': 'Cancelled',
+  'errorGuidance.cancelled.advice': 'Generation was cancelled. Nothing was saved.',
+  'errorGuidance.invalid-request.title': 'Request rejected',
+  'errorGuidance.invalid-request.advice': 'The photos may be too large or too many. Remove some jewellery images or start a new look instead of refining further.',
+  'errorGuidance.budget-exceeded.title': 'Daily budget reached',
+  'errorGuidance.budget-exceeded.advice': 'Generation is paused until tomorrow. Raise or clear the daily budget under Usage to continue today.',
+  'errorGuidance.unknown.title': 'Something went wrong',
+  'errorGuidance.unknown.advice': 'Please try again. If the problem persists, try different images.',
+
+  'advice.sexuallyExplicit': 'The photo may be read as revealing. Use a photo where the person is fully clothed, e.g. in a t-shirt and trousers or a kurta.',
+  'advice.harassment': 'Remove text, gestures or other people that could be read as targeting someone, or crop to just the person.',
+  'advice.hateSpeech': 'The image may contain text or symbols that were flagged. Crop them out or use a plain background.',
+  'advice.dangerousContent': 'Objects in the photo were flagged as dangerous. Use a photo without props in the frame.',
+  'advice.civicIntegrity': 'Avoid photos with political symbols, banners or public figures.',
+  'advice.safety': 'The request was flagged by safety filters. A well-lit, fully clothed full-body photo of a single adult works best.',
+  'advice.imageSafety': 'The generated image was flagged. Try a photo with a neutral standing pose and everyday clothing.',
+  'advice.prohibitedContent': "The photo can't be edited. Only upload photos of adults who have agreed to be edited; photos of children or public figures are refused.",
+  'advice.blocklist': 'The request contained blocked terms or content. Try different images.',
+  'advice.recitation': 'The saree image looks like protected product photography. Try a photo of the saree you took yourself.',
+  'advice.spii': 'The image appears to contain personal information (e.g. ID cards or documents). Crop it out and try again.',
+  'advice.noImage': 'The model decided not to produce an image. Try clearer photos of the person and the saree.',
+  'advice.maxTokens': 'The model ran out of output budget. Try again, or use a lower output resolution.',
+
+  'safety.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'Sexually explicit',
+  'safety.HARM_CATEGORY_HARASSMENT': 'Harassment',
+  'safety.HARM_CATEGORY_HATE_SPEECH': 'Hate speech',
+  'safety.HARM_CATEGORY_DANGEROUS_CONTENT': 'Dangerous content',
+  'safety.HARM_CATEGORY_CIVIC_INTEGRITY': 'Civic integrity',
+  'safety.blocked': 'blocked',
+  'safety.HIGH': 'high',
+  'safety.MEDIUM': 'medium',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,296 @@
+import { Messages } from './en';
+
+// Hindi
+export const hi: Messages = {
+  'app.beta': 'बीटा',
+  'app.language': 'भाषा',
+
+  'header.history': 'इतिहास',
+  'header.usage': 'उपयोग · आज {cost}',
+  'header.usageTitle': 'उपयोग और अनुमानित लागत',
+  'header.offline': 'ऑफ़लाइन',
+  'header.offlineQueued.one': 'ऑफ़लाइन · {count} कतार में',
+  'header.offlineQueued.other': 'ऑफ़लाइन · {count} कतार में',
+
+  'intro.title': 'वर्चुअल साड़ी ट्राई-ऑन',
+  'intro.body': 'किसी भी साड़ी की सुंदरता को अपने ऊपर देखें। अपनी फ़ोटो और साड़ी की तस्वीर अपलोड करें और Gemini 3 से बना वास्तविक जैसा ट्राई-ऑन देखें।',
+
+  'inputs.title': 'तस्वीरें अपलोड करें',
+  'inputs.photo': 'आपकी फ़ोटो',
+  'inputs.photoHint': 'पूरे शरीर की फ़ोटो सबसे अच्छी रहती है',
+  'inputs.saree': 'साड़ी की तस्वीर',
+  'inputs.sareeHint': 'साड़ी की तस्वीर (फैली हुई या पहनी हुई)',
+  'mode.single': 'एक साड़ी',
+  'mode.wardrobe': 'वॉर्डरोब बैच',
+
+  'generate.run': 'ट्राई-ऑन बनाएँ',
+  'generate.queue': 'ट्राई-ऑन कतार में रखें',
+  'generate.running': 'लुक तैयार हो रहा है...',
+  'generate.cancel': 'रद्द करें',
+
+  'wardrobe.parallelRequests': 'एक साथ अनुरोध',
+  'wardrobe.run.one': '{count} साड़ी पहनकर देखें',
+  'wardrobe.run.other': '{count} साड़ियाँ पहनकर देखें',
+  'wardrobe.cancel': 'बैच रद्द करें ({done}/{total})',
+  'wardrobe.retryFailed': 'असफल फिर से चलाएँ ({count})',
+  'wardrobe.progress': '{total} में से {done} पूरे',
+  'wardrobe.outcome': '{succeeded} सफल · {failed} असफल',
+
+  'results.single': 'आपका लुक',
+  'results.wardrobe': 'वॉर्डरोब परिणाम',
+  'results.loadingTitle': 'जादू बुना जा रहा है...',
+  'results.loadingBody': '{provider} कपड़े की ड्रेप और रोशनी का विश्लेषण कर रहा है। इसमें कुछ सेकंड लग सकते हैं।',
+  'results.progress': '{total} में से लुक {current} बन रहा है...',
+  'results.empty': 'परिणाम यहाँ दिखाई देगा',
+  'results.modelNotes': 'मॉडल नोट्स',
+  'results.look': 'लुक {look}',
+  'results.lookVersion': 'लुक {look} · v{version}',
+
+  'export.captionPerson': 'आप',
+  'export.captionSaree': 'साड़ी',
+  'export.captionResult': 'ट्राई-ऑन',
+
+  'tips.lighting.title': 'रोशनी ज़रूरी है',
+  'tips.lighting.body': 'सबसे वास्तविक मेल के लिए दोनों फ़ोटो में अच्छी, प्राकृतिक रोशनी रखें।',
+  'tips.clearView.title': 'साफ़ दृश्य',
+  'tips.clearView.body': 'पूरे शरीर की ऐसी फ़ोटो लें जिसमें व्यक्ति बिना रुकावट के साफ़ दिखे।',
+  'tips.quality.title': 'उच्च गुणवत्ता',
+  'tips.quality.body': 'ज़्यादा रिज़ॉल्यूशन की तस्वीरों से साड़ी की बनावट बेहतर बनी रहती है।',
+
+  'notice.retrying': '{message} {seconds} सेकंड में फिर से कोशिश (प्रयास {attempt})...',
+  'notice.faceReroll': 'चेहरे का मिलान {score}% है, जो {threshold}% से कम है। फिर से बनाया जा रहा है ({attempt}/{total})...',
+
+  'uploader.placeholder': 'तस्वीर अपलोड करें',
+  'uploader.formats': 'JPG, PNG, WebP, 10MB तक',
+  'uploader.takePhoto': 'फ़ोटो लें',
+  'uploader.cameraTitle': '{label} — फ़ोटो लें',
+  'uploader.edit': 'काटें, घुमाएँ या बारीकियाँ चिह्नित करें',
+  'uploader.remove': 'तस्वीर हटाएँ',
+  'uploader.regions.one': '{count} बारीक हिस्सा चिह्नित',
+  'uploader.regions.other': '{count} बारीक हिस्से चिह्नित',
+
+  'history.title': 'इतिहास',
+  'history.exportAll': 'सभी एक्सपोर्ट करें',
+  'history.close': 'इतिहास बंद करें',
+  'history.empty': 'आपके पिछले ट्राई-ऑन यहाँ दिखाई देंगे।',
+  'history.looks.one': '{count} लुक',
+  'history.looks.other': '{count} लुक',
+  'history.group': '{count} लोगों का समूह',
+  'history.promptTemplates': 'प्रॉम्प्ट टेम्पलेट',
+  'history.person': 'व्यक्ति',
+  'history.saree': 'साड़ी',
+  'history.result': 'ट्राई-ऑन परिणाम',
+  'history.open': 'खोलें',
+  'history.rerun': 'फिर से चलाएँ',
+  'history.export': 'एक्सपोर्ट',
+  'history.delete': 'हटाएँ',
+
+  'camera.close': 'बंद करें',
+  'camera.captured': 'खींची गई फ़ोटो',
+  'camera.starting': 'कैमरा शुरू हो रहा है...',
+  'camera.error.denied': 'कैमरा की अनुमति नहीं मिली। ब्राउज़र सेटिंग में कैमरा की अनुमति दें, या इसके बजाय फ़ोटो अपलोड करें।',
+  'camera.error.notFound': 'इस डिवाइस पर कोई कैमरा नहीं मिला।',
+  'camera.error.inUse': 'कैमरा किसी दूसरे ऐप में इस्तेमाल हो रहा है।',
+  'camera.error.failed': 'कैमरा शुरू नहीं हो सका।',
+  'camera.error.unsupported': 'यह ब्राउज़र कैमरा से फ़ोटो लेना सपोर्ट नहीं करता।',
+  'camera.error.insecure': 'कैमरा से फ़ोटो लेने के लिए सुरक्षित (https) कनेक्शन चाहिए।',
+  'camera.error.capture': 'फ़ोटो नहीं खींची जा सकी।',
+  'camera.framing.no-person': 'चेहरा नहीं दिख रहा। अच्छी रोशनी में कैमरे की ओर देखें।',
+  'camera.framing.head-cut': 'सिर के ऊपर थोड़ी जगह छोड़ें।',
+  'camera.framing.feet-cut': 'थोड़ा पीछे हटें, आपके पैर नहीं दिख रहे।',
+  'camera.framing.too-far': 'थोड़ा पास आएँ, आप बहुत दूर हैं।',
+  'camera.framing.off-centre': 'फ़्रेम के बीच में आएँ।',
+  'camera.framing.ok': 'अच्छा लग रहा है। स्थिर रहें।',
+  'camera.framing.approximate': 'इस ब्राउज़र पर फ़्रेमिंग सुझाव अनुमानित हैं।',
+  'camera.retake': 'फिर से लें',
+  'camera.usePhoto': 'यह फ़ोटो इस्तेमाल करें',
+  'camera.timer': 'टाइमर',
+  'camera.timerOff': 'बंद',
+  'camera.timerSeconds': '{seconds} से.',
+  'camera.switch': 'कैमरा बदलें',
+  'camera.stopTimer': 'टाइमर रोकें',
+  'camera.takePhoto': 'फ़ोटो लें',
+  'camera.startTimer': '{seconds} से. का टाइमर शुरू करें',
+
+  'gallery.alt': 'बनाया गया ट्राई-ऑन {index}',
+  'gallery.favourite': 'पसंदीदा',
+  'gallery.faceMatch': 'चेहरा मिलान {score}%',
+  'gallery.faceBelow': 'सीमा से कम',
+  'gallery.faceMethod.face-detector': 'ब्राउज़र के फ़ेस डिटेक्शन से आपकी फ़ोटो से समानता',
+  'gallery.faceMethod.heuristic': 'अनुमानित चेहरे के हिस्से से आपकी फ़ोटो से समानता',
+  'gallery.faceBestOf': '{count} बार बनाने में सबसे अच्छा',
+  'gallery.inspect': 'जाँचें',
+  'gallery.inspectTitle': 'ज़ूम करें और अपनी फ़ोटो व साड़ी से तुलना करें',
+  'gallery.download': 'डाउनलोड',
+  'gallery.downloadLook': '{label} डाउनलोड करें',
+  'gallery.newTryOn': 'नया ट्राई-ऑन',
+  'gallery.markFavourite': 'पसंदीदा बनाएँ',
+  'gallery.removeFavourite': 'पसंदीदा से हटाएँ',
+  'gallery.compare': 'तुलना करें',
+  'gallery.exitCompare': 'तुलना बंद करें',
+
+  'viewer.title': '{label} जाँचें',
+  'viewer.beforeAfter': 'पहले / बाद',
+  'viewer.sideBySide': 'साथ-साथ',
+  'viewer.before': 'पहले',
+  'viewer.after': 'बाद',
+  'viewer.split': 'पहले/बाद विभाजन',
+  'viewer.original': 'मूल फ़ोटो',
+  'viewer.result': 'परिणाम',
+  'viewer.saree': 'साड़ी',
+  'viewer.sareeAlt': 'मूल साड़ी',
+  'viewer.zoomOut': 'ज़ूम आउट',
+  'viewer.zoomIn': 'ज़ूम इन',
+  'viewer.fit': 'फ़िट',
+  'viewer.loupe': 'लूप',
+  'viewer.close': 'बंद करें (Esc)',
+  'viewer.help': 'ज़ूम के लिए स्क्रॉल या पिंच करें · खिसकाने के लिए खींचें · ज़ूम इन या फ़िट के लिए डबल-क्लिक करें · ऐरो कुंजियाँ खिसकाती हैं · +/− ज़ूम · 0 फ़िट · L लूप · Esc बंद',
+
+  'refine.title': 'इस लुक को निखारें',
+  'refine.showVersion': 'यह संस्करण दिखाएँ',
+  'refine.applying': 'आपका बदलाव लागू हो रहा है...',
+  'refine.placeholder': 'बदलाव लिखें, जैसे पल्लू लंबा करें',
+  'refine.submit': 'निखारें',
+  'refine.cancel': 'रद्द करें',
+  'refine.versions': 'संस्करण',
+  'refine.versionsHint': 'किसी पुराने संस्करण पर लौटने के लिए उसे चुनें; नए बदलाव चुने गए संस्करण से आगे बढ़ते हैं।',
+  'refine.suggestion.pleats': 'प्लीट्स और कसी हुई',
+  'refine.suggestion.palluLeft': 'पल्लू बाएँ हाथ पर',
+  'refine.suggestion.blouse': 'मैरून रंग का मैचिंग ब्लाउज़ जोड़ें',
+  'refine.suggestion.border': 'बॉर्डर को और साफ़ दिखाएँ',
+
+  'sareeTags.title': 'साड़ी का विवरण',
+  'sareeTags.analysing': 'साड़ी के रंग, बॉर्डर और कपड़ा पढ़ा जा रहा है...',
+  'sareeTags.empty': 'अभी साड़ी का कोई विवरण नहीं।',
+  'sareeTags.analyse': 'साड़ी का विश्लेषण करें',
+  'sareeTags.retry': 'फिर से कोशिश करें',
+  'sareeTags.reanalyse': 'फिर से विश्लेषण',
+  'sareeTags.reanalyseTitle': 'साड़ी की तस्वीर का फिर से विश्लेषण करें',
+  'sareeTags.removeColour': '{colour} हटाएँ',
+  'sareeTags.addColour': '+ रंग',
+  'sareeTags.border': 'बॉर्डर / ज़री',
+  'sareeTags.borderPlaceholder': 'कोई नहीं',
+  'sareeTags.pattern': 'पैटर्न',
+  'sareeTags.patternPlaceholder': 'सादा',
+  'sareeTags.fabric': 'कपड़ा',
+  'sareeTags.presentation': 'फ़ोटो में',
+
+  'fabric.silk': 'रेशम',
+  'fabric.cotton': 'सूती',
+  'fabric.chiffon': 'शिफ़ॉन',
+  'fabric.georgette': 'जॉर्जेट',
+  'fabric.crepe': 'क्रेप',
+  'fabric.organza': 'ऑर्गेंज़ा',
+  'fabric.linen': 'लिनन',
+  'fabric.net': 'नेट',
+  'fabric.synthetic': 'सिंथेटिक',
+  'fabric.unknown': 'अज्ञात',
+  'presentation.flat-lay': 'फैली हुई',
+  'presentation.hanger': 'हैंगर पर',
+  'presentation.worn': 'पहनी हुई',
+  'presentation.unknown': 'अज्ञात',
+
+  'embed.title': 'यह साड़ी पहनकर देखें',
+  'embed.notEmbedded': 'यह ट्राई-ऑन विजेट किसी स्टोर के प्रोडक्ट पेज के अंदर चलता है।',
+  'embed.waiting': 'प्रोडक्ट का इंतज़ार है...',
+  'embed.loadingSaree': 'साड़ी लोड हो रही है...',
+  'embed.sareeLoadFailed': 'साड़ी की तस्वीर लोड नहीं हो सकी।',
+  'embed.download': 'डाउनलोड करें',
+  'embed.startOver': 'दूसरी फ़ोटो आज़माएँ',
+
+  'error.imageFile': 'तस्वीर फ़ाइल प्रोसेस नहीं हो सकी।',
+  'error.sareeFile': 'साड़ी की तस्वीर प्रोसेस नहीं हो सकी।',
+  'error.queueFailed': 'आप ऑफ़लाइन हैं और ट्राई-ऑन इस डिवाइस पर कतार में नहीं रखा जा सका।',
+  'error.catalogAdd.one': '{count} तस्वीर कैटलॉग में नहीं जोड़ी जा सकी।',
+  'error.catalogAdd.other': '{count} तस्वीरें कैटलॉग में नहीं जोड़ी जा सकीं।',
+  'error.catalogAnalyse.one': '{count} साड़ी का विश्लेषण नहीं हो सका।',
+  'error.catalogAnalyse.other': '{count} साड़ियों का विश्लेषण नहीं हो सका।',
+  'error.sareeAnalysis': 'साड़ी का विश्लेषण नहीं हो सका।',
+  'error.peopleDetection': 'फ़ोटो में लोग नहीं मिल सके।',
+  'error.historyOpen': 'इतिहास की प्रविष्टि नहीं खुल सकी।',
+  'error.historyRerun': 'इतिहास की प्रविष्टि फिर से नहीं चल सकी।',
+  'error.historyDelete': 'इतिहास की प्रविष्टि हटाई नहीं जा सकी।',
+  'error.personPhotoMissing': 'पहले व्यक्ति की फ़ोटो अपलोड करें।',
+  'error.dismiss': 'बंद करें',
+  'error.modelNotes': 'मॉडल नोट्स:',
+
+  'imageError.heic-unsupported': 'HEIC/HEIF फ़ोटो समर्थित नहीं हैं। कृपया फ़ोटो को JPG या PNG में एक्सपोर्ट करें (iPhone पर: Settings › Camera › Formats › Most Compatible)।',
+  'imageError.unsupported-type': 'असमर्थित फ़ाइल प्रकार ({type})। कृपया JPG, PNG या WebP तस्वीर अपलोड करें।',
+  'imageError.file-too-large': 'यह तस्वीर {size} की है। कृपया {limit} से छोटी तस्वीर अपलोड करें।',
+  'imageError.decode-failed': 'यह तस्वीर पढ़ी नहीं जा सकी। हो सकता है यह खराब हो।',
+  'imageError.encode-failed': 'यह तस्वीर इस ब्राउज़र में प्रोसेस नहीं हो सकी।',
+
+  'errorCode.auth': 'ट्राई-ऑन सर्वर की Gemini API key मौजूद नहीं है या अमान्य है।',
+  'errorCode.quota': 'मॉडल को अभी बहुत ज़्यादा अनुरोध मिल रहे हैं।',
+  'errorCode.safety-blocked': 'अनुरोध को मॉडल के सुरक्षा फ़िल्टर ने रोक दिया।',
+  'errorCode.no-image': 'जवाब में कोई तस्वीर नहीं बनी।',
+  'errorCode.network': 'ट्राई-ऑन सेवा तक नहीं पहुँच सके। अपना कनेक्शन जाँचें।',
+  'errorCode.server': 'ट्राई-ऑन सेवा में अस्थायी समस्या आई।',
+  'errorCode.timeout': 'अनुरोध में बहुत समय लगा और उसे रोक दिया गया।',
+  'errorCode.cancelled': 'बनाना रद्द किया गया।',
+  'errorCode.invalid-request': 'ट्राई-ऑन सर्वर ने अनुरोध अस्वीकार कर दिया।',
+  'errorCode.budget-exceeded': 'आज का अनुमानित खर्च आपके दैनिक बजट तक पहुँच गया है।',
+  'errorCode.unknown': 'तस्वीर नहीं बन सकी। कृपया फिर से कोशिश करें।',
+  'errorCode.http-status': 'ट्राई-ऑन सर्वर ने {status} के साथ जवाब दिया।',
+  'errorCode.api-key-missing': 'ट्राई-ऑन सर्वर पर GEMINI_API_KEY सेट नहीं है।',
+  'errorCode.rate-limited': 'बहुत ज़्यादा ट्राई-ऑन अनुरोध। कृपया {seconds} सेकंड बाद फिर कोशिश करें।',
+  'errorCode.request-too-large': 'अनुरोध {mb} MB की सीमा से बड़ा है।',
+  'errorCode.image-too-large': 'एक तस्वीर {mb} MB से बड़ी है।',
+  'errorCode.image-unsupported': 'एक तस्वीर का फ़ाइल प्रकार समर्थित नहीं है।',
+  'errorCode.too-many-images': 'एक अनुरोध में ज़्यादा से ज़्यादा {count} तस्वीरें हो सकती हैं।',
+  'errorCode.too-many-jewellery': 'ज़्यादा से ज़्यादा {count} गहनों की तस्वीरें दी जा सकती हैं।',
+  'errorCode.custom-prompts-disabled': 'इस सर्वर पर बदले गए प्रॉम्प्ट टेम्पलेट बंद हैं।',
+  'errorCode.unexpected-answer': 'मॉडल ने अनपेक्षित प्रारूप में जवाब दिया।',
+  'errorCode.request-timeout': '{seconds} सेकंड बाद अनुरोध का समय समाप्त हो गया।',
+  'errorCode.group-too-large': 'समूह में 1 से {count} लोग हो सकते हैं।',
+  'errorCode.group-too-many-sarees': 'समूह ज़्यादा से ज़्यादा {count} अलग साड़ियाँ पहन सकता है।',
+  'errorCode.group-unassigned': 'कम से कम एक व्यक्ति को साड़ी दें।',
+  'errorCode.instruction-too-long': 'निर्देश {count} अक्षरों से लंबा है।',
+  'errorCode.scene-too-long': 'दृश्य का विवरण {count} अक्षरों से लंबा है।',
+
+  'errorGuidance.auth.title': 'API key की समस्या',
+  'errorGuidance.auth.advice': 'जाँचें कि सर्वर के environment में GEMINI_API_KEY सेट है और उसे Gemini image मॉडल की पहुँच है।',
+  'errorGuidance.quota.title': 'अनुरोध सीमा पूरी हुई',
+  'errorGuidance.quota.advice': 'कम समय में बहुत ज़्यादा अनुरोध। फिर कोशिश करने से पहले एक मिनट रुकें, या एक बार में कम वेरिएशन बनाएँ।',
+  'errorGuidance.safety-blocked.title': 'सुरक्षा फ़िल्टर ने रोका',
+  'errorGuidance.safety-blocked.advice': 'दूसरी फ़ोटो आज़माएँ: एक वयस्क की पूरे कपड़ों में, अच्छी रोशनी वाली पूरे शरीर की फ़ोटो आमतौर पर सबसे अच्छी रहती है।',
+  'errorGuidance.no-image.title': 'कोई तस्वीर नहीं मिली',
+  'errorGuidance.no-image.advice': 'मॉडल ने बिना तस्वीर के जवाब दिया। फिर कोशिश करें, या व्यक्ति और साड़ी की ज़्यादा साफ़ फ़ोटो लें।',
+  'errorGuidance.network.title': 'कनेक्शन की समस्या',
+  'errorGuidance.network.advice': 'अपना इंटरनेट कनेक्शन जाँचें और फिर कोशिश करें।',
+  'errorGuidance.server.title': 'सेवा उपलब्ध नहीं',
+  'errorGuidance.server.advice': 'मॉडल सेवा में दिक्कत है। कृपया कुछ देर बाद फिर कोशिश करें।',
+  'errorGuidance.timeout.title': 'अनुरोध का समय समाप्त',
+  'errorGuidance.timeout.advice': 'मॉडल ने जवाब देने में बहुत समय लिया। फिर कोशिश करें, या कम वेरिएशन चुनें।',
+  'errorGuidance.cancelled.title': 'रद्द किया गया',
+  'errorGuidance.cancelled.advice': 'बनाना रद्द किया गया। कुछ भी सहेजा नहीं गया।',
+  'errorGuidance.invalid-request.title': 'अनुरोध अस्वीकार',
+  'errorGuidance.invalid-request.advice': 'फ़ोटो बहुत बड़ी या बहुत ज़्यादा हो सकती हैं। कुछ गहनों की तस्वीरें हटाएँ या और सुधारने के बजाय नया लुक शुरू करें।',
+  'errorGuidance.budget-exceeded.title': 'दैनिक बजट पूरा हुआ',
+  'errorGuidance.budget-exceeded.advice': 'कल तक बनाना रुका है। आज जारी रखने के लिए Usage में दैनिक बजट बढ़ाएँ या हटाएँ।',
+  'errorGuidance.unknown.title': 'कुछ गलत हो गया',
+  'errorGuidance.unknown.advice': 'कृपया फिर कोशिश करें। अगर समस्या बनी रहे, तो दूसरी तस्वीरें आज़माएँ।',
+
+  'advice.sexuallyExplicit': 'फ़ोटो खुली हुई मानी जा सकती है। ऐसी फ़ोटो लें जिसमें व्यक्ति पूरे कपड़ों में हो, जैसे टी-शर्ट और पैंट या कुर्ता।',
+  'advice.harassment': 'ऐसा टेक्स्ट, इशारे या दूसरे लोग हटाएँ जिन्हें किसी को निशाना बनाना समझा जा सके, या फ़ोटो को सिर्फ़ व्यक्ति तक काटें।',
+  'advice.hateSpeech': 'तस्वीर में ऐसा टेक्स्ट या चिह्न हो सकता है जिसे चिह्नित किया गया। उन्हें काट दें या सादी पृष्ठभूमि रखें।',
+  'advice.dangerousContent': 'फ़ोटो की कुछ चीज़ें खतरनाक मानी गईं। बिना किसी सामान वाली फ़ोटो लें।',
+  'advice.civicIntegrity': 'राजनीतिक चिह्न, बैनर या सार्वजनिक हस्तियों वाली फ़ोटो से बचें।',
+  'advice.safety': 'अनुरोध को सुरक्षा फ़िल्टर ने चिह्नित किया। एक वयस्क की पूरे कपड़ों में, अच्छी रोशनी वाली पूरे शरीर की फ़ोटो सबसे अच्छी रहती है।',
+  'advice.imageSafety': 'बनी हुई तस्वीर चिह्नित की गई। सामान्य खड़ी मुद्रा और रोज़मर्रा के कपड़ों वाली फ़ोटो आज़माएँ।',
+  'advice.prohibitedContent': 'यह फ़ोटो बदली नहीं जा सकती। सिर्फ़ उन वयस्कों की फ़ोटो अपलोड करें जिन्होंने इसकी सहमति दी है; बच्चों या सार्वजनिक हस्तियों की फ़ोटो अस्वीकार की जाती हैं।',
+  'advice.blocklist': 'अनुरोध में रोके गए शब्द या सामग्री थी। दूसरी तस्वीरें आज़माएँ।',
+  'advice.recitation': 'साड़ी की तस्वीर सुरक्षित प्रोडक्ट फ़ोटोग्राफ़ी जैसी लगती है। साड़ी की अपनी खींची हुई फ़ोटो आज़माएँ।',
+  'advice.spii': 'तस्वीर में निजी जानकारी (जैसे पहचान पत्र या दस्तावेज़) लगती है। उसे काटकर फिर कोशिश करें।',
+  'advice.noImage': 'मॉडल ने तस्वीर न बनाने का फ़ैसला किया। व्यक्ति और साड़ी की ज़्यादा साफ़ फ़ोटो आज़माएँ।',
+  'advice.maxTokens': 'मॉडल का आउटपुट बजट खत्म हो गया। फिर कोशिश करें, या कम आउटपुट रिज़ॉल्यूशन चुनें।',
+
+  'safety.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'यौन रूप से स्पष्ट',
+  'safety.HARM_CATEGORY_HARASSMENT': 'उत्पीड़न',
+  'safety.HARM_CATEGORY_HATE_SPEECH': 'नफ़रत भरी भाषा',
+  'safety.HARM_CATEGORY_DANGEROUS_CONTENT': 'खतरनाक सामग्री',
+  'safety.HARM_CATEGORY_CIVIC_INTEGRITY': 'नागरिक अखंडता',
+  'safety.blocked': 'रोका गया',
+  'safety.HIGH': 'उच्च',
+  'safety.MEDIUM': 'मध्यम',
+};
@@ -0,0 +1,296 @@
+import { Messages } from './en';
+
+// Marathi
+export const mr: Messages = {
+  'app.beta': 'बीटा',
+  'app.language': 'भाषा',
+
+  'header.history': 'इतिहास',
+  'header.usage': 'वापर · आज {cost}',
+  'header.usageTitle': 'वापर आणि अंदाजे खर्च',
+  'header.offline': 'ऑफलाइन',
+  'header.offlineQueued.one': 'ऑफलाइन · {count} रांगेत',
+  'header.offlineQueued.other': 'ऑफलाइन · {count} रांगेत',
+
+  'intro.title': 'व्हर्च्युअल साडी ट्राय-ऑन',
+  'intro.body': 'कोणत्याही साडीचे सौंदर्य स्वतःवर पाहा. तुमचा फोटो आणि साडीचा फोटो अपलोड करा आणि Gemini 3 ने तयार केलेला खऱ्यासारखा ट्राय-ऑन पाहा.',
+
+  'inputs.title': 'फोटो अपलोड करा',
+  'inputs.photo': 'तुमचा फोटो',
+  'inputs.photoHint': 'पूर्ण उंचीचा फोटो सर्वोत्तम ठरतो',
+  'inputs.saree': 'साडीचा फोटो',
+  'inputs.sareeHint': 'साडीचा फोटो (पसरलेली किंवा नेसलेली)',
+  'mode.single': 'एक साडी',
+  'mode.wardrobe': 'वॉर्डरोब बॅच',
+
+  'generate.run': 'ट्राय-ऑन तयार करा',
+  'generate.queue': 'ट्राय-ऑन रांगेत ठेवा',
+  'generate.running': 'लुक तयार होत आहे...',
+  'generate.cancel': 'रद्द करा',
+
+  'wardrobe.parallelRequests': 'एकाच वेळी विनंत्या',
+  'wardrobe.run.one': '{count} साडी नेसून पाहा',
+  'wardrobe.run.other': '{count} साड्या नेसून पाहा',
+  'wardrobe.cancel': 'बॅच रद्द करा ({done}/{total})',
+  'wardrobe.retryFailed': 'अयशस्वी पुन्हा चालवा ({count})',
+  'wardrobe.progress': '{total} पैकी {done} पूर्ण',
+  'wardrobe.outcome': '{succeeded} यशस्वी · {failed} अयशस्वी',
+
+  'results.single': 'तुमचा लुक',
+  'results.wardrobe': 'वॉर्डरोब निकाल',
+  'results.loadingTitle': 'जादू विणली जात आहे...',
+  'results.loadingBody': '{provider} कापडाचा पदर आणि प्रकाश यांचे विश्लेषण करत आहे. याला काही सेकंद लागू शकतात.',
+  'results.progress': '{total} पैकी लुक {current} तयार होत आहे...',
+  'results.empty': 'निकाल इथे दिसेल',
+  'results.modelNotes': 'मॉडेलच्या नोंदी',
+  'results.look': 'लुक {look}',
+  'results.lookVersion': 'लुक {look} · v{version}',
+
+  'export.captionPerson': 'तुम्ही',
+  'export.captionSaree': 'साडी',
+  'export.captionResult': 'ट्राय-ऑन',
+
+  'tips.lighting.title': 'प्रकाश महत्त्वाचा',
+  'tips.lighting.body': 'सर्वात नैसर्गिक मिश्रणासाठी दोन्ही फोटोंमध्ये चांगला, नैसर्गिक प्रकाश असू द्या.',
+  'tips.clearView.title': 'स्पष्ट दृश्य',
+  'tips.clearView.body': 'व्यक्ती कोणत्याही अडथळ्याशिवाय स्पष्ट दिसेल असा पूर्ण उंचीचा फोटो वापरा.',
+  'tips.quality.title': 'उच्च दर्जा',
+  'tips.quality.body': 'जास्त रिझोल्यूशनच्या फोटोंमुळे साडीचा पोत अधिक चांगला टिकतो.',
+
+  'notice.retrying': '{message} {seconds} सेकंदांत पुन्हा प्रयत्न (प्रयत्न {attempt})...',
+  'notice.faceReroll': 'चेहऱ्याची जुळणी {score}% आहे, जी {threshold}% पेक्षा कमी आहे. पुन्हा तयार करत आहे ({attempt}/{total})...',
+
+  'uploader.placeholder': 'फोटो अपलोड करा',
+  'uploader.formats': 'JPG, PNG, WebP, 10MB पर्यंत',
+  'uploader.takePhoto': 'फोटो काढा',
+  'uploader.cameraTitle': '{label} — फोटो काढा',
+  'uploader.edit': 'कापा, फिरवा किंवा बारकावे चिन्हांकित करा',
+  'uploader.remove': 'फोटो काढून टाका',
+  'uploader.regions.one': '{count} बारकावा भाग चिन्हांकित',
+  'uploader.regions.other': '{count} बारकावे भाग चिन्हांकित',
+
+  'history.title': 'इतिहास',
+  'history.exportAll': 'सर्व एक्सपोर्ट करा',
+  'history.close': 'इतिहास बंद करा',
+  'history.empty': 'तुमचे आधीचे ट्राय-ऑन इथे दिसतील.',
+  'history.looks.one': '{count} लुक',
+  'history.looks.other': '{count} लुक',
+  'history.group': '{count} जणांचा गट',
+  'history.promptTemplates': 'प्रॉम्प्ट टेम्पलेट',
+  'history.person': 'व्यक्ती',
+  'history.saree': 'साडी',
+  'history.result': 'ट्राय-ऑन निकाल',
+  'history.open': 'उघडा',
+  'history.rerun': 'पुन्हा चालवा',
+  'history.export': 'एक्सपोर्ट',
+  'history.delete': 'हटवा',
+
+  'camera.close': 'बंद करा',
+  'camera.captured': 'काढलेला फोटो',
+  'camera.starting': 'कॅमेरा सुरू होत आहे...',
+  'camera.error.denied': 'कॅमेऱ्याची परवानगी नाकारली गेली. ब्राउझर सेटिंग्जमध्ये कॅमेऱ्याची परवानगी द्या, किंवा त्याऐवजी फोटो अपलोड करा.',
+  'camera.error.notFound': 'या डिव्हाइसवर कॅमेरा सापडला नाही.',
+  'camera.error.inUse': 'कॅमेरा दुसऱ्या ॲपमध्ये वापरात आहे.',
+  'camera.error.failed': 'कॅमेरा सुरू होऊ शकला नाही.',
+  'camera.error.unsupported': 'हा ब्राउझर कॅमेऱ्याने फोटो काढण्यास समर्थन देत नाही.',
+  'camera.error.insecure': 'कॅमेऱ्याने फोटो काढण्यासाठी सुरक्षित (https) कनेक्शन आवश्यक आहे.',
+  'camera.error.capture': 'फोटो काढता आला नाही.',
+  'camera.framing.no-person': 'चेहरा दिसत नाही. चांगल्या प्रकाशात कॅमेऱ्याकडे पाहा.',
+  'camera.framing.head-cut': 'डोक्यावर थोडी जागा सोडा.',
+  'camera.framing.feet-cut': 'थोडे मागे सरका, तुमचे पाय दिसत नाहीत.',
+  'camera.framing.too-far': 'जवळ या, तुम्ही खूप दूर आहात.',
+  'camera.framing.off-centre': 'फ्रेमच्या मध्यभागी या.',
+  'camera.framing.ok': 'छान दिसत आहे. स्थिर राहा.',
+  'camera.framing.approximate': 'या ब्राउझरवर फ्रेमिंग सूचना अंदाजे आहेत.',
+  'camera.retake': 'पुन्हा काढा',
+  'camera.usePhoto': 'हा फोटो वापरा',
+  'camera.timer': 'टायमर',
+  'camera.timerOff': 'बंद',
+  'camera.timerSeconds': '{seconds} से.',
+  'camera.switch': 'कॅमेरा बदला',
+  'camera.stopTimer': 'टायमर थांबवा',
+  'camera.takePhoto': 'फोटो काढा',
+  'camera.startTimer': '{seconds} से. टायमर सुरू करा',
+
+  'gallery.alt': 'तयार केलेला ट्राय-ऑन {index}',
+  'gallery.favourite': 'आवडता',
+  'gallery.faceMatch': 'चेहरा जुळणी {score}%',
+  'gallery.faceBelow': 'मर्यादेपेक्षा कमी',
+  'gallery.faceMethod.face-detector': 'ब्राउझरच्या चेहरा ओळखीने तुमच्या फोटोशी साम्य',
+  'gallery.faceMethod.heuristic': 'अंदाजे चेहऱ्याच्या भागाने तुमच्या फोटोशी साम्य',
+  'gallery.faceBestOf': '{count} निर्मितींपैकी सर्वोत्तम',
+  'gallery.inspect': 'तपासा',
+  'gallery.inspectTitle': 'झूम करून तुमच्या फोटो आणि साडीशी तुलना करा',
+  'gallery.download': 'डाउनलोड',
+  'gallery.downloadLook': '{label} डाउनलोड करा',
+  'gallery.newTryOn': 'नवा ट्राय-ऑन',
+  'gallery.markFavourite': 'आवडता म्हणून खूण करा',
+  'gallery.removeFavourite': 'आवडत्यांमधून काढा',
+  'gallery.compare': 'तुलना करा',
+  'gallery.exitCompare': 'तुलना बंद करा',
+
+  'viewer.title': '{label} तपासा',
+  'viewer.beforeAfter': 'आधी / नंतर',
+  'viewer.sideBySide': 'शेजारी शेजारी',
+  'viewer.before': 'आधी',
+  'viewer.after': 'नंतर',
+  'viewer.split': 'आधी/नंतर विभाजन',
+  'viewer.original': 'मूळ फोटो',
+  'viewer.result': 'निकाल',
+  'viewer.saree': 'साडी',
+  'viewer.sareeAlt': 'मूळ साडी',
+  'viewer.zoomOut': 'झूम आउट',
+  'viewer.zoomIn': 'झूम इन',
+  'viewer.fit': 'फिट',
+  'viewer.loupe': 'भिंग',
+  'viewer.close': 'बंद करा (Esc)',
+  'viewer.help': 'झूमसाठी स्क्रोल किंवा पिंच करा · हलवण्यासाठी ओढा · झूम इन किंवा फिटसाठी डबल-क्लिक करा · बाण की हलवतात · +/− झूम · 0 फिट · L भिंग · Esc बंद',
+
+  'refine.title': 'हा लुक सुधारा',
+  'refine.showVersion': 'ही आवृत्ती दाखवा',
+  'refine.applying': 'तुमचा बदल लागू होत आहे...',
+  'refine.placeholder': 'बदल लिहा, उदा. पदर लांब सोडा',
+  'refine.submit': 'सुधारा',
+  'refine.cancel': 'रद्द करा',
+  'refine.versions': 'आवृत्त्या',
+  'refine.versionsHint': 'आधीच्या आवृत्तीवर परत जाण्यासाठी ती निवडा; नवे बदल निवडलेल्या आवृत्तीपासून शाखा म्हणून सुरू होतात.',
+  'refine.suggestion.pleats': 'निऱ्या अधिक घट्ट',
+  'refine.suggestion.palluLeft': 'पदर डाव्या हातावर',
+  'refine.suggestion.blouse': 'मरून रंगाचा जुळणारा ब्लाउज जोडा',
+  'refine.suggestion.border': 'काठ अधिक स्पष्ट दाखवा',
+
+  'sareeTags.title': 'साडीचा तपशील',
+  'sareeTags.analysing': 'साडीचे रंग, काठ आणि कापड वाचले जात आहे...',
+  'sareeTags.empty': 'अद्याप साडीचा तपशील नाही.',
+  'sareeTags.analyse': 'साडीचे विश्लेषण करा',
+  'sareeTags.retry': 'पुन्हा प्रयत्न करा',
+  'sareeTags.reanalyse': 'पुन्हा विश्लेषण',
+  'sareeTags.reanalyseTitle': 'साडीच्या फोटोचे पुन्हा विश्लेषण करा',
+  'sareeTags.removeColour': '{colour} काढा',
+  'sareeTags.addColour': '+ रंग',
+  'sareeTags.border': 'काठ / जर',
+  'sareeTags.borderPlaceholder': 'काहीही नाही',
+  'sareeTags.pattern': 'नक्षी',
+  'sareeTags.patternPlaceholder': 'साधी',
+  'sareeTags.fabric': 'कापड',
+  'sareeTags.presentation': 'फोटोमध्ये',
+
+  'fabric.silk': 'रेशीम',
+  'fabric.cotton': 'सुती',
+  'fabric.chiffon': 'शिफॉन',
+  'fabric.georgette': 'जॉर्जेट',
+  'fabric.crepe': 'क्रेप',
+  'fabric.organza': 'ऑर्गेंझा',
+  'fabric.linen': 'लिनन',
+  'fabric.net': 'नेट',
+  'fabric.synthetic': 'सिंथेटिक',
+  'fabric.unknown': 'अज्ञात',
+  'presentation.flat-lay': 'पसरून ठेवलेली',
+  'presentation.hanger': 'हँगरवर',
+  'presentation.worn': 'नेसलेली',
+  'presentation.unknown': 'अज्ञात',
+
+  'embed.title': 'ही साडी नेसून पाहा',
+  'embed.notEmbedded': 'हे ट्राय-ऑन विजेट एखाद्या दुकानाच्या उत्पादन पानामध्ये चालते.',
+  'embed.waiting': 'उत्पादनाची वाट पाहत आहे...',
+  'embed.loadingSaree': 'साडी लोड होत आहे...',
+  'embed.sareeLoadFailed': 'साडीचा फोटो लोड करता आला नाही.',
+  'embed.download': 'डाउनलोड करा',
+  'embed.startOver': 'दुसरा फोटो वापरून पाहा',
+
+  'error.imageFile': 'फोटो फाइल प्रोसेस करता आली नाही.',
+  'error.sareeFile': 'साडीचा फोटो प्रोसेस करता आला नाही.',
+  'error.queueFailed': 'तुम्ही ऑफलाइन आहात आणि या डिव्हाइसवर ट्राय-ऑन रांगेत ठेवता आला नाही.',
+  'error.catalogAdd.one': '{count} फोटो कॅटलॉगमध्ये जोडता आला नाही.',
+  'error.catalogAdd.other': '{count} फोटो कॅटलॉगमध्ये जोडता आले नाहीत.',
+  'error.catalogAnalyse.one': '{count} साडीचे विश्लेषण करता आले नाही.',
+  'error.catalogAnalyse.other': '{count} साड्यांचे विश्लेषण करता आले नाही.',
+  'error.sareeAnalysis': 'साडीचे विश्लेषण होऊ शकले नाही.',
+  'error.peopleDetection': 'फोटोमध्ये व्यक्ती सापडल्या नाहीत.',
+  'error.historyOpen': 'इतिहासातील नोंद उघडता आली नाही.',
+  'error.historyRerun': 'इतिहासातील नोंद पुन्हा चालवता आली नाही.',
+  'error.historyDelete': 'इतिहासातील नोंद हटवता आली नाही.',
+  'error.personPhotoMissing': 'आधी व्यक्तीचा फोटो अपलोड करा.',
+  'error.dismiss': 'बंद करा',
+  'error.modelNotes': 'मॉडेलच्या नोंदी:',
+
+  'imageError.heic-unsupported': 'HEIC/HEIF फोटो समर्थित नाहीत. कृपया फोटो JPG किंवा PNG म्हणून एक्सपोर्ट करा (iPhone वर: Settings › Camera › Formats › Most Compatible).',
+  'imageError.unsupported-type': 'असमर्थित फाइल प्रकार ({type}). कृपया JPG, PNG किंवा WebP फोटो अपलोड करा.',
+  'imageError.file-too-large': 'हा फोटो {size} आहे. कृपया {limit} पेक्षा लहान फोटो अपलोड करा.',
+  'imageError.decode-failed': 'हा फोटो वाचता आला नाही. तो खराब झालेला असू शकतो.',
+  'imageError.encode-failed': 'या ब्राउझरमध्ये हा फोटो प्रोसेस करता आला नाही.',
+
+  'errorCode.auth': 'ट्राय-ऑन सर्व्हरची Gemini API key नाही किंवा अवैध आहे.',
+  'errorCode.quota': 'मॉडेलला सध्या खूप जास्त विनंत्या येत आहेत.',
+  'errorCode.safety-blocked': 'मॉडेलच्या सुरक्षा फिल्टरने विनंती अडवली.',
+  'errorCode.no-image': 'उत्तरात कोणताही फोटो तयार झाला नाही.',
+  'errorCode.network': 'ट्राय-ऑन सेवेपर्यंत पोहोचता आले नाही. तुमचे कनेक्शन तपासा.',
+  'errorCode.server': 'ट्राय-ऑन सेवेत तात्पुरती अडचण आली.',
+  'errorCode.timeout': 'विनंतीला खूप वेळ लागल्याने ती थांबवली.',
+  'errorCode.cancelled': 'तयार करणे रद्द केले.',
+  'errorCode.invalid-request': 'ट्राय-ऑन सर्व्हरने विनंती नाकारली.',
+  'errorCode.budget-exceeded': 'आजचा अंदाजे खर्च तुमच्या दैनिक बजेटपर्यंत पोहोचला आहे.',
+  'errorCode.unknown': 'फोटो तयार करता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'errorCode.http-status': 'ट्राय-ऑन सर्व्हरने {status} असे उत्तर दिले.',
+  'errorCode.api-key-missing': 'ट्राय-ऑन सर्व्हरवर GEMINI_API_KEY सेट केलेली नाही.',
+  'errorCode.rate-limited': 'खूप जास्त ट्राय-ऑन विनंत्या. कृपया {seconds} सेकंदांनी पुन्हा प्रयत्न करा.',
+  'errorCode.request-too-large': 'विनंती {mb} MB मर्यादेपेक्षा मोठी आहे.',
+  'errorCode.image-too-large': 'एक फोटो {mb} MB पेक्षा मोठा आहे.',
+  'errorCode.image-unsupported': 'एका फोटोचा फाइल प्रकार समर्थित नाही.',
+  'errorCode.too-many-images': 'एका विनंतीत जास्तीत जास्त {count} फोटो असू शकतात.',
+  'errorCode.too-many-jewellery': 'जास्तीत जास्त {count} दागिन्यांचे फोटो चालतात.',
+  'errorCode.custom-prompts-disabled': 'या सर्व्हरवर बदललेले प्रॉम्प्ट टेम्पलेट बंद आहेत.',
+  'errorCode.unexpected-answer': 'मॉडेलने अनपेक्षित स्वरूपात उत्तर दिले.',
+  'errorCode.request-timeout': '{seconds} सेकंदांनंतर विनंतीची वेळ संपली.',
+  'errorCode.group-too-large': 'गटात 1 ते {count} जण असू शकतात.',
+  'errorCode.group-too-many-sarees': 'गट जास्तीत जास्त {count} वेगवेगळ्या साड्या नेसू शकतो.',
+  'errorCode.group-unassigned': 'किमान एका व्यक्तीला साडी द्या.',
+  'errorCode.instruction-too-long': 'सूचना {count} अक्षरांपेक्षा लांब आहे.',
+  'errorCode.scene-too-long': 'दृश्याचे वर्णन {count} अक्षरांपेक्षा लांब आहे.',
+
+  'errorGuidance.auth.title': 'API key ची अडचण',
+  'errorGuidance.auth.advice': 'सर्व्हरच्या environment मध्ये GEMINI_API_KEY सेट आहे का आणि तिला Gemini image मॉडेलचा प्रवेश आहे का ते तपासा.',
+  'errorGuidance.quota.title': 'विनंती मर्यादा गाठली',
+  'errorGuidance.quota.advice': 'कमी वेळात खूप जास्त विनंत्या. पुन्हा प्रयत्न करण्यापूर्वी एक मिनिट थांबा, किंवा एकावेळी कमी व्हेरिएशन तयार करा.',
+  'errorGuidance.safety-blocked.title': 'सुरक्षा फिल्टरने अडवले',
+  'errorGuidance.safety-blocked.advice': 'दुसरा फोटो वापरून पाहा: एका प्रौढ व्यक्तीचा पूर्ण कपड्यांतील, चांगल्या प्रकाशातील पूर्ण उंचीचा फोटो सहसा सर्वोत्तम ठरतो.',
+  'errorGuidance.no-image.title': 'फोटो मिळाला नाही',
+  'errorGuidance.no-image.advice': 'मॉडेलने फोटोशिवाय उत्तर दिले. पुन्हा प्रयत्न करा, किंवा व्यक्ती आणि साडीचे अधिक स्पष्ट फोटो वापरा.',
+  'errorGuidance.network.title': 'कनेक्शनची अडचण',
+  'errorGuidance.network.advice': 'तुमचे इंटरनेट कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+  'errorGuidance.server.title': 'सेवा उपलब्ध नाही',
+  'errorGuidance.server.advice': 'मॉडेल सेवेत अडचण आहे. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+  'errorGuidance.timeout.title': 'विनंतीची वेळ संपली',
+  'errorGuidance.timeout.advice': 'मॉडेलला उत्तर द्यायला खूप वेळ लागला. पुन्हा प्रयत्न करा, किंवा कमी व्हेरिएशन निवडा.',
+  'errorGuidance.cancelled.title': 'रद्द केले',
+  'errorGuidance.cancelled.advice': 'तयार करणे रद्द केले. काहीही जतन झाले नाही.',
+  'errorGuidance.invalid-request.title': 'विनंती नाकारली',
+  'errorGuidance.invalid-request.advice': 'फोटो खूप मोठे किंवा खूप जास्त असू शकतात. काही दागिन्यांचे फोटो काढून टाका, किंवा आणखी सुधारण्याऐवजी नवा लुक सुरू करा.',
+  'errorGuidance.budget-exceeded.title': 'दैनिक बजेट पूर्ण',
+  'errorGuidance.budget-exceeded.advice': 'उद्यापर्यंत तयार करणे थांबले आहे. आज सुरू ठेवण्यासाठी Usage मध्ये दैनिक बजेट वाढवा किंवा काढून टाका.',
+  'errorGuidance.unknown.title': 'काहीतरी चुकले',
+  'errorGuidance.unknown.advice': 'कृपया पुन्हा प्रयत्न करा. अडचण कायम राहिल्यास दुसरे फोटो वापरून पाहा.',
+
+  'advice.sexuallyExplicit': 'फोटो उघड मानला जाऊ शकतो. व्यक्ती पूर्ण कपड्यांत असलेला फोटो वापरा, उदा. टी-शर्ट आणि पँट किंवा कुर्ता.',
+  'advice.harassment': 'एखाद्याला लक्ष्य करणारे वाटू शकतील असे मजकूर, हावभाव किंवा इतर लोक काढून टाका, किंवा फक्त व्यक्तीपुरता फोटो कापा.',
+  'advice.hateSpeech': 'फोटोमध्ये चिन्हांकित मजकूर किंवा चिन्हे असू शकतात. ती कापून टाका किंवा साधी पार्श्वभूमी वापरा.',
+  'advice.dangerousContent': 'फोटोतील वस्तू धोकादायक म्हणून चिन्हांकित झाल्या. कोणत्याही वस्तूंशिवायचा फोटो वापरा.',
+  'advice.civicIntegrity': 'राजकीय चिन्हे, बॅनर किंवा सार्वजनिक व्यक्ती असलेले फोटो टाळा.',
+  'advice.safety': 'विनंती सुरक्षा फिल्टरने चिन्हांकित केली. एका प्रौढ व्यक्तीचा पूर्ण कपड्यांतील, चांगल्या प्रकाशातील पूर्ण उंचीचा फोटो सर्वोत्तम ठरतो.',
+  'advice.imageSafety': 'तयार झालेला फोटो चिन्हांकित झाला. साध्या उभ्या स्थितीतील आणि रोजच्या कपड्यांतील फोटो वापरून पाहा.',
+  'advice.prohibitedContent': 'हा फोटो बदलता येणार नाही. फक्त संपादनाला संमती दिलेल्या प्रौढांचे फोटो अपलोड करा; मुलांचे किंवा सार्वजनिक व्यक्तींचे फोटो नाकारले जातात.',
+  'advice.blocklist': 'विनंतीत अवरोधित शब्द किंवा मजकूर होता. दुसरे फोटो वापरून पाहा.',
+  'advice.recitation': 'साडीचा फोटो संरक्षित उत्पादन फोटोग्राफीसारखा दिसतो. तुम्ही स्वतः काढलेला साडीचा फोटो वापरून पाहा.',
+  'advice.spii': 'फोटोमध्ये वैयक्तिक माहिती (उदा. ओळखपत्र किंवा कागदपत्रे) दिसते. ती कापून टाका आणि पुन्हा प्रयत्न करा.',
+  'advice.noImage': 'मॉडेलने फोटो तयार न करण्याचा निर्णय घेतला. व्यक्ती आणि साडीचे अधिक स्पष्ट फोटो वापरून पाहा.',
+  'advice.maxTokens': 'मॉडेलचे आउटपुट बजेट संपले. पुन्हा प्रयत्न करा, किंवा कमी आउटपुट रिझोल्यूशन वापरा.',
+
+  'safety.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'लैंगिकदृष्ट्या स्पष्ट',
+  'safety.HARM_CATEGORY_HARASSMENT': 'छळ',
+  'safety.HARM_CATEGORY_HATE_SPEECH': 'द्वेषपूर्ण भाषा',
+  'safety.HARM_CATEGORY_DANGEROUS_CONTENT': 'धोकादायक मजकूर',
+  'safety.HARM_CATEGORY_CIVIC_INTEGRITY': 'नागरी सचोटी',
+  'safety.blocked': 'अडवले',
+  'safety.HIGH': 'उच्च',
+  'safety.MEDIUM': 'मध्यम',
+};
@@ -0,0 +1,296 @@
+import { Messages } from './en';
+
+// Tamil
+export const ta: Messages = {
+  'app.beta': 'பீட்டா',
+  'app.language': 'மொழி',
+
+  'header.history': 'வரலாறு',
+  'header.usage': 'பயன்பாடு · இன்று {cost}',
+  'header.usageTitle': 'பயன்பாடு மற்றும் மதிப்பிடப்பட்ட செலவு',
+  'header.offline': 'ஆஃப்லைன்',
+  'header.offlineQueued.one': 'ஆஃப்லைன் · {count} வரிசையில்',
+  'header.offlineQueued.other': 'ஆஃப்லைன் · {count} வரிசையில்',
+
+  'intro.title': 'மெய்நிகர் சேலை முயற்சி',
+  'intro.body': 'எந்தச் சேலையின் அழகையும் உங்கள் மீது காணுங்கள். உங்கள் புகைப்படத்தையும் ஒரு சேலைப் படத்தையும் பதிவேற்றி, Gemini 3 உருவாக்கும் உண்மையான தோற்றத்தைப் பாருங்கள்.',
+
+  'inputs.title': 'படங்களைப் பதிவேற்றுக',
+  'inputs.photo': 'உங்கள் புகைப்படம்',
+  'inputs.photoHint': 'முழு உடல் புகைப்படம் சிறந்தது',
+  'inputs.saree': 'சேலைப் படம்',
+  'inputs.sareeHint': 'சேலையின் படம் (விரித்தது அல்லது அணிந்தது)',
+  'mode.single': 'ஒரு சேலை',
+  'mode.wardrobe': 'அலமாரி தொகுப்பு',
+
+  'generate.run': 'முயற்சியை உருவாக்கு',
+  'generate.queue': 'முயற்சியை வரிசையில் சேர்',
+  'generate.running': 'தோற்றம் வடிவமைக்கப்படுகிறது...',
+  'generate.cancel': 'ரத்துசெய்',
+
+  'wardrobe.parallelRequests': 'இணையான கோரிக்கைகள்',
+  'wardrobe.run.one': '{count} சேலையை அணிந்து பார்',
+  'wardrobe.run.other': '{count} சேலைகளை அணிந்து பார்',
+  'wardrobe.cancel': 'தொகுப்பை ரத்துசெய் ({done}/{total})',
+  'wardrobe.retryFailed': 'தோல்வியடைந்தவற்றை மீண்டும் முயல் ({count})',
+  'wardrobe.progress': '{total} இல் {done} முடிந்தது',
+  'wardrobe.outcome': '{succeeded} வெற்றி · {failed} தோல்வி',
+
+  'results.single': 'உங்கள் தோற்றம்',
+  'results.wardrobe': 'அலமாரி முடிவுகள்',
+  'results.loadingTitle': 'மாயம் நெய்யப்படுகிறது...',
+  'results.loadingBody': '{provider} துணியின் மடிப்பையும் ஒளியையும் ஆராய்கிறது. இதற்குச் சில வினாடிகள் ஆகலாம்.',
+  'results.progress': '{total} இல் தோற்றம் {current} உருவாக்கப்படுகிறது...',
+  'results.empty': 'முடிவு இங்கே தோன்றும்',
+  'results.modelNotes': 'மாடல் குறிப்புகள்',
+  'results.look': 'தோற்றம் {look}',
+  'results.lookVersion': 'தோற்றம் {look} · v{version}',
+
+  'export.captionPerson': 'நீங்கள்',
+  'export.captionSaree': 'புடவை',
+  'export.captionResult': 'ட்ரை-ஆன்',
+
+  'tips.lighting.title': 'ஒளி முக்கியம்',
+  'tips.lighting.body': 'மிக இயல்பான கலவைக்கு இரண்டு புகைப்படங்களிலும் நல்ல இயற்கை ஒளி இருக்கட்டும்.',
+  'tips.clearView.title': 'தெளிவான காட்சி',
+  'tips.clearView.body': 'நபர் தடையின்றித் தெளிவாகத் தெரியும் முழு உடல் புகைப்படத்தைப் பயன்படுத்துங்கள்.',
+  'tips.quality.title': 'உயர் தரம்',
+  'tips.quality.body': 'அதிகத் தெளிவுத்திறன் கொண்ட படங்கள் சேலையின் நெசவை நன்றாகப் பாதுகாக்கும்.',
+
+  'notice.retrying': '{message} {seconds} வினாடிகளில் மீண்டும் முயல்கிறது (முயற்சி {attempt})...',
+  'notice.faceReroll': 'முகப் பொருத்தம் {score}%, இது {threshold}% ஐ விடக் குறைவு. மீண்டும் உருவாக்கப்படுகிறது ({attempt}/{total})...',
+
+  'uploader.placeholder': 'ஒரு படத்தைப் பதிவேற்றுக',
+  'uploader.formats': 'JPG, PNG, WebP, 10MB வரை',
+  'uploader.takePhoto': 'புகைப்படம் எடு',
+  'uploader.cameraTitle': '{label} — புகைப்படம் எடு',
+  'uploader.edit': 'வெட்டு, சுழற்று அல்லது விவரங்களைக் குறி',
+  'uploader.remove': 'படத்தை நீக்கு',
+  'uploader.regions.one': '{count} விவரப் பகுதி குறிக்கப்பட்டது',
+  'uploader.regions.other': '{count} விவரப் பகுதிகள் குறிக்கப்பட்டன',
+
+  'history.title': 'வரலாறு',
+  'history.exportAll': 'அனைத்தையும் ஏற்றுமதி செய்',
+  'history.close': 'வரலாற்றை மூடு',
+  'history.empty': 'உங்கள் முந்தைய முயற்சிகள் இங்கே தோன்றும்.',
+  'history.looks.one': '{count} தோற்றம்',
+  'history.looks.other': '{count} தோற்றங்கள்',
+  'history.group': '{count} பேர் கொண்ட குழு',
+  'history.promptTemplates': 'ப்ராம்ப்ட் வார்ப்புருக்கள்',
+  'history.person': 'நபர்',
+  'history.saree': 'சேலை',
+  'history.result': 'முயற்சி முடிவு',
+  'history.open': 'திற',
+  'history.rerun': 'மீண்டும் இயக்கு',
+  'history.export': 'ஏற்றுமதி',
+  'history.delete': 'நீக்கு',
+
+  'camera.close': 'மூடு',
+  'camera.captured': 'எடுத்த புகைப்படம்',
+  'camera.starting': 'கேமரா தொடங்குகிறது...',
+  'camera.error.denied': 'கேமரா அனுமதி மறுக்கப்பட்டது. உலாவி அமைப்புகளில் கேமரா அனுமதியை வழங்கவும், அல்லது புகைப்படத்தைப் பதிவேற்றவும்.',
+  'camera.error.notFound': 'இந்தச் சாதனத்தில் கேமரா எதுவும் இல்லை.',
+  'camera.error.inUse': 'கேமரா வேறொரு செயலியில் பயன்பாட்டில் உள்ளது.',
+  'camera.error.failed': 'கேமராவைத் தொடங்க முடியவில்லை.',
+  'camera.error.unsupported': 'இந்த உலாவி கேமரா மூலம் படம் எடுப்பதை ஆதரிக்கவில்லை.',
+  'camera.error.insecure': 'கேமரா மூலம் படம் எடுக்கப் பாதுகாப்பான (https) இணைப்பு தேவை.',
+  'camera.error.capture': 'புகைப்படத்தை எடுக்க முடியவில்லை.',
+  'camera.framing.no-person': 'முகம் தெரியவில்லை. நல்ல வெளிச்சத்தில் கேமராவைப் பாருங்கள்.',
+  'camera.framing.head-cut': 'தலைக்கு மேலே கொஞ்சம் இடம் விடுங்கள்.',
+  'camera.framing.feet-cut': 'பின்னால் நகருங்கள், உங்கள் பாதங்கள் தெரியவில்லை.',
+  'camera.framing.too-far': 'அருகில் வாருங்கள், நீங்கள் மிகத் தொலைவில் உள்ளீர்கள்.',
+  'camera.framing.off-centre': 'சட்டகத்தின் நடுவுக்கு நகருங்கள்.',
+  'camera.framing.ok': 'நன்றாக உள்ளது. அசையாமல் இருங்கள்.',
+  'camera.framing.approximate': 'இந்த உலாவியில் சட்டக ஆலோசனைகள் தோராயமானவை.',
+  'camera.retake': 'மீண்டும் எடு',
+  'camera.usePhoto': 'இந்தப் படத்தைப் பயன்படுத்து',
+  'camera.timer': 'டைமர்',
+  'camera.timerOff': 'அணை',
+  'camera.timerSeconds': '{seconds} வி',
+  'camera.switch': 'கேமராவை மாற்று',
+  'camera.stopTimer': 'டைமரை நிறுத்து',
+  'camera.takePhoto': 'படம் எடு',
+  'camera.startTimer': '{seconds} வி டைமரைத் தொடங்கு',
+
+  'gallery.alt': 'உருவாக்கிய ட்ரை-ஆன் {index}',
+  'gallery.favourite': 'பிடித்தது',
+  'gallery.faceMatch': 'முகப் பொருத்தம் {score}%',
+  'gallery.faceBelow': 'வரம்புக்குக் கீழ்',
+  'gallery.faceMethod.face-detector': 'உலாவியின் முகக் கண்டறிதல் மூலம் உங்கள் புகைப்படத்துடன் ஒற்றுமை',
+  'gallery.faceMethod.heuristic': 'தோராயமான முகப் பகுதி மூலம் உங்கள் புகைப்படத்துடன் ஒற்றுமை',
+  'gallery.faceBestOf': '{count} உருவாக்கங்களில் சிறந்தது',
+  'gallery.inspect': 'ஆய்வு செய்',
+  'gallery.inspectTitle': 'பெரிதாக்கி உங்கள் புகைப்படம் மற்றும் சேலையுடன் ஒப்பிடுங்கள்',
+  'gallery.download': 'பதிவிறக்கு',
+  'gallery.downloadLook': '{label} பதிவிறக்கு',
+  'gallery.newTryOn': 'புதிய ட்ரை-ஆன்',
+  'gallery.markFavourite': 'பிடித்ததாகக் குறி',
+  'gallery.removeFavourite': 'பிடித்ததிலிருந்து நீக்கு',
+  'gallery.compare': 'ஒப்பிடு',
+  'gallery.exitCompare': 'ஒப்பீட்டை மூடு',
+
+  'viewer.title': '{label} ஆய்வு',
+  'viewer.beforeAfter': 'முன் / பின்',
+  'viewer.sideBySide': 'அருகருகே',
+  'viewer.before': 'முன்',
+  'viewer.after': 'பின்',
+  'viewer.split': 'முன்/பின் பிரிப்பு',
+  'viewer.original': 'அசல் புகைப்படம்',
+  'viewer.result': 'முடிவு',
+  'viewer.saree': 'சேலை',
+  'viewer.sareeAlt': 'மூலச் சேலை',
+  'viewer.zoomOut': 'சிறிதாக்கு',
+  'viewer.zoomIn': 'பெரிதாக்கு',
+  'viewer.fit': 'பொருத்து',
+  'viewer.loupe': 'உருப்பெருக்கி',
+  'viewer.close': 'மூடு (Esc)',
+  'viewer.help': 'பெரிதாக்க உருட்டவும் அல்லது கிள்ளவும் · நகர்த்த இழுக்கவும் · பெரிதாக்க அல்லது பொருத்த இருமுறை கிளிக் செய்யவும் · அம்புக் குறி விசைகள் நகர்த்தும் · +/− பெரிதாக்கம் · 0 பொருத்து · L உருப்பெருக்கி · Esc மூடு',
+
+  'refine.title': 'இந்தத் தோற்றத்தைச் செம்மைப்படுத்து',
+  'refine.showVersion': 'இந்தப் பதிப்பைக் காட்டு',
+  'refine.applying': 'உங்கள் மாற்றம் பயன்படுத்தப்படுகிறது...',
+  'refine.placeholder': 'மாற்றத்தை விவரிக்கவும், எ.கா. முந்தானையை நீளமாக்கு',
+  'refine.submit': 'செம்மைப்படுத்து',
+  'refine.cancel': 'ரத்துசெய்',
+  'refine.versions': 'பதிப்புகள்',
+  'refine.versionsHint': 'முந்தைய பதிப்புக்குத் திரும்ப அதைத் தேர்ந்தெடுக்கவும்; புதிய மாற்றங்கள் தேர்ந்தெடுத்த பதிப்பிலிருந்து கிளைக்கும்.',
+  'refine.suggestion.pleats': 'மடிப்புகளை இறுக்கமாக்கு',
+  'refine.suggestion.palluLeft': 'முந்தானை இடது கையின் மேல்',
+  'refine.suggestion.blouse': 'மெரூன் நிறத்தில் பொருந்தும் ரவிக்கையைச் சேர்',
+  'refine.suggestion.border': 'கரையை இன்னும் தெளிவாகக் காட்டு',
+
+  'sareeTags.title': 'சேலை விவரங்கள்',
+  'sareeTags.analysing': 'சேலையின் நிறங்கள், கரை மற்றும் துணி படிக்கப்படுகின்றன...',
+  'sareeTags.empty': 'இன்னும் சேலை விவரங்கள் இல்லை.',
+  'sareeTags.analyse': 'சேலையைப் பகுப்பாய்வு செய்',
+  'sareeTags.retry': 'மீண்டும் முயல்',
+  'sareeTags.reanalyse': 'மீண்டும் பகுப்பாய்வு',
+  'sareeTags.reanalyseTitle': 'சேலைப் படத்தை மீண்டும் பகுப்பாய்வு செய்',
+  'sareeTags.removeColour': '{colour} நீக்கு',
+  'sareeTags.addColour': '+ நிறம்',
+  'sareeTags.border': 'கரை / ஜரிகை',
+  'sareeTags.borderPlaceholder': 'இல்லை',
+  'sareeTags.pattern': 'வடிவமைப்பு',
+  'sareeTags.patternPlaceholder': 'வெற்று',
+  'sareeTags.fabric': 'துணி',
+  'sareeTags.presentation': 'படத்தில்',
+
+  'fabric.silk': 'பட்டு',
+  'fabric.cotton': 'பருத்தி',
+  'fabric.chiffon': 'ஷிஃபான்',
+  'fabric.georgette': 'ஜார்ஜெட்',
+  'fabric.crepe': 'க்ரேப்',
+  'fabric.organza': 'ஆர்கன்சா',
+  'fabric.linen': 'லினன்',
+  'fabric.net': 'நெட்',
+  'fabric.synthetic': 'செயற்கை',
+  'fabric.unknown': 'தெரியவில்லை',
+  'presentation.flat-lay': 'விரித்து வைத்தது',
+  'presentation.hanger': 'ஹேங்கரில்',
+  'presentation.worn': 'அணிந்தது',
+  'presentation.unknown': 'தெரியவில்லை',
+
+  'embed.title': 'இந்தச் சேலையை அணிந்து பாருங்கள்',
+  'embed.notEmbedded': 'இந்த முயற்சி விட்ஜெட் ஒரு கடையின் தயாரிப்புப் பக்கத்திற்குள் இயங்கும்.',
+  'embed.waiting': 'தயாரிப்புக்காகக் காத்திருக்கிறது...',
+  'embed.loadingSaree': 'சேலை ஏற்றப்படுகிறது...',
+  'embed.sareeLoadFailed': 'சேலைப் படத்தை ஏற்ற முடியவில்லை.',
+  'embed.download': 'பதிவிறக்கு',
+  'embed.startOver': 'வேறு புகைப்படத்தை முயலுங்கள்',
+
+  'error.imageFile': 'படக் கோப்பைச் செயலாக்க முடியவில்லை.',
+  'error.sareeFile': 'சேலைப் படத்தைச் செயலாக்க முடியவில்லை.',
+  'error.queueFailed': 'நீங்கள் ஆஃப்லைனில் உள்ளீர்கள், இந்தச் சாதனத்தில் முயற்சியை வரிசையில் சேர்க்க முடியவில்லை.',
+  'error.catalogAdd.one': '{count} படத்தைப் பட்டியலில் சேர்க்க முடியவில்லை.',
+  'error.catalogAdd.other': '{count} படங்களைப் பட்டியலில் சேர்க்க முடியவில்லை.',
+  'error.catalogAnalyse.one': '{count} சேலையை ஆராய முடியவில்லை.',
+  'error.catalogAnalyse.other': '{count} சேலைகளை ஆராய முடியவில்லை.',
+  'error.sareeAnalysis': 'புடவையை பகுப்பாய்வு செய்ய முடியவில்லை.',
+  'error.peopleDetection': 'படத்தில் நபர்களைக் கண்டறிய முடியவில்லை.',
+  'error.historyOpen': 'வரலாற்றுப் பதிவைத் திறக்க முடியவில்லை.',
+  'error.historyRerun': 'வரலாற்றுப் பதிவை மீண்டும் இயக்க முடியவில்லை.',
+  'error.historyDelete': 'வரலாற்றுப் பதிவை நீக்க முடியவில்லை.',
+  'error.personPhotoMissing': 'முதலில் நபரின் புகைப்படத்தைப் பதிவேற்றுக.',
+  'error.dismiss': 'மூடு',
+  'error.modelNotes': 'மாடல் குறிப்புகள்:',
+
+  'imageError.heic-unsupported': 'HEIC/HEIF புகைப்படங்கள் ஆதரிக்கப்படவில்லை. புகைப்படத்தை JPG அல்லது PNG ஆக ஏற்றுமதி செய்யவும் (iPhone இல்: Settings › Camera › Formats › Most Compatible).',
+  'imageError.unsupported-type': 'ஆதரிக்கப்படாத கோப்பு வகை ({type}). JPG, PNG அல்லது WebP படத்தைப் பதிவேற்றவும்.',
+  'imageError.file-too-large': 'இந்தப் படம் {size}. {limit} ஐ விடச் சிறிய படத்தைப் பதிவேற்றவும்.',
+  'imageError.decode-failed': 'இந்தப் படத்தைப் படிக்க முடியவில்லை. இது சேதமடைந்திருக்கலாம்.',
+  'imageError.encode-failed': 'இந்த உலாவியில் இந்தப் படத்தைச் செயலாக்க முடியவில்லை.',
+
+  'errorCode.auth': 'முயற்சி சர்வரின் Gemini API key இல்லை அல்லது செல்லாதது.',
+  'errorCode.quota': 'மாடலுக்கு இப்போது மிக அதிகமான கோரிக்கைகள் வருகின்றன.',
+  'errorCode.safety-blocked': 'மாடலின் பாதுகாப்பு வடிகட்டிகள் கோரிக்கையைத் தடுத்தன.',
+  'errorCode.no-image': 'பதிலில் எந்தப் படமும் உருவாக்கப்படவில்லை.',
+  'errorCode.network': 'முயற்சி சேவையை அடைய முடியவில்லை. உங்கள் இணைப்பைச் சரிபார்க்கவும்.',
+  'errorCode.server': 'முயற்சி சேவையில் தற்காலிகச் சிக்கல் ஏற்பட்டது.',
+  'errorCode.timeout': 'கோரிக்கைக்கு அதிக நேரம் ஆனதால் நிறுத்தப்பட்டது.',
+  'errorCode.cancelled': 'உருவாக்கம் ரத்துசெய்யப்பட்டது.',
+  'errorCode.invalid-request': 'முயற்சி சர்வர் கோரிக்கையை நிராகரித்தது.',
+  'errorCode.budget-exceeded': 'இன்றைய மதிப்பிடப்பட்ட செலவு உங்கள் தினசரி வரம்பை எட்டியது.',
+  'errorCode.unknown': 'படத்தை உருவாக்க முடியவில்லை. மீண்டும் முயலவும்.',
+  'errorCode.http-status': 'முயற்சி சர்வர் {status} என்று பதிலளித்தது.',
+  'errorCode.api-key-missing': 'முயற்சி சர்வரில் GEMINI_API_KEY அமைக்கப்படவில்லை.',
+  'errorCode.rate-limited': 'அதிகமான முயற்சி கோரிக்கைகள். {seconds} வினாடிகளில் மீண்டும் முயலவும்.',
+  'errorCode.request-too-large': 'கோரிக்கை {mb} MB வரம்பை விடப் பெரியது.',
+  'errorCode.image-too-large': 'ஒரு படம் {mb} MB ஐ விடப் பெரியது.',
+  'errorCode.image-unsupported': 'ஒரு படத்தின் கோப்பு வகை ஆதரிக்கப்படவில்லை.',
+  'errorCode.too-many-images': 'ஒரு கோரிக்கையில் அதிகபட்சம் {count} படங்கள் இருக்கலாம்.',
+  'errorCode.too-many-jewellery': 'அதிகபட்சம் {count} நகைப் படங்கள் அனுமதிக்கப்படும்.',
+  'errorCode.custom-prompts-disabled': 'இந்த சர்வரில் திருத்திய ப்ராம்ப்ட் வார்ப்புருக்கள் முடக்கப்பட்டுள்ளன.',
+  'errorCode.unexpected-answer': 'மாடல் எதிர்பாராத வடிவத்தில் பதிலளித்தது.',
+  'errorCode.request-timeout': '{seconds} வினாடிகளுக்குப் பிறகு கோரிக்கையின் நேரம் முடிந்தது.',
+  'errorCode.group-too-large': 'ஒரு குழுவில் 1 முதல் {count} பேர் இருக்கலாம்.',
+  'errorCode.group-too-many-sarees': 'ஒரு குழு அதிகபட்சம் {count} வெவ்வேறு சேலைகளை அணியலாம்.',
+  'errorCode.group-unassigned': 'குறைந்தது ஒருவருக்கு ஒரு சேலையை ஒதுக்கவும்.',
+  'errorCode.instruction-too-long': 'அறிவுறுத்தல் {count} எழுத்துகளை விட நீளமானது.',
+  'errorCode.scene-too-long': 'காட்சி விவரம் {count} எழுத்துகளை விட நீளமானது.',
+
+  'errorGuidance.auth.title': 'API key சிக்கல்',
+  'errorGuidance.auth.advice': 'சர்வர் environment இல் GEMINI_API_KEY அமைக்கப்பட்டுள்ளதா, அதற்கு Gemini image மாடலுக்கான அணுகல் உள்ளதா எனச் சரிபார்க்கவும்.',
+  'errorGuidance.quota.title': 'கோரிக்கை வரம்பு எட்டப்பட்டது',
+  'errorGuidance.quota.advice': 'குறுகிய நேரத்தில் அதிகமான கோரிக்கைகள். மீண்டும் முயல்வதற்கு முன் ஒரு நிமிடம் காத்திருக்கவும், அல்லது ஒரே நேரத்தில் குறைவான மாறுபாடுகளை உருவாக்கவும்.',
+  'errorGuidance.safety-blocked.title': 'பாதுகாப்பு வடிகட்டிகளால் தடுக்கப்பட்டது',
+  'errorGuidance.safety-blocked.advice': 'வேறு புகைப்படத்தை முயலவும்: ஒரு வயது வந்தவர் முழு உடையில், நல்ல ஒளியில் எடுத்த முழு உடல் புகைப்படம் பொதுவாகச் சிறந்தது.',
+  'errorGuidance.no-image.title': 'படம் எதுவும் வரவில்லை',
+  'errorGuidance.no-image.advice': 'மாடல் படம் இல்லாமல் பதிலளித்தது. மீண்டும் முயலவும், அல்லது நபர் மற்றும் சேலையின் தெளிவான புகைப்படங்களைப் பயன்படுத்தவும்.',
+  'errorGuidance.network.title': 'இணைப்புச் சிக்கல்',
+  'errorGuidance.network.advice': 'உங்கள் இணைய இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும்.',
+  'errorGuidance.server.title': 'சேவை கிடைக்கவில்லை',
+  'errorGuidance.server.advice': 'மாடல் சேவையில் சிக்கல் உள்ளது. சிறிது நேரம் கழித்து மீண்டும் முயலவும்.',
+  'errorGuidance.timeout.title': 'கோரிக்கை நேரம் முடிந்தது',
+  'errorGuidance.timeout.advice': 'மாடல் பதிலளிக்க அதிக நேரம் எடுத்தது. மீண்டும் முயலவும், அல்லது குறைவான மாறுபாடுகளைத் தேர்ந்தெடுக்கவும்.',
+  'errorGuidance.cancelled.title': 'ரத்துசெய்யப்பட்டது',
+  'errorGuidance.cancelled.advice': 'உருவாக்கம் ரத்துசெய்யப்பட்டது. எதுவும் சேமிக்கப்படவில்லை.',
+  'errorGuidance.invalid-request.title': 'கோரிக்கை நிராகரிக்கப்பட்டது',
+  'errorGuidance.invalid-request.advice': 'புகைப்படங்கள் மிகப் பெரியதாகவோ அதிகமாகவோ இருக்கலாம். சில நகைப் படங்களை நீக்கவும், அல்லது மேலும் செம்மைப்படுத்துவதற்குப் பதில் புதிய தோற்றத்தைத் தொடங்கவும்.',
+  'errorGuidance.budget-exceeded.title': 'தினசரி வரம்பு எட்டப்பட்டது',
+  'errorGuidance.budget-exceeded.advice': 'நாளை வரை உருவாக்கம் நிறுத்தப்பட்டுள்ளது. இன்று தொடர Usage இல் தினசரி வரம்பை உயர்த்தவும் அல்லது நீக்கவும்.',
+  'errorGuidance.unknown.title': 'ஏதோ தவறு நடந்தது',
+  'errorGuidance.unknown.advice': 'மீண்டும் முயலவும். சிக்கல் தொடர்ந்தால், வேறு படங்களை முயலவும்.',
+
+  'advice.sexuallyExplicit': 'புகைப்படம் வெளிப்படையானதாகக் கருதப்படலாம். நபர் முழு உடையில் உள்ள புகைப்படத்தைப் பயன்படுத்தவும், எ.கா. டி-ஷர்ட் மற்றும் கால்சட்டை அல்லது குர்தா.',
+  'advice.harassment': 'யாரையாவது குறிவைப்பதாகக் கருதக்கூடிய உரை, சைகைகள் அல்லது பிற நபர்களை நீக்கவும், அல்லது நபரை மட்டும் வெட்டி எடுக்கவும்.',
+  'advice.hateSpeech': 'படத்தில் குறிக்கப்பட்ட உரை அல்லது சின்னங்கள் இருக்கலாம். அவற்றை வெட்டி நீக்கவும் அல்லது வெற்றுப் பின்னணியைப் பயன்படுத்தவும்.',
+  'advice.dangerousContent': 'புகைப்படத்தில் உள்ள பொருட்கள் ஆபத்தானவை எனக் குறிக்கப்பட்டன. பொருட்கள் இல்லாத புகைப்படத்தைப் பயன்படுத்தவும்.',
+  'advice.civicIntegrity': 'அரசியல் சின்னங்கள், பதாகைகள் அல்லது பொது நபர்கள் உள்ள புகைப்படங்களைத் தவிர்க்கவும்.',
+  'advice.safety': 'கோரிக்கை பாதுகாப்பு வடிகட்டிகளால் குறிக்கப்பட்டது. ஒரு வயது வந்தவர் முழு உடையில், நல்ல ஒளியில் எடுத்த முழு உடல் புகைப்படம் சிறந்தது.',
+  'advice.imageSafety': 'உருவாக்கப்பட்ட படம் குறிக்கப்பட்டது. இயல்பாக நிற்கும் நிலை மற்றும் அன்றாட உடை உள்ள புகைப்படத்தை முயலவும்.',
+  'advice.prohibitedContent': 'இந்தப் புகைப்படத்தைத் திருத்த முடியாது. திருத்த ஒப்புக்கொண்ட வயது வந்தவர்களின் புகைப்படங்களை மட்டும் பதிவேற்றவும்; குழந்தைகள் அல்லது பொது நபர்களின் புகைப்படங்கள் மறுக்கப்படும்.',
+  'advice.blocklist': 'கோரிக்கையில் தடுக்கப்பட்ட சொற்கள் அல்லது உள்ளடக்கம் இருந்தது. வேறு படங்களை முயலவும்.',
+  'advice.recitation': 'சேலைப் படம் பாதுகாக்கப்பட்ட தயாரிப்புப் புகைப்படம் போலத் தெரிகிறது. நீங்களே எடுத்த சேலைப் புகைப்படத்தை முயலவும்.',
+  'advice.spii': 'படத்தில் தனிப்பட்ட தகவல் (எ.கா. அடையாள அட்டைகள் அல்லது ஆவணங்கள்) இருப்பது போலத் தெரிகிறது. அதை வெட்டி நீக்கி மீண்டும் முயலவும்.',
+  'advice.noImage': 'மாடல் படத்தை உருவாக்க வேண்டாம் என முடிவு செய்தது. நபர் மற்றும் சேலையின் தெளிவான புகைப்படங்களை முயலவும்.',
+  'advice.maxTokens': 'மாடலின் வெளியீட்டு வரம்பு தீர்ந்தது. மீண்டும் முயலவும், அல்லது குறைந்த வெளியீட்டுத் தெளிவுத்திறனைப் பயன்படுத்தவும்.',
+
+  'safety.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'பாலியல் வெளிப்படை',
+  'safety.HARM_CATEGORY_HARASSMENT': 'துன்புறுத்தல்',
+  'safety.HARM_CATEGORY_HATE_SPEECH': 'வெறுப்புப் பேச்சு',
+  'safety.HARM_CATEGORY_DANGEROUS_CONTENT': 'ஆபத்தான உள்ளடக்கம்',
+  'safety.HARM_CATEGORY_CIVIC_INTEGRITY': 'குடிமை நேர்மை',
+  'safety.blocked': 'தடுக்கப்பட்டது',
+  'safety.HIGH': 'அதிகம்',
+  'safety.MEDIUM': 'நடுத்தரம்',
+};
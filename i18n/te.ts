@@ -0,0 +1,296 @@
+import { Messages } from './en';
+
+// Telugu
+export const te: Messages = {
+  'app.beta': 'బీటా',
+  'app.language': 'భాష',
+
+  'header.history': 'చరిత్ర',
+  'header.usage': 'వినియోగం · ఈరోజు {cost}',
+  'header.usageTitle': 'వినియోగం మరియు అంచనా ఖర్చు',
+  'header.offline': 'ఆఫ్‌లైన్',
+  'header.offlineQueued.one': 'ఆఫ్‌లైన్ · {count} వరుసలో',
+  'header.offlineQueued.other': 'ఆఫ్‌లైన్ · {count} వరుసలో',
+
+  'intro.title': 'వర్చువల్ చీర ట్రై-ఆన్',
+  'intro.body': 'ఏ చీర అందాన్నైనా మీపై చూసుకోండి. మీ ఫోటో మరియు ఒక చీర చిత్రాన్ని అప్‌లోడ్ చేసి, Gemini 3 రూపొందించే నిజమైనలాంటి ట్రై-ఆన్‌ను చూడండి.',
+
+  'inputs.title': 'చిత్రాలను అప్‌లోడ్ చేయండి',
+  'inputs.photo': 'మీ ఫోటో',
+  'inputs.photoHint': 'పూర్తి శరీర ఫోటో ఉత్తమంగా పనిచేస్తుంది',
+  'inputs.saree': 'చీర చిత్రం',
+  'inputs.sareeHint': 'చీర చిత్రం (పరిచినది లేదా కట్టుకున్నది)',
+  'mode.single': 'ఒక చీర',
+  'mode.wardrobe': 'వార్డ్‌రోబ్ బ్యాచ్',
+
+  'generate.run': 'ట్రై-ఆన్ రూపొందించు',
+  'generate.queue': 'ట్రై-ఆన్‌ను వరుసలో ఉంచు',
+  'generate.running': 'లుక్ రూపొందుతోంది...',
+  'generate.cancel': 'రద్దు చేయి',
+
+  'wardrobe.parallelRequests': 'సమాంతర అభ్యర్థనలు',
+  'wardrobe.run.one': '{count} చీరను ప్రయత్నించు',
+  'wardrobe.run.other': '{count} చీరలను ప్రయత్నించు',
+  'wardrobe.cancel': 'బ్యాచ్ రద్దు చేయి ({done}/{total})',
+  'wardrobe.retryFailed': 'విఫలమైనవి మళ్లీ ప్రయత్నించు ({count})',
+  'wardrobe.progress': '{total}లో {done} పూర్తయ్యాయి',
+  'wardrobe.outcome': '{succeeded} విజయవంతం · {failed} విఫలం',
+
+  'results.single': 'మీ లుక్',
+  'results.wardrobe': 'వార్డ్‌రోబ్ ఫలితాలు',
+  'results.loadingTitle': 'మాయ అల్లుతోంది...',
+  'results.loadingBody': '{provider} వస్త్రం మడతలు మరియు వెలుతురును విశ్లేషిస్తోంది. దీనికి కొన్ని సెకన్లు పట్టవచ్చు.',
+  'results.progress': '{total}లో లుక్ {current} రూపొందుతోంది...',
+  'results.empty': 'ఫలితం ఇక్కడ కనిపిస్తుంది',
+  'results.modelNotes': 'మోడల్ గమనికలు',
+  'results.look': 'లుక్ {look}',
+  'results.lookVersion': 'లుక్ {look} · v{version}',
+
+  'export.captionPerson': 'మీరు',
+  'export.captionSaree': 'చీర',
+  'export.captionResult': 'ట్రై-ఆన్',
+
+  'tips.lighting.title': 'వెలుతురు ముఖ్యం',
+  'tips.lighting.body': 'అత్యంత సహజమైన మేళవింపు కోసం రెండు ఫోటోల్లోనూ మంచి సహజ వెలుతురు ఉండేలా చూడండి.',
+  'tips.clearView.title': 'స్పష్టమైన దృశ్యం',
+  'tips.clearView.body': 'వ్యక్తి అడ్డంకులు లేకుండా స్పష్టంగా కనిపించే పూర్తి శరీర ఫోటోను ఉపయోగించండి.',
+  'tips.quality.title': 'అధిక నాణ్యత',
+  'tips.quality.body': 'ఎక్కువ రిజల్యూషన్ ఉన్న చిత్రాలు చీర అల్లికను బాగా నిలుపుతాయి.',
+
+  'notice.retrying': '{message} {seconds} సెకన్లలో మళ్లీ ప్రయత్నిస్తోంది (ప్రయత్నం {attempt})...',
+  'notice.faceReroll': 'ముఖ సరిపోలిక {score}%, ఇది {threshold}% కంటే తక్కువ. మళ్లీ రూపొందిస్తోంది ({attempt}/{total})...',
+
+  'uploader.placeholder': 'ఒక చిత్రాన్ని అప్‌లోడ్ చేయండి',
+  'uploader.formats': 'JPG, PNG, WebP, 10MB వరకు',
+  'uploader.takePhoto': 'ఫోటో తీయండి',
+  'uploader.cameraTitle': '{label} — ఫోటో తీయండి',
+  'uploader.edit': 'కత్తిరించు, తిప్పు లేదా వివరాలను గుర్తించు',
+  'uploader.remove': 'చిత్రాన్ని తీసివేయి',
+  'uploader.regions.one': '{count} వివర ప్రాంతం గుర్తించబడింది',
+  'uploader.regions.other': '{count} వివర ప్రాంతాలు గుర్తించబడ్డాయి',
+
+  'history.title': 'చరిత్ర',
+  'history.exportAll': 'అన్నీ ఎగుమతి చేయి',
+  'history.close': 'చరిత్రను మూసివేయి',
+  'history.empty': 'మీ గత ట్రై-ఆన్‌లు ఇక్కడ కనిపిస్తాయి.',
+  'history.looks.one': '{count} లుక్',
+  'history.looks.other': '{count} లుక్‌లు',
+  'history.group': '{count} మంది గుంపు',
+  'history.promptTemplates': 'ప్రాంప్ట్ టెంప్లేట్‌లు',
+  'history.person': 'వ్యక్తి',
+  'history.saree': 'చీర',
+  'history.result': 'ట్రై-ఆన్ ఫలితం',
+  'history.open': 'తెరువు',
+  'history.rerun': 'మళ్లీ అమలు చేయి',
+  'history.export': 'ఎగుమతి',
+  'history.delete': 'తొలగించు',
+
+  'camera.close': 'మూసివేయి',
+  'camera.captured': 'తీసిన ఫోటో',
+  'camera.starting': 'కెమెరా ప్రారంభమవుతోంది...',
+  'camera.error.denied': 'కెమెరా అనుమతి నిరాకరించబడింది. బ్రౌజర్ సెట్టింగ్‌లలో కెమెరా అనుమతి ఇవ్వండి, లేదా ఫోటోను అప్‌లోడ్ చేయండి.',
+  'camera.error.notFound': 'ఈ పరికరంలో కెమెరా కనిపించలేదు.',
+  'camera.error.inUse': 'కెమెరా మరో యాప్‌లో ఉపయోగంలో ఉంది.',
+  'camera.error.failed': 'కెమెరాను ప్రారంభించలేకపోయాం.',
+  'camera.error.unsupported': 'ఈ బ్రౌజర్ కెమెరాతో ఫోటో తీయడానికి మద్దతు ఇవ్వదు.',
+  'camera.error.insecure': 'కెమెరాతో ఫోటో తీయడానికి సురక్షిత (https) కనెక్షన్ అవసరం.',
+  'camera.error.capture': 'ఫోటో తీయడం విఫలమైంది.',
+  'camera.framing.no-person': 'ముఖం కనిపించడం లేదు. మంచి వెలుతురులో కెమెరా వైపు చూడండి.',
+  'camera.framing.head-cut': 'తల పైన కొంచెం ఖాళీ వదలండి.',
+  'camera.framing.feet-cut': 'వెనక్కి జరగండి, మీ పాదాలు కనిపించడం లేదు.',
+  'camera.framing.too-far': 'దగ్గరకు రండి, మీరు చాలా దూరంగా ఉన్నారు.',
+  'camera.framing.off-centre': 'ఫ్రేమ్ మధ్యలోకి జరగండి.',
+  'camera.framing.ok': 'బాగుంది. కదలకుండా ఉండండి.',
+  'camera.framing.approximate': 'ఈ బ్రౌజర్‌లో ఫ్రేమింగ్ సూచనలు సుమారుగా ఉంటాయి.',
+  'camera.retake': 'మళ్ళీ తీయి',
+  'camera.usePhoto': 'ఈ ఫోటో ఉపయోగించు',
+  'camera.timer': 'టైమర్',
+  'camera.timerOff': 'ఆఫ్',
+  'camera.timerSeconds': '{seconds} సె',
+  'camera.switch': 'కెమెరా మార్చు',
+  'camera.stopTimer': 'టైమర్ ఆపు',
+  'camera.takePhoto': 'ఫోటో తీయి',
+  'camera.startTimer': '{seconds} సె టైమర్ ప్రారంభించు',
+
+  'gallery.alt': 'రూపొందించిన ట్రై-ఆన్ {index}',
+  'gallery.favourite': 'ఇష్టమైనది',
+  'gallery.faceMatch': 'ముఖ సారూప్యం {score}%',
+  'gallery.faceBelow': 'పరిమితి కంటే తక్కువ',
+  'gallery.faceMethod.face-detector': 'బ్రౌజర్ ముఖ గుర్తింపుతో మీ ఫోటోతో సారూప్యం',
+  'gallery.faceMethod.heuristic': 'అంచనా వేసిన ముఖ భాగంతో మీ ఫోటోతో సారూప్యం',
+  'gallery.faceBestOf': '{count} రూపకల్పనల్లో ఉత్తమమైనది',
+  'gallery.inspect': 'పరిశీలించు',
+  'gallery.inspectTitle': 'జూమ్ చేసి మీ ఫోటో మరియు చీరతో పోల్చండి',
+  'gallery.download': 'డౌన్‌లోడ్',
+  'gallery.downloadLook': '{label} డౌన్‌లోడ్ చేయి',
+  'gallery.newTryOn': 'కొత్త ట్రై-ఆన్',
+  'gallery.markFavourite': 'ఇష్టమైనదిగా గుర్తించు',
+  'gallery.removeFavourite': 'ఇష్టమైనవాటి నుండి తీసివేయి',
+  'gallery.compare': 'పోల్చు',
+  'gallery.exitCompare': 'పోలిక మూసివేయి',
+
+  'viewer.title': '{label} పరిశీలన',
+  'viewer.beforeAfter': 'ముందు / తర్వాత',
+  'viewer.sideBySide': 'పక్కపక్కన',
+  'viewer.before': 'ముందు',
+  'viewer.after': 'తర్వాత',
+  'viewer.split': 'ముందు/తర్వాత విభజన',
+  'viewer.original': 'అసలు ఫోటో',
+  'viewer.result': 'ఫలితం',
+  'viewer.saree': 'చీర',
+  'viewer.sareeAlt': 'మూల చీర',
+  'viewer.zoomOut': 'జూమ్ అవుట్',
+  'viewer.zoomIn': 'జూమ్ ఇన్',
+  'viewer.fit': 'సరిపెట్టు',
+  'viewer.loupe': 'భూతద్దం',
+  'viewer.close': 'మూసివేయి (Esc)',
+  'viewer.help': 'జూమ్ కోసం స్క్రోల్ లేదా పించ్ చేయండి · జరపడానికి లాగండి · జూమ్ ఇన్ లేదా సరిపెట్టడానికి డబుల్-క్లిక్ చేయండి · బాణం కీలు జరుపుతాయి · +/− జూమ్ · 0 సరిపెట్టు · L భూతద్దం · Esc మూసివేయి',
+
+  'refine.title': 'ఈ లుక్‌ను మెరుగుపరచండి',
+  'refine.showVersion': 'ఈ వెర్షన్ చూపించు',
+  'refine.applying': 'మీ మార్పు వర్తింపజేయబడుతోంది...',
+  'refine.placeholder': 'మార్పును వివరించండి, ఉదా. పైటను పొడవుగా వేయండి',
+  'refine.submit': 'మెరుగుపరచు',
+  'refine.cancel': 'రద్దు చేయి',
+  'refine.versions': 'వెర్షన్లు',
+  'refine.versionsHint': 'పాత వెర్షన్‌కు తిరిగి వెళ్ళడానికి దాన్ని ఎంచుకోండి; కొత్త మార్పులు ఎంచుకున్న వెర్షన్ నుండి శాఖగా మొదలవుతాయి.',
+  'refine.suggestion.pleats': 'కుచ్చిళ్ళు బిగుతుగా',
+  'refine.suggestion.palluLeft': 'పైట ఎడమ చేతిపై',
+  'refine.suggestion.blouse': 'మెరూన్ రంగులో సరిపోయే జాకెట్టు జోడించు',
+  'refine.suggestion.border': 'అంచును మరింత స్పష్టంగా చూపించు',
+
+  'sareeTags.title': 'చీర వివరాలు',
+  'sareeTags.analysing': 'చీర రంగులు, అంచు మరియు బట్టను చదువుతోంది...',
+  'sareeTags.empty': 'ఇంకా చీర వివరాలు లేవు.',
+  'sareeTags.analyse': 'చీరను విశ్లేషించు',
+  'sareeTags.retry': 'మళ్ళీ ప్రయత్నించు',
+  'sareeTags.reanalyse': 'మళ్ళీ విశ్లేషించు',
+  'sareeTags.reanalyseTitle': 'చీర చిత్రాన్ని మళ్ళీ విశ్లేషించు',
+  'sareeTags.removeColour': '{colour} తీసివేయి',
+  'sareeTags.addColour': '+ రంగు',
+  'sareeTags.border': 'అంచు / జరీ',
+  'sareeTags.borderPlaceholder': 'ఏదీ లేదు',
+  'sareeTags.pattern': 'డిజైన్',
+  'sareeTags.patternPlaceholder': 'సాదా',
+  'sareeTags.fabric': 'బట్ట',
+  'sareeTags.presentation': 'ఫోటోలో',
+
+  'fabric.silk': 'పట్టు',
+  'fabric.cotton': 'నూలు',
+  'fabric.chiffon': 'షిఫాన్',
+  'fabric.georgette': 'జార్జెట్',
+  'fabric.crepe': 'క్రేప్',
+  'fabric.organza': 'ఆర్గంజా',
+  'fabric.linen': 'లినెన్',
+  'fabric.net': 'నెట్',
+  'fabric.synthetic': 'సింథటిక్',
+  'fabric.unknown': 'తెలియదు',
+  'presentation.flat-lay': 'పరచినది',
+  'presentation.hanger': 'హ్యాంగర్‌పై',
+  'presentation.worn': 'ధరించినది',
+  'presentation.unknown': 'తెలియదు',
+
+  'embed.title': 'ఈ చీరను ప్రయత్నించండి',
+  'embed.notEmbedded': 'ఈ ట్రై-ఆన్ విడ్జెట్ ఒక స్టోర్ ఉత్పత్తి పేజీలో నడుస్తుంది.',
+  'embed.waiting': 'ఉత్పత్తి కోసం వేచి ఉంది...',
+  'embed.loadingSaree': 'చీర లోడ్ అవుతోంది...',
+  'embed.sareeLoadFailed': 'చీర చిత్రాన్ని లోడ్ చేయలేకపోయాం.',
+  'embed.download': 'డౌన్‌లోడ్',
+  'embed.startOver': 'వేరే ఫోటో ప్రయత్నించండి',
+
+  'error.imageFile': 'చిత్ర ఫైల్‌ను ప్రాసెస్ చేయడం విఫలమైంది.',
+  'error.sareeFile': 'చీర చిత్రాన్ని ప్రాసెస్ చేయడం విఫలమైంది.',
+  'error.queueFailed': 'మీరు ఆఫ్‌లైన్‌లో ఉన్నారు మరియు ఈ పరికరంలో ట్రై-ఆన్‌ను వరుసలో ఉంచలేకపోయాం.',
+  'error.catalogAdd.one': '{count} చిత్రాన్ని కేటలాగ్‌కు జోడించలేకపోయాం.',
+  'error.catalogAdd.other': '{count} చిత్రాలను కేటలాగ్‌కు జోడించలేకపోయాం.',
+  'error.catalogAnalyse.one': '{count} చీరను విశ్లేషించలేకపోయాం.',
+  'error.catalogAnalyse.other': '{count} చీరలను విశ్లేషించలేకపోయాం.',
+  'error.sareeAnalysis': 'చీర విశ్లేషణ విఫలమైంది.',
+  'error.peopleDetection': 'ఫోటోలో వ్యక్తులను కనుగొనలేకపోయాము.',
+  'error.historyOpen': 'చరిత్ర నమోదును తెరవడం విఫలమైంది.',
+  'error.historyRerun': 'చరిత్ర నమోదును మళ్లీ అమలు చేయడం విఫలమైంది.',
+  'error.historyDelete': 'చరిత్ర నమోదును తొలగించడం విఫలమైంది.',
+  'error.personPhotoMissing': 'ముందుగా వ్యక్తి ఫోటోను అప్‌లోడ్ చేయండి.',
+  'error.dismiss': 'మూసివేయి',
+  'error.modelNotes': 'మోడల్ గమనికలు:',
+
+  'imageError.heic-unsupported': 'HEIC/HEIF ఫోటోలకు మద్దతు లేదు. దయచేసి ఫోటోను JPG లేదా PNGగా ఎగుమతి చేయండి (iPhoneలో: Settings › Camera › Formats › Most Compatible).',
+  'imageError.unsupported-type': 'మద్దతు లేని ఫైల్ రకం ({type}). దయచేసి JPG, PNG లేదా WebP చిత్రాన్ని అప్‌లోడ్ చేయండి.',
+  'imageError.file-too-large': 'ఈ చిత్రం {size}. దయచేసి {limit} కంటే చిన్న చిత్రాన్ని అప్‌లోడ్ చేయండి.',
+  'imageError.decode-failed': 'ఈ చిత్రాన్ని చదవలేకపోయాం. ఇది పాడై ఉండవచ్చు.',
+  'imageError.encode-failed': 'ఈ బ్రౌజర్‌లో ఈ చిత్రాన్ని ప్రాసెస్ చేయలేకపోయాం.',
+
+  'errorCode.auth': 'ట్రై-ఆన్ సర్వర్ Gemini API key లేదు లేదా చెల్లదు.',
+  'errorCode.quota': 'మోడల్‌కు ప్రస్తుతం చాలా ఎక్కువ అభ్యర్థనలు వస్తున్నాయి.',
+  'errorCode.safety-blocked': 'మోడల్ భద్రతా ఫిల్టర్లు అభ్యర్థనను నిరోధించాయి.',
+  'errorCode.no-image': 'ప్రతిస్పందనలో ఏ చిత్రమూ రూపొందలేదు.',
+  'errorCode.network': 'ట్రై-ఆన్ సేవను చేరుకోలేకపోయాం. మీ కనెక్షన్‌ను తనిఖీ చేయండి.',
+  'errorCode.server': 'ట్రై-ఆన్ సేవలో తాత్కాలిక సమస్య వచ్చింది.',
+  'errorCode.timeout': 'అభ్యర్థనకు చాలా సమయం పట్టడంతో ఆపివేయబడింది.',
+  'errorCode.cancelled': 'రూపొందించడం రద్దు చేయబడింది.',
+  'errorCode.invalid-request': 'ట్రై-ఆన్ సర్వర్ అభ్యర్థనను తిరస్కరించింది.',
+  'errorCode.budget-exceeded': 'ఈరోజు అంచనా ఖర్చు మీ రోజువారీ బడ్జెట్‌ను చేరుకుంది.',
+  'errorCode.unknown': 'చిత్రాన్ని రూపొందించడం విఫలమైంది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'errorCode.http-status': 'ట్రై-ఆన్ సర్వర్ {status}తో ప్రతిస్పందించింది.',
+  'errorCode.api-key-missing': 'ట్రై-ఆన్ సర్వర్‌లో GEMINI_API_KEY సెట్ చేయలేదు.',
+  'errorCode.rate-limited': 'చాలా ఎక్కువ ట్రై-ఆన్ అభ్యర్థనలు. దయచేసి {seconds} సెకన్లలో మళ్లీ ప్రయత్నించండి.',
+  'errorCode.request-too-large': 'అభ్యర్థన {mb} MB పరిమితి కంటే పెద్దది.',
+  'errorCode.image-too-large': 'ఒక చిత్రం {mb} MB కంటే పెద్దది.',
+  'errorCode.image-unsupported': 'ఒక చిత్రం ఫైల్ రకానికి మద్దతు లేదు.',
+  'errorCode.too-many-images': 'ఒక అభ్యర్థనలో గరిష్ఠంగా {count} చిత్రాలు ఉండవచ్చు.',
+  'errorCode.too-many-jewellery': 'గరిష్ఠంగా {count} ఆభరణ చిత్రాలు అనుమతించబడతాయి.',
+  'errorCode.custom-prompts-disabled': 'ఈ సర్వర్‌లో మార్చిన ప్రాంప్ట్ టెంప్లేట్‌లు నిలిపివేయబడ్డాయి.',
+  'errorCode.unexpected-answer': 'మోడల్ ఊహించని రూపంలో సమాధానం ఇచ్చింది.',
+  'errorCode.request-timeout': '{seconds} సెకన్ల తర్వాత అభ్యర్థన సమయం ముగిసింది.',
+  'errorCode.group-too-large': 'ఒక గుంపులో 1 నుండి {count} మంది ఉండవచ్చు.',
+  'errorCode.group-too-many-sarees': 'ఒక గుంపు గరిష్ఠంగా {count} వేర్వేరు చీరలు కట్టుకోవచ్చు.',
+  'errorCode.group-unassigned': 'కనీసం ఒక వ్యక్తికి చీరను కేటాయించండి.',
+  'errorCode.instruction-too-long': 'సూచన {count} అక్షరాల కంటే పొడవుగా ఉంది.',
+  'errorCode.scene-too-long': 'దృశ్య వివరణ {count} అక్షరాల కంటే పొడవుగా ఉంది.',
+
+  'errorGuidance.auth.title': 'API key సమస్య',
+  'errorGuidance.auth.advice': 'సర్వర్ environmentలో GEMINI_API_KEY సెట్ చేయబడిందా, దానికి Gemini image మోడల్ యాక్సెస్ ఉందా అని తనిఖీ చేయండి.',
+  'errorGuidance.quota.title': 'అభ్యర్థన పరిమితి చేరుకుంది',
+  'errorGuidance.quota.advice': 'తక్కువ సమయంలో చాలా అభ్యర్థనలు. మళ్లీ ప్రయత్నించే ముందు ఒక నిమిషం ఆగండి, లేదా ఒకేసారి తక్కువ వేరియేషన్‌లు రూపొందించండి.',
+  'errorGuidance.safety-blocked.title': 'భద్రతా ఫిల్టర్లు నిరోధించాయి',
+  'errorGuidance.safety-blocked.advice': 'వేరే ఫోటో ప్రయత్నించండి: ఒక పెద్దవారు పూర్తి దుస్తుల్లో, మంచి వెలుతురులో తీసిన పూర్తి శరీర ఫోటో సాధారణంగా ఉత్తమం.',
+  'errorGuidance.no-image.title': 'చిత్రం రాలేదు',
+  'errorGuidance.no-image.advice': 'మోడల్ చిత్రం లేకుండా సమాధానం ఇచ్చింది. మళ్లీ ప్రయత్నించండి, లేదా వ్యక్తి మరియు చీర యొక్క స్పష్టమైన ఫోటోలు ఉపయోగించండి.',
+  'errorGuidance.network.title': 'కనెక్షన్ సమస్య',
+  'errorGuidance.network.advice': 'మీ ఇంటర్నెట్ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+  'errorGuidance.server.title': 'సేవ అందుబాటులో లేదు',
+  'errorGuidance.server.advice': 'మోడల్ సేవలో ఇబ్బంది ఉంది. దయచేసి కొద్దిసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.',
+  'errorGuidance.timeout.title': 'అభ్యర్థన సమయం ముగిసింది',
+  'errorGuidance.timeout.advice': 'మోడల్ స్పందించడానికి చాలా సమయం తీసుకుంది. మళ్లీ ప్రయత్నించండి, లేదా తక్కువ వేరియేషన్‌లను ఎంచుకోండి.',
+  'errorGuidance.cancelled.title': 'రద్దు చేయబడింది',
+  'errorGuidance.cancelled.advice': 'రూపొందించడం రద్దు చేయబడింది. ఏదీ సేవ్ కాలేదు.',
+  'errorGuidance.invalid-request.title': 'అభ్యర్థన తిరస్కరించబడింది',
+  'errorGuidance.invalid-request.advice': 'ఫోటోలు చాలా పెద్దవి లేదా చాలా ఎక్కువ కావచ్చు. కొన్ని ఆభరణ చిత్రాలను తీసివేయండి, లేదా ఇంకా మెరుగుపరచడానికి బదులు కొత్త లుక్ ప్రారంభించండి.',
+  'errorGuidance.budget-exceeded.title': 'రోజువారీ బడ్జెట్ చేరుకుంది',
+  'errorGuidance.budget-exceeded.advice': 'రేపటి వరకు రూపొందించడం ఆగింది. ఈరోజు కొనసాగించడానికి Usageలో రోజువారీ బడ్జెట్‌ను పెంచండి లేదా తొలగించండి.',
+  'errorGuidance.unknown.title': 'ఏదో తప్పు జరిగింది',
+  'errorGuidance.unknown.advice': 'దయచేసి మళ్లీ ప్రయత్నించండి. సమస్య కొనసాగితే, వేరే చిత్రాలు ప్రయత్నించండి.',
+
+  'advice.sexuallyExplicit': 'ఫోటో బహిర్గతంగా భావించబడవచ్చు. వ్యక్తి పూర్తి దుస్తుల్లో ఉన్న ఫోటోను ఉపయోగించండి, ఉదా. టీ-షర్ట్ మరియు ప్యాంటు లేదా కుర్తా.',
+  'advice.harassment': 'ఎవరినైనా లక్ష్యంగా చేసుకున్నట్లు అనిపించే వచనం, సైగలు లేదా ఇతర వ్యక్తులను తీసివేయండి, లేదా వ్యక్తిని మాత్రమే కత్తిరించండి.',
+  'advice.hateSpeech': 'చిత్రంలో గుర్తించబడిన వచనం లేదా చిహ్నాలు ఉండవచ్చు. వాటిని కత్తిరించండి లేదా సాదా నేపథ్యం ఉపయోగించండి.',
+  'advice.dangerousContent': 'ఫోటోలోని వస్తువులు ప్రమాదకరమైనవిగా గుర్తించబడ్డాయి. వస్తువులు లేని ఫోటోను ఉపయోగించండి.',
+  'advice.civicIntegrity': 'రాజకీయ చిహ్నాలు, బ్యానర్లు లేదా ప్రముఖులు ఉన్న ఫోటోలను నివారించండి.',
+  'advice.safety': 'అభ్యర్థనను భద్రతా ఫిల్టర్లు గుర్తించాయి. ఒక పెద్దవారు పూర్తి దుస్తుల్లో, మంచి వెలుతురులో తీసిన పూర్తి శరీర ఫోటో ఉత్తమం.',
+  'advice.imageSafety': 'రూపొందిన చిత్రం గుర్తించబడింది. సాధారణంగా నిలబడిన భంగిమ మరియు రోజువారీ దుస్తులతో ఉన్న ఫోటోను ప్రయత్నించండి.',
+  'advice.prohibitedContent': 'ఈ ఫోటోను మార్చలేము. మార్చడానికి అంగీకరించిన పెద్దవారి ఫోటోలను మాత్రమే అప్‌లోడ్ చేయండి; పిల్లలు లేదా ప్రముఖుల ఫోటోలు తిరస్కరించబడతాయి.',
+  'advice.blocklist': 'అభ్యర్థనలో నిరోధిత పదాలు లేదా కంటెంట్ ఉంది. వేరే చిత్రాలు ప్రయత్నించండి.',
+  'advice.recitation': 'చీర చిత్రం రక్షిత ఉత్పత్తి ఫోటోగ్రఫీలా కనిపిస్తోంది. మీరే తీసిన చీర ఫోటోను ప్రయత్నించండి.',
+  'advice.spii': 'చిత్రంలో వ్యక్తిగత సమాచారం (ఉదా. గుర్తింపు కార్డులు లేదా పత్రాలు) ఉన్నట్లు కనిపిస్తోంది. దాన్ని కత్తిరించి మళ్లీ ప్రయత్నించండి.',
+  'advice.noImage': 'మోడల్ చిత్రం రూపొందించకూడదని నిర్ణయించింది. వ్యక్తి మరియు చీర యొక్క స్పష్టమైన ఫోటోలు ప్రయత్నించండి.',
+  'advice.maxTokens': 'మోడల్ అవుట్‌పుట్ బడ్జెట్ అయిపోయింది. మళ్లీ ప్రయత్నించండి, లేదా తక్కువ అవుట్‌పుట్ రిజల్యూషన్ ఉపయోగించండి.',
+
+  'safety.HARM_CATEGORY_SEXUALLY_EXPLICIT': 'లైంగికంగా స్పష్టమైనది',
+  'safety.HARM_CATEGORY_HARASSMENT': 'వేధింపు',
+  'safety.HARM_CATEGORY_HATE_SPEECH': 'ద్వేషపూరిత ప్రసంగం',
+  'safety.HARM_CATEGORY_DANGEROUS_CONTENT': 'ప్రమాదకరమైన కంటెంట్',
+  'safety.HARM_CATEGORY_CIVIC_INTEGRITY': 'పౌర సమగ్రత',
+  'safety.blocked': 'నిరోధించబడింది',
+  'safety.HIGH': 'ఎక్కువ',
+  'safety.MEDIUM': 'మధ్యస్థం',
+};
@@ -0,0 +1,67 @@
+import { AppError, Locale, MessageParams } from "../types";
+import { LOCALES } from "../constants";
+import { ImagePipelineError } from "../services/imagePipeline";
+import { en, MessageKey, Messages } from "./en";
+import { hi } from "./hi";
+import { ta } from "./ta";
+import { te } from "./te";
+import { bn } from "./bn";
+import { mr } from "./mr";
+
+const CATALOGS: Record<Locale, Messages> = { en, hi, ta, te, bn, mr };
+
+// "history.looks" for the "history.looks.one" / "history.looks.other" pair
+export type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.one` ? Base : never) : never;
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Picks the .one or .other form for `count` and passes it as {count}
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (timestamp: number) => string;
+  // Message for a try-on failure or image upload error, by code when it has one
+  errorMessage: (error: AppError | ImagePipelineError) => string;
+  isMessageKey: (key: string) => key is MessageKey;
+}
+
+const isMessageKey = (key: string): key is MessageKey => Object.hasOwn(en, key);
+
+export const createTranslator = (locale: Locale): Translator => {
+  const messages = CATALOGS[locale];
+  const { intl } = LOCALES[locale];
+  const numberFormat = new Intl.NumberFormat(intl);
+  const dateFormat = new Intl.DateTimeFormat(intl, { dateStyle: "medium", timeStyle: "short" });
+  const pluralRules = new Intl.PluralRules(intl);
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    options ? new Intl.NumberFormat(intl, options).format(value) : numberFormat.format(value);
+
+  // Numbers are formatted for the locale; unknown placeholders are left as they are
+  const t = (key: MessageKey, params: MessageParams = {}) =>
+    (messages[key] || en[key]).replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+
+  const plural = (key: PluralKey, count: number, params: MessageParams = {}) => {
+    const form = pluralRules.select(count) === "one" ? "one" : "other";
+    return t(`${key}.${form}` as MessageKey, { ...params, count });
+  };
+
+  const errorMessage = (error: AppError | ImagePipelineError) => {
+    if (error instanceof ImagePipelineError) return t(`imageError.${error.code}`, error.params);
+    return error.code ? t(`errorCode.${error.code}`, error.params) : error.message;
+  };
+
+  return {
+    locale,
+    t,
+    plural,
+    formatNumber,
+    formatDateTime: timestamp => dateFormat.format(timestamp),
+    errorMessage,
+    isMessageKey,
+  };
+};
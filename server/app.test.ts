@@ -0,0 +1,247 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { TryOnApiError, TryOnResult } from "../types";
+import { createTryOnError } from "../services/errors";
+import { DEFAULT_SERVER_CONFIG, TRYON_API_PATH, TryOnServerOptions, createTryOnHandler } from "./app";
+import { IMAGE_MODEL, TEXT_MODEL, TryOnModel } from "./model";
+
+// Drives the /api/try-on handler over real HTTP with a stub model, so no
+// request ever reaches Gemini.
+
+const IMAGE = { base64: "iVBORw0KGgo=", mimeType: "image/png" };
+
+const imageResponse = {
+  candidates: [{ finishReason: "STOP", content: { parts: [{ inlineData: { data: "AAAA", mimeType: "image/png" } }] } }],
+} as unknown as GenerateContentResponse;
+
+const textResponse = (text: string) => ({
+  candidates: [{ finishReason: "STOP", content: { parts: [{ text }] } }],
+} as unknown as GenerateContentResponse);
+
+const generateBody = (request: Record<string, unknown> = {}) => ({
+  type: "generate",
+  request: { human: IMAGE, saree: IMAGE, drapeStyle: "nivi", ...request },
+});
+
+type StubModel = TryOnModel & { calls: GenerateContentParameters[] };
+
+const stubModel = (answer: (params: GenerateContentParameters) => Promise<GenerateContentResponse>): StubModel => {
+  const calls: GenerateContentParameters[] = [];
+  return {
+    calls,
+    generateContent: params => {
+      calls.push(params);
+      return answer(params);
+    },
+  };
+};
+
+let server: Server | null = null;
+
+const startServer = async (model: TryOnModel, options: Partial<TryOnServerOptions> = {}) => {
+  server = createServer(createTryOnHandler({ ...DEFAULT_SERVER_CONFIG, model, ...options }));
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+};
+
+const post = (baseUrl: string, body: unknown, path = TRYON_API_PATH) =>
+  fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+const errorOf = async (response: Response) => ((await response.json()) as TryOnApiError).error;
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+describe("createTryOnHandler", () => {
+  describe("validation", () => {
+    it("answers 404 outside the API path and 405 for other methods", async () => {
+      const model = stubModel(async () => imageResponse);
+      const url = await startServer(model);
+
+      expect((await post(url, generateBody(), "/api/other")).status).toBe(404);
+      const get = await fetch(`${url}${TRYON_API_PATH}`);
+      expect(get.status).toBe(405);
+      expect(get.headers.get("allow")).toBe("POST");
+      expect(model.calls).toHaveLength(0);
+    });
+
+    it("rejects bodies that are not JSON", async () => {
+      const url = await startServer(stubModel(async () => imageResponse));
+
+      const response = await post(url, "{not json");
+      expect(response.status).toBe(400);
+      expect(await errorOf(response)).toMatchObject({ kind: "invalid-request" });
+    });
+
+    it("rejects unknown request types and drape styles before calling the model", async () => {
+      const model = stubModel(async () => imageResponse);
+      const url = await startServer(model);
+
+      expect((await post(url, { type: "paint" })).status).toBe(400);
+      const response = await post(url, generateBody({ drapeStyle: "toString" }));
+      expect(response.status).toBe(400);
+      expect((await errorOf(response)).message).toBe("Unknown drape style.");
+      expect(model.calls).toHaveLength(0);
+    });
+
+    it("rejects unsupported image types", async () => {
+      const url = await startServer(stubModel(async () => imageResponse));
+
+      const response = await post(url, generateBody({ saree: { ...IMAGE, mimeType: "image/gif" } }));
+      expect(response.status).toBe(400);
+      expect(await errorOf(response)).toMatchObject({ code: "image-unsupported" });
+      // The app can't preprocess HEIC, so the server doesn't take it either
+      expect((await post(url, generateBody({ human: { ...IMAGE, mimeType: "image/heic" } }))).status).toBe(400);
+    });
+
+    it("answers 413 for images over the size limit", async () => {
+      const url = await startServer(stubModel(async () => imageResponse), {
+        limits: { ...DEFAULT_SERVER_CONFIG.limits, maxImageBytes: 4 },
+      });
+
+      const response = await post(url, generateBody());
+      expect(response.status).toBe(413);
+      expect(await errorOf(response)).toMatchObject({ code: "image-too-large" });
+    });
+
+    it("answers 413 for bodies over the request limit", async () => {
+      const url = await startServer(stubModel(async () => imageResponse), { maxBodyBytes: 64 });
+
+      const response = await post(url, generateBody());
+      expect(response.status).toBe(413);
+      expect(await errorOf(response)).toMatchObject({ code: "request-too-large" });
+    });
+
+    it("rejects scene descriptions over the instruction limit", async () => {
+      const url = await startServer(stubModel(async () => imageResponse), {
+        limits: { ...DEFAULT_SERVER_CONFIG.limits, maxInstructionLength: 10 },
+      });
+
+      const response = await post(url, generateBody({
+        options: { background: { mode: "scene", sceneDescription: "a".repeat(11) } },
+      }));
+      expect(response.status).toBe(400);
+      expect(await errorOf(response)).toMatchObject({ code: "scene-too-long", params: { count: 10 } });
+    });
+
+    it("rejects accessories and saree attributes on group try-ons", async () => {
+      const model = stubModel(async () => imageResponse);
+      const url = await startServer(model);
+      const group = { people: [{ box: { x: 0, y: 0, width: 0.5, height: 1 }, saree: 0 }], sarees: [] };
+
+      expect((await post(url, generateBody({ group }))).status).toBe(200);
+      expect((await post(url, generateBody({ group, accessories: { jewellery: [IMAGE] } }))).status).toBe(400);
+      const response = await post(url, generateBody({
+        group,
+        sareeAttributes: { colours: ["red"], border: "", pattern: "", fabric: "silk", presentation: "worn" },
+      }));
+      expect(response.status).toBe(400);
+      expect(await errorOf(response)).toMatchObject({ kind: "invalid-request" });
+      expect(model.calls).toHaveLength(1);
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("answers 429 with Retry-After once a client is over the limit", async () => {
+      const model = stubModel(async () => imageResponse);
+      const url = await startServer(model, { rateLimit: { limit: 2, windowMs: 60_000 }, now: () => 0 });
+
+      expect((await post(url, generateBody())).status).toBe(200);
+      expect((await post(url, generateBody())).status).toBe(200);
+      const limited = await post(url, generateBody());
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("retry-after")).toBe("60");
+      expect(await errorOf(limited)).toMatchObject({ kind: "quota", code: "rate-limited", params: { seconds: 60 } });
+      expect(model.calls).toHaveLength(2);
+    });
+
+    it("counts requests that fail validation", async () => {
+      const url = await startServer(stubModel(async () => imageResponse), { rateLimit: { limit: 1, windowMs: 60_000 } });
+
+      expect((await post(url, { type: "paint" })).status).toBe(400);
+      expect((await post(url, generateBody())).status).toBe(429);
+    });
+  });
+
+  describe("error mapping", () => {
+    it.each([
+      ["a missing API key", createTryOnError("auth", undefined, { code: "api-key-missing" }), 502, "auth"],
+      ["a model quota error", Object.assign(new Error("RESOURCE_EXHAUSTED"), { status: 429 }), 429, "quota"],
+      ["a model server error", Object.assign(new Error("Internal error"), { status: 503 }), 502, "server"],
+      ["an unexpected failure", new Error("boom"), 500, "unknown"],
+    ])("maps %s to its status", async (_, error, status, kind) => {
+      const url = await startServer(stubModel(async () => { throw error; }));
+
+      const response = await post(url, generateBody());
+      expect(response.status).toBe(status);
+      expect(await errorOf(response)).toMatchObject({ kind });
+    });
+
+    it("answers 422 with the report when the model blocks the request", async () => {
+      const url = await startServer(stubModel(async () => ({
+        candidates: [{ finishReason: "IMAGE_SAFETY", content: { parts: [] } }],
+      } as unknown as GenerateContentResponse)));
+
+      const response = await post(url, generateBody());
+      expect(response.status).toBe(422);
+      const error = await errorOf(response);
+      expect(error.kind).toBe("safety-blocked");
+      expect(error.report?.finishReason).toBe("IMAGE_SAFETY");
+    });
+
+    it("answers 422 when the model returns text instead of an image", async () => {
+      const url = await startServer(stubModel(async () => textResponse("I cannot do that.")));
+
+      const response = await post(url, generateBody());
+      expect(response.status).toBe(422);
+      const error = await errorOf(response);
+      expect(error.kind).toBe("no-image");
+      expect(error.report?.notes).toEqual(["I cannot do that."]);
+    });
+  });
+
+  describe("success", () => {
+    it("returns the generated image with the prompt template that made it", async () => {
+      const model = stubModel(async () => imageResponse);
+      const url = await startServer(model);
+
+      const response = await post(url, generateBody());
+      expect(response.status).toBe(200);
+      expect(response.headers.get("cache-control")).toBe("no-store");
+      const result = (await response.json()) as TryOnResult;
+      expect(result.image).toBe("data:image/png;base64,AAAA");
+      expect(result.promptTemplateId).toBe("vto-v1");
+      expect(model.calls[0].model).toBe(IMAGE_MODEL);
+    });
+
+    it("returns saree attributes from the text model", async () => {
+      const model = stubModel(async () => textResponse(JSON.stringify({
+        colours: ["maroon", "gold"],
+        border: "zari",
+        pattern: "buttis",
+        fabric: "silk",
+        presentation: "flat-lay",
+      })));
+      const url = await startServer(model);
+
+      const response = await post(url, { type: "analyze-saree", request: { saree: IMAGE } });
+      expect(response.status).toBe(200);
+      expect((await response.json()).attributes).toMatchObject({ colours: ["maroon", "gold"], fabric: "silk" });
+      expect(model.calls[0].model).toBe(TEXT_MODEL);
+    });
+  });
+});
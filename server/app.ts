@@ -0,0 +1,199 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { TryOnApiError, TryOnErrorKind } from "../types";
+import { TryOnError, classifyError, createTryOnError } from "../services/errors";
+import { TryOnModel, analyzeSaree, detectPeople, generateTryOn, refineTryOn } from "./model";
+import { RateLimitOptions, createRateLimiter } from "./rateLimit";
+import { PayloadLimits, parseTryOnApiRequest } from "./validation";
+import { parseEnvNumber } from "../utils";
+
+// HTTP handler for POST /api/try-on: generation, refinement, saree analysis and
+// people detection. It holds the model client (and with it the API key), so the
+// browser only ever sends images and settings. Mounted by server/index.ts in
+// production and by the Vite dev server in development.
+
+export const TRYON_API_PATH = "/api/try-on";
+
+export interface TryOnServerOptions {
+  model: TryOnModel;
+  rateLimit: RateLimitOptions;
+  // Raw JSON body; base64 images make up almost all of it
+  maxBodyBytes: number;
+  limits: PayloadLimits;
+  // Identify clients by the first X-Forwarded-For address (behind a reverse proxy)
+  trustProxy: boolean;
+  now?: () => number;
+}
+
+export type TryOnServerConfig = Omit<TryOnServerOptions, "model" | "now">;
+
+export type RequestHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_SERVER_CONFIG: TryOnServerConfig = {
+  // Four variations with two face re-rolls each is twelve calls
+  rateLimit: { limit: 30, windowMs: 60_000 },
+  maxBodyBytes: 40 * MB,
+  limits: {
+    maxImageBytes: 12 * MB,
+    maxImages: 24,
+    maxInstructionLength: 1000,
+    allowCustomPrompts: false,
+  },
+  trustProxy: false,
+};
+
+const STATUS_BY_KIND: Record<TryOnErrorKind, number> = {
+  "auth": 502,
+  "quota": 429,
+  "safety-blocked": 422,
+  "no-image": 422,
+  "network": 502,
+  "server": 502,
+  "timeout": 504,
+  "cancelled": 499,
+  "invalid-request": 400,
+  "budget-exceeded": 402,
+  "unknown": 500,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: TryOnError, headers: Record<string, string> = {}) => {
+  const status = error.kind === "invalid-request" ? error.status ?? 400 : STATUS_BY_KIND[error.kind];
+  const body: TryOnApiError = {
+    error: { kind: error.kind, code: error.code, params: error.params, message: error.message, report: error.report },
+  };
+  sendJson(res, status, body, headers);
+};
+
+const clientId = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || "unknown";
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  const mb = Math.round(maxBytes / MB);
+  const tooLarge = () => createTryOnError("invalid-request", `The request is larger than the ${mb} MB limit.`, {
+    status: 413,
+    code: "request-too-large",
+    params: { mb },
+  });
+
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      // Discard the upload so the 413 still reaches the client
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(tooLarge());
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+};
+
+export const createTryOnHandler = (options: TryOnServerOptions): RequestHandler => {
+  const { model, maxBodyBytes, limits, trustProxy } = options;
+  const limiter = createRateLimiter(options.rateLimit, options.now);
+
+  return async (req, res) => {
+    const path = (req.url ?? "").split("?")[0];
+    if (path !== TRYON_API_PATH) {
+      sendError(res, createTryOnError("invalid-request", "Not found.", { status: 404 }));
+      return;
+    }
+    if (req.method !== "POST") {
+      sendError(res, createTryOnError("invalid-request", "Use POST.", { status: 405 }), { Allow: "POST" });
+      return;
+    }
+
+    // Counted before the body is read so oversized uploads are limited too
+    const decision = limiter.check(clientId(req, trustProxy));
+    if (!decision.allowed) {
+      const seconds = Math.ceil(decision.retryAfterMs / 1000);
+      // The message format is what parseRetryDelayMs reads on the client
+      const error = createTryOnError("quota", `Too many try-on requests. Please retry in ${seconds}s.`, {
+        code: "rate-limited",
+        params: { seconds },
+      });
+      sendError(res, error, {
+        "Retry-After": String(seconds),
+      });
+      return;
+    }
+
+    // Stop the model call when the browser cancels or times out the request
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req, maxBodyBytes));
+      } catch (e) {
+        if (e instanceof TryOnError) throw e;
+        throw createTryOnError("invalid-request", "The request body is not valid JSON.", { status: 400 });
+      }
+
+      const apiRequest = parseTryOnApiRequest(body, limits);
+      switch (apiRequest.type) {
+        case "generate":
+          sendJson(res, 200, await generateTryOn(model, apiRequest.request, controller.signal));
+          break;
+        case "refine":
+          sendJson(res, 200, await refineTryOn(model, apiRequest.request, controller.signal));
+          break;
+        case "analyze-saree":
+          sendJson(res, 200, await analyzeSaree(model, apiRequest.request, controller.signal));
+          break;
+        case "detect-people":
+          sendJson(res, 200, await detectPeople(model, apiRequest.request, controller.signal));
+          break;
+      }
+    } catch (error) {
+      const tryOnError = classifyError(error);
+      // Nobody is left to answer
+      if (tryOnError.kind === "cancelled") return;
+      if (tryOnError.kind !== "invalid-request" && tryOnError.kind !== "safety-blocked") {
+        console.error("Try-on request failed:", error);
+      }
+      sendError(res, tryOnError, tryOnError.status === 413 ? { Connection: "close" } : {});
+    }
+  };
+};
+
+// Server settings from the environment; see the README for the variables
+export const serverConfigFromEnv = (env: Record<string, string | undefined>): TryOnServerConfig => {
+  const defaults = DEFAULT_SERVER_CONFIG;
+  return {
+    rateLimit: {
+      limit: parseEnvNumber(env.TRYON_RATE_LIMIT, defaults.rateLimit.limit),
+      windowMs: parseEnvNumber(env.TRYON_RATE_WINDOW_MS, defaults.rateLimit.windowMs),
+    },
+    maxBodyBytes: parseEnvNumber(env.TRYON_MAX_BODY_BYTES, defaults.maxBodyBytes),
+    limits: {
+      ...defaults.limits,
+      maxImageBytes: parseEnvNumber(env.TRYON_MAX_IMAGE_BYTES, defaults.limits.maxImageBytes),
+      allowCustomPrompts: env.TRYON_ALLOW_CUSTOM_PROMPTS === "true" || env.TRYON_ALLOW_CUSTOM_PROMPTS === "1",
+    },
+    trustProxy: env.TRUST_PROXY === "true" || env.TRUST_PROXY === "1",
+  };
+};
@@ -0,0 +1,79 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { createTryOnHandler, serverConfigFromEnv } from "./app";
+import { createGeminiModel } from "./model";
+import { parseOriginList } from "../services/embedProtocol";
+
+// Production entry point: serves the try-on API and the built app (dist/) from
+// one origin. Build with `npm run build && npm run build:server`, then
+// `npm start`.
+
+const PORT = Number(process.env.PORT) || 8787;
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR || "dist");
+// Storefronts allowed to frame embed.html; the same list must be set for `npm run build`
+const EMBED_ORIGINS = parseOriginList(process.env.TRYON_EMBED_ORIGINS);
+const EMBED_PAGE = path.join(STATIC_DIR, "embed.html");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".webmanifest": "application/manifest+json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+};
+
+const findFile = async (file: string) => {
+  try {
+    return (await stat(file)).isFile() ? file : null;
+  } catch {
+    return null;
+  }
+};
+
+// Built assets, with index.html for everything else so client-side routes load
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const pathname = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+  const requested = path.join(STATIC_DIR, path.normalize(pathname));
+  if (!requested.startsWith(STATIC_DIR)) {
+    res.writeHead(403).end();
+    return;
+  }
+  const file = (await findFile(requested)) ?? (await findFile(path.join(STATIC_DIR, "index.html")));
+  if (!file) {
+    res.writeHead(404).end();
+    return;
+  }
+  const headers: Record<string, string> = { "Content-Type": CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream" };
+  if (file === EMBED_PAGE) {
+    headers["Content-Security-Policy"] = `frame-ancestors ${EMBED_ORIGINS.join(" ") || "'none'"}`;
+  }
+  res.writeHead(200, headers);
+  createReadStream(file).pipe(res);
+};
+
+if (!process.env.GEMINI_API_KEY) {
+  console.warn("GEMINI_API_KEY is not set; try-on requests will fail until it is.");
+}
+
+const handleTryOn = createTryOnHandler({
+  model: createGeminiModel(process.env.GEMINI_API_KEY),
+  ...serverConfigFromEnv(process.env),
+});
+
+createServer((req, res) => {
+  const handler = req.url?.startsWith("/api/") ? handleTryOn : serveStatic;
+  handler(req, res).catch(error => {
+    console.error("Unhandled server error:", error);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+}).listen(PORT, () => {
+  console.log(`Saree.AI listening on http://localhost:${PORT}`);
+});
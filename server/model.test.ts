@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { GenerateContentResponse } from "@google/genai";
+import { TryOnError } from "../services/errors";
+import { MAX_GROUP_PEOPLE } from "../constants";
+import { parsePeopleDetectionResponse, parseSareeAnalysisResponse } from "./model";
+
+// The parsers are checked against canned model answers; no model is called.
+
+const textResponse = (text: string, finishReason = "STOP") => ({
+  candidates: [{ finishReason, content: { parts: text ? [{ text }] : [] } }],
+} as unknown as GenerateContentResponse);
+
+const thrown = (run: () => unknown): TryOnError => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof TryOnError) return error;
+    throw error;
+  }
+  throw new Error("Expected a TryOnError.");
+};
+
+describe("parseSareeAnalysisResponse", () => {
+  it("reads a valid answer", () => {
+    const { attributes, report } = parseSareeAnalysisResponse(textResponse(JSON.stringify({
+      colours: ["Maroon", "gold", "maroon"],
+      border: "Broad gold zari",
+      pattern: "Paisley buttis",
+      fabric: "Silk",
+      presentation: "worn",
+    })));
+
+    expect(attributes).toEqual({
+      colours: ["maroon", "gold"],
+      border: "Broad gold zari",
+      pattern: "Paisley buttis",
+      fabric: "silk",
+      presentation: "worn",
+    });
+    // The JSON is the payload, not a note for the user
+    expect(report.notes).toEqual([]);
+  });
+
+  it("accepts an answer wrapped in a Markdown code fence", () => {
+    const text = "```json\n" + JSON.stringify({ colours: ["teal"], border: "", pattern: "", fabric: "cotton", presentation: "flat-lay" }) + "\n```";
+    expect(parseSareeAnalysisResponse(textResponse(text)).attributes.fabric).toBe("cotton");
+  });
+
+  it("turns values outside the vocabulary into unknown", () => {
+    const { attributes } = parseSareeAnalysisResponse(textResponse(JSON.stringify({
+      colours: ["red"],
+      border: "None",
+      pattern: "N/A",
+      fabric: "velvet",
+      presentation: "folded in a box",
+    })));
+
+    expect(attributes.fabric).toBe("unknown");
+    expect(attributes.presentation).toBe("unknown");
+    expect(attributes.border).toBe("");
+    expect(attributes.pattern).toBe("");
+  });
+
+  it.each([
+    ["malformed JSON", "{\"colours\": [\"red\""],
+    ["JSON of the wrong shape", JSON.stringify({ colour: "red" })],
+    ["a prose answer", "This saree is red silk."],
+    ["an empty answer", ""],
+  ])("rejects %s as an unexpected answer", (_, text) => {
+    const error = thrown(() => parseSareeAnalysisResponse(textResponse(text)));
+    expect(error.kind).toBe("server");
+    expect(error.code).toBe("unexpected-answer");
+    expect(error.retryable).toBe(true);
+  });
+
+  it("reports a blocked answer as a safety block", () => {
+    const error = thrown(() => parseSareeAnalysisResponse(textResponse("", "SAFETY")));
+    expect(error.kind).toBe("safety-blocked");
+    expect(error.report?.finishReason).toBe("SAFETY");
+  });
+});
+
+describe("parsePeopleDetectionResponse", () => {
+  it("converts 0-1000 boxes to normalized rects, left to right", () => {
+    const { people, report } = parsePeopleDetectionResponse(textResponse(JSON.stringify([
+      { box_2d: [100, 600, 900, 800] },
+      { box_2d: [0, 100, 1000, 300] },
+    ])));
+
+    expect(people).toHaveLength(2);
+    expect(people[0]).toMatchObject({ x: 0.1, y: 0, height: 1 });
+    expect(people[0].width).toBeCloseTo(0.2);
+    expect(people[1]).toMatchObject({ x: 0.6, y: 0.1 });
+    expect(people[1].height).toBeCloseTo(0.8);
+    expect(report.notes).toEqual([]);
+  });
+
+  it("clamps boxes to the image and drops malformed ones", () => {
+    const { people } = parsePeopleDetectionResponse(textResponse(JSON.stringify([
+      { box_2d: [-50, -50, 500, 1200] },
+      { box_2d: [100, 100, 200] },
+      { box_2d: [500, 500, 400, 600] },
+      { box_2d: ["a", 0, 10, 10] },
+      { box: [0, 0, 10, 10] },
+    ])));
+
+    expect(people).toEqual([{ x: 0, y: 0, width: 1, height: 0.5 }]);
+  });
+
+  it("keeps at most the group size", () => {
+    const boxes = Array.from({ length: MAX_GROUP_PEOPLE + 2 }, (_, i) => ({ box_2d: [0, i * 10, 100, i * 10 + 5] }));
+    expect(parsePeopleDetectionResponse(textResponse(JSON.stringify(boxes))).people).toHaveLength(MAX_GROUP_PEOPLE);
+  });
+
+  it("returns no people for an empty list", () => {
+    expect(parsePeopleDetectionResponse(textResponse("[]")).people).toEqual([]);
+  });
+
+  it.each([
+    ["malformed JSON", "[{\"box_2d\": [1, 2"],
+    ["an object instead of a list", JSON.stringify({ box_2d: [0, 0, 10, 10] })],
+    ["an empty answer", ""],
+  ])("rejects %s as an unexpected answer", (_, text) => {
+    const error = thrown(() => parsePeopleDetectionResponse(textResponse(text)));
+    expect(error.kind).toBe("server");
+    expect(error.code).toBe("unexpected-answer");
+  });
+});
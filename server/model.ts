@@ -0,0 +1,288 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, MediaModality, Type } from "@google/genai";
+import {
+  GenerationOptions,
+  GenerationReport,
+  NormalizedRect,
+  PeopleDetection,
+  PeopleDetectionPayload,
+  RefinePayload,
+  SareeAnalysis,
+  SareeAnalysisPayload,
+  TokenUsage,
+  TryOnPayload,
+  TryOnResult
+} from "../types";
+import { MAX_GROUP_PEOPLE, SAREE_FABRICS, SAREE_PRESENTATIONS } from "../constants";
+import { createTryOnError } from "../services/errors";
+import { promptTemplateTag } from "../services/promptTemplates";
+import { parseSareeAttributes } from "../services/sareeAttributes";
+import {
+  GROUP_PROMPT_ID,
+  buildPeopleDetectionParts,
+  buildRefinementContents,
+  buildSareeAnalysisParts,
+  buildTryOnParts
+} from "./prompt";
+
+// The only part of the Gemini SDK the server uses. Injected into the request
+// handler so it can be exercised against a stub that returns canned responses.
+export interface TryOnModel {
+  generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+}
+
+export const IMAGE_MODEL = "gemini-3-pro-image-preview"; // Using the high-quality image model as requested
+// Saree analysis only needs text out, so a cheaper, faster model does it
+export const TEXT_MODEL = "gemini-2.5-flash";
+
+export const createGeminiModel = (apiKey: string | undefined): TryOnModel => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  return {
+    generateContent: async params => {
+      if (!ai) throw createTryOnError("auth", "GEMINI_API_KEY is not set on the try-on server.", { code: "api-key-missing" });
+      return ai.models.generateContent(params);
+    },
+  };
+};
+
+const SAFETY_FINISH_REASONS = [
+  "SAFETY",
+  "IMAGE_SAFETY",
+  "PROHIBITED_CONTENT",
+  "IMAGE_PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+  "RECITATION",
+];
+
+// Image output is billed at a different rate from text, so split it out
+const toTokenUsage = (metadata: GenerateContentResponse["usageMetadata"]): TokenUsage | undefined => {
+  if (!metadata) return undefined;
+  const output = metadata.candidatesTokenCount ?? 0;
+  const outputImage = (metadata.candidatesTokensDetails ?? [])
+    .filter(detail => detail.modality === MediaModality.IMAGE)
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  return {
+    input: metadata.promptTokenCount ?? 0,
+    outputText: Math.max(0, output - outputImage),
+    outputImage,
+    thoughts: metadata.thoughtsTokenCount ?? 0,
+    total: metadata.totalTokenCount ?? 0,
+  };
+};
+
+const buildReport = (response: GenerateContentResponse, model: string): GenerationReport => {
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+  const ratings = [
+    ...(response.promptFeedback?.safetyRatings ?? []),
+    ...(candidate?.safetyRatings ?? []),
+  ];
+
+  return {
+    finishReason: candidate?.finishReason,
+    finishMessage: candidate?.finishMessage,
+    blockReason: response.promptFeedback?.blockReason,
+    safetyRatings: ratings.map(rating => ({
+      category: rating.category ?? "HARM_CATEGORY_UNSPECIFIED",
+      probability: rating.probability ?? "PROBABILITY_UNSPECIFIED",
+      blocked: rating.blocked ?? false,
+    })),
+    // Skip "thought" parts; only user-facing text is worth showing as notes
+    notes: parts
+      .filter(part => part.text && !part.thought)
+      .map(part => part.text!.trim())
+      .filter(Boolean),
+    model,
+    usage: toTokenUsage(response.usageMetadata),
+  };
+};
+
+const isBlocked = (report: GenerationReport) =>
+  !!report.blockReason
+  || SAFETY_FINISH_REASONS.includes(report.finishReason ?? "")
+  || report.safetyRatings.some(rating => rating.blocked);
+
+const safetyError = (report: GenerationReport) => {
+  const reason = report.blockReason ?? report.finishReason ?? "SAFETY";
+  return createTryOnError(
+    "safety-blocked",
+    report.finishMessage || `The request was blocked by the model's safety filters (${reason}).`,
+    { report }
+  );
+};
+
+// Collects finish reason, safety ratings and text parts, then extracts the
+// image. Refusals and safety blocks are raised as TryOnErrors that carry the
+// report so the UI can explain why nothing was generated.
+export const parseTryOnResponse = (response: GenerateContentResponse): TryOnResult => {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const report = buildReport(response, IMAGE_MODEL);
+
+  const imagePart = parts.find(part => part.inlineData?.data && !part.thought);
+  if (imagePart?.inlineData) {
+    return {
+      image: `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}`,
+      report,
+      thoughtSignature: imagePart.thoughtSignature,
+    };
+  }
+
+  if (isBlocked(report)) throw safetyError(report);
+  throw createTryOnError(
+    "no-image",
+    report.notes[0] ? `No image generated. The model said: "${report.notes[0]}"` : undefined,
+    { report }
+  );
+};
+
+const imageConfigFor = (options: GenerationOptions) => ({
+  aspectRatio: options.aspectRatio,
+  imageSize: options.imageSize,
+});
+
+// Group requests render the group prompt, not the selected template
+const promptIdFor = (request: TryOnPayload) =>
+  request.group ? GROUP_PROMPT_ID : promptTemplateTag(request.promptTemplate);
+
+export const generateTryOn = async (model: TryOnModel, request: TryOnPayload, signal?: AbortSignal): Promise<TryOnResult> => {
+  const response = await model.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: buildTryOnParts(request),
+    },
+    config: {
+      abortSignal: signal,
+      imageConfig: imageConfigFor(request.options),
+    },
+  });
+  return { ...parseTryOnResponse(response), promptTemplateId: promptIdFor(request) };
+};
+
+export const refineTryOn = async (model: TryOnModel, request: RefinePayload, signal?: AbortSignal): Promise<TryOnResult> => {
+  const response = await model.generateContent({
+    model: IMAGE_MODEL,
+    contents: buildRefinementContents(request),
+    config: {
+      abortSignal: signal,
+      imageConfig: imageConfigFor(request.base.options),
+    },
+  });
+  return { ...parseTryOnResponse(response), promptTemplateId: promptIdFor(request.base) };
+};
+
+// Constrains the analysis answer to the SareeAttributes shape. The model can
+// still drift, so parseSareeAnalysisResponse validates it again.
+const SAREE_ATTRIBUTE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    colours: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Dominant colours, most prominent first" },
+    border: { type: Type.STRING, description: "Border and zari type; empty string if there is no border" },
+    pattern: { type: Type.STRING, description: "Pattern of the saree body; empty string if plain" },
+    fabric: { type: Type.STRING, enum: Object.keys(SAREE_FABRICS) },
+    presentation: { type: Type.STRING, enum: Object.keys(SAREE_PRESENTATIONS) },
+  },
+  required: ["colours", "border", "pattern", "fabric", "presentation"],
+  propertyOrdering: ["colours", "border", "pattern", "fabric", "presentation"],
+};
+
+// JSON answer of a text model call; null when it does not parse
+const parseJsonAnswer = (response: GenerateContentResponse, report: GenerationReport): unknown => {
+  if (isBlocked(report)) throw safetyError(report);
+  const text = (response.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join("")
+    // Tolerate a Markdown code fence around the JSON
+    .replace(/^\s*```(?:json)?|```\s*$/g, "");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+// Reads the JSON answer of a saree analysis call. Kept separate from the model
+// call so it can be checked against canned responses.
+export const parseSareeAnalysisResponse = (response: GenerateContentResponse): SareeAnalysis => {
+  const report = buildReport(response, TEXT_MODEL);
+  const attributes = parseSareeAttributes(parseJsonAnswer(response, report));
+  if (!attributes) {
+    throw createTryOnError("server", "The saree analysis returned an answer in an unexpected format.", {
+      report,
+      code: "unexpected-answer",
+    });
+  }
+  // The answer itself is the payload, not a note worth showing
+  return { attributes, report: { ...report, notes: [] } };
+};
+
+export const analyzeSaree = async (model: TryOnModel, request: SareeAnalysisPayload, signal?: AbortSignal): Promise<SareeAnalysis> => {
+  const response = await model.generateContent({
+    model: TEXT_MODEL,
+    contents: {
+      parts: buildSareeAnalysisParts(request),
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: SAREE_ATTRIBUTE_SCHEMA,
+    },
+  });
+  return parseSareeAnalysisResponse(response);
+};
+
+const PEOPLE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    },
+    required: ["box_2d"],
+  },
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// [ymin, xmin, ymax, xmax] on a 0-1000 grid -> normalized rect; null if malformed
+const toRect = (value: unknown): NormalizedRect | null => {
+  const box = typeof value === "object" && value !== null ? (value as { box_2d?: unknown }).box_2d : undefined;
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === "number" && Number.isFinite(n))) return null;
+  const [top, left, bottom, right] = box.map(n => clamp01(n / 1000));
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Reads the boxes of a people detection call, left to right. Malformed boxes
+// are dropped; an answer that is not a list is an error.
+export const parsePeopleDetectionResponse = (response: GenerateContentResponse): PeopleDetection => {
+  const report = buildReport(response, TEXT_MODEL);
+  const json = parseJsonAnswer(response, report);
+  if (!Array.isArray(json)) {
+    throw createTryOnError("server", "People detection returned an answer in an unexpected format.", {
+      report,
+      code: "unexpected-answer",
+    });
+  }
+  const people = json
+    .map(toRect)
+    .filter((rect): rect is NormalizedRect => rect !== null)
+    .sort((a, b) => a.x - b.x)
+    .slice(0, MAX_GROUP_PEOPLE);
+  return { people, report: { ...report, notes: [] } };
+};
+
+export const detectPeople = async (model: TryOnModel, request: PeopleDetectionPayload, signal?: AbortSignal): Promise<PeopleDetection> => {
+  const response = await model.generateContent({
+    model: TEXT_MODEL,
+    contents: {
+      parts: buildPeopleDetectionParts(request),
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: PEOPLE_SCHEMA,
+    },
+  });
+  return parsePeopleDetectionResponse(response);
+};
@@ -0,0 +1,286 @@
+import { Content, Part } from "@google/genai";
+import {
+  BlouseStyle,
+  GuidanceImage,
+  GuidanceRegionKind,
+  ImagePayload,
+  NormalizedRect,
+  PeopleDetectionPayload,
+  PromptVariables,
+  RefinePayload,
+  SareeAnalysisPayload,
+  TryOnPayload
+} from "../types";
+import { BACKGROUND_MODES, NECKLINES, SLEEVE_LENGTHS, getDrapeStyle } from "../constants";
+import { escapePromptText, getPromptTemplate, renderPromptTemplate } from "../services/promptTemplates";
+import { describeSareeAttributes } from "../services/sareeAttributes";
+
+// Prompt construction for the try-on model. The VTO instructions come from a
+// versioned template (services/promptTemplates.ts); this fills in its variables
+// and labels the input images.
+
+const GUIDANCE_LABELS: Record<GuidanceRegionKind, string> = {
+  pallu: "pallu",
+  border: "border / zari",
+};
+
+// Close-up crops of user-marked saree details, each followed by its label
+const buildGuidanceParts = (guidance: GuidanceImage[]) => {
+  return guidance.flatMap((detail, index) => [
+    {
+      inlineData: {
+        mimeType: detail.mimeType,
+        data: detail.base64
+      }
+    },
+    {
+      text: `Image 2.${index + 1}: Close-up of the saree ${GUIDANCE_LABELS[detail.kind]} from Image 2 (MUST BE REPRODUCED EXACTLY)`
+    }
+  ]);
+};
+
+const imagePart = (image: ImagePayload): Part => ({
+  inlineData: {
+    mimeType: image.mimeType,
+    data: image.base64
+  }
+});
+
+// "Sleeveless and a boat neckline"; empty when both are left to the model
+const describeBlouseStyle = ({ sleeve, neckline }: BlouseStyle) => {
+  return [SLEEVE_LENGTHS[sleeve].promptFragment, NECKLINES[neckline].promptFragment]
+    .filter(Boolean)
+    .join(" and ");
+};
+
+const imageRange = (first: number, count: number) =>
+  count === 1 ? `Image ${first}` : `Images ${first}-${first + count - 1}`;
+
+// Optional outfit pieces are numbered after the saree (Image 3 onwards). Returns
+// the labelled image parts plus the input and instruction lines for the prompt.
+const buildAccessoryParts = (
+  { blouse, jewellery, footwear }: TryOnPayload["accessories"],
+  blouseStyle: string
+) => {
+  const parts: Part[] = [];
+  const inputs: string[] = [];
+  const instructions: string[] = [];
+  let next = 3;
+
+  if (blouse) {
+    parts.push(imagePart(blouse), { text: `Image ${next}: Blouse (MUST BE REPRODUCED EXACTLY)` });
+    inputs.push(`- Image ${next}: The "Blouse" to wear under the saree.`);
+    instructions.push(`- Dress the person in the blouse from Image ${next}, preserving its fabric, colour and embellishment exactly${blouseStyle ? `, tailored with ${blouseStyle}` : ""}.`);
+    next += 1;
+  } else if (blouseStyle) {
+    instructions.push(`- Use a blouse with ${blouseStyle} that complements the saree.`);
+  }
+
+  if (jewellery.length > 0) {
+    jewellery.forEach((piece, index) => {
+      parts.push(imagePart(piece), { text: `Image ${next + index}: Jewellery piece ${index + 1}` });
+    });
+    const range = imageRange(next, jewellery.length);
+    inputs.push(`- ${range}: "Jewellery" pieces to wear with the outfit.`);
+    instructions.push(`- Add the jewellery from ${range}, each piece where it is naturally worn (neck, ears, wrists, hair, waist), reproducing its design exactly. Jewellery must not alter the face.`);
+    next += jewellery.length;
+  }
+
+  if (footwear) {
+    parts.push(imagePart(footwear), { text: `Image ${next}: Footwear` });
+    inputs.push(`- Image ${next}: The "Footwear".`);
+    instructions.push(`- Put the footwear from Image ${next} on the feet, matching its design exactly. If the feet are outside the frame, leave it out rather than reframing the photo.`);
+  }
+
+  return { parts, inputs, instructions };
+};
+
+// Group requests use their own prompt; templates describe a single person
+export const GROUP_PROMPT_ID = "group-v1";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// "from 12% to 34% of the width and 20% to 95% of the height"
+const describeBox = ({ x, y, width, height }: NormalizedRect) =>
+  `from ${percent(x)} to ${percent(x + width)} of the width and ${percent(y)} to ${percent(y + height)} of the height`;
+
+const sareeLetter = (index: number) => String.fromCharCode(65 + index);
+
+// Group photo: each saree image is labelled with the people who wear it, and
+// every person, dressed or not, gets a line saying what happens to them.
+const buildGroupTryOnParts = ({
+  human,
+  saree,
+  drapeStyle: drapeStyleId,
+  options,
+  blouseStyle,
+  group
+}: TryOnPayload & { group: NonNullable<TryOnPayload["group"]> }): Part[] => {
+  const drapeStyle = getDrapeStyle(drapeStyleId);
+  const blouse = describeBlouseStyle(blouseStyle);
+  const sarees = [saree, ...group.sarees];
+  const wearers = (sareeIndex: number) => group.people
+    .map((person, index) => person.saree === sareeIndex ? `Person ${index + 1}` : null)
+    .filter(Boolean)
+    .join(", ");
+
+  const sareeParts = sarees.flatMap((image, index) => [
+    imagePart(image),
+    { text: `Image ${index + 2}: Saree ${sareeLetter(index)}, for ${wearers(index) || "nobody"} (MUST BE REPRODUCED EXACTLY)` },
+  ]);
+
+  const people = group.people.map((person, index) => {
+    const where = `Person ${index + 1} (${describeBox(person.box)})`;
+    return person.saree === null
+      ? `- ${where}: leave COMPLETELY UNCHANGED, including their clothes.`
+      : `- ${where}: dress in Saree ${sareeLetter(person.saree)} (Image ${person.saree + 2}).`;
+  });
+
+  const prompt = `Perform a highly realistic Virtual Try-On (VTO) on a GROUP photo.
+
+INPUTS:
+- Image 1: The "Group Photo" with ${group.people.length} people.
+- ${imageRange(2, sarees.length)}: The sarees to put on them, labelled with who wears which.
+
+PEOPLE (positions are measured from the top-left of Image 1):
+${people.join("\n")}
+People not listed above also stay exactly as they are.
+
+CRITICAL PRIORITY: ABSOLUTE FACIAL PRESERVATION
+- Every face in the output MUST BE IDENTICAL to the same face in Image 1, for dressed and untouched people alike.
+- Do NOT change facial expressions, make-up, skin texture, age or identity, and do not swap anyone's position.
+
+CONSTRAINTS:
+1. Keep every person's body shape, height and pose, and the arrangement of the group.
+2. Preserve each saree's exact pattern, border (zari), colour and texture. Never mix sarees between people.
+3. ${drapeStyle.promptFragment} Use realistic fabric physics for the ${drapeStyle.name} drape on every dressed person.${blouse ? `\n4. Use blouses with ${blouse} that complement each saree.` : ""}
+
+BACKGROUND:
+- ${BACKGROUND_MODES[options.background.mode].describe(options.background.sceneDescription)}
+- Frame the whole group for a ${options.aspectRatio} image without cropping anyone.
+
+OUTPUT:
+- Return ONLY the final result image.`;
+
+  return [
+    imagePart(human),
+    { text: "Image 1: Group Photo (ALL FACES MUST REMAIN UNCHANGED)" },
+    ...sareeParts,
+    { text: prompt },
+  ];
+};
+
+// Input images, their labels and the VTO instructions for a try-on request
+export const buildTryOnParts = (payload: TryOnPayload): Part[] => {
+  if (payload.group) return buildGroupTryOnParts({ ...payload, group: payload.group });
+  return buildSingleTryOnParts(payload);
+};
+
+const buildSingleTryOnParts = ({
+  human,
+  saree,
+  drapeStyle: drapeStyleId,
+  options,
+  sareeGuidance,
+  accessories,
+  blouseStyle,
+  promptTemplate,
+  sareeAttributes
+}: TryOnPayload): Part[] => {
+  const drapeStyle = getDrapeStyle(drapeStyleId);
+  const { background } = options;
+  const outfit = buildAccessoryParts(accessories, describeBlouseStyle(blouseStyle));
+  const hasGuidance = sareeGuidance.length > 0;
+  // Extracted attributes sit with the other garment-fidelity instructions
+  const garmentLines = [
+    ...(hasGuidance
+      ? ["Use the close-up detail images as the ground truth for the motifs of the pallu and border; they must be clearly visible and unaltered in the result."]
+      : []),
+    ...(sareeAttributes ? describeSareeAttributes(sareeAttributes).map(escapePromptText) : []),
+  ];
+
+  const variables: PromptVariables = {
+    drapeName: drapeStyle.name,
+    drapeInstructions: drapeStyle.promptFragment,
+    guidanceInputs: hasGuidance
+      ? `\n- Images 2.1-2.${sareeGuidance.length}: Close-ups of saree details (pallu, border) that the user marked as must-preserve.`
+      : "",
+    guidanceInstructions: garmentLines.map(line => `\n   - ${line}`).join(""),
+    outfitInputs: outfit.inputs.map(line => `\n${line}`).join(""),
+    outfitSection: outfit.instructions.length > 0
+      ? `\n\n{{n}}. OUTFIT PIECES:${outfit.instructions.map(line => `\n   ${line}`).join("")}`
+      : "",
+    backgroundInstructions: BACKGROUND_MODES[background.mode].describe(escapePromptText(background.sceneDescription)),
+    aspectRatio: options.aspectRatio,
+  };
+  // Validation guarantees the id exists
+  const body = promptTemplate.body ?? getPromptTemplate(promptTemplate.id)!.body;
+  const prompt = renderPromptTemplate(body, variables);
+
+  return [
+    imagePart(human),
+    {
+      text: "Image 1: Target Person (FACE MUST REMAIN UNCHANGED)"
+    },
+    imagePart(saree),
+    {
+      text: "Image 2: Garment (Saree)"
+    },
+    ...buildGuidanceParts(sareeGuidance),
+    ...outfit.parts,
+    {
+      text: prompt
+    }
+  ];
+};
+
+// Asks the text model to describe the saree for SAREE_ATTRIBUTE_SCHEMA
+export const buildSareeAnalysisParts = ({ saree }: SareeAnalysisPayload): Part[] => [
+  imagePart(saree),
+  {
+    text: `Describe the saree in this image for a virtual try-on.
+- colours: up to five dominant colours, most prominent first, as plain colour names (e.g. "maroon", "antique gold").
+- border: the border and zari work, e.g. "broad gold zari temple border"; empty if there is no distinct border.
+- pattern: the pattern of the saree body, e.g. "small silver paisley buttas"; empty if plain.
+- fabric: the most likely fabric.
+- presentation: "flat-lay" if laid flat, "hanger" if on a hanger or folded for display, "worn" if a person is wearing it.
+Use "unknown" for fabric or presentation when unsure. Describe only the saree, never a person.`
+  }
+];
+
+// Asks the text model for a box around each person, for PEOPLE_SCHEMA
+export const buildPeopleDetectionParts = ({ photo }: PeopleDetectionPayload): Part[] => [
+  imagePart(photo),
+  {
+    text: `Find every person in this photo, including people who are partly hidden. For each, return box_2d as [ymin, xmin, ymax, xmax] normalised to 0-1000, covering the whole visible person from head to feet. Do not return boxes for faces in pictures, posters or reflections.`
+  }
+];
+
+// "data:image/png;base64,AAAA" -> inline data part
+const dataUrlToPart = (dataUrl: string, thoughtSignature?: string): Part => {
+  const [header, data] = dataUrl.split(",");
+  const mimeType = /data:([^;]+)/.exec(header)?.[1] ?? "image/png";
+  return { inlineData: { mimeType, data }, thoughtSignature };
+};
+
+// Replays the conversation that produced the current version (original request,
+// then each instruction with the image the model answered with) and asks for
+// one more edit on top of it.
+export const buildRefinementContents = ({ base, turns, instruction }: RefinePayload): Content[] => {
+  const contents: Content[] = [];
+  turns.forEach((turn, index) => {
+    contents.push({
+      role: "user",
+      parts: index === 0 ? buildTryOnParts(base) : [{ text: turn.instruction ?? "" }],
+    });
+    contents.push({ role: "model", parts: [dataUrlToPart(turn.image, turn.thoughtSignature)] });
+  });
+  contents.push({
+    role: "user",
+    parts: [{
+      text: `Edit your last image: ${instruction.trim()}
+Keep everything else identical: the person's face, body, pose, the saree's pattern, border and colours, and the background. Return ONLY the edited image.`,
+    }],
+  });
+  return contents;
+};
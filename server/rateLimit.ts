@@ -0,0 +1,50 @@
+// Fixed-window request counter per client. Kept in memory, so limits apply per
+// server process; put a shared store in front when running several instances.
+
+export interface RateLimitOptions {
+  // Requests allowed per client in each window; 0 disables limiting
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // How long until the client's window resets, when the request was refused
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check: (clientId: string) => RateLimitDecision;
+}
+
+export const createRateLimiter = (
+  { limit, windowMs }: RateLimitOptions,
+  now: () => number = Date.now
+): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Expired windows are dropped lazily so idle clients don't accumulate
+  const prune = (time: number) => {
+    windows.forEach((window, clientId) => {
+      if (time - window.start >= windowMs) windows.delete(clientId);
+    });
+  };
+
+  return {
+    check: (clientId) => {
+      if (limit <= 0) return { allowed: true, retryAfterMs: 0 };
+      const time = now();
+      let window = windows.get(clientId);
+      if (!window || time - window.start >= windowMs) {
+        if (windows.size > 10_000) prune(time);
+        window = { start: time, count: 0 };
+        windows.set(clientId, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterMs: window.start + windowMs - time };
+      }
+      window.count += 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,290 @@
+import {
+  BlouseStyle,
+  GroupPayload,
+  GuidanceImage,
+  ImagePayload,
+  MessageParams,
+  NormalizedRect,
+  PeopleDetectionPayload,
+  PromptTemplateSelection,
+  RefinePayload,
+  RefinementTurn,
+  SareeAnalysisPayload,
+  SareeAttributes,
+  TryOnApiRequest,
+  TryOnErrorCode,
+  TryOnPayload
+} from "../types";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  DEFAULT_BLOUSE_STYLE,
+  DRAPE_STYLES,
+  MAX_GROUP_PEOPLE,
+  MAX_GROUP_SAREES,
+  MAX_JEWELLERY_IMAGES,
+  NECKLINES,
+  SLEEVE_LENGTHS
+} from "../constants";
+import { createTryOnError } from "../services/errors";
+import { normalizeGenerationOptions } from "../services/settingsStore";
+import { DEFAULT_PROMPT_TEMPLATE_ID, findUnknownVariables, getPromptTemplate } from "../services/promptTemplates";
+import { parseSareeAttributes } from "../services/sareeAttributes";
+
+// Validates the JSON body of /api/try-on and rebuilds it from known fields only,
+// so nothing unexpected is forwarded to the model. Oversized input is refused
+// here, before it costs a model call.
+
+export interface PayloadLimits {
+  // Decoded size of any single image
+  maxImageBytes: number;
+  // Images across the whole request, including refinement history
+  maxImages: number;
+  maxInstructionLength: number;
+  // Accept edited template bodies from the developer panel; off in production
+  allowCustomPrompts: boolean;
+}
+
+const MAX_TEMPLATE_LENGTH = 20_000;
+
+const GUIDANCE_KINDS = ["pallu", "border"];
+
+type Fields = Record<string, unknown>;
+
+const invalid = (message: string, code?: TryOnErrorCode, params?: MessageParams) =>
+  createTryOnError("invalid-request", message, { status: 400, code, params });
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const formatMb = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+const decodedSize = (base64: string) =>
+  Math.floor((base64.length * 3) / 4) - (base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0);
+
+const createValidator = (limits: PayloadLimits) => {
+  let imageCount = 0;
+
+  const image = (value: unknown, label: string): ImagePayload => {
+    if (!isObject(value) || typeof value.base64 !== "string" || typeof value.mimeType !== "string") {
+      throw invalid(`The ${label} image is missing or malformed.`);
+    }
+    if (!ACCEPTED_IMAGE_TYPES.includes(value.mimeType)) {
+      throw invalid(`The ${label} image has an unsupported type (${value.mimeType}).`, "image-unsupported");
+    }
+    if (decodedSize(value.base64) > limits.maxImageBytes) {
+      throw createTryOnError("invalid-request", `The ${label} image is larger than ${formatMb(limits.maxImageBytes)}.`, {
+        status: 413,
+        code: "image-too-large",
+        params: { mb: Math.round(limits.maxImageBytes / 1024 / 1024) },
+      });
+    }
+    imageCount += 1;
+    if (imageCount > limits.maxImages) {
+      throw createTryOnError("invalid-request", `A request can include at most ${limits.maxImages} images.`, {
+        status: 413,
+        code: "too-many-images",
+        params: { count: limits.maxImages },
+      });
+    }
+    return { base64: value.base64, mimeType: value.mimeType };
+  };
+
+  const optionalImage = (value: unknown, label: string) =>
+    value === null || value === undefined ? null : image(value, label);
+
+  const guidance = (value: unknown): GuidanceImage[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) throw invalid("Saree details must be a list.");
+    return value.map(detail => {
+      const kind = isObject(detail) ? detail.kind : undefined;
+      if (typeof kind !== "string" || !GUIDANCE_KINDS.includes(kind)) throw invalid("Unknown saree detail kind.");
+      return { kind: kind as GuidanceImage["kind"], ...image(detail, `saree ${kind}`) };
+    });
+  };
+
+  const blouseStyle = (value: unknown): BlouseStyle => {
+    if (!isObject(value)) return DEFAULT_BLOUSE_STYLE;
+    return {
+      sleeve: typeof value.sleeve === "string" && Object.hasOwn(SLEEVE_LENGTHS, value.sleeve)
+        ? value.sleeve as BlouseStyle["sleeve"]
+        : DEFAULT_BLOUSE_STYLE.sleeve,
+      neckline: typeof value.neckline === "string" && Object.hasOwn(NECKLINES, value.neckline)
+        ? value.neckline as BlouseStyle["neckline"]
+        : DEFAULT_BLOUSE_STYLE.neckline,
+    };
+  };
+
+  const promptTemplate = (value: unknown): PromptTemplateSelection => {
+    if (value === undefined) return { id: DEFAULT_PROMPT_TEMPLATE_ID };
+    if (!isObject(value) || typeof value.id !== "string" || !getPromptTemplate(value.id)) {
+      throw invalid("Unknown prompt template.");
+    }
+    if (value.body === undefined) return { id: value.id };
+    if (!limits.allowCustomPrompts) {
+      throw createTryOnError("invalid-request", "Edited prompt templates are disabled on this server.", {
+        status: 403,
+        code: "custom-prompts-disabled",
+      });
+    }
+    if (typeof value.body !== "string" || !value.body.trim() || value.body.length > MAX_TEMPLATE_LENGTH) {
+      throw invalid("The edited prompt template is empty or too long.");
+    }
+    const unknown = findUnknownVariables(value.body);
+    if (unknown.length > 0) throw invalid(`Unknown prompt variables: ${unknown.join(", ")}.`);
+    return { id: value.id, body: value.body };
+  };
+
+  const sareeAttributes = (value: unknown): SareeAttributes | null => {
+    if (value === undefined || value === null) return null;
+    const attributes = parseSareeAttributes(value);
+    if (!attributes) throw invalid("Malformed saree attributes.");
+    return attributes;
+  };
+
+  const box = (value: unknown): NormalizedRect => {
+    const fields = isObject(value) ? [value.x, value.y, value.width, value.height] : [];
+    if (fields.length !== 4 || !fields.every(n => typeof n === "number" && n >= 0 && n <= 1)) {
+      throw invalid("Malformed person position.");
+    }
+    const [x, y, width, height] = fields as number[];
+    return { x, y, width, height };
+  };
+
+  // Saree indexes point into [request saree, ...group sarees]
+  const group = (value: unknown): GroupPayload | null => {
+    if (value === undefined || value === null) return null;
+    if (!isObject(value) || !Array.isArray(value.people) || !Array.isArray(value.sarees)) {
+      throw invalid("Malformed group request.");
+    }
+    if (value.people.length === 0 || value.people.length > MAX_GROUP_PEOPLE) {
+      throw invalid(`A group can have 1 to ${MAX_GROUP_PEOPLE} people.`, "group-too-large", { count: MAX_GROUP_PEOPLE });
+    }
+    if (value.sarees.length >= MAX_GROUP_SAREES) {
+      throw invalid(`A group can wear at most ${MAX_GROUP_SAREES} different sarees.`, "group-too-many-sarees", {
+        count: MAX_GROUP_SAREES,
+      });
+    }
+    const sarees = value.sarees.map((saree, index) => image(saree, `group saree ${index + 2}`));
+    const people = value.people.map(person => {
+      const saree = isObject(person) ? person.saree : undefined;
+      if (saree !== null && !(Number.isInteger(saree) && (saree as number) >= 0 && (saree as number) <= sarees.length)) {
+        throw invalid("A person is assigned an unknown saree.");
+      }
+      return { box: box(isObject(person) ? person.box : undefined), saree: saree as number | null };
+    });
+    if (!people.some(person => person.saree !== null)) {
+      throw invalid("Assign a saree to at least one person.", "group-unassigned");
+    }
+    return { people, sarees };
+  };
+
+  // The scene description goes into the prompt verbatim, so it is capped like an instruction
+  const generationOptions = (value: unknown) => {
+    const background: Fields = isObject(value) && isObject(value.background) ? value.background : {};
+    const { sceneDescription } = background;
+    if (typeof sceneDescription === "string" && sceneDescription.length > limits.maxInstructionLength) {
+      throw invalid(`The scene description is longer than ${limits.maxInstructionLength} characters.`, "scene-too-long", {
+        count: limits.maxInstructionLength,
+      });
+    }
+    return normalizeGenerationOptions(isObject(value) ? value : null);
+  };
+
+  const tryOn = (value: unknown): TryOnPayload => {
+    if (!isObject(value)) throw invalid("Missing try-on request.");
+    if (typeof value.drapeStyle !== "string" || !Object.hasOwn(DRAPE_STYLES, value.drapeStyle)) {
+      throw invalid("Unknown drape style.");
+    }
+    const accessories = isObject(value.accessories) ? value.accessories : {};
+    const jewellery = accessories.jewellery ?? [];
+    if (!Array.isArray(jewellery) || jewellery.length > MAX_JEWELLERY_IMAGES) {
+      throw invalid(`At most ${MAX_JEWELLERY_IMAGES} jewellery images are allowed.`, "too-many-jewellery", {
+        count: MAX_JEWELLERY_IMAGES,
+      });
+    }
+    const payload: TryOnPayload = {
+      human: image(value.human, "person"),
+      saree: image(value.saree, "saree"),
+      drapeStyle: value.drapeStyle as TryOnPayload["drapeStyle"],
+      options: generationOptions(value.options),
+      sareeGuidance: guidance(value.sareeGuidance),
+      accessories: {
+        blouse: optionalImage(accessories.blouse, "blouse"),
+        jewellery: jewellery.map((piece, index) => image(piece, `jewellery ${index + 1}`)),
+        footwear: optionalImage(accessories.footwear, "footwear"),
+      },
+      blouseStyle: blouseStyle(value.blouseStyle),
+      promptTemplate: promptTemplate(value.promptTemplate),
+      sareeAttributes: sareeAttributes(value.sareeAttributes),
+      group: group(value.group),
+    };
+    // The group prompt would silently drop these, so they are refused instead
+    const { blouse, footwear } = payload.accessories;
+    if (payload.group && (blouse || footwear || jewellery.length > 0 || payload.sareeGuidance.length > 0 || payload.sareeAttributes)) {
+      throw invalid("Accessories, saree details and saree attributes are not supported for group try-ons.");
+    }
+    return payload;
+  };
+
+  const analysis = (value: unknown): SareeAnalysisPayload => {
+    if (!isObject(value)) throw invalid("Missing saree analysis request.");
+    return { saree: image(value.saree, "saree") };
+  };
+
+  const instruction = (value: unknown, label: string): string => {
+    if (typeof value !== "string" || !value.trim()) throw invalid(`The ${label} is empty.`);
+    if (value.length > limits.maxInstructionLength) {
+      throw invalid(`The ${label} is longer than ${limits.maxInstructionLength} characters.`, "instruction-too-long", {
+        count: limits.maxInstructionLength,
+      });
+    }
+    return value;
+  };
+
+  // Turn images are data URLs of earlier model output
+  const turn = (value: unknown, index: number): RefinementTurn => {
+    if (!isObject(value) || typeof value.image !== "string") throw invalid("Malformed refinement history.");
+    const [header = "", data = ""] = value.image.split(",");
+    const mimeType = /^data:([^;]+);base64$/.exec(header)?.[1];
+    image({ base64: data, mimeType }, `refinement ${index + 1}`);
+    return {
+      instruction: index === 0 ? null : instruction(value.instruction, "refinement instruction"),
+      image: value.image,
+      thoughtSignature: typeof value.thoughtSignature === "string" ? value.thoughtSignature : undefined,
+    };
+  };
+
+  const refine = (value: unknown): RefinePayload => {
+    if (!isObject(value)) throw invalid("Missing refinement request.");
+    if (!Array.isArray(value.turns) || value.turns.length === 0) throw invalid("Refinement needs the look to edit.");
+    return {
+      base: tryOn(value.base),
+      turns: value.turns.map(turn),
+      instruction: instruction(value.instruction, "instruction"),
+    };
+  };
+
+  const detection = (value: unknown): PeopleDetectionPayload => {
+    if (!isObject(value)) throw invalid("Missing people detection request.");
+    return { photo: image(value.photo, "group photo") };
+  };
+
+  return { tryOn, refine, analysis, detection };
+};
+
+export const parseTryOnApiRequest = (body: unknown, limits: PayloadLimits): TryOnApiRequest => {
+  if (!isObject(body)) throw invalid("Expected a JSON object.");
+  const validate = createValidator(limits);
+  switch (body.type) {
+    case "generate":
+      return { type: "generate", request: validate.tryOn(body.request) };
+    case "refine":
+      return { type: "refine", request: validate.refine(body.request) };
+    case "analyze-saree":
+      return { type: "analyze-saree", request: validate.analysis(body.request) };
+    case "detect-people":
+      return { type: "detect-people", request: validate.detection(body.request) };
+    default:
+      throw invalid("Unknown request type.");
+  }
+};
@@ -0,0 +1,78 @@
+import { BatchItemState, CatalogItem } from "../types";
+import { classifyError, toAppError } from "./errors";
+import { LifecycleOptions } from "./requestLifecycle";
+
+// Generates one item. Retries happen inside (see runWithLifecycle), which
+// reports each one through `onRetry` so the batch can show the attempt count.
+export type BatchItemRunner = (
+  item: CatalogItem,
+  signal?: AbortSignal,
+  onRetry?: LifecycleOptions["onRetry"]
+) => Promise<string>;
+
+export interface BatchRunOptions {
+  // Maximum number of items generated at the same time
+  concurrency: number;
+  signal?: AbortSignal;
+  onUpdate: (state: BatchItemState) => void;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export const createPendingState = (itemId: string): BatchItemState => ({
+  itemId,
+  status: "pending",
+  attempts: 0,
+  result: null,
+  error: null,
+});
+
+// Runs `runItem` for every catalog item with bounded concurrency. Progress is
+// reported through `onUpdate` after each state change. The batch does not
+// retry on top of `runItem`, so one item never costs more generations than a
+// single try-on. Aborting the signal stops scheduling new items; results of
+// items already in flight are discarded and they are reported as cancelled.
+export const runBatch = async (
+  items: CatalogItem[],
+  runItem: BatchItemRunner,
+  { concurrency, signal, onUpdate }: BatchRunOptions
+): Promise<BatchItemState[]> => {
+  const states = new Map<string, BatchItemState>(
+    items.map(item => [item.id, createPendingState(item.id)])
+  );
+
+  const update = (itemId: string, patch: Partial<BatchItemState>) => {
+    const next = { ...states.get(itemId)!, ...patch };
+    states.set(itemId, next);
+    onUpdate(next);
+  };
+
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < items.length) {
+      const item = items[cursor++];
+      if (signal?.aborted) {
+        update(item.id, { status: "cancelled" });
+        continue;
+      }
+
+      update(item.id, { status: "running", attempts: 1, error: null });
+      try {
+        const result = await runItem(item, signal, attempt => update(item.id, { attempts: attempt + 1 }));
+        update(item.id, signal?.aborted
+          ? { status: "cancelled" }
+          : { status: "succeeded", result });
+      } catch (e) {
+        update(item.id, signal?.aborted
+          ? { status: "cancelled" }
+          : { status: "failed", error: toAppError(classifyError(e)) });
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return items.map(item => states.get(item.id)!);
+};
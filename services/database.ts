@@ -0,0 +1,61 @@
+// Shared IndexedDB connection for everything the app persists locally.
+// Bump DB_VERSION and extend `upgrade` when adding a new object store.
+
+const DB_NAME = "saree-ai";
+const DB_VERSION = 2;
+
+export const STORES = {
+  history: "history",
+  queue: "queue",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(STORES.history, { keyPath: "id" });
+    history.createIndex("createdAt", "createdAt");
+  }
+  if (oldVersion < 2) {
+    const queue = db.createObjectStore(STORES.queue, { keyPath: "id" });
+    queue.createIndex("createdAt", "createdAt");
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing quirks)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Runs one request against `storeName` in its own transaction
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+};
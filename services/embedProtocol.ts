@@ -0,0 +1,90 @@
+import { EmbedHostMessage, EmbedProtocolErrorCode, EmbedSaree, EmbedWidgetEvent, Locale } from "../types";
+import { isLocale } from "./settingsStore";
+
+// postMessage protocol between the embeddable widget (embed.html) and the
+// storefront page that frames it. Every message is wrapped in an envelope with
+// the protocol name and version; the version only changes on breaking changes.
+export const EMBED_PROTOCOL = "saree-ai-embed";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedEnvelope<T> = T & { protocol: typeof EMBED_PROTOCOL; version: number };
+
+export type ParsedHostMessage =
+  | { message: EmbedHostMessage }
+  | { error: EmbedProtocolErrorCode; detail: string };
+
+const IMAGE_URL_PROTOCOLS = ["https:", "http:", "data:"];
+
+// "https://shop.example.com/, https://partner.in" -> their origins. Entries
+// that are not http(s) URLs are dropped, so a typo never allows everything.
+export const parseOriginList = (value: string | undefined): string[] => {
+  const origins = (value ?? "").split(",").flatMap(entry => {
+    try {
+      const url = new URL(entry.trim());
+      return url.protocol === "https:" || url.protocol === "http:" ? [url.origin] : [];
+    } catch {
+      return [];
+    }
+  });
+  return Array.from(new Set(origins));
+};
+
+export const isAllowedOrigin = (origin: string, allowedOrigins: string[]) => allowedOrigins.includes(origin);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const parseSaree = (value: unknown): EmbedSaree | null => {
+  if (!isRecord(value) || typeof value.imageUrl !== "string") return null;
+  let url: URL;
+  try {
+    url = new URL(value.imageUrl);
+  } catch {
+    return null;
+  }
+  if (!IMAGE_URL_PROTOCOLS.includes(url.protocol)) return null;
+  if (url.protocol === "data:" && !value.imageUrl.startsWith("data:image/")) return null;
+
+  const metadata = isRecord(value.metadata)
+    ? Object.fromEntries(Object.entries(value.metadata).filter(([, entry]) =>
+        ["string", "number", "boolean"].includes(typeof entry))) as EmbedSaree["metadata"]
+    : undefined;
+  return {
+    imageUrl: value.imageUrl,
+    id: optionalString(value.id),
+    name: optionalString(value.name),
+    metadata,
+  };
+};
+
+// Returns null for messages that are not for this protocol (other scripts on
+// the host page post messages too); those are ignored rather than answered.
+export const parseHostMessage = (data: unknown): ParsedHostMessage | null => {
+  if (!isRecord(data) || data.protocol !== EMBED_PROTOCOL) return null;
+  if (data.version !== EMBED_PROTOCOL_VERSION) {
+    return { error: "unsupported-version", detail: `Protocol version ${String(data.version)} is not supported; use ${EMBED_PROTOCOL_VERSION}.` };
+  }
+  switch (data.type) {
+    case "init": {
+      const saree = parseSaree(data.saree);
+      if (!saree) return { error: "invalid-message", detail: "init needs saree.imageUrl as an http(s) or data:image URL." };
+      const { locale } = data;
+      if (locale !== undefined && !isLocale(locale)) {
+        return { error: "invalid-message", detail: `Unsupported locale ${String(locale)}.` };
+      }
+      return { message: { type: "init", saree, locale: locale as Locale | undefined } };
+    }
+    case "reset":
+      return { message: { type: "reset" } };
+    default:
+      return { error: "invalid-message", detail: `Unknown message type ${String(data.type)}.` };
+  }
+};
+
+export const toEnvelope = (event: EmbedWidgetEvent): EmbedEnvelope<EmbedWidgetEvent> => ({
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  ...event,
+});
@@ -0,0 +1,171 @@
+import {
+  AppError,
+  GenerationReport,
+  MessageParams,
+  SafetyRatingSummary,
+  TryOnErrorCode,
+  TryOnErrorKind
+} from "../types";
+import { MessageKey } from "../i18n/en";
+
+// Typed failure taxonomy for try-on requests. Providers throw (or are wrapped
+// into) TryOnError so the lifecycle layer can decide what to retry and the UI
+// can show guidance that matches the actual cause.
+
+interface TryOnErrorOptions {
+  status?: number;
+  report?: GenerationReport;
+  code?: TryOnErrorCode;
+  params?: MessageParams;
+}
+
+export class TryOnError extends Error {
+  readonly kind: TryOnErrorKind;
+  // What the UI translates; `message` is the English text for logs
+  readonly code: TryOnErrorCode;
+  readonly params?: MessageParams;
+  // HTTP status reported by the backend, when there was one
+  readonly status?: number;
+  // Finish reason, safety ratings and notes from the model, when it responded
+  readonly report?: GenerationReport;
+
+  constructor(
+    kind: TryOnErrorKind,
+    message: string,
+    options: TryOnErrorOptions & { cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "TryOnError";
+    this.kind = kind;
+    this.code = options.code ?? kind;
+    this.params = options.params;
+    this.status = options.status;
+    this.report = options.report;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+const RETRYABLE_KINDS: TryOnErrorKind[] = ["quota", "network", "server", "timeout"];
+
+const DEFAULT_MESSAGES: Record<TryOnErrorKind, string> = {
+  "auth": "The try-on server's Gemini API key is missing or invalid.",
+  "quota": "The model is receiving too many requests right now.",
+  "safety-blocked": "The request was blocked by the model's safety filters.",
+  "no-image": "No image generated in the response.",
+  "network": "Could not reach the try-on service. Check your connection.",
+  "server": "The try-on service had a temporary problem.",
+  "timeout": "The request took too long and was stopped.",
+  "cancelled": "Generation cancelled.",
+  "invalid-request": "The try-on server rejected the request.",
+  "budget-exceeded": "Today's estimated spend has reached your daily budget.",
+  "unknown": "Failed to generate image. Please try again.",
+};
+
+export const createTryOnError = (
+  kind: TryOnErrorKind,
+  message?: string,
+  options: TryOnErrorOptions = {}
+) => {
+  return new TryOnError(kind, message || DEFAULT_MESSAGES[kind], options);
+};
+
+// What the error banner needs; the code is translated when it is shown
+export const toAppError = ({ message, kind, code, params, report }: TryOnError): AppError => ({
+  message,
+  kind,
+  code,
+  params,
+  report,
+});
+
+// Maps any thrown value (SDK errors, fetch failures, aborts) onto the taxonomy
+export const classifyError = (error: unknown): TryOnError => {
+  if (error instanceof TryOnError) return error;
+
+  const err = error as { name?: string; message?: string; status?: unknown; code?: unknown } | undefined;
+  const message = typeof err?.message === "string" ? err.message : "";
+  const status = typeof err?.status === "number"
+    ? err.status
+    : typeof err?.code === "number" ? err.code : undefined;
+  const wrap = (kind: TryOnErrorKind, text = DEFAULT_MESSAGES[kind]) =>
+    new TryOnError(kind, text, { status, cause: error });
+
+  if (err?.name === "AbortError") return wrap("cancelled");
+  if (err?.name === "TimeoutError") return wrap("timeout");
+  if (
+    status === 401 || status === 403 ||
+    /api[ _-]?key/i.test(message) || message.includes("Requested entity was not found") || /PERMISSION_DENIED|UNAUTHENTICATED/.test(message)
+  ) {
+    return wrap("auth");
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return wrap("quota", message || DEFAULT_MESSAGES.quota);
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(message)) return wrap("safety-blocked");
+  if (status === 400 || status === 413) return wrap("invalid-request", message || DEFAULT_MESSAGES["invalid-request"]);
+  if (status !== undefined && status >= 500) return wrap("server", message || DEFAULT_MESSAGES.server);
+  if (err instanceof TypeError || /failed to fetch|network|ECONNRESET|ETIMEDOUT/i.test(message)) {
+    return wrap("network");
+  }
+  return wrap("unknown", message || DEFAULT_MESSAGES.unknown);
+};
+
+// Quota errors from Gemini usually say how long to wait ("Please retry in 13.2s")
+export const parseRetryDelayMs = (error: TryOnError): number | null => {
+  const match = /retry in ([\d.]+)\s*s/i.exec(error.message) ?? /"retryDelay":\s*"([\d.]+)s"/.exec(error.message);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+// Title and advice per kind live in the message catalogs under
+// errorGuidance.<kind>; the advice below is picked from the model's report.
+
+// Advice per Gemini harm category, shown when a rating was blocked or high
+const CATEGORY_ADVICE: Record<string, MessageKey> = {
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: "advice.sexuallyExplicit",
+  HARM_CATEGORY_HARASSMENT: "advice.harassment",
+  HARM_CATEGORY_HATE_SPEECH: "advice.hateSpeech",
+  HARM_CATEGORY_DANGEROUS_CONTENT: "advice.dangerousContent",
+  HARM_CATEGORY_CIVIC_INTEGRITY: "advice.civicIntegrity",
+};
+
+// Advice per finish / block reason
+const REASON_ADVICE: Record<string, MessageKey> = {
+  SAFETY: "advice.safety",
+  IMAGE_SAFETY: "advice.imageSafety",
+  PROHIBITED_CONTENT: "advice.prohibitedContent",
+  IMAGE_PROHIBITED_CONTENT: "advice.prohibitedContent",
+  BLOCKLIST: "advice.blocklist",
+  RECITATION: "advice.recitation",
+  SPII: "advice.spii",
+  NO_IMAGE: "advice.noImage",
+  MAX_TOKENS: "advice.maxTokens",
+};
+
+export const isFlaggedRating = ({ probability, blocked }: SafetyRatingSummary) =>
+  blocked || probability === "HIGH" || probability === "MEDIUM";
+
+// Turns a model report into user-actionable advice (message keys), most
+// specific first
+export const getReportAdvice = (report: GenerationReport): MessageKey[] => {
+  const advice: MessageKey[] = [];
+  const add = (key?: MessageKey) => {
+    if (key && !advice.includes(key)) advice.push(key);
+  };
+
+  report.safetyRatings
+    .filter(isFlaggedRating)
+    .forEach(rating => add(CATEGORY_ADVICE[rating.category]));
+  add(report.blockReason ? REASON_ADVICE[report.blockReason] : undefined);
+  add(report.finishReason ? REASON_ADVICE[report.finishReason] : undefined);
+  return advice;
+};
+
+// "HARM_CATEGORY_SEXUALLY_EXPLICIT" -> "Sexually explicit"
+export const formatSafetyCategory = (category: string): string => {
+  const words = category.replace(/^HARM_CATEGORY_/, "").toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { dataUrlExtension } from "./exportImage";
+
+describe("dataUrlExtension", () => {
+  it("matches the extension to the image type", () => {
+    expect(dataUrlExtension("data:image/png;base64,AAAA")).toBe("png");
+    expect(dataUrlExtension("data:image/jpeg;base64,AAAA")).toBe("jpg");
+    expect(dataUrlExtension("data:image/webp;base64,AAAA")).toBe("webp");
+  });
+
+  it("falls back to png for other types and non-data URLs", () => {
+    expect(dataUrlExtension("data:image/gif;base64,AAAA")).toBe("png");
+    expect(dataUrlExtension("blob:https://example.com/1234")).toBe("png");
+  });
+});
@@ -0,0 +1,222 @@
+import { ExportFormat, ExportSettings, WatermarkSettings } from "../types";
+import { EXPORT_FORMATS } from "../constants";
+import { ImageMetadata, embedMetadata } from "./imageMetadata";
+import { loadImageElement } from "../utils";
+
+// Client-side export of a generated look: optional person | saree | result
+// collage, watermark, re-encoding to the chosen format and provenance metadata.
+
+export interface ExportSources {
+  result: string;
+  human: string | null;
+  saree: string | null;
+}
+
+export interface ExportContext {
+  // Display name of the look, e.g. "Look 2 · v3"
+  label: string;
+  // The same name in English, for the {look} filename token
+  filenameLabel: string;
+  // Collage captions for the person, saree and result, in the UI language
+  captions: [string, string, string];
+  drapeStyle: string;
+  createdAt: Date;
+  // Generation details recorded in the metadata
+  details: Record<string, unknown>;
+}
+
+// Collages are shared over messaging apps, which downscale large images anyway
+const MAX_COLLAGE_HEIGHT = 1600;
+const MAX_LOGO_SIZE = 256;
+
+const loadImage = (src: string) => loadImageElement(src, "Failed to load image for export.");
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the exported image.")), type, quality);
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  return { canvas, ctx };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, fontSize: number) => {
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  const padding = fontSize * 0.5;
+  const width = ctx.measureText(text).width + padding * 2;
+  ctx.fillStyle = "rgba(28, 25, 23, 0.7)";
+  ctx.fillRect(x, y - fontSize - padding * 2, width, fontSize + padding * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.textBaseline = "middle";
+  ctx.fillText(text, x + padding, y - fontSize / 2 - padding);
+};
+
+// Person, saree and result scaled to a common height on a white background
+const renderCollage = async (
+  { result, human, saree }: ExportSources,
+  [personCaption, sareeCaption, resultCaption]: ExportContext["captions"]
+) => {
+  const sources = [human, saree, result].filter((src): src is string => !!src);
+  const images = await Promise.all(sources.map(loadImage));
+  const captions = [human && personCaption, saree && sareeCaption, resultCaption]
+    .filter((caption): caption is string => !!caption);
+
+  const resultImg = images[images.length - 1];
+  const height = Math.min(resultImg.naturalHeight, MAX_COLLAGE_HEIGHT);
+  const gap = Math.round(height * 0.02);
+  const widths = images.map(img => (img.naturalWidth * height) / img.naturalHeight);
+  const { canvas, ctx } = createCanvas(
+    widths.reduce((sum, w) => sum + w, 0) + gap * (images.length + 1),
+    height + gap * 2
+  );
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const fontSize = Math.round(height * 0.03);
+  let x = gap;
+  images.forEach((img, index) => {
+    ctx.drawImage(img, x, gap, widths[index], height);
+    drawCaption(ctx, captions[index], x + gap, gap + height - gap, fontSize);
+    x += widths[index] + gap;
+  });
+  return canvas;
+};
+
+const renderSingle = async ({ result }: ExportSources) => {
+  const img = await loadImage(result);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  // JPEG has no alpha, so never let transparency turn black
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0);
+  return canvas;
+};
+
+const drawWatermark = async (canvas: HTMLCanvasElement, watermark: WatermarkSettings) => {
+  const text = watermark.text.trim();
+  if (!watermark.enabled || (!text && !watermark.logoDataUrl)) return;
+  const ctx = canvas.getContext("2d")!;
+  const base = Math.min(canvas.width, canvas.height);
+  const margin = base * 0.03;
+  const fontSize = Math.max(12, Math.round(base * 0.035));
+  const logo = watermark.logoDataUrl ? await loadImage(watermark.logoDataUrl) : null;
+  const logoHeight = logo ? base * 0.1 : 0;
+  const logoWidth = logo ? (logo.naturalWidth * logoHeight) / logo.naturalHeight : 0;
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  const textWidth = text ? ctx.measureText(text).width : 0;
+  const spacing = logo && text ? fontSize * 0.5 : 0;
+  const blockWidth = logoWidth + spacing + textWidth;
+  const blockHeight = Math.max(logoHeight, text ? fontSize : 0);
+
+  const left = watermark.position.endsWith("left") ? margin : canvas.width - margin - blockWidth;
+  const top = watermark.position.startsWith("top") ? margin : canvas.height - margin - blockHeight;
+
+  ctx.globalAlpha = watermark.opacity;
+  if (logo) ctx.drawImage(logo, left, top + (blockHeight - logoHeight) / 2, logoWidth, logoHeight);
+  if (text) {
+    ctx.fillStyle = "#ffffff";
+    ctx.shadowColor = "rgba(0, 0, 0, 0.6)";
+    ctx.shadowBlur = fontSize * 0.3;
+    ctx.textBaseline = "middle";
+    ctx.fillText(text, left + logoWidth + spacing, top + blockHeight / 2);
+  }
+  ctx.restore();
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().normalize("NFKD").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Expands {date}, {time}, {look}, {drape} and {layout}; unknown tokens are dropped
+export const formatFilename = (
+  pattern: string,
+  settings: Pick<ExportSettings, "format" | "layout">,
+  context: Pick<ExportContext, "filenameLabel" | "drapeStyle" | "createdAt">
+): string => {
+  const { createdAt: d } = context;
+  const values: Record<string, string> = {
+    date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    time: `${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`,
+    look: slugify(context.filenameLabel),
+    drape: slugify(context.drapeStyle),
+    layout: settings.layout,
+  };
+  const name = pattern
+    .replace(/\{(\w+)\}/g, (_, token: string) => values[token] ?? "")
+    .replace(/[\\/:*?"<>|\s]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+  return `${name || "saree-try-on"}.${EXPORT_FORMATS[settings.format].extension}`;
+};
+
+// File extension for a raw download of a data URL; unknown types fall back to png
+export const dataUrlExtension = (dataUrl: string): string => {
+  const mimeType = /^data:([^;,]+)/.exec(dataUrl)?.[1];
+  return Object.values(EXPORT_FORMATS).find(format => format.mimeType === mimeType)?.extension ?? "png";
+};
+
+export const exportLook = async (
+  sources: ExportSources,
+  settings: ExportSettings,
+  context: ExportContext
+): Promise<{ blob: Blob; filename: string }> => {
+  const canvas = settings.layout === "collage" ? await renderCollage(sources, context.captions) : await renderSingle(sources);
+  await drawWatermark(canvas, settings.watermark);
+
+  const { mimeType } = EXPORT_FORMATS[settings.format];
+  let blob = await canvasToBlob(canvas, mimeType, settings.format === "png" ? undefined : settings.quality);
+
+  if (settings.includeMetadata) {
+    const metadata: ImageMetadata = {
+      title: context.label,
+      description: `AI-generated virtual saree try-on (${context.drapeStyle} drape).`,
+      createdAt: context.createdAt,
+      software: "Saree.AI",
+      details: { ...context.details, layout: settings.layout, exportedAt: new Date().toISOString() },
+    };
+    try {
+      blob = await embedMetadata(blob, metadata, canvas);
+    } catch (e) {
+      // Never fail the export over metadata
+      console.error("Failed to embed export metadata", e);
+    }
+  }
+
+  // Browsers without an encoder for the format (e.g. WebP in Safari) fall back
+  // to PNG; name the file after what was actually produced
+  const format = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+    .find(id => EXPORT_FORMATS[id].mimeType === blob.type) ?? settings.format;
+  return { blob, filename: formatFilename(settings.filenamePattern, { ...settings, format }, context) };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Logos are downscaled and kept as PNG so transparency survives
+export const prepareLogo = async (file: File): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
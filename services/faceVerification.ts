@@ -0,0 +1,266 @@
+import { FaceCheck, FaceCheckMethod, FaceCheckSettings, NormalizedRect, TryOnResult } from "../types";
+import { classifyError } from "./errors";
+import { loadImageElement } from "../utils";
+
+// Post-generation check that the face in the output still matches the person
+// photo. Runs entirely in the browser: faces are located with the Shape
+// Detection API's FaceDetector where the browser has it, otherwise with a
+// skin-tone heuristic, then compared with a perceptual hash plus a colour
+// histogram. The score is a coarse drift signal, not identity recognition.
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+  detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+const HASH_SIZE = 32;
+const HASH_BITS = 8;
+const HISTOGRAM_BINS = 4;
+// Weight of the structural (hash) similarity; the rest is colour
+const HASH_WEIGHT = 0.7;
+
+// Used when the heuristic finds too little skin to place the face
+const DEFAULT_FACE_RECT: NormalizedRect = { x: 0.35, y: 0.04, width: 0.3, height: 0.24 };
+
+// Anything a face can be located in: a loaded image, or a canvas holding a
+// video frame
+export interface FaceFrame {
+  source: HTMLImageElement | HTMLCanvasElement;
+  width: number;
+  height: number;
+}
+
+const frameOf = (img: HTMLImageElement): FaceFrame => ({ source: img, width: img.naturalWidth, height: img.naturalHeight });
+
+const loadImage = (src: string) => loadImageElement(src, "Failed to load image for face verification.");
+
+const getFaceDetector = (): FaceDetectorInstance | null => {
+  const Detector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ fastMode: false, maxDetectedFaces: 1 });
+  } catch {
+    return null;
+  }
+};
+
+const readPixels = (frame: FaceFrame, rect: NormalizedRect, width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.drawImage(
+    frame.source,
+    rect.x * frame.width,
+    rect.y * frame.height,
+    rect.width * frame.width,
+    rect.height * frame.height,
+    0,
+    0,
+    width,
+    height
+  );
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// YCbCr skin range (Chai & Ngan), which holds up reasonably across skin tones
+const isSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+// Bounding box of skin pixels in the upper part of the frame, trimmed of
+// outliers and squared up; null when there is too little skin to go on. Arms
+// and shoulders can leak in, so this is only a fallback for browsers without
+// FaceDetector.
+const estimateFaceRect = (frame: FaceFrame): NormalizedRect | null => {
+  const region: NormalizedRect = { x: 0, y: 0, width: 1, height: 0.45 };
+  const width = 64;
+  const height = Math.max(1, Math.round((width * frame.height * region.height) / frame.width));
+  const data = readPixels(frame, region, width, height);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (isSkin(data[i], data[i + 1], data[i + 2])) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length < width * height * 0.01) return null;
+
+  xs.sort((a, b) => a - b);
+  ys.sort((a, b) => a - b);
+  const left = percentile(xs, 0.1) / width;
+  const right = (percentile(xs, 0.9) + 1) / width;
+  const top = percentile(ys, 0.02) / height * region.height;
+  const centerX = (left + right) / 2;
+  // Faces are roughly as tall as wide, and the skin box often runs down the
+  // neck, so keep a square (in pixels) from the top of the box
+  const size = right - left;
+  const x = Math.max(0, centerX - size / 2);
+  return {
+    x,
+    y: top,
+    width: Math.min(size, 1 - x),
+    height: Math.min((size * frame.width) / frame.height, 1 - top),
+  };
+};
+
+const locateFace = async (
+  frame: FaceFrame,
+  detector: FaceDetectorInstance | null
+): Promise<NormalizedRect | null> => {
+  if (!detector) return estimateFaceRect(frame) ?? DEFAULT_FACE_RECT;
+  const [face] = await detector.detect(frame.source);
+  if (!face) return null;
+  const { x, y, width, height } = face.boundingBox;
+  return {
+    x: x / frame.width,
+    y: y / frame.height,
+    width: width / frame.width,
+    height: height / frame.height,
+  };
+};
+
+// Face box in normalized coordinates, or null when no face is found. Used by
+// the camera's framing check, which needs to know when nobody is in view.
+export const detectFace = async (
+  frame: FaceFrame
+): Promise<{ rect: NormalizedRect; method: FaceCheckMethod } | null> => {
+  const detector = getFaceDetector();
+  const rect = detector ? await locateFace(frame, detector) : estimateFaceRect(frame);
+  return rect ? { rect, method: detector ? "face-detector" : "heuristic" } : null;
+};
+
+// 2D DCT-II of a square grayscale block, keeping only the low-frequency corner
+const lowFrequencyDct = (gray: Float64Array, size: number, keep: number): number[] => {
+  const coefficients: number[] = [];
+  for (let u = 0; u < keep; u++) {
+    for (let v = 0; v < keep; v++) {
+      let sum = 0;
+      for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+          sum += gray[y * size + x]
+            * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))
+            * Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size));
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+  return coefficients;
+};
+
+interface FaceSignature {
+  hash: boolean[];
+  histogram: number[];
+}
+
+const computeSignature = (frame: FaceFrame, rect: NormalizedRect): FaceSignature => {
+  const data = readPixels(frame, rect, HASH_SIZE, HASH_SIZE);
+  const gray = new Float64Array(HASH_SIZE * HASH_SIZE);
+  const histogram = new Array<number>(HISTOGRAM_BINS ** 3).fill(0);
+  const binOf = (value: number) => Math.min(HISTOGRAM_BINS - 1, Math.floor((value / 256) * HISTOGRAM_BINS));
+
+  for (let i = 0; i < gray.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    gray[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    histogram[(binOf(r) * HISTOGRAM_BINS + binOf(g)) * HISTOGRAM_BINS + binOf(b)] += 1 / gray.length;
+  }
+
+  // pHash: compare each low-frequency coefficient (minus the DC term) to the median
+  const coefficients = lowFrequencyDct(gray, HASH_SIZE, HASH_BITS).slice(1);
+  const median = [...coefficients].sort((a, b) => a - b)[Math.floor(coefficients.length / 2)];
+  return { hash: coefficients.map(c => c > median), histogram };
+};
+
+// Unrelated images agree on about half the hash bits, so that maps to 0
+const compareSignatures = (a: FaceSignature, b: FaceSignature): number => {
+  const matching = a.hash.filter((bit, i) => bit === b.hash[i]).length / a.hash.length;
+  const hashSimilarity = Math.max(0, (matching - 0.5) / 0.5);
+  const histogramSimilarity = a.histogram.reduce((sum, value, i) => sum + Math.min(value, b.histogram[i]), 0);
+  return HASH_WEIGHT * hashSimilarity + (1 - HASH_WEIGHT) * histogramSimilarity;
+};
+
+export const verifyFacePreservation = async (
+  referenceSrc: string,
+  outputSrc: string,
+  threshold: number
+): Promise<Omit<FaceCheck, "attempts">> => {
+  const [reference, output] = (await Promise.all([loadImage(referenceSrc), loadImage(outputSrc)])).map(frameOf);
+  let detector = getFaceDetector();
+  let method: FaceCheckMethod = detector ? "face-detector" : "heuristic";
+
+  let referenceRect = await locateFace(reference, detector);
+  if (!referenceRect) {
+    // The detector missed the input face; use the heuristic for both images so
+    // the comparison is like for like
+    detector = null;
+    method = "heuristic";
+    referenceRect = estimateFaceRect(reference) ?? DEFAULT_FACE_RECT;
+  }
+  const outputRect = await locateFace(output, detector);
+  // A detector that finds a face in the input but none in the output means the
+  // face was lost or badly distorted
+  if (!outputRect) return { score: 0, passed: false, method };
+
+  const score = compareSignatures(computeSignature(reference, referenceRect), computeSignature(output, outputRect));
+  return { score, passed: score >= threshold, method };
+};
+
+// Runs `generate` and verifies the face of its result, regenerating up to
+// `maxRerolls` times while the score is below the threshold. Returns the
+// best-scoring result. Failed re-rolls keep the best result so far; only
+// cancellation or a failing first attempt reject. Results whose verification
+// itself fails are returned unchecked.
+export const generateWithFaceCheck = async (
+  generate: () => Promise<TryOnResult>,
+  referenceSrc: string,
+  settings: FaceCheckSettings,
+  onReroll?: (attempt: number, check: FaceCheck) => void
+): Promise<TryOnResult> => {
+  if (!settings.enabled) return generate();
+
+  let best: TryOnResult | null = null;
+  let attempts = 0;
+  for (let attempt = 1; attempt <= settings.maxRerolls + 1; attempt++) {
+    let result: TryOnResult;
+    try {
+      result = await generate();
+      attempts = attempt;
+    } catch (error) {
+      if (!best || classifyError(error).kind === "cancelled") throw error;
+      break;
+    }
+
+    let check: FaceCheck;
+    try {
+      check = { ...await verifyFacePreservation(referenceSrc, result.image, settings.threshold), attempts: attempt };
+    } catch (error) {
+      console.error("Face verification failed", error);
+      return best ?? result;
+    }
+
+    if (!best?.faceCheck || check.score > best.faceCheck.score) best = { ...result, faceCheck: check };
+    if (check.passed) break;
+    if (attempt <= settings.maxRerolls) onReroll?.(attempt, check);
+  }
+
+  // Report the total number of generations on whichever result was kept
+  return { ...best!, faceCheck: { ...best!.faceCheck!, attempts } };
+};
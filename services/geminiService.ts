@@ -1,106 +1,129 @@
-import { GoogleGenAI } from "@google/genai";
-import { ImageFile } from "../types";
+import {
+  GroupPayload,
+  GroupPerson,
+  ImageFile,
+  ImagePayload,
+  PeopleDetection,
+  RefineRequest,
+  SareeAnalysis,
+  TryOnApiError,
+  TryOnApiRequest,
+  TryOnPayload,
+  TryOnProvider,
+  TryOnRequest,
+  TryOnResult
+} from "../types";
+import { DEFAULT_BLOUSE_STYLE, EMPTY_ACCESSORIES } from "../constants";
+import { DEFAULT_PROMPT_TEMPLATE_ID } from "./promptTemplates";
+import { classifyError, createTryOnError } from "./errors";
 
-// We don't initialize the client globally because we need to ensure we pick up 
-// the API key from the environment which might be injected after user selection.
+// Client for the try-on server (server/app.ts). The server holds the Gemini API
+// key and builds the prompts; the browser only sends images and settings.
 
-export const generateTryOn = async (
-  human: ImageFile, 
-  saree: ImageFile
-): Promise<string> => {
-  // Always create a new instance to ensure latest API key is used
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const TRYON_API_PATH = "/api/try-on";
 
-  const prompt = `
-    Perform a highly realistic Virtual Try-On (VTO) task.
-    
-    INPUTS:
-    - Image 1: The "Target Person".
-    - Image 2: The "Garment" (Saree).
-    
-    STRICT OBJECTIVE:
-    Digitally dress the "Target Person" in the "Garment" (Saree).
-    
-    CRITICAL PRIORITY: ABSOLUTE FACIAL PRESERVATION
-    - The face of the person in the output MUST BE IDENTICAL to the face in Image 1.
-    - Do NOT change the facial expression, make-up, skin texture, age, or identity.
-    - Do NOT "beautify" or "AI-generate" a new face. 
-    - Treat the face area as a strict copy-paste constraint from the original image.
-    
-    SECONDARY CONSTRAINTS:
-    1. BODY INTEGRITY: 
-       - Keep the exact body shape, height, and pose of Image 1.
-       - Do not slim or alter the body proportions.
-       
-    2. GARMENT REALISM:
-       - Apply the Saree from Image 2 onto the body.
-       - Preserve the exact pattern, border (zari), color, and texture of the saree.
-       - Drape it naturally (Nivi style) with realistic physics (folds, pleats).
-       
-    3. COMPOSITION:
-       - Seamlessly blend the saree onto the neck and shoulders without altering the neck/face boundary.
-       - Match the lighting of the saree to the person's environment.
-    
-    OUTPUT:
-    - Return ONLY the final result image.
-  `;
+const toImagePayload = ({ base64, mimeType }: ImageFile): ImagePayload => ({ base64, mimeType });
 
+// Each distinct saree is sent once, however many people wear it. Index 0 is the
+// request's own saree.
+const toGroupPayload = (people: GroupPerson[], saree: ImageFile): GroupPayload => {
+  const sarees = [saree.base64];
+  const extra: ImagePayload[] = [];
+  return {
+    people: people.map(({ box, saree: worn }) => {
+      if (!worn) return { box, saree: null };
+      let index = sarees.indexOf(worn.base64);
+      if (index === -1) {
+        index = sarees.push(worn.base64) - 1;
+        extra.push(toImagePayload(worn));
+      }
+      return { box, saree: index };
+    }),
+    sarees: extra,
+  };
+};
+
+// Previews, File handles and marked regions stay in the browser
+const toTryOnPayload = (request: TryOnRequest): TryOnPayload => {
+  const group = request.group?.length ? toGroupPayload(request.group, request.saree) : null;
+  // The group prompt has no place for accessories, saree close-ups or attributes
+  const accessories = (group ? null : request.accessories) ?? EMPTY_ACCESSORIES;
+  return {
+    human: toImagePayload(request.human),
+    saree: toImagePayload(request.saree),
+    drapeStyle: request.drapeStyle,
+    options: request.options,
+    sareeGuidance: (group ? null : request.sareeGuidance) ?? [],
+    accessories: {
+      blouse: accessories.blouse && toImagePayload(accessories.blouse),
+      jewellery: accessories.jewellery.map(toImagePayload),
+      footwear: accessories.footwear && toImagePayload(accessories.footwear),
+    },
+    blouseStyle: request.blouseStyle ?? DEFAULT_BLOUSE_STYLE,
+    promptTemplate: request.promptTemplate ?? { id: DEFAULT_PROMPT_TEMPLATE_ID },
+    sareeAttributes: (group ? null : request.sareeAttributes) ?? null,
+    group,
+  };
+};
+
+const postTryOn = async <T>(body: TryOnApiRequest, signal?: AbortSignal): Promise<T> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview', // Using the high-quality image model as requested
-      contents: {
-        parts: [
-            { 
-                inlineData: { 
-                    mimeType: human.mimeType, 
-                    data: human.base64 
-                } 
-            },
-            {
-                text: "Image 1: Target Person (FACE MUST REMAIN UNCHANGED)"
-            },
-            { 
-                inlineData: { 
-                    mimeType: saree.mimeType, 
-                    data: saree.base64 
-                } 
-            },
-            {
-                text: "Image 2: Garment (Saree)"
-            },
-            { 
-                text: prompt 
-            }
-        ],
-      },
-      config: {
-        imageConfig: {
-            aspectRatio: "3:4", // Portrait for full body fashion
-            imageSize: "2K",   // High resolution for details
-        },
-      },
+    const response = await fetch(TRYON_API_PATH, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
     });
+    const payload = await response.json().catch(() => null);
+    if (response.ok && payload) return payload as T;
 
-    // Extract the image from the response
-    // The response structure for image generation contains the image in parts
-    const candidates = response.candidates;
-    if (candidates && candidates.length > 0) {
-      const parts = candidates[0].content.parts;
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-        }
-      }
+    // The server reports failures in the same taxonomy; anything else (e.g. a
+    // proxy error page) is classified from the status alone
+    const { error } = (payload ?? {}) as Partial<TryOnApiError>;
+    if (error?.kind) {
+      throw createTryOnError(error.kind, error.message, {
+        status: response.status,
+        report: error.report,
+        code: error.code,
+        params: error.params,
+      });
     }
+    const { kind } = classifyError({ status: response.status });
+    throw createTryOnError(kind, `Try-on server responded with ${response.status}.`, {
+      status: response.status,
+      code: "http-status",
+      params: { status: response.status },
+    });
+  } catch (error) {
+    // Map fetch failures onto the typed taxonomy so callers can decide
+    // whether to retry and which guidance to show
+    const tryOnError = classifyError(error);
+    if (tryOnError.kind !== "cancelled") console.error("Try-on API Error:", error);
+    throw tryOnError;
+  }
+};
 
-    throw new Error("No image generated in the response.");
+export const generateTryOn = (request: TryOnRequest, signal?: AbortSignal): Promise<TryOnResult> => {
+  return postTryOn<TryOnResult>({ type: "generate", request: toTryOnPayload(request) }, signal);
+};
 
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    // Helper to extract readable error message
-    let message = "Failed to generate image. Please try again.";
-    if (error.message) message = error.message;
-    if (message.includes("API key")) message = "Invalid or missing API Key. Please connect your account.";
-    throw new Error(message);
-  }
-};
\ No newline at end of file
+export const refineTryOn = ({ base, turns, instruction }: RefineRequest, signal?: AbortSignal): Promise<TryOnResult> => {
+  return postTryOn<TryOnResult>({ type: "refine", request: { base: toTryOnPayload(base), turns, instruction } }, signal);
+};
+
+export const analyzeSaree = (saree: ImageFile, signal?: AbortSignal): Promise<SareeAnalysis> => {
+  return postTryOn<SareeAnalysis>({ type: "analyze-saree", request: { saree: toImagePayload(saree) } }, signal);
+};
+
+export const detectPeople = (photo: ImageFile, signal?: AbortSignal): Promise<PeopleDetection> => {
+  return postTryOn<PeopleDetection>({ type: "detect-people", request: { photo: toImagePayload(photo) } }, signal);
+};
+
+export const geminiProvider: TryOnProvider = {
+  id: "gemini",
+  label: "Gemini Pro",
+  generateTryOn,
+  refineTryOn,
+  analyzeSaree,
+  detectPeople,
+};
@@ -0,0 +1,32 @@
+import { HistoryEntry } from "../types";
+import { STORES, withStore } from "./database";
+
+// Newest first
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(STORES.history, "readonly", store => store.index("createdAt").getAll());
+  return entries.reverse();
+};
+
+export const getHistoryEntry = (id: string): Promise<HistoryEntry | undefined> => {
+  return withStore<HistoryEntry | undefined>(STORES.history, "readonly", store => store.get(id));
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await withStore(STORES.history, "readwrite", store => store.put(entry));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore(STORES.history, "readwrite", store => store.delete(id));
+};
+
+// Exports one or more entries as a JSON download
+export const exportHistoryEntries = (entries: HistoryEntry[], filename: string) => {
+  const payload = JSON.stringify({ version: 1, exportedAt: Date.now(), entries }, null, 2);
+  const url = URL.createObjectURL(new Blob([payload], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking in the same task can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
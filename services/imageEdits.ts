@@ -0,0 +1,134 @@
+import { GuidanceImage, GuidanceRegion, ImageFile, NormalizedRect } from "../types";
+import { loadImageElement, processFile } from "../utils";
+
+export type QuarterTurns = 0 | 1 | 2 | 3;
+
+export interface ImageEdits {
+  // Clockwise rotation in 90 degree steps
+  rotation: QuarterTurns;
+  // Crop in the rotated image's normalized coordinates; null keeps the full frame
+  crop: NormalizedRect | null;
+}
+
+const MIN_REGION_SIZE = 0.01;
+
+const loadImage = (src: string) => loadImageElement(src, "Failed to load image for editing.");
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode edited image.")), type, quality);
+  });
+};
+
+export const clampRect = (rect: NormalizedRect): NormalizedRect => {
+  const x = Math.min(Math.max(rect.x, 0), 1);
+  const y = Math.min(Math.max(rect.y, 0), 1);
+  return {
+    x,
+    y,
+    width: Math.min(Math.max(rect.width, 0), 1 - x),
+    height: Math.min(Math.max(rect.height, 0), 1 - y),
+  };
+};
+
+// Rotates a normalized rect clockwise by the given number of quarter turns
+export const rotateRect = (rect: NormalizedRect, turns: number): NormalizedRect => {
+  let result = rect;
+  for (let i = 0; i < ((turns % 4) + 4) % 4; i++) {
+    result = {
+      x: 1 - (result.y + result.height),
+      y: result.x,
+      width: result.height,
+      height: result.width,
+    };
+  }
+  return result;
+};
+
+// Re-expresses `rect` relative to `crop`, clipping whatever falls outside it.
+// Returns null when nothing meaningful of the rect remains.
+export const mapRectIntoCrop = (rect: NormalizedRect, crop: NormalizedRect | null): NormalizedRect | null => {
+  if (!crop) return rect;
+  const left = Math.max(rect.x, crop.x);
+  const top = Math.max(rect.y, crop.y);
+  const right = Math.min(rect.x + rect.width, crop.x + crop.width);
+  const bottom = Math.min(rect.y + rect.height, crop.y + crop.height);
+  if (right - left < MIN_REGION_SIZE || bottom - top < MIN_REGION_SIZE) return null;
+  return {
+    x: (left - crop.x) / crop.width,
+    y: (top - crop.y) / crop.height,
+    width: (right - left) / crop.width,
+    height: (bottom - top) / crop.height,
+  };
+};
+
+// Renders the source image rotated by the given quarter turns
+export const renderRotated = async (src: string, rotation: QuarterTurns): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const swap = rotation % 2 === 1;
+  const canvas = document.createElement("canvas");
+  canvas.width = swap ? img.naturalHeight : img.naturalWidth;
+  canvas.height = swap ? img.naturalWidth : img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 2);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  return canvas;
+};
+
+// Applies rotation + crop and returns a new ImageFile. Regions are expected in
+// the rotated image's coordinates and are re-mapped into the cropped frame.
+export const applyImageEdits = async (
+  image: ImageFile,
+  edits: ImageEdits,
+  regions: GuidanceRegion[] = []
+): Promise<ImageFile> => {
+  const rotated = await renderRotated(image.previewUrl, edits.rotation);
+  const crop = edits.crop ? clampRect(edits.crop) : { x: 0, y: 0, width: 1, height: 1 };
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(crop.width * rotated.width));
+  canvas.height = Math.max(1, Math.round(crop.height * rotated.height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.drawImage(
+    rotated,
+    crop.x * rotated.width, crop.y * rotated.height, canvas.width, canvas.height,
+    0, 0, canvas.width, canvas.height
+  );
+
+  const blob = await canvasToBlob(canvas, "image/jpeg", 0.92);
+  const edited = await processFile(new File([blob], image.file.name, { type: "image/jpeg" }));
+
+  const mappedRegions = regions
+    .map(region => {
+      const rect = mapRectIntoCrop(region.rect, edits.crop);
+      return rect ? { ...region, rect } : null;
+    })
+    .filter((region): region is GuidanceRegion => region !== null);
+
+  return { ...edited, regions: mappedRegions };
+};
+
+// Crops each marked region into its own image so the model gets a close-up
+export const extractGuidanceImages = async (image: ImageFile): Promise<GuidanceImage[]> => {
+  if (!image.regions?.length) return [];
+  const img = await loadImage(image.previewUrl);
+
+  return Promise.all(image.regions.map(async (region) => {
+    const rect = clampRect(region.rect);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(rect.width * img.naturalWidth));
+    canvas.height = Math.max(1, Math.round(rect.height * img.naturalHeight));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available in this browser.");
+    ctx.drawImage(
+      img,
+      rect.x * img.naturalWidth, rect.y * img.naturalHeight, canvas.width, canvas.height,
+      0, 0, canvas.width, canvas.height
+    );
+    const dataUrl = canvas.toDataURL("image/jpeg", 0.92);
+    return { kind: region.kind, mimeType: "image/jpeg", base64: dataUrl.split(",")[1] };
+  }));
+};
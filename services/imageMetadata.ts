@@ -0,0 +1,189 @@
+// Embeds provenance metadata into encoded images without re-encoding them:
+// PNG tEXt/iTXt chunks, and an XMP packet for PNG, JPEG (APP1) and WebP (XMP
+// chunk). The XMP marks the image as AI-generated using the IPTC digital
+// source type vocabulary.
+
+export interface ImageMetadata {
+  title: string;
+  description: string;
+  createdAt: Date;
+  software: string;
+  // Generation details, serialized as JSON
+  details: Record<string, unknown>;
+}
+
+const AI_SOURCE_TYPE = "http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia";
+const XMP_JPEG_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const XMP_PNG_KEYWORD = "XML:com.adobe.xmp";
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const encoder = new TextEncoder();
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", "\"": "&quot;" }[c]!));
+
+export const buildXmpPacket = (metadata: ImageMetadata): string => {
+  const created = metadata.createdAt.toISOString();
+  return `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    xmlns:sareeai="urn:saree-ai:xmp:1.0/"
+    xmp:CreateDate="${created}"
+    xmp:CreatorTool="${escapeXml(metadata.software)}"
+    Iptc4xmpExt:DigitalSourceType="${AI_SOURCE_TYPE}"
+    sareeai:Details="${escapeXml(JSON.stringify(metadata.details))}">
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.description)}</rdf:li></rdf:Alt></dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Latin-1 bytes for tEXt chunks; anything outside that range goes in iTXt
+const latin1 = (value: string) => Uint8Array.from(value, c => Math.min(c.charCodeAt(0), 0xff));
+const isLatin1 = (value: string) => /^[\u0000-\u00ff]*$/.test(value);
+
+// --- PNG ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const textChunk = (keyword: string, text: string) =>
+  pngChunk("tEXt", concat([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+// Uncompressed international text: keyword, flags, empty language tags, UTF-8 text
+const iTextChunk = (keyword: string, text: string) =>
+  pngChunk("iTXt", concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+// tEXt where the text allows it, since more readers show it; iTXt otherwise
+const anyTextChunk = (keyword: string, text: string) =>
+  isLatin1(text) ? textChunk(keyword, text) : iTextChunk(keyword, text);
+
+const embedPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  if (!PNG_SIGNATURE.every((value, i) => bytes[i] === value)) throw new Error("Not a PNG file.");
+  // IEND is always the final 12 bytes
+  const iendOffset = bytes.length - 12;
+  const chunks = [
+    anyTextChunk("Title", metadata.title),
+    textChunk("Software", metadata.software),
+    textChunk("Creation Time", metadata.createdAt.toUTCString()),
+    textChunk("Source", "AI-generated"),
+    iTextChunk("Description", metadata.description),
+    iTextChunk("Comment", JSON.stringify(metadata.details)),
+    iTextChunk(XMP_PNG_KEYWORD, buildXmpPacket(metadata)),
+  ];
+  return concat([bytes.subarray(0, iendOffset), ...chunks, bytes.subarray(iendOffset)]);
+};
+
+// --- JPEG ---
+
+const embedJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error("Not a JPEG file.");
+  const payload = concat([latin1(XMP_JPEG_HEADER), encoder.encode(buildXmpPacket(metadata))]);
+  if (payload.length + 2 > 0xffff) throw new Error("Metadata too large for a JPEG segment.");
+
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1], 0);
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+
+  // Keep a JFIF APP0 segment first, as readers expect
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+  }
+  return concat([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+// --- WebP ---
+
+const riffChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padded);
+  chunk.set(latin1(fourCC), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// Simple (VP8/VP8L) files are converted to the extended format, which is the
+// only one that can carry XMP
+const embedWebp = (bytes: Uint8Array, metadata: ImageMetadata, width: number, height: number): Uint8Array => {
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (ascii(0) !== "RIFF" || ascii(8) !== "WEBP") throw new Error("Not a WebP file.");
+
+  const firstChunk = ascii(12);
+  let body = bytes.subarray(12);
+  if (firstChunk === "VP8X") {
+    body = body.slice();
+    body[8] |= 0x04;
+  } else {
+    const header = new Uint8Array(10);
+    // Lossless output may carry alpha; lossy canvas output never does
+    header[0] = 0x04 | (firstChunk === "VP8L" ? 0x10 : 0);
+    const view = new DataView(header.buffer);
+    view.setUint16(4, (width - 1) & 0xffff, true);
+    header[6] = ((width - 1) >> 16) & 0xff;
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    header[9] = ((height - 1) >> 16) & 0xff;
+    body = concat([riffChunk("VP8X", header), body]);
+  }
+
+  const content = concat([latin1("WEBP"), body, riffChunk("XMP ", encoder.encode(buildXmpPacket(metadata)))]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(latin1("RIFF"), 0);
+  new DataView(riffHeader.buffer).setUint32(4, content.length, true);
+  return concat([riffHeader, content]);
+};
+
+export const embedMetadata = async (
+  blob: Blob,
+  metadata: ImageMetadata,
+  size: { width: number; height: number }
+): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const embedded =
+    blob.type === "image/png" ? embedPng(bytes, metadata)
+    : blob.type === "image/jpeg" ? embedJpeg(bytes, metadata)
+    : blob.type === "image/webp" ? embedWebp(bytes, metadata, size.width, size.height)
+    : null;
+  return embedded ? new Blob([embedded], { type: blob.type }) : blob;
+};
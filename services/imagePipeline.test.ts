@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { parseExifOrientation } from "./imagePipeline";
+
+// JPEG start with one APP1 Exif segment holding a single-entry IFD. Offsets
+// follow the layout of camera files: SOI, APP1, "Exif\0\0", TIFF header, IFD.
+const jpegWithOrientation = (orientation: number, littleEndian = true, tag = 0x0112): ArrayBuffer => {
+  const tiff = new DataView(new ArrayBuffer(26));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+  tiff.setUint16(8, 1, littleEndian);
+  tiff.setUint16(10, tag, littleEndian);
+  tiff.setUint16(12, 3, littleEndian); // SHORT
+  tiff.setUint32(14, 1, littleEndian);
+  tiff.setUint16(18, orientation, littleEndian);
+
+  const segment = [0x45, 0x78, 0x69, 0x66, 0, 0, ...new Uint8Array(tiff.buffer)];
+  const length = segment.length + 2;
+  return Uint8Array.from([
+    0xff, 0xd8,
+    0xff, 0xe1, length >> 8, length & 0xff, ...segment,
+    0xff, 0xda, 0, 2,
+  ]).buffer;
+};
+
+const truncate = (buffer: ArrayBuffer, length: number) => buffer.slice(0, length);
+
+describe("parseExifOrientation", () => {
+  it("reads the orientation in either byte order", () => {
+    expect(parseExifOrientation(jpegWithOrientation(6))).toBe(6);
+    expect(parseExifOrientation(jpegWithOrientation(8, false))).toBe(8);
+  });
+
+  it("skips other segments before the Exif one", () => {
+    const exif = new Uint8Array(jpegWithOrientation(3));
+    const app0 = [0xff, 0xe0, 0, 6, 0x4a, 0x46, 0x49, 0x46];
+    const withApp0 = Uint8Array.from([0xff, 0xd8, ...app0, ...exif.subarray(2)]);
+    expect(parseExifOrientation(withApp0.buffer)).toBe(3);
+  });
+
+  it("returns 1 without an orientation tag or with an out-of-range value", () => {
+    expect(parseExifOrientation(jpegWithOrientation(6, true, 0x010f))).toBe(1);
+    expect(parseExifOrientation(jpegWithOrientation(9))).toBe(1);
+  });
+
+  it("returns 1 for data that is not a JPEG", () => {
+    expect(parseExifOrientation(new ArrayBuffer(0))).toBe(1);
+    expect(parseExifOrientation(Uint8Array.from([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+  });
+
+  it("returns 1 at every truncation point instead of throwing", () => {
+    const full = jpegWithOrientation(6);
+    for (let length = 0; length < full.byteLength - 4; length++) {
+      expect(parseExifOrientation(truncate(full, length))).toBe(length >= 32 ? 6 : 1);
+    }
+  });
+
+  it("returns 1 when the segment is shorter than the offsets it contains", () => {
+    const bytes = new Uint8Array(jpegWithOrientation(6));
+    // APP1 length claims the segment ends right after the TIFF header
+    bytes[4] = 0;
+    bytes[5] = 16;
+    expect(parseExifOrientation(bytes.buffer)).toBe(1);
+  });
+
+  it("returns 1 when the IFD offset points outside the buffer", () => {
+    const bytes = new Uint8Array(jpegWithOrientation(6));
+    new DataView(bytes.buffer).setUint32(16, 0xfffffff0, true);
+    expect(parseExifOrientation(bytes.buffer)).toBe(1);
+  });
+});
@@ -0,0 +1,284 @@
+import { ImageFile, MessageParams } from "../types";
+import { ACCEPTED_IMAGE_TYPES } from "../constants";
+
+// Client-side preprocessing applied to every uploaded image before it is sent to
+// a provider: validate -> read EXIF orientation -> decode -> orient & downscale
+// -> re-encode. Each stage is a small typed function over a shared context so
+// stages can be reordered, replaced, or exercised on their own.
+
+export type OutputImageType = "image/jpeg" | "image/webp";
+
+export interface PreprocessOptions {
+  maxBytes: number;
+  acceptedTypes: string[];
+  // Longest side of the output image, in pixels
+  maxDimension: number;
+  outputType: OutputImageType;
+  // Encoder quality between 0 and 1
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxBytes: 10 * 1024 * 1024,
+  acceptedTypes: ACCEPTED_IMAGE_TYPES,
+  maxDimension: 2048,
+  outputType: "image/jpeg",
+  quality: 0.9,
+};
+
+export type ImagePipelineErrorCode =
+  | "heic-unsupported"
+  | "unsupported-type"
+  | "file-too-large"
+  | "decode-failed"
+  | "encode-failed";
+
+export class ImagePipelineError extends Error {
+  readonly code: ImagePipelineErrorCode;
+  // Values for the translated message, e.g. the size limit
+  readonly params: MessageParams;
+
+  constructor(code: ImagePipelineErrorCode, message: string, params: MessageParams = {}) {
+    super(message);
+    this.name = "ImagePipelineError";
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export interface PipelineContext {
+  file: File;
+  options: PreprocessOptions;
+  // EXIF orientation tag (1-8); 1 means no transform is needed
+  orientation: number;
+  bitmap?: ImageBitmap;
+  canvas?: HTMLCanvasElement;
+  output?: Blob;
+}
+
+export type PipelineStage = (context: PipelineContext) => Promise<PipelineContext>;
+
+const HEIC_PATTERN = /\.(heic|heif)$/i;
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`;
+
+// --- Pure helpers -----------------------------------------------------------
+
+// Orientation tag of the TIFF block inside an Exif segment. Every read is
+// checked against the segment end, so truncated or lying offsets give 1.
+const readTiffOrientation = (view: DataView, tiff: number, end: number): number => {
+  const fits = (position: number, size: number) => position >= tiff && position + size <= end;
+  if (!fits(tiff, 8)) return 1;
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (!fits(ifd, 2)) return 1;
+  const entryCount = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (!fits(entry, 10)) return 1;
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+};
+
+// Reads the EXIF orientation from the start of a JPEG file. Returns 1 for
+// non-JPEG data, truncated data or when no orientation tag is present.
+export const parseExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Start of scan: no more metadata segments follow
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    const segmentLength = view.getUint16(offset + 2);
+    // The length includes its own two bytes; the buffer may end before the segment does
+    const segmentEnd = Math.min(offset + 2 + segmentLength, view.byteLength);
+    if (marker === 0xffe1 && offset + 10 <= segmentEnd && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      return readTiffOrientation(view, offset + 10, segmentEnd);
+    }
+    offset += 2 + segmentLength;
+  }
+  return 1;
+};
+
+// Orientations 5-8 rotate by 90 degrees and swap width and height
+export const swapsDimensions = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+export const computeScaledSize = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Modern browsers apply EXIF orientation while decoding; older ones hand back
+// the raw sensor orientation and the transform has to be applied manually.
+const browserAppliesExifOrientation = (): boolean => {
+  return typeof CSS !== "undefined" && CSS.supports?.("image-orientation", "from-image") === true;
+};
+
+// Canvas transform that maps raw sensor pixels to the upright image.
+// `width`/`height` are the raw (pre-rotation) dimensions being drawn.
+const applyOrientationTransform = (
+  ctx: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number
+) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    default: break;
+  }
+};
+
+// --- Stages -----------------------------------------------------------------
+
+export const validateStage: PipelineStage = async (context) => {
+  const { file, options } = context;
+  if (HEIC_PATTERN.test(file.name) || /image\/hei[cf]/i.test(file.type)) {
+    throw new ImagePipelineError(
+      "heic-unsupported",
+      "HEIC/HEIF photos aren't supported. Please export the photo as JPG or PNG (on iPhone: Settings › Camera › Formats › Most Compatible)."
+    );
+  }
+  if (!options.acceptedTypes.includes(file.type)) {
+    throw new ImagePipelineError(
+      "unsupported-type",
+      `Unsupported file type${file.type ? ` (${file.type})` : ""}. Please upload a JPG, PNG or WebP image.`,
+      { type: file.type || "?" }
+    );
+  }
+  if (file.size > options.maxBytes) {
+    throw new ImagePipelineError(
+      "file-too-large",
+      `This image is ${formatMegabytes(file.size)}. Please upload an image smaller than ${formatMegabytes(options.maxBytes)}.`,
+      { size: formatMegabytes(file.size), limit: formatMegabytes(options.maxBytes) }
+    );
+  }
+  return context;
+};
+
+export const readOrientationStage: PipelineStage = async (context) => {
+  if (context.file.type !== "image/jpeg") return context;
+  // EXIF lives in the first APP1 segment, well within the first 128KB
+  const head = await context.file.slice(0, 128 * 1024).arrayBuffer();
+  return { ...context, orientation: parseExifOrientation(head) };
+};
+
+export const decodeStage: PipelineStage = async (context) => {
+  try {
+    const bitmap = await createImageBitmap(context.file);
+    return { ...context, bitmap };
+  } catch {
+    throw new ImagePipelineError("decode-failed", "This image could not be read. It may be corrupted.");
+  }
+};
+
+export const orientAndResizeStage: PipelineStage = async (context) => {
+  const { bitmap, options } = context;
+  if (!bitmap) throw new ImagePipelineError("decode-failed", "Image must be decoded before resizing.");
+
+  const orientation = browserAppliesExifOrientation() ? 1 : context.orientation;
+  const upright = swapsDimensions(orientation)
+    ? { width: bitmap.height, height: bitmap.width }
+    : { width: bitmap.width, height: bitmap.height };
+  const target = computeScaledSize(upright.width, upright.height, options.maxDimension);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = target.width;
+  canvas.height = target.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new ImagePipelineError("encode-failed", "Canvas is not available in this browser.");
+
+  // JPEG has no alpha channel; flatten transparent PNGs onto white instead of black
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, target.width, target.height);
+
+  // Draw in the raw (pre-rotation) coordinate space, scaled to the target size
+  const drawWidth = swapsDimensions(orientation) ? target.height : target.width;
+  const drawHeight = swapsDimensions(orientation) ? target.width : target.height;
+  applyOrientationTransform(ctx, orientation, drawWidth, drawHeight);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(bitmap, 0, 0, drawWidth, drawHeight);
+  bitmap.close();
+
+  return { ...context, bitmap: undefined, canvas };
+};
+
+export const encodeStage: PipelineStage = async (context) => {
+  const { canvas, options } = context;
+  if (!canvas) throw new ImagePipelineError("encode-failed", "Image must be rendered before encoding.");
+  const output = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, options.outputType, options.quality));
+  if (!output) throw new ImagePipelineError("encode-failed", "Failed to encode the processed image.");
+  return { ...context, output };
+};
+
+export const DEFAULT_STAGES: PipelineStage[] = [
+  validateStage,
+  readOrientationStage,
+  decodeStage,
+  orientAndResizeStage,
+  encodeStage,
+];
+
+// --- Runner -----------------------------------------------------------------
+
+const readAsDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const EXTENSIONS: Record<OutputImageType, string> = {
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+export const runImagePipeline = async (
+  file: File,
+  options: Partial<PreprocessOptions> = {},
+  stages: PipelineStage[] = DEFAULT_STAGES
+): Promise<ImageFile> => {
+  let context: PipelineContext = {
+    file,
+    options: { ...DEFAULT_PREPROCESS_OPTIONS, ...options },
+    orientation: 1,
+  };
+  for (const stage of stages) {
+    context = await stage(context);
+  }
+
+  const { output, canvas } = context;
+  if (!output || !canvas) throw new ImagePipelineError("encode-failed", "Image pipeline produced no output.");
+
+  // Some browsers silently fall back to PNG when WebP encoding isn't supported
+  const mimeType = output.type || context.options.outputType;
+  const extension = EXTENSIONS[mimeType as OutputImageType] ?? "png";
+  const processed = new File([output], `${file.name.replace(/\.[^.]+$/, "")}.${extension}`, { type: mimeType });
+  const previewUrl = await readAsDataUrl(processed);
+
+  return {
+    file: processed,
+    previewUrl,
+    // split ';base64,' to get raw base64 string
+    base64: previewUrl.split(",")[1],
+    mimeType,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
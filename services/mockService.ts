@@ -0,0 +1,248 @@
+import {
+  GenerationOptions,
+  ImageFile,
+  ImageSize,
+  NormalizedRect,
+  PeopleDetection,
+  RefineRequest,
+  SareeAnalysis,
+  TryOnErrorKind,
+  TryOnProvider,
+  TryOnRequest,
+  TryOnResult
+} from "../types";
+import { getDrapeStyle } from "../constants";
+import { createTryOnError } from "./errors";
+import { DEFAULT_PROMPT_TEMPLATE_ID, promptTemplateTag } from "./promptTemplates";
+import { parseSareeAttributes } from "./sareeAttributes";
+import { loadImageElement } from "../utils";
+
+// Offline stand-in for the Gemini provider. It composites the two input images on
+// a canvas so the whole upload -> generate -> result flow can be exercised by QA
+// and CI without an API key. Output only depends on the inputs, so repeated runs
+// with the same images produce the same result.
+
+export interface MockProviderOptions {
+  // Artificial delay before the result resolves, in milliseconds
+  latencyMs: number;
+  // Fail every Nth call (1 = always fail, 0 = never fail)
+  failEvery: number;
+  // Kind of failure to simulate, e.g. "quota" to exercise retries
+  errorKind: TryOnErrorKind;
+  errorMessage: string;
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  latencyMs: 1200,
+  failEvery: 0,
+  errorKind: "server",
+  errorMessage: "Mock provider: simulated generation failure.",
+};
+
+// Long side per requested size; kept small since mock output is only a stand-in
+const LONG_SIDE: Record<ImageSize, number> = {
+  "1K": 512,
+  "2K": 1024,
+  "4K": 1536,
+};
+
+const outputSize = ({ aspectRatio, imageSize }: GenerationOptions) => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const longSide = LONG_SIDE[imageSize];
+  return w >= h
+    ? { width: longSide, height: Math.round((longSide * h) / w) }
+    : { width: Math.round((longSide * w) / h), height: longSide };
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createTryOnError("cancelled"));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createTryOnError("cancelled"));
+  };
+  // The listener is removed on completion so long-lived signals don't collect them
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+const loadImage = (src: string) => loadImageElement(src, "Mock provider: failed to decode input image.");
+
+// Draws `img` scaled to cover the target rectangle, cropping the overflow
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const sw = width / scale;
+  const sh = height / scale;
+  const sx = (img.naturalWidth - sw) / 2;
+  const sy = (img.naturalHeight - sh) / 2;
+  ctx.drawImage(img, sx, sy, sw, sh, x, y, width, height);
+};
+
+const composite = async ({ human, saree, drapeStyle, options, accessories, group }: TryOnRequest): Promise<string> => {
+  const [humanImg, sareeImg] = await Promise.all([loadImage(human.previewUrl), loadImage(saree.previewUrl)]);
+  const pieces = accessories
+    ? [accessories.blouse, ...accessories.jewellery, accessories.footwear].filter((piece): piece is ImageFile => piece !== null)
+    : [];
+  const pieceImgs = await Promise.all(pieces.map(piece => loadImage(piece.previewUrl)));
+  const { width, height } = outputSize(options);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Mock provider: canvas 2D context unavailable.");
+
+  // Person fills the frame
+  drawCover(ctx, humanImg, 0, 0, width, height);
+
+  // Saree is blended over the torso and legs, leaving the head region untouched.
+  // In a group each dressed person gets their own saree over their box.
+  ctx.save();
+  ctx.globalAlpha = 0.6;
+  ctx.globalCompositeOperation = "multiply";
+  if (group?.length) {
+    for (const person of group) {
+      if (!person.saree) continue;
+      const img = person.saree === saree ? sareeImg : await loadImage(person.saree.previewUrl);
+      const { x, y, width: w, height: h } = person.box;
+      drawCover(ctx, img, x * width, (y + h * 0.25) * height, w * width, h * 0.75 * height);
+    }
+  } else {
+    const bodyTop = Math.round(height * 0.28);
+    drawCover(ctx, sareeImg, width * 0.2, bodyTop, width * 0.6, height - bodyTop);
+  }
+  ctx.restore();
+
+  // Outfit pieces are shown as swatches down the right edge
+  const swatch = Math.round(Math.min(width, height) * 0.14);
+  pieceImgs.forEach((img, index) => {
+    const y = 16 + index * (swatch + 8);
+    drawCover(ctx, img, width - swatch - 16, y, swatch, swatch);
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 3;
+    ctx.strokeRect(width - swatch - 16, y, swatch, swatch);
+  });
+
+  // Label so a mock result is never mistaken for a real one
+  drawLabel(ctx, `MOCK · ${getDrapeStyle(drapeStyle).name}`, 16);
+
+  return canvas.toDataURL("image/png");
+};
+
+// Stand-in detection: one person per half image-height of width, side by side
+const mockPeopleBoxes = (img: HTMLImageElement): NormalizedRect[] => {
+  const count = Math.min(5, Math.max(1, Math.round((img.naturalWidth / img.naturalHeight) * 2)));
+  const slot = 0.9 / count;
+  return Array.from({ length: count }, (_, index) => ({
+    x: 0.05 + index * slot,
+    y: 0.1,
+    width: slot * 0.9,
+    height: 0.85,
+  }));
+};
+
+// Canned analysis answer, run through the same schema check as a real one
+const MOCK_SAREE_ATTRIBUTES = {
+  colours: ["Maroon", "Antique Gold"],
+  border: "broad gold zari border",
+  pattern: "small paisley buttas",
+  fabric: "silk",
+  presentation: "flat-lay",
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, label: string, top: number) => {
+  ctx.font = "bold 28px sans-serif";
+  const labelWidth = Math.min(ctx.measureText(label).width + 32, ctx.canvas.width - 32);
+  ctx.fillStyle = "rgba(28, 25, 23, 0.75)";
+  ctx.fillRect(16, top, labelWidth, 48);
+  ctx.fillStyle = "#ffffff";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, 32, top + 24, labelWidth - 32);
+};
+
+// Refinements redraw the previous version with the instruction stamped on it,
+// so each node of the version tree is visually distinguishable.
+const refineComposite = async ({ turns, instruction }: RefineRequest): Promise<string> => {
+  const previous = await loadImage(turns[turns.length - 1].image);
+  const canvas = document.createElement("canvas");
+  canvas.width = previous.naturalWidth;
+  canvas.height = previous.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Mock provider: canvas 2D context unavailable.");
+
+  ctx.drawImage(previous, 0, 0);
+  drawLabel(ctx, `v${turns.length + 1}: ${instruction}`, canvas.height - 64 - (turns.length - 1) * 56);
+  return canvas.toDataURL("image/png");
+};
+
+export const createMockProvider = (
+  options: Partial<MockProviderOptions> = {}
+): TryOnProvider => {
+  const config = { ...DEFAULT_MOCK_OPTIONS, ...options };
+  let callCount = 0;
+
+  // Shared latency + failure simulation for every mock call
+  const simulateCall = async (signal?: AbortSignal) => {
+    callCount += 1;
+    if (config.latencyMs > 0) await delay(config.latencyMs, signal);
+    if (config.failEvery > 0 && callCount % config.failEvery === 0) {
+      throw createTryOnError(config.errorKind, config.errorMessage);
+    }
+  };
+
+  // The prompt is never rendered, but the template is still recorded so the
+  // A/B flow can be exercised offline
+  const toResult = (image: string, request: TryOnRequest): TryOnResult => ({
+    image,
+    promptTemplateId: promptTemplateTag(request.promptTemplate ?? { id: DEFAULT_PROMPT_TEMPLATE_ID }),
+    report: {
+      finishReason: "STOP",
+      safetyRatings: [],
+      notes: ["Mock provider: canvas composite of the inputs, not a real generation."],
+    },
+  });
+
+  return {
+    id: "mock",
+    label: "Mock Provider",
+    generateTryOn: async (request: TryOnRequest, signal?: AbortSignal): Promise<TryOnResult> => {
+      await simulateCall(signal);
+      return toResult(await composite(request), request);
+    },
+    refineTryOn: async (request: RefineRequest, signal?: AbortSignal): Promise<TryOnResult> => {
+      await simulateCall(signal);
+      return toResult(await refineComposite(request), request.base);
+    },
+    analyzeSaree: async (_saree: ImageFile, signal?: AbortSignal): Promise<SareeAnalysis> => {
+      await simulateCall(signal);
+      // Parsed like a model answer so the mock goes through the same normalisation
+      const attributes = parseSareeAttributes(MOCK_SAREE_ATTRIBUTES);
+      if (!attributes) {
+        throw createTryOnError("server", "Mock provider: invalid saree attributes.", { code: "unexpected-answer" });
+      }
+      return {
+        attributes,
+        report: { finishReason: "STOP", safetyRatings: [], notes: [] },
+      };
+    },
+    detectPeople: async (photo: ImageFile, signal?: AbortSignal): Promise<PeopleDetection> => {
+      await simulateCall(signal);
+      return {
+        people: mockPeopleBoxes(await loadImage(photo.previewUrl)),
+        report: { finishReason: "STOP", safetyRatings: [], notes: [] },
+      };
+    },
+  };
+};
@@ -0,0 +1,22 @@
+import { QueuedGeneration } from "../types";
+import { STORES, withStore } from "./database";
+
+// Generations requested while offline. Items stay in IndexedDB until the user
+// dismisses them, so a queue survives reloads and closed tabs.
+
+// Oldest first, which is also the order they are sent in
+export const listQueuedGenerations = (): Promise<QueuedGeneration[]> => {
+  return withStore<QueuedGeneration[]>(STORES.queue, "readonly", store => store.index("createdAt").getAll());
+};
+
+export const saveQueuedGeneration = async (item: QueuedGeneration): Promise<void> => {
+  await withStore(STORES.queue, "readwrite", store => store.put(item));
+};
+
+export const deleteQueuedGeneration = async (id: string): Promise<void> => {
+  await withStore(STORES.queue, "readwrite", store => store.delete(id));
+};
+
+// navigator.onLine is only a hint: `true` can still mean no route to the
+// server, but `false` reliably means there is no network at all
+export const isOffline = (): boolean => typeof navigator !== "undefined" && navigator.onLine === false;
@@ -0,0 +1,40 @@
+import { FaceCheckMethod } from "../types";
+import { FaceFrame, detectFace } from "./faceVerification";
+
+// Lightweight framing check for camera capture. Instead of a pose model it
+// locates the face and extrapolates the body from standard proportions (an
+// adult is roughly eight face-heights tall), which is enough to tell people to
+// step back, step closer or move to the centre.
+
+export type FramingIssue = "no-person" | "head-cut" | "feet-cut" | "too-far" | "off-centre";
+
+export interface FramingFeedback {
+  // null when the framing is fine; the UI shows a message per issue
+  issue: FramingIssue | null;
+  method: FaceCheckMethod | null;
+}
+
+const BODY_IN_FACE_HEIGHTS = 8;
+// Estimated feet position (normalized y) outside this range triggers feedback
+const MAX_FEET_Y = 0.98;
+const MIN_FEET_Y = 0.6;
+const MIN_HEAD_Y = 0.03;
+const MAX_CENTRE_OFFSET = 0.15;
+
+export const checkFraming = async (frame: FaceFrame): Promise<FramingFeedback> => {
+  const face = await detectFace(frame);
+  if (!face) return { issue: "no-person", method: null };
+
+  const { rect, method } = face;
+  const feetY = rect.y + rect.height * BODY_IN_FACE_HEIGHTS;
+  const centreX = rect.x + rect.width / 2;
+
+  const issue: FramingIssue | null =
+    rect.y < MIN_HEAD_Y ? "head-cut"
+    : feetY > MAX_FEET_Y ? "feet-cut"
+    : feetY < MIN_FEET_Y ? "too-far"
+    : Math.abs(centreX - 0.5) > MAX_CENTRE_OFFSET ? "off-centre"
+    : null;
+
+  return { issue, method };
+};
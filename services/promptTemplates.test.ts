@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { PromptVariables } from "../types";
+import { escapePromptText, renderPromptTemplate } from "./promptTemplates";
+
+const VARIABLES: PromptVariables = {
+  drapeName: "Nivi",
+  drapeInstructions: "",
+  guidanceInputs: "",
+  guidanceInstructions: "",
+  outfitInputs: "",
+  outfitSection: "",
+  backgroundInstructions: "",
+  aspectRatio: "3:4",
+};
+
+describe("renderPromptTemplate", () => {
+  it("numbers sections, including headings added by blocks", () => {
+    const body = "{{n}}. DRAPE: {{drapeName}}{{outfitSection}}\n{{n}}. FRAME: {{aspectRatio}}";
+    const rendered = renderPromptTemplate(body, { ...VARIABLES, outfitSection: "\n{{n}}. OUTFIT PIECES:" });
+
+    expect(rendered).toBe("1. DRAPE: Nivi\n2. OUTFIT PIECES:\n3. FRAME: 3:4");
+  });
+
+  it("keeps unknown variables as written", () => {
+    expect(renderPromptTemplate("{{missing}} {{toString}}", VARIABLES)).toBe("{{missing}} {{toString}}");
+  });
+
+  it("does not number or substitute markers in escaped user text", () => {
+    const scene = escapePromptText("a temple {{n}} with {{aspectRatio}}");
+    const rendered = renderPromptTemplate("{{n}}. BACKGROUND: {{backgroundInstructions}}", {
+      ...VARIABLES,
+      backgroundInstructions: scene,
+    });
+
+    expect(rendered).toBe("1. BACKGROUND: a temple { {n}} with { {aspectRatio}}");
+  });
+});
@@ -0,0 +1,156 @@
+import { PromptSettings, PromptTemplate, PromptTemplateSelection, PromptVariables } from "../types";
+
+// Versioned VTO prompt templates. The server renders them (server/prompt.ts);
+// the client lists them in the developer panel and records which one produced
+// each look, so prompt versions can be compared on the same inputs.
+//
+// Never change the body of a published version: add a new version instead, so
+// history entries keep pointing at the text that actually ran.
+
+const VTO_V1 = `Perform a highly realistic Virtual Try-On (VTO) task.
+
+INPUTS:
+- Image 1: The "Target Person".
+- Image 2: The "Garment" (Saree).{{guidanceInputs}}{{outfitInputs}}
+
+STRICT OBJECTIVE:
+Digitally dress the "Target Person" in the "Garment" (Saree).
+
+CRITICAL PRIORITY: ABSOLUTE FACIAL PRESERVATION
+- The face of the person in the output MUST BE IDENTICAL to the face in Image 1.
+- Do NOT change the facial expression, make-up, skin texture, age, or identity.
+- Do NOT "beautify" or "AI-generate" a new face.
+- Treat the face area as a strict copy-paste constraint from the original image.
+
+SECONDARY CONSTRAINTS:
+{{n}}. BODY INTEGRITY:
+   - Keep the exact body shape, height, and pose of Image 1.
+   - Do not slim or alter the body proportions.
+
+{{n}}. GARMENT REALISM:
+   - Apply the Saree from Image 2 onto the body.
+   - Preserve the exact pattern, border (zari), color, and texture of the saree.{{guidanceInstructions}}
+   - {{drapeInstructions}}
+   - Use realistic fabric physics (folds, pleats) for the {{drapeName}} drape.{{outfitSection}}
+
+{{n}}. COMPOSITION:
+   - Seamlessly blend the saree onto the neck and shoulders without altering the neck/face boundary.
+   - Match the lighting of the saree to the person's environment.
+
+{{n}}. BACKGROUND:
+   - {{backgroundInstructions}}
+   - Frame the full outfit for a {{aspectRatio}} image without cropping the saree.
+
+OUTPUT:
+- Return ONLY the final result image.`;
+
+const VTO_V2 = `Edit Image 1 so the person is wearing the saree from Image 2. This is a photo edit, not a new photo: everything that is not clothing stays exactly as it is in Image 1.
+
+INPUTS:
+- Image 1: The person. Their face, hair, skin, body and pose are fixed.
+- Image 2: The saree to put on them.{{guidanceInputs}}{{outfitInputs}}
+
+{{n}}. THE SAREE:
+   - Reproduce the saree's colours, weave, motifs and border (zari) exactly; do not invent new patterns.{{guidanceInstructions}}
+   - {{drapeInstructions}}
+   - Fabric should fold and pleat naturally for a {{drapeName}} drape, lit like the rest of the photo.{{outfitSection}}
+
+{{n}}. THE PERSON:
+   - Keep the exact body shape, height and pose. Do not slim or reshape the body.
+   - Keep the neck and face boundary untouched where the saree meets the shoulders.
+
+{{n}}. THE FRAME:
+   - {{backgroundInstructions}}
+   - Frame the full outfit for a {{aspectRatio}} image without cropping the saree.
+
+FINAL CHECK BEFORE ANSWERING:
+- The face must be pixel-for-pixel the face from Image 1: same identity, expression, make-up, skin texture and age. No beautification.
+
+Return ONLY the edited image.`;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "vto-v1",
+    version: 1,
+    name: "Strict constraints",
+    description: "Original prompt: face preservation first, then numbered constraints.",
+    body: VTO_V1,
+  },
+  {
+    id: "vto-v2",
+    version: 2,
+    name: "Photo edit",
+    description: "Frames the task as an edit of the person photo and restates the face rule last.",
+    body: VTO_V2,
+  },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = "vto-v1";
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  templateId: DEFAULT_PROMPT_TEMPLATE_ID,
+  compareTemplateId: null,
+  edits: {},
+};
+
+// Numbered headings use {{n}}, which counts up each time it appears. Block
+// variables start with a line break and are empty when the input is absent.
+export const PROMPT_VARIABLES: { name: keyof PromptVariables | "n"; description: string }[] = [
+  { name: "drapeName", description: "Drape style name, e.g. Nivi" },
+  { name: "drapeInstructions", description: "How to drape the selected style" },
+  { name: "guidanceInputs", description: "Input line for marked pallu / border close-ups (block)" },
+  { name: "guidanceInstructions", description: "Close-up and saree attribute instructions (block)" },
+  { name: "outfitInputs", description: "Input lines for blouse, jewellery and footwear images (block)" },
+  { name: "outfitSection", description: "Numbered outfit pieces section (block)" },
+  { name: "backgroundInstructions", description: "Background mode instruction" },
+  { name: "aspectRatio", description: "Output aspect ratio, e.g. 3:4" },
+  { name: "n", description: "Next section number" },
+];
+
+export const getPromptTemplate = (id: string): PromptTemplate | undefined =>
+  PROMPT_TEMPLATES.find(template => template.id === id);
+
+// Placeholders in a body that no variable fills
+export const findUnknownVariables = (body: string): string[] => {
+  const known = PROMPT_VARIABLES.map(variable => variable.name as string);
+  const names = Array.from(body.matchAll(/\{\{(\w+)\}\}/g), match => match[1]);
+  return Array.from(new Set(names.filter(name => !known.includes(name))));
+};
+
+// User text that ends up in a variable (scene description, edited saree
+// attributes) must not add section numbers or variables of its own
+export const escapePromptText = (text: string): string => text.replace(/\{\{/g, "{ {");
+
+export const renderPromptTemplate = (body: string, variables: PromptVariables): string => {
+  let section = 0;
+  return body
+    .replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+      Object.hasOwn(variables, name) ? variables[name as keyof PromptVariables] : match)
+    // Blocks can add headings, so number them after substitution
+    .replace(/\{\{n\}\}/g, () => String(++section));
+};
+
+// Recorded with each look: the template id, marked when its text was edited
+export const promptTemplateTag = ({ id, body }: PromptTemplateSelection) =>
+  body === undefined ? id : `${id}+edited`;
+
+export const selectPromptTemplate = (settings: PromptSettings, id: string): PromptTemplateSelection => {
+  const edited = settings.edits[id];
+  return edited === undefined ? { id } : { id, body: edited };
+};
+
+// Templates to alternate across variations: the primary one, then the comparison
+export const promptTemplateRotation = (settings: PromptSettings): PromptTemplateSelection[] => {
+  const ids = settings.compareTemplateId && settings.compareTemplateId !== settings.templateId
+    ? [settings.templateId, settings.compareTemplateId]
+    : [settings.templateId];
+  return ids.map(id => selectPromptTemplate(settings, id));
+};
+
+// Refinements reuse the template that produced the root look. Edited text is
+// only resent when the look was made from it; otherwise the published version.
+export const selectPromptTemplateForTag = (settings: PromptSettings, tag: string | undefined): PromptTemplateSelection => {
+  const id = tag?.replace(/\+edited$/, "");
+  if (!id || !getPromptTemplate(id)) return selectPromptTemplate(settings, settings.templateId);
+  return tag === id ? { id } : selectPromptTemplate(settings, id);
+};
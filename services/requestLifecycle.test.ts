@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TryOnError, createTryOnError } from "./errors";
+import { runWithLifecycle } from "./requestLifecycle";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("runWithLifecycle", () => {
+  it("rejects an already-aborted request without starting the task or a timer", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const task = vi.fn(async () => "done");
+
+    await expect(runWithLifecycle(task, { signal: controller.signal, timeoutMs: 60_000 }))
+      .rejects.toMatchObject({ kind: "cancelled" });
+    expect(task).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("stops an attempt at the timeout", async () => {
+    const result = runWithLifecycle(() => new Promise<string>(() => {}), { timeoutMs: 5_000, maxRetries: 0 });
+    const assertion = expect(result).rejects.toMatchObject({ kind: "timeout", code: "request-timeout", params: { seconds: 5 } });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    await assertion;
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("retries retryable errors and reports each retry", async () => {
+    const onRetry = vi.fn();
+    const task = vi.fn()
+      .mockRejectedValueOnce(createTryOnError("server"))
+      .mockResolvedValueOnce("done");
+
+    const result = runWithLifecycle(task, { maxRetries: 1, baseDelayMs: 100, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("done");
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(TryOnError), expect.any(Number));
+  });
+});
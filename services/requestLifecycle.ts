@@ -0,0 +1,130 @@
+import { TryOnError, classifyError, createTryOnError, parseRetryDelayMs } from "./errors";
+import { parseEnvNumber } from "../utils";
+
+export interface LifecycleOptions {
+  // Per-attempt timeout; 0 disables it
+  timeoutMs: number;
+  // Retries after the first attempt, only for retryable errors
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: TryOnError, delayMs: number) => void;
+}
+
+// Timeout and retry count can be tuned per deployment via TRYON_TIMEOUT_MS and
+// TRYON_MAX_RETRIES (see vite.config.ts).
+export const DEFAULT_LIFECYCLE_OPTIONS: LifecycleOptions = {
+  timeoutMs: parseEnvNumber(process.env.TRYON_TIMEOUT_MS, 120_000),
+  maxRetries: parseEnvNumber(process.env.TRYON_MAX_RETRIES, 2),
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+// Exponential backoff with jitter: base * 2^(attempt-1), capped, scaled to 50-100%
+export const computeBackoffDelay = (
+  attempt: number,
+  { baseDelayMs, maxDelayMs }: Pick<LifecycleOptions, "baseDelayMs" | "maxDelayMs">,
+  random: () => number = Math.random
+): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.5 + random() / 2));
+};
+
+const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createTryOnError("cancelled"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createTryOnError("cancelled"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+// Runs one attempt with its own AbortController linked to the caller's signal
+// and the timeout. The task is raced against the abort so providers that ignore
+// the signal still release the caller immediately.
+const runAttempt = <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outerSignal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let abortError: TryOnError | null = null;
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = (error: TryOnError) => {
+      if (abortError) return;
+      abortError = error;
+      controller.abort(error);
+      reject(error);
+    };
+    const onOuterAbort = () => abort(createTryOnError("cancelled"));
+    // Before the timer starts, so an early return leaves nothing scheduled
+    if (outerSignal?.aborted) {
+      onOuterAbort();
+      return;
+    }
+
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+        const seconds = Math.round(timeoutMs / 1000);
+        abort(createTryOnError("timeout", `The request timed out after ${seconds}s.`, {
+          code: "request-timeout",
+          params: { seconds },
+        }));
+      }, timeoutMs)
+      : undefined;
+    outerSignal?.addEventListener("abort", onOuterAbort, { once: true });
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      outerSignal?.removeEventListener("abort", onOuterAbort);
+    };
+
+    task(controller.signal).then(
+      value => {
+        cleanup();
+        if (!abortError) resolve(value);
+      },
+      error => {
+        cleanup();
+        if (!abortError) reject(classifyError(error));
+      }
+    );
+  });
+};
+
+export const runWithLifecycle = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: Partial<LifecycleOptions> = {}
+): Promise<T> => {
+  const config = { ...DEFAULT_LIFECYCLE_OPTIONS, ...options };
+  let attempt = 0;
+
+  while (true) {
+    attempt += 1;
+    try {
+      return await runAttempt(task, config.timeoutMs, config.signal);
+    } catch (error) {
+      const tryOnError = classifyError(error);
+      if (!tryOnError.retryable || attempt > config.maxRetries || config.signal?.aborted) {
+        throw tryOnError;
+      }
+      const delayMs = Math.min(
+        config.maxDelayMs,
+        parseRetryDelayMs(tryOnError) ?? computeBackoffDelay(attempt, config)
+      );
+      config.onRetry?.(attempt, tryOnError, delayMs);
+      await abortableSleep(delayMs, config.signal);
+    }
+  }
+};
@@ -0,0 +1,67 @@
+import { CatalogItem, SareeAttributes, SareeFabric, SareePresentation } from "../types";
+import { MAX_SAREE_COLOURS, SAREE_FABRICS, SAREE_PRESENTATIONS } from "../constants";
+
+// Saree attributes extracted from the garment image (see analyzeSaree in
+// server/model.ts). The same schema check runs on the model's answer and on
+// attributes the browser sends back after the user edited them.
+
+const MAX_TEXT_LENGTH = 120;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const cleanText = (value: unknown) =>
+  typeof value === "string" ? value.trim().replace(/\s+/g, " ").slice(0, MAX_TEXT_LENGTH) : "";
+
+// Answers like "None" or "N/A" mean the detail is absent
+const cleanDetail = (value: unknown) => {
+  const text = cleanText(value);
+  return /^(none|n\/a|na|plain|no border)$/i.test(text) ? "" : text;
+};
+
+// Returns null when `value` does not have the attribute shape. Enum values
+// outside the vocabulary become 'unknown' rather than failing the whole answer.
+export const parseSareeAttributes = (value: unknown): SareeAttributes | null => {
+  if (!isObject(value) || !Array.isArray(value.colours)) return null;
+  const fabric = cleanText(value.fabric).toLowerCase();
+  const presentation = cleanText(value.presentation).toLowerCase();
+  const colours = value.colours.map(colour => cleanText(colour).toLowerCase()).filter(Boolean);
+  return {
+    colours: Array.from(new Set(colours)).slice(0, MAX_SAREE_COLOURS),
+    border: cleanDetail(value.border),
+    pattern: cleanDetail(value.pattern),
+    fabric: Object.hasOwn(SAREE_FABRICS, fabric) ? fabric as SareeFabric : "unknown",
+    presentation: Object.hasOwn(SAREE_PRESENTATIONS, presentation) ? presentation as SareePresentation : "unknown",
+  };
+};
+
+// Prompt lines for the garment section; empty attributes add nothing
+export const describeSareeAttributes = ({ colours, border, pattern, fabric, presentation }: SareeAttributes): string[] => {
+  const lines: string[] = [];
+  if (colours.length > 0) lines.push(`Dominant colours, most prominent first: ${colours.join(", ")}. Keep these exact hues.`);
+  if (border) lines.push(`Border / zari: ${border}.`);
+  if (pattern) lines.push(`Body pattern: ${pattern}.`);
+  if (fabric !== "unknown") {
+    lines.push(`Fabric: ${SAREE_FABRICS[fabric].label.toLowerCase()}; match its sheen, weight and drape.`);
+  }
+  const framing = SAREE_PRESENTATIONS[presentation].promptFragment;
+  if (framing) lines.push(framing);
+  return lines;
+};
+
+// Catalog tags derived from the attributes: colours and fabric
+export const sareeAttributeTags = ({ colours, fabric }: SareeAttributes): string[] =>
+  fabric === "unknown" ? colours : [...colours, fabric];
+
+// Every word of the query must appear in the item's name, tags or attributes
+export const matchesCatalogSearch = (item: CatalogItem, query: string): boolean => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const attributes = item.attributes;
+  const haystack = [
+    item.name,
+    ...item.tags,
+    ...(attributes ? [...attributes.colours, attributes.border, attributes.pattern, attributes.fabric] : []),
+  ].join(" ").toLowerCase();
+  return words.every(word => haystack.includes(word));
+};
@@ -0,0 +1,10 @@
+// Registers the service worker that keeps the app shell available offline
+// (sw.js). Only builds have one; `npm run dev` serves files straight from Vite.
+export const registerServiceWorker = () => {
+  if (process.env.TRYON_SERVICE_WORKER !== "true" || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(error => {
+      console.error("Service worker registration failed", error);
+    });
+  });
+};
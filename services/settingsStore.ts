@@ -0,0 +1,195 @@
+import {
+  ExportSettings,
+  GenerationOptions,
+  Locale,
+  ModelPrice,
+  PromptSettings,
+  UsageSettings,
+  WatermarkPosition
+} from "../types";
+import {
+  ASPECT_RATIOS,
+  BACKGROUND_MODES,
+  DEFAULT_EXPORT_SETTINGS,
+  DEFAULT_GENERATION_OPTIONS,
+  DEFAULT_LOCALE,
+  DEFAULT_USAGE_SETTINGS,
+  EXPORT_FORMATS,
+  IMAGE_SIZES,
+  LOCALES,
+  MAX_FACE_REROLLS
+} from "../constants";
+import { DEFAULT_PROMPT_SETTINGS, getPromptTemplate } from "./promptTemplates";
+
+const GENERATION_OPTIONS_KEY = "saree-ai:generation-options";
+const EXPORT_SETTINGS_KEY = "saree-ai:export-settings";
+const USAGE_SETTINGS_KEY = "saree-ai:usage-settings";
+const PROMPT_SETTINGS_KEY = "saree-ai:prompt-settings";
+const LOCALE_KEY = "saree-ai:locale";
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && value >= min && value <= max;
+
+// Drops anything stored by an older build (or history entry) that is no longer
+// a valid choice, and fills in settings added since
+export const normalizeGenerationOptions = (value: Partial<GenerationOptions> | null): GenerationOptions => {
+  const defaults = DEFAULT_GENERATION_OPTIONS;
+  if (!value || typeof value !== "object") return defaults;
+  const { background, faceCheck } = value;
+  return {
+    aspectRatio: ASPECT_RATIOS.some(r => r.id === value.aspectRatio) ? value.aspectRatio! : defaults.aspectRatio,
+    imageSize: IMAGE_SIZES.some(s => s.id === value.imageSize) ? value.imageSize! : defaults.imageSize,
+    background: {
+      mode: background && Object.hasOwn(BACKGROUND_MODES, background.mode) ? background.mode : defaults.background.mode,
+      sceneDescription: typeof background?.sceneDescription === "string" ? background.sceneDescription : "",
+    },
+    faceCheck: {
+      enabled: typeof faceCheck?.enabled === "boolean" ? faceCheck.enabled : defaults.faceCheck.enabled,
+      threshold: inRange(faceCheck?.threshold, 0, 1) ? faceCheck!.threshold : defaults.faceCheck.threshold,
+      maxRerolls: inRange(faceCheck?.maxRerolls, 0, MAX_FACE_REROLLS)
+        ? Math.floor(faceCheck!.maxRerolls)
+        : defaults.faceCheck.maxRerolls,
+    },
+  };
+};
+
+export const loadGenerationOptions = (): GenerationOptions => {
+  try {
+    return normalizeGenerationOptions(JSON.parse(localStorage.getItem(GENERATION_OPTIONS_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_GENERATION_OPTIONS;
+  }
+};
+
+export const saveGenerationOptions = (options: GenerationOptions) => {
+  try {
+    localStorage.setItem(GENERATION_OPTIONS_KEY, JSON.stringify(options));
+  } catch (e) {
+    // Storage can be full or disabled (private mode); settings just won't persist
+    console.error("Failed to save generation options", e);
+  }
+};
+
+const normalizeExportSettings = (value: Partial<ExportSettings> | null): ExportSettings => {
+  const defaults = DEFAULT_EXPORT_SETTINGS;
+  if (!value || typeof value !== "object") return defaults;
+  const watermark = value.watermark;
+  return {
+    format: value.format && Object.hasOwn(EXPORT_FORMATS, value.format) ? value.format : defaults.format,
+    quality: inRange(value.quality, 0.1, 1) ? value.quality : defaults.quality,
+    layout: value.layout === "collage" ? "collage" : "single",
+    watermark: {
+      enabled: typeof watermark?.enabled === "boolean" ? watermark.enabled : defaults.watermark.enabled,
+      text: typeof watermark?.text === "string" ? watermark.text : "",
+      logoDataUrl: typeof watermark?.logoDataUrl === "string" ? watermark.logoDataUrl : null,
+      position: watermark && WATERMARK_POSITIONS.includes(watermark.position) ? watermark.position : defaults.watermark.position,
+      opacity: inRange(watermark?.opacity, 0.1, 1) ? watermark!.opacity : defaults.watermark.opacity,
+    },
+    filenamePattern: typeof value.filenamePattern === "string" && value.filenamePattern.trim()
+      ? value.filenamePattern
+      : defaults.filenamePattern,
+    includeMetadata: typeof value.includeMetadata === "boolean" ? value.includeMetadata : defaults.includeMetadata,
+  };
+};
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    return normalizeExportSettings(JSON.parse(localStorage.getItem(EXPORT_SETTINGS_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  try {
+    localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save export settings", e);
+  }
+};
+
+const isPrice = (value: unknown): value is ModelPrice => {
+  const price = value as Partial<ModelPrice> | null;
+  return !!price && [price.input, price.outputText, price.outputImage].every(rate => inRange(rate, 0, 10_000));
+};
+
+// Stored prices override the defaults per model, so models added in a later
+// build still get list prices
+const normalizeUsageSettings = (value: Partial<UsageSettings> | null): UsageSettings => {
+  const defaults = DEFAULT_USAGE_SETTINGS;
+  if (!value || typeof value !== "object") return defaults;
+  const stored = Object.entries(value.prices ?? {}).filter(([, price]) => isPrice(price));
+  return {
+    prices: { ...defaults.prices, ...Object.fromEntries(stored) },
+    dailyBudget: inRange(value.dailyBudget, 0, Number.MAX_SAFE_INTEGER) ? value.dailyBudget : null,
+  };
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    return normalizeUsageSettings(JSON.parse(localStorage.getItem(USAGE_SETTINGS_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  try {
+    localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save usage settings", e);
+  }
+};
+
+// Templates removed in a later build fall back to the default; edits to them are dropped
+const normalizePromptSettings = (value: Partial<PromptSettings> | null): PromptSettings => {
+  const defaults = DEFAULT_PROMPT_SETTINGS;
+  if (!value || typeof value !== "object") return defaults;
+  const isKnown = (id: unknown): id is string => typeof id === "string" && !!getPromptTemplate(id);
+  const edits = Object.entries(value.edits ?? {}).filter(([id, body]) => isKnown(id) && typeof body === "string");
+  return {
+    templateId: isKnown(value.templateId) ? value.templateId : defaults.templateId,
+    compareTemplateId: isKnown(value.compareTemplateId) ? value.compareTemplateId : null,
+    edits: Object.fromEntries(edits),
+  };
+};
+
+export const loadPromptSettings = (): PromptSettings => {
+  try {
+    return normalizePromptSettings(JSON.parse(localStorage.getItem(PROMPT_SETTINGS_KEY) ?? "null"));
+  } catch {
+    return DEFAULT_PROMPT_SETTINGS;
+  }
+};
+
+export const savePromptSettings = (settings: PromptSettings) => {
+  try {
+    localStorage.setItem(PROMPT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save prompt settings", e);
+  }
+};
+
+export const isLocale = (value: unknown): value is Locale => typeof value === "string" && Object.hasOwn(LOCALES, value);
+
+// A saved choice wins; otherwise the first browser language the app supports
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage disabled; fall through to the browser languages
+  }
+  const preferred = (navigator.languages ?? [navigator.language]).map(tag => tag.split("-")[0].toLowerCase());
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (e) {
+    console.error("Failed to save language", e);
+  }
+};
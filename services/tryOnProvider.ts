@@ -0,0 +1,33 @@
+import { TryOnErrorKind, TryOnProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { createMockProvider, DEFAULT_MOCK_OPTIONS } from "./mockService";
+import { withUsageTracking } from "./usageTracker";
+import { parseEnvNumber } from "../utils";
+
+// Provider selection is driven by TRYON_PROVIDER, which vite.config.ts injects from
+// the environment or .env.local. Anything other than "mock" falls back to Gemini.
+
+const createConfiguredProvider = (): TryOnProvider => {
+  switch (process.env.TRYON_PROVIDER) {
+    case "mock":
+      return createMockProvider({
+        latencyMs: parseEnvNumber(process.env.MOCK_LATENCY_MS, DEFAULT_MOCK_OPTIONS.latencyMs),
+        failEvery: parseEnvNumber(process.env.MOCK_FAIL_EVERY, DEFAULT_MOCK_OPTIONS.failEvery),
+        errorKind: (process.env.MOCK_ERROR_KIND as TryOnErrorKind) || DEFAULT_MOCK_OPTIONS.errorKind,
+        errorMessage: process.env.MOCK_ERROR_MESSAGE || DEFAULT_MOCK_OPTIONS.errorMessage,
+      });
+    case "gemini":
+    default:
+      return geminiProvider;
+  }
+};
+
+let activeProvider: TryOnProvider | null = null;
+
+// The provider is created once so stateful providers (e.g. the mock failure
+// counter) keep their state across generations. Every call goes through the
+// usage log and daily budget check.
+export const getTryOnProvider = (): TryOnProvider => {
+  if (!activeProvider) activeProvider = withUsageTracking(createConfiguredProvider());
+  return activeProvider;
+};
@@ -0,0 +1,163 @@
+import {
+  GenerationReport,
+  ImageSize,
+  ModelPrice,
+  TryOnProvider,
+  UsageCallType,
+  UsageRecord
+} from "../types";
+import { USAGE_RETENTION_DAYS } from "../constants";
+import { classifyError, createTryOnError } from "./errors";
+import { loadUsageSettings } from "./settingsStore";
+
+// Local log of every provider call (tokens, latency, outcome) with cost
+// estimates from the price table and the soft daily budget. Nothing leaves the
+// device; the numbers are estimates, not the bill.
+
+const USAGE_LOG_KEY = "saree-ai:usage-log";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyUsage {
+  // Local date, YYYY-MM-DD
+  day: string;
+  calls: number;
+  succeeded: number;
+  tokens: number;
+  averageLatencyMs: number;
+  cost: number;
+}
+
+type UsageListener = (records: UsageRecord[]) => void;
+
+const listeners = new Set<UsageListener>();
+
+export const loadUsageRecords = (): UsageRecord[] => {
+  try {
+    const records = JSON.parse(localStorage.getItem(USAGE_LOG_KEY) ?? "[]");
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveUsageRecords = (records: UsageRecord[]) => {
+  try {
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.error("Failed to save usage log", e);
+  }
+  listeners.forEach(listener => listener(records));
+};
+
+export const subscribeUsage = (listener: UsageListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (record: Omit<UsageRecord, "id">) => {
+  const cutoff = Date.now() - USAGE_RETENTION_DAYS * DAY_MS;
+  const records = loadUsageRecords().filter(r => r.timestamp >= cutoff);
+  saveUsageRecords([...records, { ...record, id: crypto.randomUUID() }]);
+};
+
+export const clearUsageRecords = () => saveUsageRecords([]);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// USD; calls without token counts or with an unpriced model count as free
+export const estimateCost = (record: UsageRecord, prices: Record<string, ModelPrice>): number => {
+  const price = record.model ? prices[record.model] : undefined;
+  if (!price || !record.tokens) return 0;
+  const { input, outputText, outputImage, thoughts } = record.tokens;
+  return (input * price.input + (outputText + thoughts) * price.outputText + outputImage * price.outputImage) / 1_000_000;
+};
+
+// Newest day first
+export const summarizeByDay = (records: UsageRecord[], prices: Record<string, ModelPrice>): DailyUsage[] => {
+  const days = new Map<string, DailyUsage & { totalLatencyMs: number }>();
+  records.forEach(record => {
+    const day = dayKey(record.timestamp);
+    const summary = days.get(day) ?? { day, calls: 0, succeeded: 0, tokens: 0, averageLatencyMs: 0, cost: 0, totalLatencyMs: 0 };
+    summary.calls += 1;
+    if (record.outcome === "success") summary.succeeded += 1;
+    summary.tokens += record.tokens?.total ?? 0;
+    summary.totalLatencyMs += record.latencyMs;
+    summary.cost += estimateCost(record, prices);
+    days.set(day, summary);
+  });
+  return Array.from(days.values())
+    .map(({ totalLatencyMs, ...summary }) => ({ ...summary, averageLatencyMs: totalLatencyMs / summary.calls }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+};
+
+export const formatUsd = (amount: number) =>
+  `$${amount < 1 && amount > 0 ? amount.toFixed(3) : amount.toFixed(2)}`;
+
+// Refuses the call up front once today's estimate reaches the budget. Soft:
+// calls already in flight finish and may take the total past it.
+const checkDailyBudget = () => {
+  const { dailyBudget, prices } = loadUsageSettings();
+  if (dailyBudget === null) return;
+  const today = dayKey(Date.now());
+  const spent = summarizeByDay(loadUsageRecords(), prices).find(summary => summary.day === today)?.cost ?? 0;
+  if (spent >= dailyBudget) {
+    throw createTryOnError(
+      "budget-exceeded",
+      `Today's estimated spend (${formatUsd(spent)}) has reached your daily budget of ${formatUsd(dailyBudget)}.`
+    );
+  }
+};
+
+// Records every call the provider makes, including failures and cancellations,
+// which can still be billed
+export const withUsageTracking = (provider: TryOnProvider): TryOnProvider => {
+  const track = async <T extends { report: GenerationReport }>(
+    callType: UsageCallType,
+    imageSize: ImageSize | null,
+    call: () => Promise<T>
+  ): Promise<T> => {
+    checkDailyBudget();
+    const startedAt = Date.now();
+    const base = { timestamp: startedAt, provider: provider.id, callType, imageSize };
+    try {
+      const result = await call();
+      recordUsage({
+        ...base,
+        model: result.report.model ?? null,
+        outcome: "success",
+        latencyMs: Date.now() - startedAt,
+        tokens: result.report.usage ?? null,
+      });
+      return result;
+    } catch (error) {
+      const tryOnError = classifyError(error);
+      recordUsage({
+        ...base,
+        model: tryOnError.report?.model ?? null,
+        outcome: tryOnError.kind,
+        latencyMs: Date.now() - startedAt,
+        tokens: tryOnError.report?.usage ?? null,
+      });
+      throw tryOnError;
+    }
+  };
+
+  return {
+    ...provider,
+    generateTryOn: (request, signal) =>
+      track("generate", request.options.imageSize, () => provider.generateTryOn(request, signal)),
+    refineTryOn: (request, signal) =>
+      track("refine", request.base.options.imageSize, () => provider.refineTryOn(request, signal)),
+    analyzeSaree: (saree, signal) =>
+      track("analyze", null, () => provider.analyzeSaree(saree, signal)),
+    detectPeople: (photo, signal) =>
+      track("detect", null, () => provider.detectPeople(photo, signal)),
+  };
+};
@@ -0,0 +1,72 @@
+import { FaceCheck, PromptTemplateSelection, TryOnProvider, TryOnRequest, TryOnResult, VariationSettings } from "../types";
+import { createTryOnError } from "./errors";
+import { generateWithFaceCheck } from "./faceVerification";
+import { LifecycleOptions, runWithLifecycle } from "./requestLifecycle";
+
+export const MAX_VARIATIONS = 4;
+
+export const DEFAULT_VARIATIONS: VariationSettings = {
+  count: 1,
+  mode: "parallel",
+};
+
+export interface VariationRunOptions {
+  signal?: AbortSignal;
+  lifecycle?: Partial<LifecycleOptions>;
+  onResult?: (result: TryOnResult) => void;
+  onFaceReroll?: (attempt: number, check: FaceCheck) => void;
+  // Prompt templates to alternate across candidates (A/B); defaults to the request's
+  promptTemplates?: PromptTemplateSelection[];
+}
+
+// Requests `settings.count` candidates for the same person + saree pair.
+// Each successful candidate is reported through `onResult` as soon as it arrives
+// so the gallery can fill in progressively. Individual failures are tolerated;
+// the call only rejects when no candidate could be generated at all, or when
+// the caller cancels. With face verification enabled, each candidate is
+// re-rolled on its own until its face matches the person photo.
+export const generateVariations = async (
+  provider: TryOnProvider,
+  request: TryOnRequest,
+  settings: VariationSettings,
+  { signal, lifecycle, onResult, onFaceReroll, promptTemplates = [] }: VariationRunOptions = {}
+): Promise<TryOnResult[]> => {
+  const count = Math.min(Math.max(1, Math.floor(settings.count)), MAX_VARIATIONS);
+  const results: TryOnResult[] = [];
+  const errors: unknown[] = [];
+
+  const runOne = async (index: number) => {
+    const candidate = promptTemplates.length > 0
+      ? { ...request, promptTemplate: promptTemplates[index % promptTemplates.length] }
+      : request;
+    try {
+      const result = await generateWithFaceCheck(
+        () => runWithLifecycle(
+          attemptSignal => provider.generateTryOn(candidate, attemptSignal),
+          { ...lifecycle, signal }
+        ),
+        request.human.previewUrl,
+        request.options.faceCheck,
+        onFaceReroll
+      );
+      results.push(result);
+      onResult?.(result);
+    } catch (error) {
+      errors.push(error);
+    }
+  };
+
+  if (settings.mode === "parallel") {
+    await Promise.all(Array.from({ length: count }, (_, index) => runOne(index)));
+  } else {
+    for (let i = 0; i < count && !signal?.aborted; i++) {
+      await runOne(i);
+    }
+  }
+
+  if (signal?.aborted) throw createTryOnError("cancelled");
+  if (results.length === 0) {
+    throw errors[0] ?? createTryOnError("no-image");
+  }
+  return results;
+};
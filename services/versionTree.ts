@@ -0,0 +1,73 @@
+import { LookVersion, TryOnResult } from "../types";
+import { Translator } from "../i18n/translator";
+
+export const createVersion = (
+  imageIndex: number,
+  parentId: string | null,
+  instruction: string | null,
+  result?: Pick<TryOnResult, "thoughtSignature" | "promptTemplateId">
+): LookVersion => ({
+  id: crypto.randomUUID(),
+  parentId,
+  imageIndex,
+  instruction,
+  thoughtSignature: result?.thoughtSignature,
+  promptTemplateId: result?.promptTemplateId,
+  createdAt: Date.now(),
+});
+
+// Entries saved before refinements existed only have flat outputs
+export const createRootVersions = (imageCount: number): LookVersion[] => {
+  return Array.from({ length: imageCount }, (_, index) => createVersion(index, null, null));
+};
+
+export const findVersionForImage = (versions: LookVersion[], imageIndex: number) => {
+  return versions.find(version => version.imageIndex === imageIndex);
+};
+
+// Versions from the root candidate down to (and including) `id`
+export const getVersionPath = (versions: LookVersion[], id: string): LookVersion[] => {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const path: LookVersion[] = [];
+  let current = byId.get(id);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+export interface VersionNode {
+  version: LookVersion;
+  depth: number;
+  // Position of the root candidate, used for "Look N" labels
+  rootNumber: number;
+}
+
+// Depth-first flattening of the forest for rendering as an indented list
+export const flattenVersionTree = (versions: LookVersion[]): VersionNode[] => {
+  const children = new Map<string | null, LookVersion[]>();
+  versions.forEach(version => {
+    const siblings = children.get(version.parentId) ?? [];
+    siblings.push(version);
+    children.set(version.parentId, siblings);
+  });
+
+  const nodes: VersionNode[] = [];
+  const visit = (version: LookVersion, depth: number, rootNumber: number) => {
+    nodes.push({ version, depth, rootNumber });
+    (children.get(version.id) ?? []).forEach(child => visit(child, depth + 1, rootNumber));
+  };
+  (children.get(null) ?? []).forEach((root, index) => visit(root, 0, index + 1));
+  return nodes;
+};
+
+// "Look 2" for a candidate, "Look 2 · v3" for its second refinement
+export const getVersionLabel = (versions: LookVersion[], version: LookVersion, t: Translator["t"]): string => {
+  const path = getVersionPath(versions, version.id);
+  const roots = versions.filter(v => v.parentId === null);
+  const rootNumber = roots.findIndex(root => root.id === path[0]?.id) + 1;
+  return path.length > 1
+    ? t("results.lookVersion", { look: rootNumber, version: path.length })
+    : t("results.look", { look: rootNumber });
+};
@@ -0,0 +1,96 @@
+// Service worker for the built app. The `serviceWorker` plugin in
+// vite.config.ts fills in the build's file list and cache version when it
+// copies this file into dist/; it is not used by `npm run dev`.
+
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `saree-ai-shell-${CACHE_VERSION}`;
+// Tailwind and the web fonts are loaded from CDNs by index.html
+const CDN_CACHE = "saree-ai-cdn";
+const CDN_ORIGINS = [
+  "https://cdn.tailwindcss.com",
+  "https://fonts.googleapis.com",
+  "https://fonts.gstatic.com",
+  "https://esm.sh",
+];
+const CDN_PRECACHE_URLS = ["https://cdn.tailwindcss.com/"];
+
+self.addEventListener("install", event => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(PRECACHE_URLS);
+    // Best effort: they are also cached when the page next loads them. Opaque
+    // responses have no status, so they are put directly instead of cache.add()
+    const cdn = await caches.open(CDN_CACHE);
+    await Promise.allSettled(CDN_PRECACHE_URLS.map(async url => {
+      const request = new Request(url, { mode: "no-cors" });
+      await cdn.put(request, await fetch(request));
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith("saree-ai-shell-") && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages: network first so a new deploy shows up, the cached shell when offline
+const handleNavigation = async request => {
+  const shell = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await shell.put("/", response.clone());
+    return response;
+  } catch {
+    return (await shell.match("/")) ?? Response.error();
+  }
+};
+
+// Built files have hashed names, so a cached copy is always current
+const handleAsset = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(SHELL_CACHE)).put(request, response.clone());
+  return response;
+};
+
+// CDN files: serve the cached copy and refresh it in the background
+const handleCdn = async (event, request) => {
+  const cache = await caches.open(CDN_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(response => {
+    if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // The try-on API is never cached; offline generations go to the app's queue
+    if (url.pathname.startsWith("/api/")) return;
+    // The storefront widget is left to the network so it never replaces the cached app shell
+    if (url.pathname === "/embed.html") return;
+    event.respondWith(request.mode === "navigate" ? handleNavigation(request) : handleAsset(request));
+    return;
+  }
+  if (CDN_ORIGINS.includes(url.origin)) {
+    event.respondWith(handleCdn(event, request));
+  }
+});
@@ -1,26 +1,603 @@
+// Rectangle in normalized image coordinates (0-1 on both axes)
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Saree details the user marked as must-preserve
+export type GuidanceRegionKind = 'pallu' | 'border';
+
+export interface GuidanceRegion {
+  id: string;
+  kind: GuidanceRegionKind;
+  rect: NormalizedRect;
+}
+
 export interface ImageFile {
   file: File;
   previewUrl: string;
   base64: string;
   mimeType: string;
+  // Pixel dimensions after preprocessing
+  width: number;
+  height: number;
+  regions?: GuidanceRegion[];
+}
+
+// Close-up crop of a guidance region, sent to the model next to the full image
+export interface GuidanceImage {
+  kind: GuidanceRegionKind;
+  base64: string;
+  mimeType: string;
+}
+
+export type DrapeStyleId = 'nivi' | 'bengali' | 'gujarati' | 'nauvari' | 'halfSaree';
+
+export interface DrapeStyle {
+  id: DrapeStyleId;
+  name: string;
+  region: string;
+  description: string;
+  promptFragment: string;
+}
+
+// 'auto' leaves the choice to the model (or to the blouse image, if given)
+export type SleeveLength = 'auto' | 'sleeveless' | 'cap' | 'elbow' | 'full';
+
+export type Neckline = 'auto' | 'round' | 'sweetheart' | 'boat' | 'vNeck' | 'highNeck';
+
+export interface BlouseStyle {
+  sleeve: SleeveLength;
+  neckline: Neckline;
+}
+
+// Optional garment inputs composed with the saree into one outfit
+export interface OutfitAccessories {
+  blouse: ImageFile | null;
+  jewellery: ImageFile[];
+  footwear: ImageFile | null;
+}
+
+export type AccessorySlot = keyof OutfitAccessories;
+
+export type TryOnErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety-blocked'
+  | 'no-image'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'cancelled'
+  // Rejected by the try-on server before reaching the model (size caps, bad input)
+  | 'invalid-request'
+  // Refused locally because today's estimated spend reached the daily budget
+  | 'budget-exceeded'
+  | 'unknown';
+
+// Translatable failure codes; the UI looks up its message by code, and the
+// English `message` stays for logs. Every kind is also the code of its
+// generic message.
+export type TryOnErrorCode =
+  | TryOnErrorKind
+  | 'http-status'
+  | 'api-key-missing'
+  | 'rate-limited'
+  | 'request-too-large'
+  | 'image-too-large'
+  | 'image-unsupported'
+  | 'too-many-images'
+  | 'too-many-jewellery'
+  | 'custom-prompts-disabled'
+  | 'unexpected-answer'
+  | 'request-timeout'
+  | 'group-too-large'
+  | 'group-too-many-sarees'
+  | 'group-unassigned'
+  | 'instruction-too-long'
+  | 'scene-too-long';
+
+// Values substituted into a translated message, e.g. {seconds}
+export type MessageParams = Record<string, string | number>;
+
+// UI languages; see LOCALES in constants.ts
+export type Locale = 'en' | 'hi' | 'ta' | 'te' | 'bn' | 'mr';
+
+export interface SafetyRatingSummary {
+  category: string;
+  probability: string;
+  blocked: boolean;
+}
+
+// What the model reported alongside (or instead of) an image
+export interface GenerationReport {
+  finishReason?: string;
+  finishMessage?: string;
+  // Set when the prompt itself was rejected before generation
+  blockReason?: string;
+  safetyRatings: SafetyRatingSummary[];
+  // Text parts returned next to the image
+  notes: string[];
+  // Model that handled the call and the tokens it billed
+  model?: string;
+  usage?: TokenUsage;
+}
+
+// Token counts from the response's usageMetadata, split by what they are billed as
+export interface TokenUsage {
+  input: number;
+  outputText: number;
+  outputImage: number;
+  thoughts: number;
+  total: number;
+}
+
+export type UsageCallType = 'generate' | 'refine' | 'analyze' | 'detect';
+
+// 'success' or the kind of failure
+export type UsageOutcome = 'success' | TryOnErrorKind;
+
+// One provider call, as kept in the local usage log
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  provider: TryOnProviderId;
+  model: string | null;
+  callType: UsageCallType;
+  // Null for calls that return text only
+  imageSize: ImageSize | null;
+  outcome: UsageOutcome;
+  latencyMs: number;
+  // Null when the call failed before the model reported usage
+  tokens: TokenUsage | null;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  outputText: number;
+  outputImage: number;
+}
+
+export interface UsageSettings {
+  // Keyed by model name
+  prices: Record<string, ModelPrice>;
+  // Soft limit in USD on the estimated spend per day; null disables it
+  dailyBudget: number | null;
+}
+
+// How the face was located for verification: the browser's FaceDetector when
+// available, otherwise a skin-tone heuristic over the upper part of the frame
+export type FaceCheckMethod = 'face-detector' | 'heuristic';
+
+export interface FaceCheck {
+  // 0-1 similarity between the face in the person photo and in the output
+  score: number;
+  passed: boolean;
+  method: FaceCheckMethod;
+  // Generations made for this image, including automatic re-rolls
+  attempts: number;
+}
+
+export type SareeFabric =
+  | 'silk'
+  | 'cotton'
+  | 'chiffon'
+  | 'georgette'
+  | 'crepe'
+  | 'organza'
+  | 'linen'
+  | 'net'
+  | 'synthetic'
+  | 'unknown';
+
+// How the saree is shown in its photo
+export type SareePresentation = 'flat-lay' | 'hanger' | 'worn' | 'unknown';
+
+// Structured description of a saree image, extracted by a text-output model
+// call and editable by the user before it is added to the try-on prompt
+export interface SareeAttributes {
+  // Dominant colours, most prominent first, e.g. "maroon", "antique gold"
+  colours: string[];
+  // Border / zari type, e.g. "broad gold zari temple border"; empty if none
+  border: string;
+  // Body pattern, e.g. "small paisley buttas"; empty if plain
+  pattern: string;
+  fabric: SareeFabric;
+  presentation: SareePresentation;
+}
+
+export interface SareeAnalysis {
+  attributes: SareeAttributes;
+  report: GenerationReport;
+}
+
+export interface TryOnResult {
+  image: string;
+  report: GenerationReport;
+  // Template that rendered the prompt; "+edited" is appended for runtime edits
+  promptTemplateId?: string;
+  // Opaque model state needed to continue a multi-turn edit, if provided
+  thoughtSignature?: string;
+  // Set when face verification ran on this result
+  faceCheck?: FaceCheck;
+}
+
+// One node in the refinement tree of a look. Roots are the generated
+// candidates; children are follow-up edits of their parent.
+export interface LookVersion {
+  id: string;
+  parentId: string | null;
+  // Index into the list of generated images
+  imageIndex: number;
+  instruction: string | null;
+  thoughtSignature?: string;
+  // Prompt template the look was generated with, see PromptTemplate
+  promptTemplateId?: string;
+  createdAt: number;
+}
+
+export interface RefinementTurn {
+  instruction: string | null;
+  image: string;
+  thoughtSignature?: string;
+}
+
+export interface RefineRequest {
+  base: TryOnRequest;
+  // Path from the original generation to the version being refined
+  turns: RefinementTurn[];
+  instruction: string;
+}
+
+// Error shown in the banner; `kind` is set for classified generation failures
+export interface AppError {
+  message: string;
+  kind?: TryOnErrorKind;
+  // Set for try-on failures, which are translated when shown
+  code?: TryOnErrorCode;
+  params?: MessageParams;
+  report?: GenerationReport;
+}
+
+export type AspectRatio = '3:4' | '1:1' | '4:5' | '9:16';
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export type BackgroundMode = 'original' | 'studio' | 'scene';
+
+export interface BackgroundOption {
+  mode: BackgroundMode;
+  // Free-text scene, used when mode is 'scene'
+  sceneDescription: string;
+}
+
+export interface FaceCheckSettings {
+  enabled: boolean;
+  // Minimum score (0-1) an output needs to be accepted without a re-roll
+  threshold: number;
+  // Extra generations allowed per image when the face does not match
+  maxRerolls: number;
+}
+
+export interface GenerationOptions {
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  background: BackgroundOption;
+  faceCheck: FaceCheckSettings;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+// 'collage' lays out person | saree | result side by side
+export type ExportLayout = 'single' | 'collage';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  text: string;
+  // Small PNG data URL, kept with the settings so partners upload their logo once
+  logoDataUrl: string | null;
+  position: WatermarkPosition;
+  opacity: number;
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0-1, used for JPEG and WebP
+  quality: number;
+  layout: ExportLayout;
+  watermark: WatermarkSettings;
+  // Tokens such as {date} and {look}, see FILENAME_TOKENS
+  filenamePattern: string;
+  includeMetadata: boolean;
+}
+
+export interface TryOnRequest {
+  human: ImageFile;
+  saree: ImageFile;
+  drapeStyle: DrapeStyleId;
+  options: GenerationOptions;
+  sareeGuidance?: GuidanceImage[];
+  accessories?: OutfitAccessories;
+  blouseStyle?: BlouseStyle;
+  // Defaults to DEFAULT_PROMPT_TEMPLATE_ID
+  promptTemplate?: PromptTemplateSelection;
+  // Attributes read from the saree image, as confirmed or edited by the user
+  sareeAttributes?: SareeAttributes | null;
+  // Group photo: who wears which saree. `saree` must be one of the assigned sarees.
+  group?: GroupPerson[] | null;
+}
+
+// A person found (or marked by hand) in a group photo
+export interface GroupPerson {
+  id: string;
+  // Around the whole person, in normalized image coordinates
+  box: NormalizedRect;
+  // Null leaves the person exactly as they are in the photo
+  saree: ImageFile | null;
+}
+
+export interface GroupPersonPayload {
+  box: NormalizedRect;
+  // Index into [request saree, ...group sarees]; null for untouched people
+  saree: number | null;
+}
+
+export interface GroupPayload {
+  people: GroupPersonPayload[];
+  // Distinct sarees other than the request's own `saree`
+  sarees: ImagePayload[];
+}
+
+export interface PeopleDetection {
+  // Left to right
+  people: NormalizedRect[];
+  report: GenerationReport;
+}
+
+// Encoded image bytes; all the try-on server needs from an ImageFile
+export type ImagePayload = Pick<ImageFile, 'base64' | 'mimeType'>;
+
+// TryOnRequest as sent to the try-on server, with optional fields filled in
+export interface TryOnPayload {
+  human: ImagePayload;
+  saree: ImagePayload;
+  drapeStyle: DrapeStyleId;
+  options: GenerationOptions;
+  sareeGuidance: GuidanceImage[];
+  accessories: {
+    blouse: ImagePayload | null;
+    jewellery: ImagePayload[];
+    footwear: ImagePayload | null;
+  };
+  blouseStyle: BlouseStyle;
+  promptTemplate: PromptTemplateSelection;
+  sareeAttributes: SareeAttributes | null;
+  group: GroupPayload | null;
+}
+
+export interface SareeAnalysisPayload {
+  saree: ImagePayload;
+}
+
+export interface PeopleDetectionPayload {
+  photo: ImagePayload;
+}
+
+export interface RefinePayload {
+  base: TryOnPayload;
+  turns: RefinementTurn[];
+  instruction: string;
+}
+
+// Body of POST /api/try-on
+export type TryOnApiRequest =
+  | { type: 'generate'; request: TryOnPayload }
+  | { type: 'refine'; request: RefinePayload }
+  | { type: 'analyze-saree'; request: SareeAnalysisPayload }
+  | { type: 'detect-people'; request: PeopleDetectionPayload };
+
+// Body of a failed /api/try-on response; successful responses are a TryOnResult
+export interface TryOnApiError {
+  error: {
+    kind: TryOnErrorKind;
+    code?: TryOnErrorCode;
+    params?: MessageParams;
+    message: string;
+    report?: GenerationReport;
+  };
+}
+
+export type TryOnProviderId = 'gemini' | 'mock';
+
+export interface TryOnProvider {
+  id: TryOnProviderId;
+  label: string;
+  generateTryOn: (request: TryOnRequest, signal?: AbortSignal) => Promise<TryOnResult>;
+  refineTryOn: (request: RefineRequest, signal?: AbortSignal) => Promise<TryOnResult>;
+  analyzeSaree: (saree: ImageFile, signal?: AbortSignal) => Promise<SareeAnalysis>;
+  detectPeople: (photo: ImageFile, signal?: AbortSignal) => Promise<PeopleDetection>;
+}
+
+// How multiple candidates for the same request are requested from the provider
+export type VariationMode = 'parallel' | 'sequential';
+
+export interface VariationSettings {
+  count: number;
+  mode: VariationMode;
+}
+
+// Serializable snapshot of an input image, kept small enough for IndexedDB
+export interface StoredImage {
+  name: string;
+  mimeType: string;
+  dataUrl: string;
+  regions?: GuidanceRegion[];
+}
+
+// Group assignment saved with a history entry; `saree` indexes `sarees`
+export interface StoredGroup {
+  people: { box: NormalizedRect; saree: number | null }[];
+  sarees: StoredImage[];
+}
+
+export interface StoredAccessories {
+  blouse?: StoredImage;
+  jewellery: StoredImage[];
+  footwear?: StoredImage;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  human: StoredImage;
+  saree: StoredImage;
+  outputs: string[];
+  // Parallel to `outputs`; missing on entries saved before face verification
+  faceChecks?: (FaceCheck | null)[];
+  favoriteIndex: number | null;
+  drapeStyle: DrapeStyleId;
+  variations: VariationSettings;
+  // Missing on entries saved before output settings existed
+  options?: GenerationOptions;
+  // Refinement tree over `outputs`; missing on entries without refinements
+  versions?: LookVersion[];
+  // Missing on entries saved before accessory inputs existed
+  accessories?: StoredAccessories;
+  blouseStyle?: BlouseStyle;
+  // Prompt templates the outputs were generated with; per-look ids are on `versions`
+  promptTemplateIds?: string[];
+  // Saree attributes added to the prompt, if any
+  sareeAttributes?: SareeAttributes;
+  // Set for group try-ons; `saree` is then the first assigned saree
+  group?: StoredGroup;
+  providerId: TryOnProviderId;
+}
+
+// Inputs and settings of a generation, as persisted in IndexedDB
+export type StoredGeneration = Pick<
+  HistoryEntry,
+  'human' | 'saree' | 'accessories' | 'drapeStyle' | 'blouseStyle' | 'variations' | 'options' | 'sareeAttributes' | 'group'
+>;
+
+export type QueuedGenerationStatus = 'queued' | 'sending' | 'done' | 'failed';
+
+// A generation requested while offline, sent once the connection is back
+export interface QueuedGeneration extends StoredGeneration {
+  id: string;
+  createdAt: number;
+  status: QueuedGenerationStatus;
+  // Last failure; kept on items waiting to be sent again. Items queued by
+  // older versions hold the English message as a plain string.
+  error: AppError | string | null;
+  // History entry holding the looks once sent
+  historyId: string | null;
+}
+
+// Product a storefront passes to the embedded widget (see services/embedProtocol.ts)
+export interface EmbedSaree {
+  // Must be fetchable from the widget: same origin, CORS-enabled or a data: URL
+  imageUrl: string;
+  // Echoed back in every event so the host can tell products apart
+  id?: string;
+  name?: string;
+  // Opaque to the widget, e.g. SKU or price
+  metadata?: Record<string, string | number | boolean>;
+}
+
+// Messages from the host page. Sending `init` again switches the product.
+export type EmbedHostMessage =
+  | { type: 'init'; saree: EmbedSaree; locale?: Locale }
+  | { type: 'reset' };
+
+export type EmbedProtocolErrorCode = 'unsupported-version' | 'invalid-message' | 'saree-load-failed';
+
+// Events the widget posts to the host page
+export type EmbedWidgetEvent =
+  | { type: 'ready' }
+  | { type: 'started'; sareeId: string | null }
+  | { type: 'completed'; sareeId: string | null; images: string[] }
+  | { type: 'failed'; sareeId: string | null; code: TryOnErrorCode; message: string }
+  | { type: 'downloaded'; sareeId: string | null; index: number }
+  | { type: 'resize'; height: number }
+  | { type: 'error'; code: EmbedProtocolErrorCode; message: string };
+
+// A saree in the wardrobe catalog used for batch try-ons
+export interface CatalogItem {
+  id: string;
+  name: string;
+  tags: string[];
+  image: ImageFile;
+  // Filled in by saree analysis; also used for catalog search
+  attributes?: SareeAttributes;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface BatchItemState {
+  itemId: string;
+  status: BatchItemStatus;
+  attempts: number;
+  result: string | null;
+  error: AppError | null;
 }
 
 export interface TryOnState {
   humanImage: ImageFile | null;
   sareeImage: ImageFile | null;
-  generatedImage: string | null;
+  accessories: OutfitAccessories;
+  blouseStyle: BlouseStyle;
+  drapeStyle: DrapeStyleId;
+  variations: VariationSettings;
+  generationOptions: GenerationOptions;
+  generatedImages: string[];
+  // Face verification per generated image, null where it did not run
+  faceChecks: (FaceCheck | null)[];
+  favoriteIndex: number | null;
+  versions: LookVersion[];
+  // Text the model returned alongside the generated images
+  modelNotes: string[];
+  // History entry the current result was saved as, if any
+  historyId: string | null;
   isGenerating: boolean;
-  error: string | null;
+  error: AppError | null;
+}
+
+// Versioned VTO prompt. `body` uses {{variable}} placeholders, see PROMPT_VARIABLES.
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  body: string;
 }
 
-// Extend window for AI Studio specific methods
-declare global {
-  interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
-  }
+// Values substituted into a template body
+export interface PromptVariables {
+  drapeName: string;
+  drapeInstructions: string;
+  guidanceInputs: string;
+  guidanceInstructions: string;
+  outfitInputs: string;
+  outfitSection: string;
+  backgroundInstructions: string;
+  aspectRatio: AspectRatio;
+}
+
+// Which template a request uses; `body` replaces the stored text when edited at runtime
+export interface PromptTemplateSelection {
+  id: string;
+  body?: string;
+}
 
-  interface Window {
-    aistudio?: AIStudio;
-  }
-}
\ No newline at end of file
+export interface PromptSettings {
+  templateId: string;
+  // Alternate variations between `templateId` and this template for A/B comparisons
+  compareTemplateId: string | null;
+  // Runtime edits to template bodies, by template id
+  edits: Record<string, string>;
+}
@@ -1,24 +1,98 @@
-import { ImageFile } from './types';
+import { ImageFile, StoredImage } from './types';
+import { PreprocessOptions, runImagePipeline } from './services/imagePipeline';
 
-export const processFile = (file: File): Promise<ImageFile> => {
+// Every uploaded image goes through the preprocessing pipeline so providers
+// always receive an upright, size-capped JPEG/WebP.
+export const processFile = (file: File, options?: Partial<PreprocessOptions>): Promise<ImageFile> => {
+  return runImagePipeline(file, options);
+};
+
+export const loadImageElement = (src: string, errorMessage = 'Failed to load image.'): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      if (e.target?.result) {
-        const result = e.target.result as string;
-        // split ';base64,' to get raw base64 string
-        const base64 = result.split(',')[1];
-        const mimeType = file.type;
-        
-        resolve({
-          file,
-          previewUrl: result,
-          base64,
-          mimeType
-        });
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(errorMessage));
+    img.src = src;
   });
 };
+
+// Downscales an image data URL so its longest side is at most `maxDimension`
+export const createThumbnail = async (
+  dataUrl: string,
+  maxDimension: number,
+  quality = 0.85
+): Promise<string> => {
+  const img = await loadImageElement(dataUrl);
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+export const toStoredImage = async (image: ImageFile, maxDimension = 1024): Promise<StoredImage> => {
+  const dataUrl = await createThumbnail(image.previewUrl, maxDimension);
+  return { name: image.file.name, mimeType: 'image/jpeg', dataUrl, regions: image.regions };
+};
+
+// Rebuilds an ImageFile (e.g. from history) so it can be sent to a provider again
+export const storedImageToImageFile = async (stored: StoredImage): Promise<ImageFile> => {
+  const blob = await (await fetch(stored.dataUrl)).blob();
+  const file = new File([blob], stored.name, { type: stored.mimeType });
+  const image = await processFile(file);
+  // Regions are normalized, so they survive the thumbnail downscale unchanged
+  return { ...image, regions: stored.regions };
+};
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+};
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries returns results in batches until it yields an empty array
+    let batch = await readDirectoryEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) {
+        files.push(...await collectEntryFiles(child));
+      }
+      batch = await readDirectoryEntries(reader);
+    }
+    return files;
+  }
+  return [];
+};
+
+// Flattens dropped files and folders (recursively) into a list of image files
+export const collectDroppedImageFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(collectEntryFiles))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files.filter(file => file.type.startsWith('image/'));
+};
+
+// Numeric setting from an environment variable; unset, empty or non-numeric
+// values give `fallback`
+export const parseEnvNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// "banarasi_red-silk.jpg" -> "banarasi red silk"
+export const fileNameToLabel = (fileName: string): string => {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+};
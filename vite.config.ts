@@ -1,18 +1,107 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Connect, defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createTryOnHandler, serverConfigFromEnv } from './server/app';
+import { createGeminiModel } from './server/model';
 
-export default defineConfig(({ mode }) => {
+// Mounts the try-on API (server/app.ts) on the dev and preview servers, so the
+// API key stays in this Node process instead of the client bundle. With the
+// developer tools on, it also accepts edited prompt templates from the panel.
+const tryOnApi = (env: Record<string, string>, devTools: boolean): Plugin => {
+  const config = serverConfigFromEnv(env);
+  const handleTryOn = createTryOnHandler({
+    model: createGeminiModel(env.GEMINI_API_KEY),
+    ...config,
+    limits: { ...config.limits, allowCustomPrompts: config.limits.allowCustomPrompts || devTools },
+  });
+  const mount = (middlewares: Connect.Server) => {
+    middlewares.use((req, res, next) => {
+      if (!req.url?.startsWith('/api/')) return next();
+      handleTryOn(req, res).catch(next);
+    });
+  };
+  return {
+    name: 'saree-ai:try-on-api',
+    configureServer: server => mount(server.middlewares),
+    configurePreviewServer: server => mount(server.middlewares),
+  };
+};
+
+// Copies sw.js into client builds with the files to precache, so the app shell
+// loads offline. The cache version changes whenever a built file does.
+const serviceWorker = (): Plugin => ({
+  name: 'saree-ai:service-worker',
+  apply: (config, { command }) => command === 'build' && !config.build?.ssr,
+  generateBundle(_, bundle) {
+    const publicFiles = readdirSync(path.resolve(__dirname, 'public'));
+    // Only the app page is precached, as '/', with the chunks it loads; the
+    // storefront widget needs the API anyway
+    const entry = Object.values(bundle).find(file => file.type === 'chunk' && file.isEntry && file.name === 'main');
+    // Without its module script the page's entry chunk holds only inlined CSS
+    if (entry?.type !== 'chunk' || !entry.moduleIds.some(id => /\.tsx?$/.test(id))) {
+      this.error('index.html does not load the app entry; the service worker would cache an empty shell.');
+    }
+    const appChunks = new Set<string>();
+    const collect = (fileName: string) => {
+      const chunk = bundle[fileName];
+      if (appChunks.has(fileName) || chunk?.type !== 'chunk') return;
+      appChunks.add(fileName);
+      [...chunk.imports, ...chunk.dynamicImports].forEach(collect);
+    };
+    collect(entry.fileName);
+    const builtFiles = Object.values(bundle)
+      .filter(file => file.type === 'chunk' ? appChunks.has(file.fileName) : !/\.(html|map)$/.test(file.fileName))
+      .map(file => file.fileName);
+    const urls = ['/', ...[...publicFiles, ...builtFiles].map(file => `/${file}`)];
+    const template = readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+    const version = createHash('sha256').update(template).update(urls.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('__CACHE_VERSION__', JSON.stringify(version))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls)),
+    });
+  },
+});
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Prompt template panel and template ids on looks; on by default in `npm run dev`
+    const devTools = env.TRYON_DEV_TOOLS ? env.TRYON_DEV_TOOLS === 'true' : mode === 'development';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tryOnApi(env, devTools), serviceWorker()],
+      build: {
+        rollupOptions: {
+          // The app, and the widget storefronts embed in an iframe
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.html'),
+          },
+        },
+      },
+      // Never put GEMINI_API_KEY here: everything in `define` ships to the browser
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Try-on backend selection: "gemini" (default) or "mock" for offline QA/CI
+        'process.env.TRYON_PROVIDER': JSON.stringify(env.TRYON_PROVIDER || 'gemini'),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.MOCK_FAIL_EVERY': JSON.stringify(env.MOCK_FAIL_EVERY),
+        'process.env.MOCK_ERROR_KIND': JSON.stringify(env.MOCK_ERROR_KIND),
+        'process.env.MOCK_ERROR_MESSAGE': JSON.stringify(env.MOCK_ERROR_MESSAGE),
+        // Request lifecycle tuning (see services/requestLifecycle.ts)
+        'process.env.TRYON_TIMEOUT_MS': JSON.stringify(env.TRYON_TIMEOUT_MS),
+        'process.env.TRYON_MAX_RETRIES': JSON.stringify(env.TRYON_MAX_RETRIES),
+        'process.env.TRYON_DEV_TOOLS': JSON.stringify(String(devTools)),
+        // The service worker only exists in builds (see serviceWorker above)
+        'process.env.TRYON_SERVICE_WORKER': JSON.stringify(String(command === 'build')),
+        // Comma-separated storefront origins the embed widget talks to (see services/embedProtocol.ts)
+        'process.env.TRYON_EMBED_ORIGINS': JSON.stringify(env.TRYON_EMBED_ORIGINS || '')
       },
       resolve: {
         alias: {